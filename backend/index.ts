@@ -4,11 +4,28 @@ import "dotenv/config";
 import helloRouter from "./src/routes/hello.ts";
 import authRouter from "./src/routes/auth.ts";
 import incidentRouter from "./src/routes/incidents.ts";
+import commentsRouter from "./src/routes/comments.ts";
+import attachmentsRouter from "./src/routes/attachments.ts";
+import labelsRouter from "./src/routes/labels.ts";
+import incidentLinksRouter from "./src/routes/incidentLinks.ts";
+import watchersRouter from "./src/routes/watchers.ts";
 import usersRouter from "./src/routes/users.ts";
 import adminRouter from "./src/routes/admin.ts";
 import teamsRouter from "./src/routes/teams.ts";
 import dashboardRouter from "./src/routes/dashboard.ts";
+import searchRouter from "./src/routes/search.ts";
+import notificationsRouter from "./src/routes/notifications.ts";
+import webhooksRouter from "./src/routes/webhooks.ts";
+import alertsRouter from "./src/routes/alerts.ts";
+import eventsRouter from "./src/routes/events.ts";
+import oncallRouter from "./src/routes/oncall.ts";
+import templatesRouter from "./src/routes/templates.ts";
+import customFieldsRouter from "./src/routes/customFields.ts";
+import bulkIncidentsRouter from "./src/routes/bulkIncidents.ts";
 import pool from "./src/db/dbPool.ts";
+import { startEmailWorker } from "./src/email/index.ts";
+import { startWebhookWorker } from "./src/webhooks/index.ts";
+import { startEscalationWorker } from "./src/escalation/index.ts";
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -21,11 +38,29 @@ app.use(cookieParser());
 app.use("/hello", helloRouter);
 app.use("/auth", authRouter);
 app.use("/admin", adminRouter);
+// Alert ingestion authenticates with an integration key, it must run before the teams router requires a user token
+app.use("/", alertsRouter);
 app.use("/teams", teamsRouter);
 app.use("/dashboard", dashboardRouter);
+app.use("/search", searchRouter);
+app.use("/notifications", notificationsRouter);
+app.use("/events", eventsRouter);
 app.use("/", incidentRouter);
+app.use("/", bulkIncidentsRouter);
+app.use("/", commentsRouter);
+app.use("/", attachmentsRouter);
+app.use("/", labelsRouter);
+app.use("/", incidentLinksRouter);
+app.use("/", watchersRouter);
+app.use("/", webhooksRouter);
+app.use("/", oncallRouter);
+app.use("/", templatesRouter);
+app.use("/", customFieldsRouter);
 app.use("/", usersRouter);
 
 app.listen(PORT, () => {
   console.log(`Server running at http://localhost:${PORT}`);
+  startEmailWorker();
+  startWebhookWorker();
+  startEscalationWorker();
 });
@@ -0,0 +1,139 @@
+import { createHash } from "node:crypto";
+import type { AlertmanagerAlert, AlertmanagerPayload } from "../types/alert.ts";
+import { IncidentSeverity, IncidentLevel, type IncidentSeverity as Severity, type IncidentLevel as Level } from "../types/incident.ts";
+
+export interface MappedAlert {
+  fingerprint: string;
+  title: string;
+  description: string;
+  severity: Severity;
+}
+
+// Common values of the `severity` label, sev1-sev4 are accepted as is
+const SEVERITY_LABELS: Record<string, Severity> = {
+  critical: IncidentSeverity.SEV1,
+  page: IncidentSeverity.SEV1,
+  high: IncidentSeverity.SEV2,
+  error: IncidentSeverity.SEV2,
+  major: IncidentSeverity.SEV2,
+  warning: IncidentSeverity.SEV3,
+  medium: IncidentSeverity.SEV3,
+  minor: IncidentSeverity.SEV3,
+  low: IncidentSeverity.SEV4,
+  info: IncidentSeverity.SEV4,
+  none: IncidentSeverity.SEV4,
+};
+
+/**
+ * Impact and urgency given to incidents opened by alerts, so the priority follows the severity
+ */
+export const ALERT_CLASSIFICATION: Record<Severity, { impact: Level; urgency: Level }> = {
+  sev1: { impact: IncidentLevel.HIGH, urgency: IncidentLevel.HIGH },
+  sev2: { impact: IncidentLevel.HIGH, urgency: IncidentLevel.MEDIUM },
+  sev3: { impact: IncidentLevel.MEDIUM, urgency: IncidentLevel.MEDIUM },
+  sev4: { impact: IncidentLevel.LOW, urgency: IncidentLevel.LOW },
+};
+
+function mapSeverity(value: string | undefined): Severity {
+  const normalized = value?.trim().toLowerCase() ?? "";
+  if ((Object.values(IncidentSeverity) as string[]).includes(normalized)) {
+    return normalized as Severity;
+  }
+  return SEVERITY_LABELS[normalized] ?? IncidentSeverity.SEV3;
+}
+
+/**
+ * Alertmanager always sends a fingerprint, other senders get one derived from the labels
+ */
+function alertFingerprint(alert: AlertmanagerAlert): string {
+  if (alert.fingerprint && alert.fingerprint.length <= 64) {
+    return alert.fingerprint;
+  }
+  const sortedLabels = Object.keys(alert.labels)
+    .sort()
+    .map((key) => `${key}=${alert.labels[key]}`)
+    .join(",");
+  return createHash("sha256").update(sortedLabels).digest("hex");
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.values(value).every((entry) => typeof entry === "string")
+  );
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === "string";
+}
+
+/**
+ * Check the shape of an Alertmanager webhook body
+ * Labels and annotations must map strings to strings
+ */
+export function isAlertmanagerPayload(body: unknown): body is AlertmanagerPayload {
+  if (!body || typeof body !== "object") {
+    return false;
+  }
+  const payload = body as Record<string, unknown>;
+  if (
+    !Array.isArray(payload.alerts) ||
+    (payload.commonLabels !== undefined && !isStringRecord(payload.commonLabels)) ||
+    (payload.commonAnnotations !== undefined && !isStringRecord(payload.commonAnnotations))
+  ) {
+    return false;
+  }
+  return payload.alerts.every(
+    (alert) =>
+      alert &&
+      (alert.status === "firing" || alert.status === "resolved") &&
+      isStringRecord(alert.labels) &&
+      (alert.annotations === undefined || isStringRecord(alert.annotations)) &&
+      isOptionalString(alert.startsAt) &&
+      isOptionalString(alert.generatorURL) &&
+      isOptionalString(alert.fingerprint)
+  );
+}
+
+/**
+ * Map an alert to incident fields
+ * - title: the `summary` annotation, or the `alertname` label with the `instance`
+ * - description: the `description` annotation, the labels and the source link
+ * - severity: the `severity` label (critical, warning, info, sev1-sev4...), sev3 when missing
+ * Alert values win over the common labels and annotations of the notification
+ */
+export function mapAlert(alert: AlertmanagerAlert, payload: AlertmanagerPayload): MappedAlert {
+  const labels = { ...payload.commonLabels, ...alert.labels };
+  const annotations = { ...payload.commonAnnotations, ...alert.annotations };
+
+  const alertName = labels.alertname || "Alert";
+  const title =
+    annotations.summary?.trim() || (labels.instance ? `${alertName} on ${labels.instance}` : alertName);
+
+  const lines: string[] = [];
+  if (annotations.description?.trim()) {
+    lines.push(annotations.description.trim(), "");
+  }
+  lines.push("Labels:");
+  for (const key of Object.keys(labels).sort()) {
+    lines.push(`- ${key}: ${labels[key]}`);
+  }
+  if (alert.startsAt) {
+    lines.push("", `Firing since: ${alert.startsAt}`);
+  }
+  if (alert.generatorURL) {
+    lines.push(`Source: ${alert.generatorURL}`);
+  }
+  if (annotations.runbook_url) {
+    lines.push(`Runbook: ${annotations.runbook_url}`);
+  }
+
+  return {
+    fingerprint: alertFingerprint(alert),
+    title: title.slice(0, 255),
+    description: lines.join("\n"),
+    severity: mapSeverity(labels.severity),
+  };
+}
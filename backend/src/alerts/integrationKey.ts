@@ -0,0 +1,24 @@
+import { createHash, randomBytes } from "node:crypto";
+
+const KEY_PREFIX = "imk_";
+
+/**
+ * Generate a new integration key, shown to the admin once
+ */
+export function generateIntegrationKey(): string {
+  return KEY_PREFIX + randomBytes(24).toString("hex");
+}
+
+/**
+ * Keys are stored as their SHA-256, they are random enough not to need a salt
+ */
+export function hashIntegrationKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Start of the key, enough to recognise it in the UI
+ */
+export function integrationKeyPrefix(key: string): string {
+  return key.slice(0, KEY_PREFIX.length + 6);
+}
@@ -0,0 +1,94 @@
+import type { Incident } from "../types/incident.ts";
+import { TeamRole } from "../types/teamUser.ts";
+import { AssignmentStrategy, type TeamAssignmentSettings } from "../types/assignment.ts";
+import {
+  getTeamAssignmentSettings,
+  setLastAssignedUser,
+  autoAssignIncident,
+  recordAssignmentDecision,
+} from "../db/assignmentQueries.ts";
+import { findIncidentById, getIncidentsAssignedToUser } from "../db/incidentQueries.ts";
+import { getTeamMembers } from "../db/teamUserQueries.ts";
+import { recordAssignment } from "../incidents/index.ts";
+
+interface AssignmentChoice {
+  userId: number | null;
+  reason: string;
+}
+
+/**
+ * Members with the user role, the ones strategies pick from, by user ID
+ */
+async function getAssignableMembers(teamId: number): Promise<number[]> {
+  const members = await getTeamMembers(teamId);
+  return members
+    .filter((m) => m.role === TeamRole.USER)
+    .map((m) => m.user_id)
+    .sort((a, b) => a - b);
+}
+
+async function chooseAssignee(settings: TeamAssignmentSettings): Promise<AssignmentChoice> {
+  if (settings.strategy === AssignmentStrategy.FIXED) {
+    const members = await getTeamMembers(settings.team_id);
+    const isMember = members.some((m) => m.user_id === settings.default_assignee_user_id);
+
+    if (settings.default_assignee_user_id === null || !isMember) {
+      return { userId: null, reason: "The default assignee is not a member of the team" };
+    }
+    return { userId: settings.default_assignee_user_id, reason: "Team default assignee" };
+  }
+
+  const candidates = await getAssignableMembers(settings.team_id);
+
+  if (candidates.length === 0) {
+    return { userId: null, reason: "The team has no members with the user role" };
+  }
+
+  if (settings.strategy === AssignmentStrategy.ROUND_ROBIN) {
+    const last = settings.last_assigned_user_id;
+    const next = candidates.find((userId) => last === null || userId > last) ?? candidates[0];
+    await setLastAssignedUser(settings.team_id, next);
+    return { userId: next, reason: `Round-robin turn among ${candidates.length} member(s)` };
+  }
+
+  // Least open: open incidents assigned across all of the member's teams, ties go to the lowest user ID
+  let best = { userId: candidates[0], open: Infinity };
+  for (const userId of candidates) {
+    const open = (await getIncidentsAssignedToUser(userId)).length;
+    if (open < best.open) {
+      best = { userId, open };
+    }
+  }
+  return { userId: best.userId, reason: `Fewest open incidents (${best.open})` };
+}
+
+/**
+ * Assign a new incident with its team's strategy, when it has one and the incident has no assignee
+ * Each decision is logged, and assignments are recorded in the incident history
+ * Failures are logged, they never fail the request that created the incident
+ * @returns The incident after the assignment
+ */
+export async function applyAssignmentStrategy(incident: Incident): Promise<Incident> {
+  try {
+    const settings = await getTeamAssignmentSettings(incident.team_id);
+
+    if (settings.strategy === AssignmentStrategy.NONE || incident.assigned_to_user_id !== null) {
+      return incident;
+    }
+
+    const { userId, reason } = await chooseAssignee(settings);
+    await recordAssignmentDecision(incident.team_id, incident.id, settings.strategy, userId, reason);
+
+    if (userId === null) {
+      return incident;
+    }
+
+    await autoAssignIncident(incident.id, userId);
+    await recordAssignment(incident, userId, null, `Auto-assigned: ${reason}`);
+
+    return (await findIncidentById(incident.id)) ?? incident;
+  } catch (error) {
+    console.error("Auto-assignment error:", error);
+    return incident;
+  }
+}
@@ -2,6 +2,8 @@ import type { Request, Response, NextFunction } from "express";
 import type { AuthenticatedRequest } from "./authMiddleware.ts";
 import type { TeamRole } from "../types/teamUser.ts";
 import type { Incident } from "../types/incident.ts";
+import type { Comment } from "../types/comment.ts";
+import type { Attachment } from "../types/attachment.ts";
 import { TeamRole as Roles } from "../types/teamUser.ts";
 import { getUserRoleInTeam } from "../db/teamUserQueries.ts";
 
@@ -13,7 +15,13 @@ export const IncidentPermission = {
   VIEW: "view",
   EDIT_STATUS: "edit_status",
   ASSIGN: "assign",
+  SET_SEVERITY: "set_severity",
   DELETE: "delete",
+  MODERATE_COMMENTS: "moderate_comments",
+  MANAGE_ATTACHMENTS: "manage_attachments",
+  MANAGE_LABELS: "manage_labels",
+  LABEL: "label",
+  LINK: "link",
 } as const;
 
 export type IncidentPermission = (typeof IncidentPermission)[keyof typeof IncidentPermission];
@@ -58,6 +66,13 @@ export function hasIncidentPermission(
       }
       return false;
 
+    case IncidentPermission.SET_SEVERITY:
+      // Users can only reclassify incidents assigned to them
+      if (incident && userId) {
+        return incident.assigned_to_user_id === userId;
+      }
+      return false;
+
     case IncidentPermission.ASSIGN:
       // Regular users cannot assign incidents
       return false;
@@ -66,6 +81,32 @@ export function hasIncidentPermission(
       // Only admins can delete (handled above)
       return false;
 
+    case IncidentPermission.MODERATE_COMMENTS:
+      // Regular users can only edit or delete their own comments
+      return false;
+
+    case IncidentPermission.MANAGE_ATTACHMENTS:
+      // Regular users can only delete their own attachments
+      return false;
+
+    case IncidentPermission.MANAGE_LABELS:
+      // Only managers/admins maintain the team's label catalogue
+      return false;
+
+    case IncidentPermission.LABEL:
+      // Users can label incidents they reported or are assigned to
+      if (incident && userId) {
+        return incident.reported_by_user_id === userId || incident.assigned_to_user_id === userId;
+      }
+      return false;
+
+    case IncidentPermission.LINK:
+      // Users can link incidents they reported or are assigned to
+      if (incident && userId) {
+        return incident.reported_by_user_id === userId || incident.assigned_to_user_id === userId;
+      }
+      return false;
+
     default:
       return false;
   }
@@ -78,6 +119,20 @@ export function canEditOwnIncident(incident: Incident, userId: number): boolean
   return incident.reported_by_user_id === userId;
 }
 
+/**
+ * Check if a user can edit or delete their own comment
+ */
+export function canEditOwnComment(comment: Comment, userId: number): boolean {
+  return comment.user_id === userId;
+}
+
+/**
+ * Check if a user can delete their own attachment
+ */
+export function canDeleteOwnAttachment(attachment: Attachment, userId: number): boolean {
+  return attachment.uploaded_by_user_id === userId;
+}
+
 /**
  * Middleware factory to require a specific role in a team
  * Expects teamId to be in req.params.teamId or req.body.teamId
@@ -170,6 +225,8 @@ export function requireTeamMembership() {
 export default {
   hasIncidentPermission,
   canEditOwnIncident,
+  canEditOwnComment,
+  canDeleteOwnAttachment,
   requireTeamRole,
   requireTeamMembership,
 };
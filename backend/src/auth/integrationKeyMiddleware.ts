@@ -0,0 +1,69 @@
+import type { Request, Response, NextFunction } from "express";
+import { findTeamIntegrationKeyByHash, touchTeamIntegrationKey } from "../db/alertQueries.ts";
+import { hashIntegrationKey } from "../alerts/integrationKey.ts";
+import type { TeamIntegrationKey } from "../types/alert.ts";
+
+/**
+ * Request authenticated with a team integration key instead of a user token
+ */
+export interface IntegrationRequest extends Request {
+  integrationKey: TeamIntegrationKey;
+}
+
+/**
+ * Middleware that requires the team's integration key
+ * Read from the Authorization header (Bearer) or the X-Integration-Key header,
+ * never from the URL where it would end up in access logs
+ */
+export async function requireIntegrationKey(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const teamId = parseInt(req.params.teamId, 10);
+    let key: string | undefined;
+
+    const authHeader = req.headers.authorization;
+    if (authHeader) {
+      const [bearer, headerKey] = authHeader.split(" ");
+      if (bearer === "Bearer" && headerKey) {
+        key = headerKey;
+      }
+    }
+
+    const keyHeader = req.headers["x-integration-key"];
+    if (!key && typeof keyHeader === "string" && keyHeader) {
+      key = keyHeader;
+    }
+
+    if (!key || isNaN(teamId)) {
+      res.status(401).json({
+        success: false,
+        message: "Integration key required",
+      });
+      return;
+    }
+
+    const integrationKey = await findTeamIntegrationKeyByHash(teamId, hashIntegrationKey(key));
+
+    if (!integrationKey) {
+      res.status(401).json({
+        success: false,
+        message: "Invalid integration key",
+      });
+      return;
+    }
+
+    await touchTeamIntegrationKey(teamId);
+    (req as IntegrationRequest).integrationKey = integrationKey;
+
+    next();
+  } catch (error) {
+    console.error("Integration key middleware error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import { CustomFieldType, type CustomField } from "../types/customField.ts";
+
+const MAX_CUSTOM_FIELD_VALUE_LENGTH = 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Normalise a value for storage, user values are only checked to be user IDs
+ * @returns The stored form, or null when the value does not fit the field
+ */
+export function normalizeCustomFieldValue(field: CustomField, value: unknown): string | null {
+  switch (field.field_type) {
+    case CustomFieldType.TEXT: {
+      if (typeof value !== "string") return null;
+      const text = value.trim();
+      return text !== "" && text.length <= MAX_CUSTOM_FIELD_VALUE_LENGTH ? text : null;
+    }
+    case CustomFieldType.NUMBER: {
+      const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      return typeof number === "number" && Number.isFinite(number) ? String(number) : null;
+    }
+    case CustomFieldType.SELECT:
+      return typeof value === "string" && field.options.includes(value) ? value : null;
+    case CustomFieldType.DATE:
+      // The round trip rejects days that do not exist, like 2024-02-31
+      return typeof value === "string" &&
+        DATE_PATTERN.test(value) &&
+        !isNaN(Date.parse(value)) &&
+        new Date(value).toISOString().slice(0, 10) === value
+        ? value
+        : null;
+    case CustomFieldType.USER: {
+      const userId = typeof value === "string" && /^\d+$/.test(value) ? Number(value) : value;
+      return Number.isInteger(userId) && (userId as number) > 0 ? String(userId) : null;
+    }
+  }
+}
+
+/**
+ * Convert a stored value back to its typed form
+ */
+export function parseStoredCustomFieldValue(fieldType: CustomFieldType, stored: string): string | number {
+  return fieldType === CustomFieldType.NUMBER || fieldType === CustomFieldType.USER ? Number(stored) : stored;
+}
@@ -0,0 +1,129 @@
+import pool from "./dbPool.ts";
+import type { IncidentAlert, TeamIntegrationKey } from "../types/alert.ts";
+import type { RowDataPacket, ResultSetHeader } from "mysql2";
+
+interface TeamIntegrationKeyRow extends RowDataPacket, TeamIntegrationKey {}
+interface IncidentAlertRow extends RowDataPacket, IncidentAlert {}
+
+/**
+ * Get a team's integration key details, without the hash
+ */
+export async function getTeamIntegrationKey(teamId: number): Promise<TeamIntegrationKey | null> {
+  const [rows] = await pool.query<TeamIntegrationKeyRow[]>(
+    `SELECT team_id, key_prefix, created_by_user_id, created_at, last_used_at
+     FROM team_integration_key WHERE team_id = ?`,
+    [teamId]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return rows[0];
+}
+
+/**
+ * Find the team key matching a key hash
+ */
+export async function findTeamIntegrationKeyByHash(
+  teamId: number,
+  keyHash: string
+): Promise<TeamIntegrationKey | null> {
+  const [rows] = await pool.query<TeamIntegrationKeyRow[]>(
+    `SELECT team_id, key_prefix, created_by_user_id, created_at, last_used_at
+     FROM team_integration_key WHERE team_id = ? AND key_hash = ?`,
+    [teamId, keyHash]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return rows[0];
+}
+
+/**
+ * Set a team's integration key, replacing the previous one
+ */
+export async function setTeamIntegrationKey(
+  teamId: number,
+  keyHash: string,
+  keyPrefix: string,
+  createdByUserId: number
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO team_integration_key (team_id, key_hash, key_prefix, created_by_user_id)
+     VALUES (?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+       key_hash = VALUES(key_hash),
+       key_prefix = VALUES(key_prefix),
+       created_by_user_id = VALUES(created_by_user_id),
+       created_at = CURRENT_TIMESTAMP,
+       last_used_at = NULL`,
+    [teamId, keyHash, keyPrefix, createdByUserId]
+  );
+}
+
+/**
+ * Revoke a team's integration key
+ */
+export async function deleteTeamIntegrationKey(teamId: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "DELETE FROM team_integration_key WHERE team_id = ?",
+    [teamId]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Record that a team's integration key was used
+ */
+export async function touchTeamIntegrationKey(teamId: number): Promise<void> {
+  await pool.query(
+    "UPDATE team_integration_key SET last_used_at = CURRENT_TIMESTAMP WHERE team_id = ?",
+    [teamId]
+  );
+}
+
+/**
+ * Find the alert link of the unresolved, non-archived incident opened by a fingerprint
+ */
+export async function findOpenIncidentAlert(teamId: number, fingerprint: string): Promise<IncidentAlert | null> {
+  const [rows] = await pool.query<IncidentAlertRow[]>(
+    `SELECT a.id, a.incident_id, a.team_id, a.fingerprint, a.occurrences, a.first_received_at, a.last_received_at
+     FROM incident_alert a
+     INNER JOIN incident i ON i.id = a.incident_id
+     WHERE a.team_id = ? AND a.fingerprint = ? AND i.team_id = a.team_id
+       AND i.status <> 'resolved' AND i.archived_at IS NULL
+     ORDER BY a.id DESC
+     LIMIT 1`,
+    [teamId, fingerprint]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return rows[0];
+}
+
+/**
+ * Remember which alert fingerprint opened an incident
+ */
+export async function createIncidentAlert(incidentId: number, teamId: number, fingerprint: string): Promise<void> {
+  await pool.query(
+    "INSERT INTO incident_alert (incident_id, team_id, fingerprint) VALUES (?, ?, ?)",
+    [incidentId, teamId, fingerprint]
+  );
+}
+
+/**
+ * Count another occurrence of an alert
+ */
+export async function recordAlertOccurrence(id: number): Promise<void> {
+  await pool.query(
+    "UPDATE incident_alert SET occurrences = occurrences + 1, last_received_at = CURRENT_TIMESTAMP WHERE id = ?",
+    [id]
+  );
+}
@@ -0,0 +1,102 @@
+import pool from "./dbPool.ts";
+import {
+  AssignmentStrategy,
+  type AssignmentDecision,
+  type TeamAssignmentSettings,
+} from "../types/assignment.ts";
+import type { RowDataPacket } from "mysql2";
+
+interface TeamAssignmentSettingsRow extends RowDataPacket, TeamAssignmentSettings {}
+
+interface AssignmentDecisionRow extends RowDataPacket, AssignmentDecision {}
+
+/**
+ * Get a team's assignment settings, teams that never set them use no strategy
+ */
+export async function getTeamAssignmentSettings(teamId: number): Promise<TeamAssignmentSettings> {
+  const [rows] = await pool.query<TeamAssignmentSettingsRow[]>(
+    `SELECT team_id, strategy, default_assignee_user_id, last_assigned_user_id
+     FROM team_assignment_strategy WHERE team_id = ?`,
+    [teamId]
+  );
+
+  if (rows.length === 0) {
+    return {
+      team_id: teamId,
+      strategy: AssignmentStrategy.NONE,
+      default_assignee_user_id: null,
+      last_assigned_user_id: null,
+    };
+  }
+
+  return rows[0];
+}
+
+/**
+ * Set a team's assignment strategy
+ * The round-robin position is kept so switching back continues where it stopped
+ */
+export async function setTeamAssignmentSettings(
+  teamId: number,
+  strategy: AssignmentStrategy,
+  defaultAssigneeUserId: number | null
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO team_assignment_strategy (team_id, strategy, default_assignee_user_id)
+     VALUES (?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+       strategy = VALUES(strategy),
+       default_assignee_user_id = VALUES(default_assignee_user_id)`,
+    [teamId, strategy, defaultAssigneeUserId]
+  );
+}
+
+/**
+ * Remember the member picked last by round-robin
+ */
+export async function setLastAssignedUser(teamId: number, userId: number): Promise<void> {
+  await pool.query("UPDATE team_assignment_strategy SET last_assigned_user_id = ? WHERE team_id = ?", [
+    userId,
+    teamId,
+  ]);
+}
+
+/**
+ * Assign an incident without counting it as its first response, nobody has looked at it yet
+ */
+export async function autoAssignIncident(incidentId: number, userId: number): Promise<void> {
+  await pool.query("UPDATE incident SET assigned_to_user_id = ? WHERE id = ?", [userId, incidentId]);
+}
+
+/**
+ * Log the outcome of an automatic assignment
+ */
+export async function recordAssignmentDecision(
+  teamId: number,
+  incidentId: number,
+  strategy: AssignmentDecision["strategy"],
+  assignedUserId: number | null,
+  reason: string
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO assignment_decision (team_id, incident_id, strategy, assigned_user_id, reason)
+     VALUES (?, ?, ?, ?, ?)`,
+    [teamId, incidentId, strategy, assignedUserId, reason.slice(0, 255)]
+  );
+}
+
+/**
+ * Get a team's latest assignment decisions, newest first
+ */
+export async function getTeamAssignmentDecisions(teamId: number, limit = 50): Promise<AssignmentDecision[]> {
+  const [rows] = await pool.query<AssignmentDecisionRow[]>(
+    `SELECT id, team_id, incident_id, strategy, assigned_user_id, reason, created_at
+     FROM assignment_decision
+     WHERE team_id = ?
+     ORDER BY id DESC
+     LIMIT ?`,
+    [teamId, limit]
+  );
+
+  return rows;
+}
@@ -0,0 +1,86 @@
+import pool from "./dbPool.ts";
+import type { Attachment, AttachmentWithUploader } from "../types/attachment.ts";
+import type { RowDataPacket, ResultSetHeader } from "mysql2";
+
+interface AttachmentRow extends RowDataPacket, Attachment {}
+
+interface AttachmentWithUploaderRow extends RowDataPacket, AttachmentWithUploader {}
+
+const ATTACHMENT_COLUMNS =
+  "a.id, a.incident_id, a.uploaded_by_user_id, a.file_name, a.mime_type, a.size_bytes, a.storage_key, a.created_at";
+
+/**
+ * Record an uploaded attachment
+ */
+export async function createAttachment(
+  incidentId: number,
+  uploadedByUserId: number,
+  fileName: string,
+  mimeType: string,
+  sizeBytes: number,
+  storageKey: string
+): Promise<AttachmentWithUploader> {
+  const [result] = await pool.query<ResultSetHeader>(
+    `INSERT INTO attachment (incident_id, uploaded_by_user_id, file_name, mime_type, size_bytes, storage_key)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [incidentId, uploadedByUserId, fileName, mimeType, sizeBytes, storageKey]
+  );
+
+  const [rows] = await pool.query<AttachmentWithUploaderRow[]>(
+    `SELECT ${ATTACHMENT_COLUMNS}, u.name as uploader_name
+     FROM attachment a
+     INNER JOIN users u ON a.uploaded_by_user_id = u.id
+     WHERE a.id = ?`,
+    [result.insertId]
+  );
+
+  if (rows.length === 0) {
+    throw new Error("Failed to create attachment");
+  }
+
+  return rows[0];
+}
+
+/**
+ * Find an attachment by ID
+ */
+export async function findAttachmentById(id: number): Promise<Attachment | null> {
+  const [rows] = await pool.query<AttachmentRow[]>(
+    `SELECT ${ATTACHMENT_COLUMNS} FROM attachment a WHERE a.id = ?`,
+    [id]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return rows[0];
+}
+
+/**
+ * Get the attachments of an incident, oldest first
+ */
+export async function getIncidentAttachments(incidentId: number): Promise<AttachmentWithUploader[]> {
+  const [rows] = await pool.query<AttachmentWithUploaderRow[]>(
+    `SELECT ${ATTACHMENT_COLUMNS}, u.name as uploader_name
+     FROM attachment a
+     INNER JOIN users u ON a.uploaded_by_user_id = u.id
+     WHERE a.incident_id = ?
+     ORDER BY a.created_at ASC, a.id ASC`,
+    [incidentId]
+  );
+
+  return rows;
+}
+
+/**
+ * Delete an attachment record
+ */
+export async function deleteAttachment(id: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "DELETE FROM attachment WHERE id = ?",
+    [id]
+  );
+
+  return result.affectedRows > 0;
+}
@@ -0,0 +1,107 @@
+import pool from "./dbPool.ts";
+import type { Comment, CommentWithAuthor } from "../types/comment.ts";
+import type { RowDataPacket, ResultSetHeader } from "mysql2";
+
+interface CommentRow extends RowDataPacket, Comment {}
+
+interface CommentWithAuthorRow extends RowDataPacket, CommentWithAuthor {}
+
+/**
+ * Create a new comment on an incident
+ */
+export async function createComment(
+  incidentId: number,
+  userId: number,
+  content: string,
+  parentCommentId: number | null = null
+): Promise<CommentWithAuthor> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "INSERT INTO comment (incident_id, user_id, content, parent_comment_id) VALUES (?, ?, ?, ?)",
+    [incidentId, userId, content, parentCommentId]
+  );
+
+  const comment = await findCommentWithAuthorById(result.insertId);
+  if (!comment) {
+    throw new Error("Failed to create comment");
+  }
+
+  return comment;
+}
+
+/**
+ * Find a comment by ID
+ */
+export async function findCommentById(id: number): Promise<Comment | null> {
+  const [rows] = await pool.query<CommentRow[]>(
+    "SELECT id, user_id, content, incident_id, parent_comment_id, created_at, updated_at FROM comment WHERE id = ?",
+    [id]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return rows[0];
+}
+
+/**
+ * Find a comment by ID, including the author's name
+ */
+export async function findCommentWithAuthorById(id: number): Promise<CommentWithAuthor | null> {
+  const [rows] = await pool.query<CommentWithAuthorRow[]>(
+    `SELECT c.id, c.user_id, c.content, c.incident_id, c.parent_comment_id, c.created_at, c.updated_at, u.name as user_name
+     FROM comment c
+     INNER JOIN users u ON c.user_id = u.id
+     WHERE c.id = ?`,
+    [id]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return rows[0];
+}
+
+/**
+ * Get all comments of an incident, oldest first
+ */
+export async function getIncidentComments(incidentId: number): Promise<CommentWithAuthor[]> {
+  const [rows] = await pool.query<CommentWithAuthorRow[]>(
+    `SELECT c.id, c.user_id, c.content, c.incident_id, c.parent_comment_id, c.created_at, c.updated_at, u.name as user_name
+     FROM comment c
+     INNER JOIN users u ON c.user_id = u.id
+     WHERE c.incident_id = ?
+     ORDER BY c.created_at ASC, c.id ASC`,
+    [incidentId]
+  );
+
+  return rows;
+}
+
+/**
+ * Update comment content
+ */
+export async function updateCommentContent(
+  id: number,
+  content: string
+): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "UPDATE comment SET content = ? WHERE id = ?",
+    [content, id]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Delete a comment (replies are removed with it)
+ */
+export async function deleteComment(id: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "DELETE FROM comment WHERE id = ?",
+    [id]
+  );
+
+  return result.affectedRows > 0;
+}
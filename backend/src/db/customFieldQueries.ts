@@ -0,0 +1,198 @@
+import pool from "./dbPool.ts";
+import type { CustomField, CustomFieldType, CustomFieldValues } from "../types/customField.ts";
+import { parseStoredCustomFieldValue } from "../customFields/index.ts";
+import type { Incident } from "../types/incident.ts";
+import type { RowDataPacket, ResultSetHeader } from "mysql2";
+
+interface CustomFieldRow extends RowDataPacket {
+  id: number;
+  team_id: number;
+  name: string;
+  field_type: CustomFieldType;
+  options: string | null;
+  is_required: number;
+  created_at: Date;
+}
+
+interface CustomFieldValueRow extends RowDataPacket {
+  incident_id: number;
+  field_id: number;
+  field_type: CustomFieldType;
+  value: string;
+}
+
+const CUSTOM_FIELD_COLUMNS = "id, team_id, name, field_type, options, is_required, created_at";
+
+function toCustomField(row: CustomFieldRow): CustomField {
+  return {
+    id: row.id,
+    team_id: row.team_id,
+    name: row.name,
+    field_type: row.field_type,
+    options: row.options ? (JSON.parse(row.options) as string[]) : [],
+    is_required: Boolean(row.is_required),
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Get a team's custom fields, in creation order
+ */
+export async function getTeamCustomFields(teamId: number): Promise<CustomField[]> {
+  const [rows] = await pool.query<CustomFieldRow[]>(
+    `SELECT ${CUSTOM_FIELD_COLUMNS} FROM team_custom_field WHERE team_id = ? ORDER BY id ASC`,
+    [teamId]
+  );
+
+  return rows.map(toCustomField);
+}
+
+/**
+ * Find a custom field by ID
+ */
+export async function findCustomFieldById(id: number): Promise<CustomField | null> {
+  const [rows] = await pool.query<CustomFieldRow[]>(
+    `SELECT ${CUSTOM_FIELD_COLUMNS} FROM team_custom_field WHERE id = ?`,
+    [id]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return toCustomField(rows[0]);
+}
+
+/**
+ * Find a team's custom field by name (case-insensitive)
+ */
+export async function findTeamCustomFieldByName(teamId: number, name: string): Promise<CustomField | null> {
+  const [rows] = await pool.query<CustomFieldRow[]>(
+    `SELECT ${CUSTOM_FIELD_COLUMNS} FROM team_custom_field WHERE team_id = ? AND LOWER(name) = LOWER(?)`,
+    [teamId, name]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return toCustomField(rows[0]);
+}
+
+/**
+ * Add a custom field to a team's incidents
+ */
+export async function createCustomField(
+  teamId: number,
+  name: string,
+  fieldType: CustomFieldType,
+  options: string[],
+  isRequired: boolean
+): Promise<CustomField> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "INSERT INTO team_custom_field (team_id, name, field_type, options, is_required) VALUES (?, ?, ?, ?, ?)",
+    [teamId, name, fieldType, options.length > 0 ? JSON.stringify(options) : null, isRequired]
+  );
+
+  const field = await findCustomFieldById(result.insertId);
+  if (!field) {
+    throw new Error("Failed to create custom field");
+  }
+
+  return field;
+}
+
+/**
+ * Rename a custom field, change its options or whether it is required
+ * The type cannot change, stored values would no longer fit it
+ */
+export async function updateCustomField(
+  id: number,
+  name: string,
+  options: string[],
+  isRequired: boolean
+): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "UPDATE team_custom_field SET name = ?, options = ?, is_required = ? WHERE id = ?",
+    [name, options.length > 0 ? JSON.stringify(options) : null, isRequired, id]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Delete a custom field with its values on every incident
+ */
+export async function deleteCustomField(id: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>("DELETE FROM team_custom_field WHERE id = ?", [id]);
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Set or clear the value of a custom field on an incident
+ * @param value - The normalised value, or null to clear it
+ */
+export async function setIncidentCustomFieldValue(
+  incidentId: number,
+  fieldId: number,
+  value: string | null
+): Promise<void> {
+  if (value === null) {
+    await pool.query(
+      "DELETE FROM incident_custom_field_value WHERE incident_id = ? AND field_id = ?",
+      [incidentId, fieldId]
+    );
+    return;
+  }
+
+  await pool.query(
+    `INSERT INTO incident_custom_field_value (incident_id, field_id, value) VALUES (?, ?, ?)
+     ON DUPLICATE KEY UPDATE value = VALUES(value)`,
+    [incidentId, fieldId, value]
+  );
+}
+
+/**
+ * Load the custom field values of several incidents in one query and add them to each incident
+ * Values of fields from another team (after a transfer) are left out
+ * @returns The same incidents with a `custom_fields` object keyed by field ID
+ */
+export async function withCustomFields<T extends Incident>(
+  incidents: T[]
+): Promise<(T & { custom_fields: CustomFieldValues })[]> {
+  if (incidents.length === 0) {
+    return [];
+  }
+
+  const [rows] = await pool.query<CustomFieldValueRow[]>(
+    `SELECT v.incident_id, v.field_id, f.field_type, v.value
+     FROM incident_custom_field_value v
+     INNER JOIN team_custom_field f ON f.id = v.field_id
+     INNER JOIN incident i ON i.id = v.incident_id AND i.team_id = f.team_id
+     WHERE v.incident_id IN (?)`,
+    [incidents.map((incident) => incident.id)]
+  );
+
+  const valuesByIncident = new Map<number, CustomFieldValues>();
+  for (const row of rows) {
+    const values = valuesByIncident.get(row.incident_id) ?? {};
+    values[row.field_id] = parseStoredCustomFieldValue(row.field_type, row.value);
+    valuesByIncident.set(row.incident_id, values);
+  }
+
+  return incidents.map((incident) => ({
+    ...incident,
+    custom_fields: valuesByIncident.get(incident.id) ?? {},
+  }));
+}
+
+/**
+ * Add its custom field values to a single incident
+ */
+export async function withIncidentCustomFields<T extends Incident>(
+  incident: T
+): Promise<T & { custom_fields: CustomFieldValues }> {
+  const [decorated] = await withCustomFields([incident]);
+  return decorated;
+}
@@ -0,0 +1,109 @@
+import pool from "./dbPool.ts";
+import type { QueuedEmail, EmailRecipient } from "../types/email.ts";
+import type { RowDataPacket, ResultSetHeader } from "mysql2";
+
+interface QueuedEmailRow extends RowDataPacket, QueuedEmail {}
+interface EmailRecipientRow extends RowDataPacket, EmailRecipient {}
+
+/**
+ * Add an email to the outbox, it is sent by the email worker
+ */
+export async function queueEmail(toAddress: string, subject: string, body: string): Promise<void> {
+  await pool.query(
+    "INSERT INTO email_outbox (to_address, subject, body) VALUES (?, ?, ?)",
+    [toAddress, subject, body]
+  );
+}
+
+/**
+ * Get emails waiting to be sent whose next attempt is due, oldest first
+ */
+export async function getDueEmails(limit: number): Promise<QueuedEmail[]> {
+  const [rows] = await pool.query<QueuedEmailRow[]>(
+    `SELECT id, to_address, subject, body, attempts, last_error, next_attempt_at, sent_at, failed_at, created_at
+     FROM email_outbox
+     WHERE sent_at IS NULL AND failed_at IS NULL AND next_attempt_at <= CURRENT_TIMESTAMP
+     ORDER BY next_attempt_at ASC, id ASC
+     LIMIT ?`,
+    [limit]
+  );
+
+  return rows;
+}
+
+/**
+ * Mark an email as sent
+ */
+export async function markEmailSent(id: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "UPDATE email_outbox SET sent_at = CURRENT_TIMESTAMP, attempts = attempts + 1 WHERE id = ?",
+    [id]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Record a failed attempt
+ * @param id - The email's ID
+ * @param error - Why the attempt failed
+ * @param retryInSeconds - Delay before the next attempt, null to give up
+ */
+export async function markEmailAttemptFailed(
+  id: number,
+  error: string,
+  retryInSeconds: number | null
+): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    retryInSeconds === null
+      ? `UPDATE email_outbox
+         SET attempts = attempts + 1, last_error = ?, failed_at = CURRENT_TIMESTAMP
+         WHERE id = ?`
+      : `UPDATE email_outbox
+         SET attempts = attempts + 1, last_error = ?,
+             next_attempt_at = CURRENT_TIMESTAMP + INTERVAL ? SECOND
+         WHERE id = ?`,
+    retryInSeconds === null ? [error, id] : [error, retryInSeconds, id]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Get the users among userIds that did not opt out of email notifications
+ */
+export async function getEmailRecipients(userIds: number[]): Promise<EmailRecipient[]> {
+  if (userIds.length === 0) {
+    return [];
+  }
+
+  const [rows] = await pool.query<EmailRecipientRow[]>(
+    "SELECT id, name, email FROM users WHERE id IN (?) AND email_notifications = TRUE",
+    [userIds]
+  );
+
+  return rows;
+}
+
+/**
+ * Get the watchers of an incident that did not opt out of email notifications
+ * Only members of the incident's team are returned
+ * @param incidentId - The incident's ID
+ * @param excludeUserId - User left out, usually the one who made the change
+ */
+export async function getWatcherEmailRecipients(
+  incidentId: number,
+  excludeUserId: number | null
+): Promise<EmailRecipient[]> {
+  const [rows] = await pool.query<EmailRecipientRow[]>(
+    `SELECT u.id, u.name, u.email
+     FROM incident_watcher w
+     INNER JOIN incident i ON i.id = w.incident_id
+     INNER JOIN team_user tu ON tu.team_id = i.team_id AND tu.user_id = w.user_id
+     INNER JOIN users u ON u.id = w.user_id
+     WHERE w.incident_id = ? AND u.email_notifications = TRUE${excludeUserId === null ? "" : " AND u.id <> ?"}`,
+    excludeUserId === null ? [incidentId] : [incidentId, excludeUserId]
+  );
+
+  return rows;
+}
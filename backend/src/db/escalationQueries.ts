@@ -0,0 +1,134 @@
+import pool from "./dbPool.ts";
+import type { EscalationLevel } from "../types/escalation.ts";
+import type { Incident } from "../types/incident.ts";
+import type { RowDataPacket, ResultSetHeader } from "mysql2";
+
+interface EscalationLevelRow extends RowDataPacket, EscalationLevel {
+  team_id: number;
+}
+
+export interface EscalationCandidate extends Incident {
+  // Highest level already reached, 0 for none
+  escalation_level: number;
+}
+
+interface EscalationCandidateRow extends RowDataPacket, EscalationCandidate {}
+
+const INCIDENT_COLUMNS =
+  "i.id, i.title, i.description, i.status, i.severity, i.impact, i.urgency, i.priority, i.team_id, i.reported_by_user_id, i.assigned_to_user_id, i.created_at, i.updated_at, i.first_response_at, i.resolved_at, i.archived_at, i.archived_by_user_id";
+
+function toLevel(row: EscalationLevelRow): EscalationLevel {
+  return {
+    level: row.level,
+    delay_minutes: row.delay_minutes,
+    target_type: row.target_type,
+    target_user_id: row.target_user_id,
+    target_team_id: row.target_team_id,
+  };
+}
+
+/**
+ * Get a team's escalation policy, in level order
+ */
+export async function getTeamEscalationLevels(teamId: number): Promise<EscalationLevel[]> {
+  const [rows] = await pool.query<EscalationLevelRow[]>(
+    `SELECT team_id, level, delay_minutes, target_type, target_user_id, target_team_id
+     FROM team_escalation_level
+     WHERE team_id = ?
+     ORDER BY level ASC`,
+    [teamId]
+  );
+
+  return rows.map(toLevel);
+}
+
+/**
+ * Replace a team's escalation policy, an empty list disables escalation
+ * @param levels - The levels in order, they are renumbered from 1
+ */
+export async function replaceTeamEscalationLevels(
+  teamId: number,
+  levels: Omit<EscalationLevel, "level">[]
+): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    await connection.beginTransaction();
+    await connection.query("DELETE FROM team_escalation_level WHERE team_id = ?", [teamId]);
+
+    if (levels.length > 0) {
+      await connection.query(
+        `INSERT INTO team_escalation_level (team_id, level, delay_minutes, target_type, target_user_id, target_team_id)
+         VALUES ?`,
+        [
+          levels.map((l, index) => [
+            teamId,
+            index + 1,
+            l.delay_minutes,
+            l.target_type,
+            l.target_user_id,
+            l.target_team_id,
+          ]),
+        ]
+      );
+    }
+
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
+
+/**
+ * Get open, unacknowledged incidents whose next escalation level is due,
+ * with the highest escalation level each one reached
+ * The due time is the incident's creation plus the delays of every level up to the next one,
+ * the most overdue incidents come first so a full batch never holds back a due level
+ */
+export async function getEscalationCandidates(limit: number): Promise<EscalationCandidate[]> {
+  const [rows] = await pool.query<EscalationCandidateRow[]>(
+    `SELECT ${INCIDENT_COLUMNS}, r.escalation_level
+     FROM incident i
+     JOIN (
+       SELECT o.id AS incident_id, COALESCE(MAX(e.level), 0) AS escalation_level
+       FROM incident o
+       LEFT JOIN incident_escalation e ON e.incident_id = o.id
+       WHERE o.status <> 'resolved'
+         AND o.archived_at IS NULL
+         AND o.first_response_at IS NULL
+       GROUP BY o.id
+     ) r ON r.incident_id = i.id
+     JOIN team_escalation_level l ON l.team_id = i.team_id AND l.level <= r.escalation_level + 1
+     GROUP BY i.id, r.escalation_level
+     HAVING MAX(l.level) = r.escalation_level + 1
+        AND i.created_at + INTERVAL SUM(l.delay_minutes) MINUTE <= NOW()
+     ORDER BY i.created_at + INTERVAL SUM(l.delay_minutes) MINUTE ASC
+     LIMIT ?`,
+    [limit]
+  );
+
+  return rows;
+}
+
+/**
+ * Record that an incident reached an escalation level
+ * @returns false when the level was already recorded
+ */
+export async function recordIncidentEscalation(incidentId: number, level: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "INSERT IGNORE INTO incident_escalation (incident_id, level) VALUES (?, ?)",
+    [incidentId, level]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Set an incident to escalated without counting it as its first response, nobody acknowledged it
+ */
+export async function markIncidentEscalated(incidentId: number): Promise<void> {
+  await pool.query("UPDATE incident SET status = 'escalated' WHERE id = ? AND status <> 'resolved'", [incidentId]);
+}
@@ -0,0 +1,58 @@
+import pool from "./dbPool.ts";
+import type { IncidentEventType, IncidentEventWithActor } from "../types/incidentEvent.ts";
+import type { RowDataPacket } from "mysql2";
+
+interface IncidentEventWithActorRow extends RowDataPacket, IncidentEventWithActor {}
+
+/**
+ * Record an entry in an incident's activity log
+ * @param incidentId - The incident's ID
+ * @param actorUserId - The user who made the change, null for system changes
+ * @param eventType - The kind of event
+ * @param field - The changed field (null for creation)
+ * @param oldValue - The value before the change
+ * @param newValue - The value after the change
+ * @param note - Reason given for the change
+ */
+export async function recordIncidentEvent(
+  incidentId: number,
+  actorUserId: number | null,
+  eventType: IncidentEventType,
+  field: string | null = null,
+  oldValue: string | number | null = null,
+  newValue: string | number | null = null,
+  note: string | null = null
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO incident_event (incident_id, actor_user_id, event_type, field, old_value, new_value, note)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      incidentId,
+      actorUserId,
+      eventType,
+      field,
+      oldValue === null ? null : String(oldValue),
+      newValue === null ? null : String(newValue),
+      note,
+    ]
+  );
+}
+
+/**
+ * Get the activity log of an incident, oldest first
+ * @param incidentId - The incident's ID
+ * @returns Array of events with the actor's name
+ */
+export async function getIncidentHistory(incidentId: number): Promise<IncidentEventWithActor[]> {
+  const [rows] = await pool.query<IncidentEventWithActorRow[]>(
+    `SELECT e.id, e.incident_id, e.actor_user_id, e.event_type, e.field, e.old_value, e.new_value, e.note, e.created_at,
+            u.name as actor_name
+     FROM incident_event e
+     LEFT JOIN users u ON e.actor_user_id = u.id
+     WHERE e.incident_id = ?
+     ORDER BY e.created_at ASC, e.id ASC`,
+    [incidentId]
+  );
+
+  return rows;
+}
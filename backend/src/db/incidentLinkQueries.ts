@@ -0,0 +1,145 @@
+import pool from "./dbPool.ts";
+import type { IncidentLink, IncidentLinkType, LinkedIncident } from "../types/incidentLink.ts";
+import type { RowDataPacket, ResultSetHeader } from "mysql2";
+
+interface IncidentLinkRow extends RowDataPacket, IncidentLink {}
+interface LinkedIncidentRow extends RowDataPacket, LinkedIncident {}
+interface IncidentIdRow extends RowDataPacket {
+  id: number;
+}
+
+/**
+ * Link two incidents
+ * @param sourceIncidentId - The incident the link is read from
+ * @param targetIncidentId - The incident the link points to
+ * @param linkType - The kind of link
+ * @param createdByUserId - The user creating the link
+ */
+export async function createIncidentLink(
+  sourceIncidentId: number,
+  targetIncidentId: number,
+  linkType: IncidentLinkType,
+  createdByUserId: number
+): Promise<IncidentLink> {
+  const [result] = await pool.query<ResultSetHeader>(
+    `INSERT INTO incident_link (source_incident_id, target_incident_id, link_type, created_by_user_id)
+     VALUES (?, ?, ?, ?)`,
+    [sourceIncidentId, targetIncidentId, linkType, createdByUserId]
+  );
+
+  const link = await findIncidentLinkById(result.insertId);
+  if (!link) {
+    throw new Error("Failed to create incident link");
+  }
+
+  return link;
+}
+
+/**
+ * Find a link by ID
+ */
+export async function findIncidentLinkById(id: number): Promise<IncidentLink | null> {
+  const [rows] = await pool.query<IncidentLinkRow[]>(
+    `SELECT id, source_incident_id, target_incident_id, link_type, created_by_user_id, created_at
+     FROM incident_link WHERE id = ?`,
+    [id]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return rows[0];
+}
+
+/**
+ * Find the link between two incidents, in either direction
+ */
+export async function findLinkBetween(incidentA: number, incidentB: number): Promise<IncidentLink | null> {
+  const [rows] = await pool.query<IncidentLinkRow[]>(
+    `SELECT id, source_incident_id, target_incident_id, link_type, created_by_user_id, created_at
+     FROM incident_link
+     WHERE (source_incident_id = ? AND target_incident_id = ?)
+        OR (source_incident_id = ? AND target_incident_id = ?)`,
+    [incidentA, incidentB, incidentB, incidentA]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return rows[0];
+}
+
+/**
+ * Find the parent of an incident, if it has one
+ */
+export async function findParentIncidentId(incidentId: number): Promise<number | null> {
+  const [rows] = await pool.query<IncidentIdRow[]>(
+    "SELECT source_incident_id as id FROM incident_link WHERE target_incident_id = ? AND link_type = 'parent_of'",
+    [incidentId]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return rows[0].id;
+}
+
+/**
+ * Get all links of an incident, seen from that incident
+ * @param incidentId - The incident's ID
+ * @returns Links in both directions with a summary of the other incident
+ */
+export async function getIncidentLinks(incidentId: number): Promise<LinkedIncident[]> {
+  const [rows] = await pool.query<LinkedIncidentRow[]>(
+    `SELECT l.id, l.link_type, 'outgoing' as direction, l.created_at,
+            i.id as incident_id, i.team_id, t.name as team_name, i.title, i.status, i.severity
+     FROM incident_link l
+     JOIN incident i ON i.id = l.target_incident_id
+     JOIN team t ON t.id = i.team_id
+     WHERE l.source_incident_id = ?
+     UNION ALL
+     SELECT l.id, l.link_type, 'incoming' as direction, l.created_at,
+            i.id as incident_id, i.team_id, t.name as team_name, i.title, i.status, i.severity
+     FROM incident_link l
+     JOIN incident i ON i.id = l.source_incident_id
+     JOIN team t ON t.id = i.team_id
+     WHERE l.target_incident_id = ?
+     ORDER BY created_at ASC, id ASC`,
+    [incidentId, incidentId]
+  );
+
+  return rows;
+}
+
+/**
+ * Get the children of an incident that are still open
+ * @param parentIncidentId - The parent incident's ID
+ * @returns IDs of unresolved, non-archived child incidents
+ */
+export async function getOpenChildIncidentIds(parentIncidentId: number): Promise<number[]> {
+  const [rows] = await pool.query<IncidentIdRow[]>(
+    `SELECT i.id
+     FROM incident_link l
+     JOIN incident i ON i.id = l.target_incident_id
+     WHERE l.source_incident_id = ? AND l.link_type = 'parent_of'
+       AND i.status <> 'resolved' AND i.archived_at IS NULL`,
+    [parentIncidentId]
+  );
+
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Remove a link
+ */
+export async function deleteIncidentLink(id: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "DELETE FROM incident_link WHERE id = ?",
+    [id]
+  );
+
+  return result.affectedRows > 0;
+}
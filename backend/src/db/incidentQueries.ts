@@ -1,22 +1,150 @@
 import pool from "./dbPool.ts";
-import type { Incident, IncidentStatus } from "../types/incident.ts";
+import type {
+  Incident,
+  IncidentStatus,
+  IncidentSeverity,
+  IncidentLevel,
+  IncidentPriority,
+  IncidentSortField,
+  SortOrder,
+} from "../types/incident.ts";
 import type { RowDataPacket, ResultSetHeader } from "mysql2";
 
 interface IncidentRow extends RowDataPacket, Incident {}
 
+const INCIDENT_COLUMNS =
+  "id, title, description, status, severity, impact, urgency, priority, team_id, reported_by_user_id, assigned_to_user_id, created_at, updated_at, first_response_at, resolved_at, archived_at, archived_by_user_id";
+
+export interface IncidentClassification {
+  severity: IncidentSeverity;
+  impact: IncidentLevel;
+  urgency: IncidentLevel;
+  priority: IncidentPriority;
+}
+
+export interface IncidentFilters {
+  severity?: IncidentSeverity[];
+  priority?: IncidentPriority[];
+  status?: IncidentStatus[];
+  /** Assignee user ID, or null for unassigned incidents */
+  assignedTo?: number | null;
+  reportedBy?: number;
+  /** Matched against title and description */
+  search?: string;
+  /** Incidents carrying any of these labels */
+  labelIds?: number[];
+  /** Incidents matching every one of these custom field values */
+  customFields?: CustomFieldFilter[];
+}
+
+export interface CustomFieldFilter {
+  fieldId: number;
+  /** Normalised value, or the text to look for when partial */
+  value: string;
+  partial: boolean;
+}
+
+export interface IncidentListOptions {
+  sort?: IncidentSortField;
+  order?: SortOrder;
+  limit?: number;
+  cursor?: IncidentCursor | null;
+}
+
+/**
+ * Position after the last incident of a page: its sort key and ID
+ */
+export interface IncidentCursor {
+  key: string | number;
+  id: number;
+}
+
+export interface IncidentPage {
+  incidents: Incident[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface IncidentSearchResult extends Incident {
+  team_name: string;
+}
+
+interface IncidentSearchRow extends RowDataPacket, IncidentSearchResult {}
+
+interface IncidentSortRow extends IncidentRow {
+  sort_key: string | number;
+}
+
+// Enums sort by declaration order (+ 0) and dates by epoch seconds, so cursor keys stay scalar
+const SORT_EXPRESSIONS: Record<IncidentSortField, string> = {
+  created_at: "UNIX_TIMESTAMP(created_at)",
+  updated_at: "UNIX_TIMESTAMP(updated_at)",
+  title: "title",
+  status: "status + 0",
+  severity: "severity + 0",
+  priority: "priority + 0",
+};
+
+/**
+ * Encode a list cursor as an opaque URL-safe string
+ */
+function encodeIncidentCursor(cursor: IncidentCursor): string {
+  return Buffer.from(JSON.stringify([cursor.key, cursor.id])).toString("base64url");
+}
+
+/**
+ * Decode a cursor produced by getTeamIncidents
+ * @returns The cursor, or null if it is malformed
+ */
+export function decodeIncidentCursor(value: string): IncidentCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+
+    if (
+      !Array.isArray(parsed) ||
+      parsed.length !== 2 ||
+      !["string", "number"].includes(typeof parsed[0]) ||
+      !Number.isInteger(parsed[1])
+    ) {
+      return null;
+    }
+
+    return { key: parsed[0], id: parsed[1] };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Create a new incident
+ * Without a classification the table defaults for severity and priority apply
  */
 export async function createIncident(
   title: string,
   description: string | null,
   teamId: number,
-  reportedByUserId: number
+  reportedByUserId: number,
+  classification?: IncidentClassification
 ): Promise<Incident> {
-  const [result] = await pool.query<ResultSetHeader>(
-    "INSERT INTO incident (title, description, team_id, reported_by_user_id) VALUES (?, ?, ?, ?)",
-    [title, description, teamId, reportedByUserId]
-  );
+  const [result] = classification
+    ? await pool.query<ResultSetHeader>(
+        `INSERT INTO incident (title, description, team_id, reported_by_user_id, severity, impact, urgency, priority)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          title,
+          description,
+          teamId,
+          reportedByUserId,
+          classification.severity,
+          classification.impact,
+          classification.urgency,
+          classification.priority,
+        ]
+      )
+    : await pool.query<ResultSetHeader>(
+        "INSERT INTO incident (title, description, team_id, reported_by_user_id) VALUES (?, ?, ?, ?)",
+        [title, description, teamId, reportedByUserId]
+      );
 
   const incident = await findIncidentById(result.insertId);
   if (!incident) {
@@ -31,7 +159,7 @@ export async function createIncident(
  */
 export async function findIncidentById(id: number): Promise<Incident | null> {
   const [rows] = await pool.query<IncidentRow[]>(
-    "SELECT id, title, description, status, team_id, reported_by_user_id, assigned_to_user_id FROM incident WHERE id = ?",
+    `SELECT ${INCIDENT_COLUMNS} FROM incident WHERE id = ?`,
     [id]
   );
 
@@ -42,13 +170,155 @@ export async function findIncidentById(id: number): Promise<Incident | null> {
   return rows[0];
 }
 
+type FilterValue = string | number | (string | number)[];
+
 /**
- * Get all incidents for a team
+ * Append the SQL conditions of a set of list filters
+ * @param filters - The filters to apply
+ * @param conditions - Conditions joined with AND, extended in place
+ * @param values - Placeholder values, extended in place
  */
-export async function getTeamIncidents(teamId: number): Promise<Incident[]> {
-  const [rows] = await pool.query<IncidentRow[]>(
-    "SELECT id, title, description, status, team_id, reported_by_user_id, assigned_to_user_id FROM incident WHERE team_id = ? ORDER BY id DESC",
-    [teamId]
+function appendFilterConditions(filters: IncidentFilters, conditions: string[], values: FilterValue[]): void {
+  if (filters.severity && filters.severity.length > 0) {
+    conditions.push("severity IN (?)");
+    values.push(filters.severity);
+  }
+  if (filters.priority && filters.priority.length > 0) {
+    conditions.push("priority IN (?)");
+    values.push(filters.priority);
+  }
+  if (filters.status && filters.status.length > 0) {
+    conditions.push("status IN (?)");
+    values.push(filters.status);
+  }
+  if (filters.assignedTo !== undefined) {
+    if (filters.assignedTo === null) {
+      conditions.push("assigned_to_user_id IS NULL");
+    } else {
+      conditions.push("assigned_to_user_id = ?");
+      values.push(filters.assignedTo);
+    }
+  }
+  if (filters.reportedBy !== undefined) {
+    conditions.push("reported_by_user_id = ?");
+    values.push(filters.reportedBy);
+  }
+  if (filters.labelIds && filters.labelIds.length > 0) {
+    conditions.push("id IN (SELECT incident_id FROM incident_label WHERE label_id IN (?))");
+    values.push(filters.labelIds);
+  }
+  for (const filter of filters.customFields ?? []) {
+    conditions.push(
+      `id IN (SELECT incident_id FROM incident_custom_field_value WHERE field_id = ? AND value ${filter.partial ? "LIKE" : "="} ?)`
+    );
+    values.push(filter.fieldId, filter.partial ? `%${filter.value.replace(/[\\%_]/g, "\\$&")}%` : filter.value);
+  }
+  if (filters.search) {
+    const pattern = `%${filters.search.replace(/[\\%_]/g, "\\$&")}%`;
+    conditions.push("(title LIKE ? OR description LIKE ?)");
+    values.push(pattern, pattern);
+  }
+}
+
+/**
+ * Get a page of a team's incidents, filtered and sorted
+ * Archived incidents are excluded. Pages are keyset-paginated on (sort key, id)
+ * @returns The page, the total number of matching incidents and the cursor of the next page
+ */
+export async function getTeamIncidents(
+  teamId: number,
+  filters: IncidentFilters = {},
+  options: IncidentListOptions = {}
+): Promise<IncidentPage> {
+  const { sort = "created_at", order = "desc", limit = 25, cursor = null } = options;
+  const conditions: string[] = ["team_id = ?", "archived_at IS NULL"];
+  const values: FilterValue[] = [teamId];
+
+  appendFilterConditions(filters, conditions, values);
+
+  const [countRows] = await pool.query<RowDataPacket[]>(
+    `SELECT COUNT(*) as total FROM incident WHERE ${conditions.join(" AND ")}`,
+    values
+  );
+
+  const sortExpression = SORT_EXPRESSIONS[sort];
+  const direction = order === "asc" ? "ASC" : "DESC";
+  const comparator = order === "asc" ? ">" : "<";
+  const pageConditions = [...conditions];
+  const pageValues = [...values];
+
+  if (cursor) {
+    pageConditions.push(
+      `(${sortExpression} ${comparator} ? OR (${sortExpression} = ? AND id ${comparator} ?))`
+    );
+    pageValues.push(cursor.key, cursor.key, cursor.id);
+  }
+
+  // Fetch one extra row to know whether there is a next page
+  const [rows] = await pool.query<IncidentSortRow[]>(
+    `SELECT ${INCIDENT_COLUMNS}, ${sortExpression} as sort_key
+     FROM incident
+     WHERE ${pageConditions.join(" AND ")}
+     ORDER BY ${sortExpression} ${direction}, id ${direction}
+     LIMIT ?`,
+    [...pageValues, limit + 1]
+  );
+
+  const hasMore = rows.length > limit;
+  const pageRows = rows.slice(0, limit);
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    incidents: pageRows.map(({ sort_key: _sortKey, ...incident }) => incident as Incident),
+    total: Number(countRows[0].total),
+    nextCursor: hasMore && last ? encodeIncidentCursor({ key: last.sort_key, id: last.id }) : null,
+  };
+}
+
+/**
+ * Search incidents across several teams
+ * Free text uses the full-text index on title and description, every word must match (as a prefix)
+ * @param teamIds - Teams to search in
+ * @param filters - Structured filters, the LIKE search field is ignored
+ * @param text - Free text, or null to only filter
+ * @param limit - Maximum number of results
+ * @returns Matching incidents with their team name, best matches first
+ */
+export async function searchIncidents(
+  teamIds: number[],
+  filters: IncidentFilters,
+  text: string | null,
+  limit = 50
+): Promise<IncidentSearchResult[]> {
+  if (teamIds.length === 0) {
+    return [];
+  }
+
+  const conditions: string[] = ["team_id IN (?)", "archived_at IS NULL"];
+  const values: FilterValue[] = [teamIds];
+
+  appendFilterConditions({ ...filters, search: undefined }, conditions, values);
+
+  // Boolean mode operators in user input would change the query's meaning
+  const terms = (text ?? "")
+    .replace(/[+\-><()~*"@]/g, " ")
+    .split(/\s+/)
+    .filter((term) => term !== "");
+  const booleanQuery = terms.map((term) => `+${term}*`).join(" ");
+
+  if (booleanQuery) {
+    conditions.push("MATCH(title, description) AGAINST (? IN BOOLEAN MODE)");
+    values.push(booleanQuery);
+  }
+
+  const [rows] = await pool.query<IncidentSearchRow[]>(
+    `SELECT ${INCIDENT_COLUMNS},
+            (SELECT t.name FROM team t WHERE t.id = incident.team_id) as team_name
+     FROM incident
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY ${booleanQuery ? "MATCH(title, description) AGAINST (? IN BOOLEAN MODE) DESC, " : ""}created_at DESC, id DESC
+     LIMIT ?`,
+    booleanQuery ? [...values, booleanQuery, limit] : [...values, limit]
   );
 
   return rows;
@@ -86,14 +356,52 @@ export async function updateIncidentDescription(
 
 /**
  * Update incident status
+ * Leaving pending counts as the first response, resolving sets resolved_at
+ * and any other status clears it (reopen)
  */
 export async function updateIncidentStatus(
   id: number,
   status: IncidentStatus
 ): Promise<boolean> {
   const [result] = await pool.query<ResultSetHeader>(
-    "UPDATE incident SET status = ? WHERE id = ?",
-    [status, id]
+    `UPDATE incident
+     SET status = ?,
+         first_response_at = COALESCE(first_response_at, IF(? <> 'pending', CURRENT_TIMESTAMP, NULL)),
+         resolved_at = IF(? = 'resolved', COALESCE(resolved_at, CURRENT_TIMESTAMP), NULL)
+     WHERE id = ?`,
+    [status, status, status, id]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Update incident severity
+ */
+export async function updateIncidentSeverity(
+  id: number,
+  severity: IncidentSeverity
+): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "UPDATE incident SET severity = ? WHERE id = ?",
+    [severity, id]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Update incident impact, urgency and the priority derived from them
+ */
+export async function updateIncidentPriority(
+  id: number,
+  impact: IncidentLevel,
+  urgency: IncidentLevel,
+  priority: IncidentPriority
+): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "UPDATE incident SET impact = ?, urgency = ?, priority = ? WHERE id = ?",
+    [impact, urgency, priority, id]
   );
 
   return result.affectedRows > 0;
@@ -101,21 +409,107 @@ export async function updateIncidentStatus(
 
 /**
  * Assign incident to a user
+ * The first assignment counts as the first response
  */
 export async function assignIncident(
   id: number,
   assignedToUserId: number | null
 ): Promise<boolean> {
   const [result] = await pool.query<ResultSetHeader>(
-    "UPDATE incident SET assigned_to_user_id = ? WHERE id = ?",
-    [assignedToUserId, id]
+    `UPDATE incident
+     SET assigned_to_user_id = ?,
+         first_response_at = COALESCE(first_response_at, IF(? IS NULL, NULL, CURRENT_TIMESTAMP))
+     WHERE id = ?`,
+    [assignedToUserId, assignedToUserId, id]
   );
 
   return result.affectedRows > 0;
 }
 
 /**
- * Delete an incident
+ * Move an incident to another team
+ * Labels and custom field values belong to the old team and are removed,
+ * as are watchers who are not members of the receiving team
+ * @param id - The incident's ID
+ * @param teamId - The receiving team's ID
+ * @param assignedToUserId - The assignee in the receiving team, or null
+ */
+export async function transferIncident(
+  id: number,
+  teamId: number,
+  assignedToUserId: number | null
+): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    await connection.beginTransaction();
+    await connection.query(
+      "UPDATE incident SET team_id = ?, assigned_to_user_id = ? WHERE id = ?",
+      [teamId, assignedToUserId, id]
+    );
+    await connection.query("DELETE FROM incident_label WHERE incident_id = ?", [id]);
+    await connection.query(
+      `DELETE v FROM incident_custom_field_value v
+       JOIN team_custom_field f ON f.id = v.field_id
+       WHERE v.incident_id = ? AND f.team_id <> ?`,
+      [id, teamId]
+    );
+    await connection.query(
+      `DELETE FROM incident_watcher
+       WHERE incident_id = ?
+         AND user_id NOT IN (SELECT user_id FROM team_user WHERE team_id = ?)`,
+      [id, teamId]
+    );
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
+
+/**
+ * Get the archived incidents of a team, most recently archived first
+ */
+export async function getArchivedTeamIncidents(teamId: number): Promise<Incident[]> {
+  const [rows] = await pool.query<IncidentRow[]>(
+    `SELECT ${INCIDENT_COLUMNS} FROM incident WHERE team_id = ? AND archived_at IS NOT NULL ORDER BY archived_at DESC`,
+    [teamId]
+  );
+
+  return rows;
+}
+
+/**
+ * Archive (soft delete) an incident
+ */
+export async function archiveIncident(
+  id: number,
+  archivedByUserId: number
+): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "UPDATE incident SET archived_at = CURRENT_TIMESTAMP, archived_by_user_id = ? WHERE id = ? AND archived_at IS NULL",
+    [archivedByUserId, id]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Restore an archived incident
+ */
+export async function restoreIncident(id: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "UPDATE incident SET archived_at = NULL, archived_by_user_id = NULL WHERE id = ? AND archived_at IS NOT NULL",
+    [id]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Permanently delete an incident
  */
 export async function deleteIncident(id: number): Promise<boolean> {
   const [result] = await pool.query<ResultSetHeader>(
@@ -131,9 +525,9 @@ export async function deleteIncident(id: number): Promise<boolean> {
  */
 export async function getIncidentsCreatedByUser(userId: number): Promise<Incident[]> {
   const [rows] = await pool.query<IncidentRow[]>(
-    `SELECT id, title, description, status, team_id, reported_by_user_id, assigned_to_user_id 
+    `SELECT ${INCIDENT_COLUMNS}
      FROM incident 
-     WHERE reported_by_user_id = ? AND status != 'resolved' 
+     WHERE reported_by_user_id = ? AND status != 'resolved' AND archived_at IS NULL
      ORDER BY id DESC`,
     [userId]
   );
@@ -146,9 +540,9 @@ export async function getIncidentsCreatedByUser(userId: number): Promise<Inciden
  */
 export async function getIncidentsAssignedToUser(userId: number): Promise<Incident[]> {
   const [rows] = await pool.query<IncidentRow[]>(
-    `SELECT id, title, description, status, team_id, reported_by_user_id, assigned_to_user_id 
+    `SELECT ${INCIDENT_COLUMNS}
      FROM incident 
-     WHERE assigned_to_user_id = ? AND status != 'resolved' 
+     WHERE assigned_to_user_id = ? AND status != 'resolved' AND archived_at IS NULL
      ORDER BY id DESC`,
     [userId]
   );
@@ -156,6 +550,26 @@ export async function getIncidentsAssignedToUser(userId: number): Promise<Incide
   return rows;
 }
 
+/**
+ * Get unresolved incidents watched by a user, besides the ones they reported or are assigned to
+ * Incidents of teams the user has left are skipped
+ */
+export async function getIncidentsWatchedByUser(userId: number): Promise<Incident[]> {
+  const [rows] = await pool.query<IncidentRow[]>(
+    `SELECT ${INCIDENT_COLUMNS}
+     FROM incident
+     WHERE id IN (SELECT incident_id FROM incident_watcher WHERE user_id = ?)
+       AND team_id IN (SELECT team_id FROM team_user WHERE user_id = ?)
+       AND reported_by_user_id <> ?
+       AND (assigned_to_user_id IS NULL OR assigned_to_user_id <> ?)
+       AND status != 'resolved' AND archived_at IS NULL
+     ORDER BY id DESC`,
+    [userId, userId, userId, userId]
+  );
+
+  return rows;
+}
+
 interface TeamIncidentStats {
   team_id: number;
   team_name: string;
@@ -168,7 +582,7 @@ interface TeamIncidentStats {
 interface TeamIncidentStatsRow extends RowDataPacket, TeamIncidentStats {}
 
 /**
- * Get incident stats per team for a user's teams
+ * Get incident stats per team for a user's teams (archived incidents are not counted)
  */
 export async function getTeamIncidentStats(userId: number): Promise<TeamIncidentStats[]> {
   const [rows] = await pool.query<TeamIncidentStatsRow[]>(
@@ -181,7 +595,7 @@ export async function getTeamIncidentStats(userId: number): Promise<TeamIncident
        SUM(CASE WHEN i.status = 'resolved' THEN 1 ELSE 0 END) as resolved
      FROM team t
      INNER JOIN team_user tu ON t.id = tu.team_id
-     LEFT JOIN incident i ON t.id = i.team_id
+     LEFT JOIN incident i ON t.id = i.team_id AND i.archived_at IS NULL
      WHERE tu.user_id = ?
      GROUP BY t.id, t.name
      ORDER BY t.name`,
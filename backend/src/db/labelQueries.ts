@@ -0,0 +1,161 @@
+import pool from "./dbPool.ts";
+import type { Label } from "../types/label.ts";
+import type { Incident } from "../types/incident.ts";
+import type { RowDataPacket, ResultSetHeader } from "mysql2";
+
+interface LabelRow extends RowDataPacket, Label {}
+
+interface IncidentLabelRow extends LabelRow {
+  incident_id: number;
+}
+
+/**
+ * Create a label in a team's catalogue
+ */
+export async function createLabel(teamId: number, name: string, color: string): Promise<Label> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "INSERT INTO label (team_id, name, color) VALUES (?, ?, ?)",
+    [teamId, name, color]
+  );
+
+  const label = await findLabelById(result.insertId);
+  if (!label) {
+    throw new Error("Failed to create label");
+  }
+
+  return label;
+}
+
+/**
+ * Find a label by ID
+ */
+export async function findLabelById(id: number): Promise<Label | null> {
+  const [rows] = await pool.query<LabelRow[]>(
+    "SELECT id, team_id, name, color, created_at FROM label WHERE id = ?",
+    [id]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return rows[0];
+}
+
+/**
+ * Find a team's label by name (case-insensitive)
+ */
+export async function findTeamLabelByName(teamId: number, name: string): Promise<Label | null> {
+  const [rows] = await pool.query<LabelRow[]>(
+    "SELECT id, team_id, name, color, created_at FROM label WHERE team_id = ? AND LOWER(name) = LOWER(?)",
+    [teamId, name]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return rows[0];
+}
+
+/**
+ * Get a team's label catalogue, sorted by name
+ */
+export async function getTeamLabels(teamId: number): Promise<Label[]> {
+  const [rows] = await pool.query<LabelRow[]>(
+    "SELECT id, team_id, name, color, created_at FROM label WHERE team_id = ? ORDER BY name ASC",
+    [teamId]
+  );
+
+  return rows;
+}
+
+/**
+ * Rename or recolour a label
+ */
+export async function updateLabel(id: number, name: string, color: string): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "UPDATE label SET name = ?, color = ? WHERE id = ?",
+    [name, color, id]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Delete a label, removing it from every incident
+ */
+export async function deleteLabel(id: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "DELETE FROM label WHERE id = ?",
+    [id]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Add a label to an incident
+ * @returns false if the incident already had the label
+ */
+export async function addLabelToIncident(incidentId: number, labelId: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "INSERT IGNORE INTO incident_label (incident_id, label_id) VALUES (?, ?)",
+    [incidentId, labelId]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Remove a label from an incident
+ * @returns false if the incident did not have the label
+ */
+export async function removeLabelFromIncident(incidentId: number, labelId: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "DELETE FROM incident_label WHERE incident_id = ? AND label_id = ?",
+    [incidentId, labelId]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Load the labels of several incidents in one query and add them to each incident
+ * @param incidents - Incidents to decorate
+ * @returns The same incidents with a `labels` array, sorted by name
+ */
+export async function withLabels<T extends Incident>(incidents: T[]): Promise<(T & { labels: Label[] })[]> {
+  if (incidents.length === 0) {
+    return [];
+  }
+
+  const [rows] = await pool.query<IncidentLabelRow[]>(
+    `SELECT il.incident_id, l.id, l.team_id, l.name, l.color, l.created_at
+     FROM incident_label il
+     INNER JOIN label l ON il.label_id = l.id
+     WHERE il.incident_id IN (?)
+     ORDER BY l.name ASC`,
+    [incidents.map((incident) => incident.id)]
+  );
+
+  const labelsByIncident = new Map<number, Label[]>();
+  for (const { incident_id, ...label } of rows) {
+    const labels = labelsByIncident.get(incident_id) ?? [];
+    labels.push(label as Label);
+    labelsByIncident.set(incident_id, labels);
+  }
+
+  return incidents.map((incident) => ({
+    ...incident,
+    labels: labelsByIncident.get(incident.id) ?? [],
+  }));
+}
+
+/**
+ * Add its labels to a single incident
+ */
+export async function withIncidentLabels<T extends Incident>(incident: T): Promise<T & { labels: Label[] }> {
+  const [decorated] = await withLabels([incident]);
+  return decorated;
+}
@@ -0,0 +1,120 @@
+import pool from "./dbPool.ts";
+import type { NotificationType, NotificationWithIncident } from "../types/notification.ts";
+import type { RowDataPacket, ResultSetHeader } from "mysql2";
+
+interface NotificationWithIncidentRow extends RowDataPacket, NotificationWithIncident {}
+interface CountRow extends RowDataPacket {
+  count: number;
+}
+
+/**
+ * Send the same notification to several users
+ * @param userIds - Recipients, duplicates are ignored
+ * @param type - The kind of notification
+ * @param incidentId - The incident it is about, if any
+ * @param message - Text shown to the user
+ */
+export async function createNotifications(
+  userIds: number[],
+  type: NotificationType,
+  incidentId: number | null,
+  message: string
+): Promise<void> {
+  const recipients = [...new Set(userIds)];
+  if (recipients.length === 0) {
+    return;
+  }
+
+  await pool.query(
+    "INSERT INTO notification (user_id, incident_id, type, message) VALUES ?",
+    [recipients.map((userId) => [userId, incidentId, type, message])]
+  );
+}
+
+/**
+ * Notify the watchers of an incident
+ * Only watchers who are members of the incident's team are notified
+ * @param incidentId - The incident's ID
+ * @param actorUserId - The user who caused the notification, not notified about their own change
+ * @param type - The kind of notification
+ * @param message - Text shown to the user
+ */
+export async function notifyIncidentWatchers(
+  incidentId: number,
+  actorUserId: number | null,
+  type: NotificationType,
+  message: string
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO notification (user_id, incident_id, type, message)
+     SELECT w.user_id, w.incident_id, ?, ?
+     FROM incident_watcher w
+     INNER JOIN incident i ON i.id = w.incident_id
+     INNER JOIN team_user tu ON tu.team_id = i.team_id AND tu.user_id = w.user_id
+     WHERE w.incident_id = ?${actorUserId === null ? "" : " AND w.user_id <> ?"}`,
+    actorUserId === null ? [type, message, incidentId] : [type, message, incidentId, actorUserId]
+  );
+}
+
+/**
+ * Get a user's notifications, newest first
+ * @param userId - The recipient's ID
+ * @param unreadOnly - Only return notifications that were not read yet
+ * @param limit - Maximum number of notifications
+ * @returns Notifications with the current team of their incident
+ */
+export async function getUserNotifications(
+  userId: number,
+  unreadOnly = false,
+  limit = 50
+): Promise<NotificationWithIncident[]> {
+  const [rows] = await pool.query<NotificationWithIncidentRow[]>(
+    `SELECT n.id, n.user_id, n.incident_id, n.type, n.message, n.read_at, n.created_at, i.team_id
+     FROM notification n
+     LEFT JOIN incident i ON i.id = n.incident_id
+     WHERE n.user_id = ?${unreadOnly ? " AND n.read_at IS NULL" : ""}
+     ORDER BY n.created_at DESC, n.id DESC
+     LIMIT ?`,
+    [userId, limit]
+  );
+
+  return rows;
+}
+
+/**
+ * Count a user's unread notifications
+ */
+export async function countUnreadNotifications(userId: number): Promise<number> {
+  const [rows] = await pool.query<CountRow[]>(
+    "SELECT COUNT(*) as count FROM notification WHERE user_id = ? AND read_at IS NULL",
+    [userId]
+  );
+
+  return rows[0].count;
+}
+
+/**
+ * Mark one of a user's notifications as read
+ * @returns true if the notification belongs to the user
+ */
+export async function markNotificationRead(id: number, userId: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "UPDATE notification SET read_at = COALESCE(read_at, CURRENT_TIMESTAMP) WHERE id = ? AND user_id = ?",
+    [id, userId]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Mark all of a user's notifications as read
+ * @returns Number of notifications that were unread
+ */
+export async function markAllNotificationsRead(userId: number): Promise<number> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "UPDATE notification SET read_at = CURRENT_TIMESTAMP WHERE user_id = ? AND read_at IS NULL",
+    [userId]
+  );
+
+  return result.affectedRows;
+}
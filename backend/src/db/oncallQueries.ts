@@ -0,0 +1,248 @@
+import pool from "./dbPool.ts";
+import type {
+  OnCallOverride,
+  OnCallRotation,
+  OnCallSchedule,
+  OnCallScheduleWithMembers,
+} from "../types/oncall.ts";
+import type { RowDataPacket, ResultSetHeader } from "mysql2";
+
+interface OnCallScheduleRow extends RowDataPacket, OnCallSchedule {}
+
+interface OnCallOverrideRow extends RowDataPacket, OnCallOverride {}
+
+interface ScheduleMemberRow extends RowDataPacket {
+  schedule_id: number;
+  user_id: number;
+}
+
+const SCHEDULE_COLUMNS = "s.id, s.team_id, s.name, s.rotation, s.starts_at, s.created_at";
+
+const OVERRIDE_COLUMNS =
+  "o.id, o.schedule_id, o.user_id, o.starts_at, o.ends_at, o.note, o.created_by_user_id, o.created_at";
+
+// Overrides that ended before this are left out of schedules
+const OVERRIDE_HISTORY_DAYS = 31;
+
+/**
+ * Add the rotation order and overrides of each schedule
+ * Users who left the schedule's team are skipped
+ */
+async function withMembers(schedules: OnCallSchedule[]): Promise<OnCallScheduleWithMembers[]> {
+  if (schedules.length === 0) {
+    return [];
+  }
+
+  const ids = schedules.map((s) => s.id);
+
+  const [members] = await pool.query<ScheduleMemberRow[]>(
+    `SELECT m.schedule_id, m.user_id
+     FROM oncall_schedule_member m
+     INNER JOIN oncall_schedule s ON s.id = m.schedule_id
+     INNER JOIN team_user tu ON tu.team_id = s.team_id AND tu.user_id = m.user_id
+     WHERE m.schedule_id IN (?)
+     ORDER BY m.schedule_id, m.position ASC`,
+    [ids]
+  );
+
+  const [overrides] = await pool.query<OnCallOverrideRow[]>(
+    `SELECT ${OVERRIDE_COLUMNS}
+     FROM oncall_override o
+     INNER JOIN oncall_schedule s ON s.id = o.schedule_id
+     INNER JOIN team_user tu ON tu.team_id = s.team_id AND tu.user_id = o.user_id
+     WHERE o.schedule_id IN (?) AND o.ends_at > NOW() - INTERVAL ? DAY
+     ORDER BY o.starts_at ASC`,
+    [ids, OVERRIDE_HISTORY_DAYS]
+  );
+
+  return schedules.map((schedule) => ({
+    ...schedule,
+    user_ids: members.filter((m) => m.schedule_id === schedule.id).map((m) => m.user_id),
+    overrides: overrides.filter((o) => o.schedule_id === schedule.id),
+  }));
+}
+
+/**
+ * Get a team's on-call schedules, by name
+ */
+export async function getTeamSchedules(teamId: number): Promise<OnCallScheduleWithMembers[]> {
+  const [rows] = await pool.query<OnCallScheduleRow[]>(
+    `SELECT ${SCHEDULE_COLUMNS} FROM oncall_schedule s WHERE s.team_id = ? ORDER BY s.name ASC`,
+    [teamId]
+  );
+
+  return withMembers(rows);
+}
+
+/**
+ * Get the on-call schedules of every team a user is in
+ */
+export async function getSchedulesForUserTeams(userId: number): Promise<OnCallScheduleWithMembers[]> {
+  const [rows] = await pool.query<OnCallScheduleRow[]>(
+    `SELECT ${SCHEDULE_COLUMNS}
+     FROM oncall_schedule s
+     INNER JOIN team_user tu ON tu.team_id = s.team_id AND tu.user_id = ?
+     ORDER BY s.team_id, s.name ASC`,
+    [userId]
+  );
+
+  return withMembers(rows);
+}
+
+/**
+ * Find an on-call schedule by ID
+ */
+export async function findScheduleById(id: number): Promise<OnCallScheduleWithMembers | null> {
+  const [rows] = await pool.query<OnCallScheduleRow[]>(
+    `SELECT ${SCHEDULE_COLUMNS} FROM oncall_schedule s WHERE s.id = ?`,
+    [id]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const [schedule] = await withMembers(rows);
+  return schedule;
+}
+
+/**
+ * Create an on-call schedule
+ * @param userIds - The rotation, in order
+ */
+export async function createSchedule(
+  teamId: number,
+  name: string,
+  rotation: OnCallRotation,
+  startsAt: Date,
+  userIds: number[]
+): Promise<OnCallScheduleWithMembers> {
+  const connection = await pool.getConnection();
+  let scheduleId: number;
+
+  try {
+    await connection.beginTransaction();
+    const [result] = await connection.query<ResultSetHeader>(
+      "INSERT INTO oncall_schedule (team_id, name, rotation, starts_at) VALUES (?, ?, ?, ?)",
+      [teamId, name, rotation, startsAt]
+    );
+    scheduleId = result.insertId;
+
+    if (userIds.length > 0) {
+      await connection.query("INSERT INTO oncall_schedule_member (schedule_id, user_id, position) VALUES ?", [
+        userIds.map((userId, position) => [scheduleId, userId, position]),
+      ]);
+    }
+
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+
+  const schedule = await findScheduleById(scheduleId);
+  if (!schedule) {
+    throw new Error("Failed to create on-call schedule");
+  }
+
+  return schedule;
+}
+
+/**
+ * Replace an on-call schedule's settings and rotation, overrides are kept
+ * @param userIds - The rotation, in order
+ */
+export async function updateSchedule(
+  id: number,
+  name: string,
+  rotation: OnCallRotation,
+  startsAt: Date,
+  userIds: number[]
+): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    await connection.beginTransaction();
+    await connection.query("UPDATE oncall_schedule SET name = ?, rotation = ?, starts_at = ? WHERE id = ?", [
+      name,
+      rotation,
+      startsAt,
+      id,
+    ]);
+    await connection.query("DELETE FROM oncall_schedule_member WHERE schedule_id = ?", [id]);
+
+    if (userIds.length > 0) {
+      await connection.query("INSERT INTO oncall_schedule_member (schedule_id, user_id, position) VALUES ?", [
+        userIds.map((userId, position) => [id, userId, position]),
+      ]);
+    }
+
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
+
+/**
+ * Delete an on-call schedule with its rotation and overrides
+ */
+export async function deleteSchedule(id: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>("DELETE FROM oncall_schedule WHERE id = ?", [id]);
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Add an override to an on-call schedule
+ */
+export async function createOverride(
+  scheduleId: number,
+  userId: number,
+  startsAt: Date,
+  endsAt: Date,
+  note: string | null,
+  createdByUserId: number
+): Promise<OnCallOverride> {
+  const [result] = await pool.query<ResultSetHeader>(
+    `INSERT INTO oncall_override (schedule_id, user_id, starts_at, ends_at, note, created_by_user_id)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [scheduleId, userId, startsAt, endsAt, note, createdByUserId]
+  );
+
+  const override = await findOverrideById(result.insertId);
+  if (!override) {
+    throw new Error("Failed to create on-call override");
+  }
+
+  return override;
+}
+
+/**
+ * Find an on-call override by ID
+ */
+export async function findOverrideById(id: number): Promise<OnCallOverride | null> {
+  const [rows] = await pool.query<OnCallOverrideRow[]>(
+    `SELECT ${OVERRIDE_COLUMNS} FROM oncall_override o WHERE o.id = ?`,
+    [id]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return rows[0];
+}
+
+/**
+ * Delete an on-call override
+ */
+export async function deleteOverride(id: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>("DELETE FROM oncall_override WHERE id = ?", [id]);
+
+  return result.affectedRows > 0;
+}
@@ -0,0 +1,131 @@
+import pool from "./dbPool.ts";
+import type { IncidentSla, SlaTarget } from "../types/sla.ts";
+import { computeIncidentSla } from "../sla/index.ts";
+import type { Incident } from "../types/incident.ts";
+import type { RowDataPacket } from "mysql2";
+
+interface SlaTargetRow extends RowDataPacket, SlaTarget {
+  team_id: number;
+}
+
+interface IncidentRow extends RowDataPacket, Incident {}
+
+const INCIDENT_COLUMNS =
+  "i.id, i.title, i.description, i.status, i.severity, i.impact, i.urgency, i.priority, i.team_id, i.reported_by_user_id, i.assigned_to_user_id, i.created_at, i.updated_at, i.first_response_at, i.resolved_at, i.archived_at, i.archived_by_user_id";
+
+/**
+ * Get a team's SLA targets, ordered by severity
+ */
+export async function getTeamSlaTargets(teamId: number): Promise<SlaTarget[]> {
+  const [rows] = await pool.query<SlaTargetRow[]>(
+    `SELECT team_id, severity, respond_within_minutes, resolve_within_minutes
+     FROM team_sla_target
+     WHERE team_id = ?
+     ORDER BY severity ASC`,
+    [teamId]
+  );
+
+  return rows.map(({ severity, respond_within_minutes, resolve_within_minutes }) => ({
+    severity,
+    respond_within_minutes,
+    resolve_within_minutes,
+  }));
+}
+
+/**
+ * Replace a team's SLA targets
+ * @param teamId - The team's ID
+ * @param targets - The new targets, at most one per severity
+ */
+export async function replaceTeamSlaTargets(teamId: number, targets: SlaTarget[]): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    await connection.beginTransaction();
+    await connection.query("DELETE FROM team_sla_target WHERE team_id = ?", [teamId]);
+
+    if (targets.length > 0) {
+      await connection.query(
+        "INSERT INTO team_sla_target (team_id, severity, respond_within_minutes, resolve_within_minutes) VALUES ?",
+        [targets.map((t) => [teamId, t.severity, t.respond_within_minutes, t.resolve_within_minutes])]
+      );
+    }
+
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
+
+/**
+ * Add the SLA state of each incident, null when its team has no target for its severity
+ */
+export async function withSla<T extends Incident>(incidents: T[]): Promise<(T & { sla: IncidentSla | null })[]> {
+  if (incidents.length === 0) {
+    return [];
+  }
+
+  const [rows] = await pool.query<SlaTargetRow[]>(
+    `SELECT team_id, severity, respond_within_minutes, resolve_within_minutes
+     FROM team_sla_target
+     WHERE team_id IN (?)`,
+    [[...new Set(incidents.map((incident) => incident.team_id))]]
+  );
+
+  const targets = new Map(rows.map((row) => [`${row.team_id}:${row.severity}`, row]));
+  const now = new Date();
+
+  return incidents.map((incident) => ({
+    ...incident,
+    sla: computeIncidentSla(incident, targets.get(`${incident.team_id}:${incident.severity}`), now),
+  }));
+}
+
+/**
+ * Add the SLA state of a single incident
+ */
+export async function withIncidentSla<T extends Incident>(incident: T): Promise<T & { sla: IncidentSla | null }> {
+  const [decorated] = await withSla([incident]);
+  return decorated;
+}
+
+/**
+ * Get the non-archived incidents of a team created since a date, newest first
+ */
+export async function getTeamIncidentsCreatedSince(teamId: number, since: Date): Promise<Incident[]> {
+  const [rows] = await pool.query<IncidentRow[]>(
+    `SELECT ${INCIDENT_COLUMNS}
+     FROM incident i
+     WHERE i.team_id = ? AND i.archived_at IS NULL AND i.created_at >= ?
+     ORDER BY i.created_at DESC`,
+    [teamId, since]
+  );
+
+  return rows;
+}
+
+/**
+ * Get the open incidents of the user's teams that are past an SLA due time, oldest first
+ */
+export async function getBreachingIncidentsForUser(userId: number): Promise<Incident[]> {
+  const [rows] = await pool.query<IncidentRow[]>(
+    `SELECT ${INCIDENT_COLUMNS}
+     FROM incident i
+     INNER JOIN team_user tu ON tu.team_id = i.team_id AND tu.user_id = ?
+     INNER JOIN team_sla_target t ON t.team_id = i.team_id AND t.severity = i.severity
+     WHERE i.archived_at IS NULL AND i.status <> 'resolved'
+       AND (
+         (i.first_response_at IS NULL AND t.respond_within_minutes IS NOT NULL
+           AND i.created_at + INTERVAL t.respond_within_minutes MINUTE < CURRENT_TIMESTAMP)
+         OR (t.resolve_within_minutes IS NOT NULL
+           AND i.created_at + INTERVAL t.resolve_within_minutes MINUTE < CURRENT_TIMESTAMP)
+       )
+     ORDER BY i.created_at ASC`,
+    [userId]
+  );
+
+  return rows;
+}
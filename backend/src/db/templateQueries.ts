@@ -0,0 +1,166 @@
+import pool from "./dbPool.ts";
+import type { IncidentSeverity } from "../types/incident.ts";
+import type { IncidentTemplate, IncidentTemplateWithLabels } from "../types/template.ts";
+import type { RowDataPacket, ResultSetHeader } from "mysql2";
+
+interface IncidentTemplateRow extends RowDataPacket, IncidentTemplate {}
+
+interface TemplateLabelRow extends RowDataPacket {
+  template_id: number;
+  label_id: number;
+}
+
+const TEMPLATE_COLUMNS =
+  "t.id, t.team_id, t.name, t.title, t.description, t.severity, t.created_by_user_id, t.created_at, t.updated_at";
+
+export interface TemplateFields {
+  name: string;
+  title: string;
+  description: string | null;
+  severity: IncidentSeverity | null;
+  labelIds: number[];
+}
+
+/**
+ * Add the default label IDs of each template
+ */
+async function withTemplateLabels(templates: IncidentTemplate[]): Promise<IncidentTemplateWithLabels[]> {
+  if (templates.length === 0) {
+    return [];
+  }
+
+  const [rows] = await pool.query<TemplateLabelRow[]>(
+    "SELECT template_id, label_id FROM incident_template_label WHERE template_id IN (?)",
+    [templates.map((t) => t.id)]
+  );
+
+  return templates.map((template) => ({
+    ...template,
+    label_ids: rows.filter((r) => r.template_id === template.id).map((r) => r.label_id),
+  }));
+}
+
+/**
+ * Get a team's incident templates, by name
+ */
+export async function getTeamTemplates(teamId: number): Promise<IncidentTemplateWithLabels[]> {
+  const [rows] = await pool.query<IncidentTemplateRow[]>(
+    `SELECT ${TEMPLATE_COLUMNS} FROM incident_template t WHERE t.team_id = ? ORDER BY t.name ASC`,
+    [teamId]
+  );
+
+  return withTemplateLabels(rows);
+}
+
+/**
+ * Find an incident template by ID
+ */
+export async function findTemplateById(id: number): Promise<IncidentTemplateWithLabels | null> {
+  const [rows] = await pool.query<IncidentTemplateRow[]>(
+    `SELECT ${TEMPLATE_COLUMNS} FROM incident_template t WHERE t.id = ?`,
+    [id]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const [template] = await withTemplateLabels(rows);
+  return template;
+}
+
+/**
+ * Find a team's incident template by name (case-insensitive)
+ */
+export async function findTeamTemplateByName(teamId: number, name: string): Promise<IncidentTemplate | null> {
+  const [rows] = await pool.query<IncidentTemplateRow[]>(
+    `SELECT ${TEMPLATE_COLUMNS} FROM incident_template t WHERE t.team_id = ? AND LOWER(t.name) = LOWER(?)`,
+    [teamId, name]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return rows[0];
+}
+
+/**
+ * Create an incident template with its default labels
+ */
+export async function createTemplate(
+  teamId: number,
+  fields: TemplateFields,
+  createdByUserId: number
+): Promise<IncidentTemplateWithLabels> {
+  const connection = await pool.getConnection();
+  let templateId: number;
+
+  try {
+    await connection.beginTransaction();
+    const [result] = await connection.query<ResultSetHeader>(
+      `INSERT INTO incident_template (team_id, name, title, description, severity, created_by_user_id)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [teamId, fields.name, fields.title, fields.description, fields.severity, createdByUserId]
+    );
+    templateId = result.insertId;
+
+    if (fields.labelIds.length > 0) {
+      await connection.query("INSERT INTO incident_template_label (template_id, label_id) VALUES ?", [
+        fields.labelIds.map((labelId) => [templateId, labelId]),
+      ]);
+    }
+
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+
+  const template = await findTemplateById(templateId);
+  if (!template) {
+    throw new Error("Failed to create incident template");
+  }
+
+  return template;
+}
+
+/**
+ * Replace an incident template's fields and default labels
+ */
+export async function updateTemplate(id: number, fields: TemplateFields): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    await connection.beginTransaction();
+    await connection.query(
+      "UPDATE incident_template SET name = ?, title = ?, description = ?, severity = ? WHERE id = ?",
+      [fields.name, fields.title, fields.description, fields.severity, id]
+    );
+    await connection.query("DELETE FROM incident_template_label WHERE template_id = ?", [id]);
+
+    if (fields.labelIds.length > 0) {
+      await connection.query("INSERT INTO incident_template_label (template_id, label_id) VALUES ?", [
+        fields.labelIds.map((labelId) => [id, labelId]),
+      ]);
+    }
+
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
+
+/**
+ * Delete an incident template, incidents created from it are kept
+ */
+export async function deleteTemplate(id: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>("DELETE FROM incident_template WHERE id = ?", [id]);
+
+  return result.affectedRows > 0;
+}
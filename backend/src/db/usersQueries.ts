@@ -147,3 +147,36 @@ export async function deleteUser(id: number): Promise<boolean> {
 
   return result.affectedRows > 0;
 }
+
+interface EmailPreferenceRow extends RowDataPacket {
+  email_notifications: number;
+}
+
+/**
+ * Check whether a user receives notification emails
+ * @param id - The user's ID
+ * @returns null if user not found
+ */
+export async function getEmailNotificationsEnabled(id: number): Promise<boolean | null> {
+  const [rows] = await pool.query<EmailPreferenceRow[]>(
+    "SELECT email_notifications FROM users WHERE id = ?",
+    [id]
+  );
+
+  return rows.length > 0 ? !!rows[0].email_notifications : null;
+}
+
+/**
+ * Opt a user in or out of notification emails
+ * @param id - The user's ID
+ * @param enabled - Whether emails should be sent
+ * @returns true if updated, false if user not found
+ */
+export async function setEmailNotificationsEnabled(id: number, enabled: boolean): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "UPDATE users SET email_notifications = ? WHERE id = ?",
+    [enabled, id]
+  );
+
+  return result.affectedRows > 0;
+}
@@ -0,0 +1,52 @@
+import pool from "./dbPool.ts";
+import type { IncidentWatcherWithUser } from "../types/watcher.ts";
+import type { RowDataPacket, ResultSetHeader } from "mysql2";
+
+interface IncidentWatcherWithUserRow extends RowDataPacket, IncidentWatcherWithUser {}
+
+/**
+ * Start watching an incident
+ * @returns true if the user was not watching it yet
+ */
+export async function addWatcher(incidentId: number, userId: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "INSERT IGNORE INTO incident_watcher (incident_id, user_id) VALUES (?, ?)",
+    [incidentId, userId]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Stop watching an incident
+ * @returns true if the user was watching it
+ */
+export async function removeWatcher(incidentId: number, userId: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "DELETE FROM incident_watcher WHERE incident_id = ? AND user_id = ?",
+    [incidentId, userId]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Get the watchers of an incident
+ * Only members of the incident's current team are returned, watchers left behind by a transfer are skipped
+ * @param incidentId - The incident's ID
+ * @returns Watchers with their name, oldest first
+ */
+export async function getIncidentWatchers(incidentId: number): Promise<IncidentWatcherWithUser[]> {
+  const [rows] = await pool.query<IncidentWatcherWithUserRow[]>(
+    `SELECT w.incident_id, w.user_id, w.created_at, u.name as user_name
+     FROM incident_watcher w
+     INNER JOIN incident i ON i.id = w.incident_id
+     INNER JOIN team_user tu ON tu.team_id = i.team_id AND tu.user_id = w.user_id
+     INNER JOIN users u ON u.id = w.user_id
+     WHERE w.incident_id = ?
+     ORDER BY w.created_at ASC, w.user_id ASC`,
+    [incidentId]
+  );
+
+  return rows;
+}
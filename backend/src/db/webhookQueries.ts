@@ -0,0 +1,284 @@
+import pool from "./dbPool.ts";
+import {
+  WebhookDeliveryStatus,
+  type TeamWebhook,
+  type TeamWebhookWithSecret,
+  type WebhookDelivery,
+  type WebhookEvent,
+} from "../types/webhook.ts";
+import type { RowDataPacket, ResultSetHeader } from "mysql2";
+
+// SET and BOOLEAN columns come back as a comma-separated string and a number
+interface TeamWebhookRow extends RowDataPacket {
+  id: number;
+  team_id: number;
+  url: string;
+  secret: string;
+  events: string;
+  is_active: number;
+  created_by_user_id: number | null;
+  created_at: Date;
+}
+
+interface WebhookDeliveryRow extends RowDataPacket, WebhookDelivery {}
+
+export interface DueWebhookDelivery extends WebhookDelivery {
+  url: string;
+  secret: string;
+}
+
+interface DueWebhookDeliveryRow extends RowDataPacket, DueWebhookDelivery {}
+
+const WEBHOOK_COLUMNS = "id, team_id, url, secret, events, is_active, created_by_user_id, created_at";
+
+const DELIVERY_COLUMNS =
+  "id, webhook_id, event, payload, status, attempts, response_status, last_error, next_attempt_at, delivered_at, created_at";
+
+function toWebhook(row: TeamWebhookRow): TeamWebhookWithSecret {
+  return {
+    id: row.id,
+    team_id: row.team_id,
+    url: row.url,
+    secret: row.secret,
+    events: row.events ? (row.events.split(",") as WebhookEvent[]) : [],
+    is_active: !!row.is_active,
+    created_by_user_id: row.created_by_user_id,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Strip the signing secret before sending a webhook to the client
+ */
+export function withoutSecret({ secret: _secret, ...webhook }: TeamWebhookWithSecret): TeamWebhook {
+  return webhook;
+}
+
+/**
+ * Register a webhook for a team
+ */
+export async function createWebhook(
+  teamId: number,
+  url: string,
+  secret: string,
+  events: WebhookEvent[],
+  createdByUserId: number
+): Promise<TeamWebhookWithSecret> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "INSERT INTO team_webhook (team_id, url, secret, events, created_by_user_id) VALUES (?, ?, ?, ?, ?)",
+    [teamId, url, secret, events.join(","), createdByUserId]
+  );
+
+  const webhook = await findWebhookById(result.insertId);
+  if (!webhook) {
+    throw new Error("Failed to create webhook");
+  }
+
+  return webhook;
+}
+
+/**
+ * Find a webhook by ID
+ */
+export async function findWebhookById(id: number): Promise<TeamWebhookWithSecret | null> {
+  const [rows] = await pool.query<TeamWebhookRow[]>(
+    `SELECT ${WEBHOOK_COLUMNS} FROM team_webhook WHERE id = ?`,
+    [id]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return toWebhook(rows[0]);
+}
+
+/**
+ * Get a team's webhooks, oldest first, without their secrets
+ */
+export async function getTeamWebhooks(teamId: number): Promise<TeamWebhook[]> {
+  const [rows] = await pool.query<TeamWebhookRow[]>(
+    `SELECT ${WEBHOOK_COLUMNS} FROM team_webhook WHERE team_id = ? ORDER BY created_at ASC, id ASC`,
+    [teamId]
+  );
+
+  return rows.map((row) => withoutSecret(toWebhook(row)));
+}
+
+/**
+ * Get the active webhooks of a team subscribed to an event
+ */
+export async function getWebhooksForEvent(teamId: number, event: WebhookEvent): Promise<TeamWebhookWithSecret[]> {
+  const [rows] = await pool.query<TeamWebhookRow[]>(
+    `SELECT ${WEBHOOK_COLUMNS} FROM team_webhook
+     WHERE team_id = ? AND is_active = TRUE AND FIND_IN_SET(?, events) > 0`,
+    [teamId, event]
+  );
+
+  return rows.map(toWebhook);
+}
+
+/**
+ * Update a webhook's URL, events or active flag
+ * @returns true if updated, false if webhook not found
+ */
+export async function updateWebhook(
+  id: number,
+  data: { url?: string; events?: WebhookEvent[]; is_active?: boolean }
+): Promise<boolean> {
+  const fields: string[] = [];
+  const values: (string | number | boolean)[] = [];
+
+  if (data.url !== undefined) {
+    fields.push("url = ?");
+    values.push(data.url);
+  }
+  if (data.events !== undefined) {
+    fields.push("events = ?");
+    values.push(data.events.join(","));
+  }
+  if (data.is_active !== undefined) {
+    fields.push("is_active = ?");
+    values.push(data.is_active);
+  }
+
+  if (fields.length === 0) return false;
+
+  values.push(id);
+  const [result] = await pool.query<ResultSetHeader>(
+    `UPDATE team_webhook SET ${fields.join(", ")} WHERE id = ?`,
+    values
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Delete a webhook, its deliveries are removed by the cascade
+ */
+export async function deleteWebhook(id: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    "DELETE FROM team_webhook WHERE id = ?",
+    [id]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Queue a delivery of an event to a webhook
+ */
+export async function createWebhookDelivery(webhookId: number, event: WebhookEvent, payload: string): Promise<void> {
+  await pool.query(
+    "INSERT INTO webhook_delivery (webhook_id, event, payload) VALUES (?, ?, ?)",
+    [webhookId, event, payload]
+  );
+}
+
+/**
+ * Find a delivery by ID
+ */
+export async function findWebhookDeliveryById(id: number): Promise<WebhookDelivery | null> {
+  const [rows] = await pool.query<WebhookDeliveryRow[]>(
+    `SELECT ${DELIVERY_COLUMNS} FROM webhook_delivery WHERE id = ?`,
+    [id]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return rows[0];
+}
+
+/**
+ * Get the latest deliveries of a webhook, newest first
+ */
+export async function getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+  const [rows] = await pool.query<WebhookDeliveryRow[]>(
+    `SELECT ${DELIVERY_COLUMNS} FROM webhook_delivery
+     WHERE webhook_id = ?
+     ORDER BY created_at DESC, id DESC
+     LIMIT ?`,
+    [webhookId, limit]
+  );
+
+  return rows;
+}
+
+/**
+ * Get pending deliveries of active webhooks whose next attempt is due, with the target URL and secret
+ * Deliveries of a paused webhook wait until it is reactivated
+ */
+export async function getDueWebhookDeliveries(limit: number): Promise<DueWebhookDelivery[]> {
+  const [rows] = await pool.query<DueWebhookDeliveryRow[]>(
+    `SELECT d.id, d.webhook_id, d.event, d.payload, d.status, d.attempts, d.response_status, d.last_error,
+            d.next_attempt_at, d.delivered_at, d.created_at, w.url, w.secret
+     FROM webhook_delivery d
+     INNER JOIN team_webhook w ON w.id = d.webhook_id
+     WHERE d.status = ? AND d.next_attempt_at <= CURRENT_TIMESTAMP AND w.is_active = TRUE
+     ORDER BY d.next_attempt_at ASC, d.id ASC
+     LIMIT ?`,
+    [WebhookDeliveryStatus.PENDING, limit]
+  );
+
+  return rows;
+}
+
+/**
+ * Mark a delivery as delivered
+ */
+export async function markWebhookDelivered(id: number, responseStatus: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    `UPDATE webhook_delivery
+     SET status = ?, attempts = attempts + 1, response_status = ?, last_error = NULL, delivered_at = CURRENT_TIMESTAMP
+     WHERE id = ?`,
+    [WebhookDeliveryStatus.DELIVERED, responseStatus, id]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Record a failed delivery attempt
+ * @param id - The delivery's ID
+ * @param responseStatus - HTTP status returned by the target, null if it could not be reached
+ * @param error - Why the attempt failed
+ * @param retryInSeconds - Delay before the next attempt, null to give up
+ */
+export async function markWebhookAttemptFailed(
+  id: number,
+  responseStatus: number | null,
+  error: string,
+  retryInSeconds: number | null
+): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    retryInSeconds === null
+      ? `UPDATE webhook_delivery
+         SET status = ?, attempts = attempts + 1, response_status = ?, last_error = ?
+         WHERE id = ?`
+      : `UPDATE webhook_delivery
+         SET attempts = attempts + 1, response_status = ?, last_error = ?,
+             next_attempt_at = CURRENT_TIMESTAMP + INTERVAL ? SECOND
+         WHERE id = ?`,
+    retryInSeconds === null
+      ? [WebhookDeliveryStatus.FAILED, responseStatus, error, id]
+      : [responseStatus, error, retryInSeconds, id]
+  );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Queue a failed delivery again, with a fresh set of attempts
+ */
+export async function retryWebhookDelivery(id: number): Promise<boolean> {
+  const [result] = await pool.query<ResultSetHeader>(
+    `UPDATE webhook_delivery
+     SET status = ?, attempts = 0, next_attempt_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND status = ?`,
+    [WebhookDeliveryStatus.PENDING, id, WebhookDeliveryStatus.FAILED]
+  );
+
+  return result.affectedRows > 0;
+}
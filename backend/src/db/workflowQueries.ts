@@ -0,0 +1,84 @@
+import pool from "./dbPool.ts";
+import type { StatusTransition } from "../types/workflow.ts";
+import { DEFAULT_WORKFLOW } from "../workflow/index.ts";
+import type { RowDataPacket } from "mysql2";
+
+interface StatusTransitionRow extends RowDataPacket {
+  from_status: StatusTransition["from_status"];
+  to_status: StatusTransition["to_status"];
+  requires_note: number;
+}
+
+/**
+ * Get the status workflow of a team
+ * @param teamId - The team's ID
+ * @returns The team's transitions, or the default workflow if the team has none
+ */
+export async function getTeamWorkflow(teamId: number): Promise<StatusTransition[]> {
+  const [rows] = await pool.query<StatusTransitionRow[]>(
+    `SELECT from_status, to_status, requires_note
+     FROM team_status_transition
+     WHERE team_id = ?
+     ORDER BY id ASC`,
+    [teamId]
+  );
+
+  if (rows.length === 0) {
+    return DEFAULT_WORKFLOW;
+  }
+
+  return rows.map((row) => ({
+    from_status: row.from_status,
+    to_status: row.to_status,
+    requires_note: Boolean(row.requires_note),
+  }));
+}
+
+/**
+ * Check whether a team has defined its own workflow
+ * @param teamId - The team's ID
+ */
+export async function hasCustomWorkflow(teamId: number): Promise<boolean> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    "SELECT 1 FROM team_status_transition WHERE team_id = ? LIMIT 1",
+    [teamId]
+  );
+
+  return rows.length > 0;
+}
+
+/**
+ * Replace the status workflow of a team
+ * @param teamId - The team's ID
+ * @param transitions - The new set of allowed transitions
+ */
+export async function replaceTeamWorkflow(teamId: number, transitions: StatusTransition[]): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    await connection.beginTransaction();
+    await connection.query("DELETE FROM team_status_transition WHERE team_id = ?", [teamId]);
+
+    if (transitions.length > 0) {
+      await connection.query(
+        "INSERT INTO team_status_transition (team_id, from_status, to_status, requires_note) VALUES ?",
+        [transitions.map((t) => [teamId, t.from_status, t.to_status, t.requires_note])]
+      );
+    }
+
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
+
+/**
+ * Remove a team's workflow so it falls back to the default one
+ * @param teamId - The team's ID
+ */
+export async function resetTeamWorkflow(teamId: number): Promise<void> {
+  await pool.query("DELETE FROM team_status_transition WHERE team_id = ?", [teamId]);
+}
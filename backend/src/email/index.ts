@@ -0,0 +1,74 @@
+import type { Incident } from "../types/incident.ts";
+import { IncidentStatus } from "../types/incident.ts";
+import { queueEmail, getEmailRecipients, getWatcherEmailRecipients } from "../db/emailQueries.ts";
+import { isEmailEnabled } from "./transport.ts";
+import { assignedEmail, escalatedEmail, escalationLevelEmail, resolvedEmail, type EmailContent } from "./templates.ts";
+import { processEmailQueue } from "./worker.ts";
+
+export { startEmailWorker } from "./worker.ts";
+
+async function queueAll(recipients: { name: string; email: string }[], render: (name: string) => EmailContent) {
+  for (const recipient of recipients) {
+    const { subject, body } = render(recipient.name);
+    await queueEmail(recipient.email, subject, body);
+  }
+  if (recipients.length > 0) {
+    void processEmailQueue();
+  }
+}
+
+/**
+ * Email the new assignee of an incident, unless they assigned it to themselves or opted out
+ */
+export async function emailIncidentAssigned(
+  incident: Incident,
+  assigneeId: number,
+  actorUserId: number | null
+): Promise<void> {
+  if (!isEmailEnabled() || assigneeId === actorUserId) {
+    return;
+  }
+
+  const recipients = await getEmailRecipients([assigneeId]);
+  await queueAll(recipients, (name) => assignedEmail(incident, name));
+}
+
+/**
+ * Email the watchers of an incident when it is escalated or resolved
+ * @param incident - The incident, with its new status
+ * @param actorUserId - The user who changed the status, not emailed
+ * @param note - Note given with the status change
+ */
+export async function emailIncidentStatusChanged(
+  incident: Incident,
+  actorUserId: number | null,
+  note: string | null = null
+): Promise<void> {
+  if (!isEmailEnabled()) {
+    return;
+  }
+
+  if (incident.status === IncidentStatus.ESCALATED) {
+    const recipients = await getWatcherEmailRecipients(incident.id, actorUserId);
+    await queueAll(recipients, (name) => escalatedEmail(incident, name));
+  } else if (incident.status === IncidentStatus.RESOLVED) {
+    const recipients = await getWatcherEmailRecipients(incident.id, actorUserId);
+    await queueAll(recipients, (name) => resolvedEmail(incident, name, note));
+  }
+}
+
+/**
+ * Email the users notified by an escalation level
+ */
+export async function emailIncidentEscalationLevel(
+  incident: Incident,
+  userIds: number[],
+  level: number
+): Promise<void> {
+  if (!isEmailEnabled() || userIds.length === 0) {
+    return;
+  }
+
+  const recipients = await getEmailRecipients(userIds);
+  await queueAll(recipients, (name) => escalationLevelEmail(incident, name, level));
+}
@@ -0,0 +1,65 @@
+import type { Incident } from "../types/incident.ts";
+
+export interface EmailContent {
+  subject: string;
+  body: string;
+}
+
+function incidentUrl(incident: Incident): string {
+  const appUrl = (process.env.APP_URL || "http://localhost").replace(/\/$/, "");
+  return `${appUrl}/incidents?team=${incident.team_id}&incident=${incident.id}`;
+}
+
+function incidentSummary(incident: Incident): string {
+  return [
+    `Incident #${incident.id}: ${incident.title}`,
+    `Severity: ${incident.severity.toUpperCase()} • Priority: ${incident.priority.toUpperCase()}`,
+    "",
+    incident.description || "No description provided",
+    "",
+    `Open it at ${incidentUrl(incident)}`,
+  ].join("\n");
+}
+
+const footer = "\n\n--\nYou can turn off these emails from the user menu of Incident Manager.";
+
+/**
+ * Email sent to a user when an incident is assigned to them
+ */
+export function assignedEmail(incident: Incident, recipientName: string): EmailContent {
+  return {
+    subject: `[Incident #${incident.id}] Assigned to you: ${incident.title}`,
+    body: `Hi ${recipientName},\n\nYou have been assigned the following incident.\n\n${incidentSummary(incident)}${footer}`,
+  };
+}
+
+/**
+ * Email sent to the watchers of an incident when it is escalated
+ */
+export function escalatedEmail(incident: Incident, recipientName: string): EmailContent {
+  return {
+    subject: `[Incident #${incident.id}] Escalated: ${incident.title}`,
+    body: `Hi ${recipientName},\n\nAn incident you are watching has been escalated.\n\n${incidentSummary(incident)}${footer}`,
+  };
+}
+
+/**
+ * Email sent to the users an escalation level notifies
+ */
+export function escalationLevelEmail(incident: Incident, recipientName: string, level: number): EmailContent {
+  return {
+    subject: `[Incident #${incident.id}] Escalation level ${level}: ${incident.title}`,
+    body: `Hi ${recipientName},\n\nAn incident has not been acknowledged and was escalated to you (level ${level}).\n\n${incidentSummary(incident)}${footer}`,
+  };
+}
+
+/**
+ * Email sent to the watchers of an incident when it is resolved
+ */
+export function resolvedEmail(incident: Incident, recipientName: string, note: string | null): EmailContent {
+  const resolution = note ? `\n\nResolution note:\n${note}` : "";
+  return {
+    subject: `[Incident #${incident.id}] Resolved: ${incident.title}`,
+    body: `Hi ${recipientName},\n\nAn incident you are watching has been resolved.${resolution}\n\n${incidentSummary(incident)}${footer}`,
+  };
+}
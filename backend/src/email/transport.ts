@@ -0,0 +1,37 @@
+import nodemailer, { type Transporter } from "nodemailer";
+
+let transport: Transporter | null = null;
+
+/**
+ * Emails are only sent when an SMTP host is configured
+ */
+export function isEmailEnabled(): boolean {
+  return !!process.env.SMTP_HOST;
+}
+
+/**
+ * Get the SMTP transport configured by the SMTP_* environment variables
+ */
+export function getMailTransport(): Transporter {
+  if (transport) {
+    return transport;
+  }
+
+  transport = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || "587", 10),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  return transport;
+}
+
+/**
+ * Sender address of all emails
+ */
+export function getMailFrom(): string {
+  return process.env.EMAIL_FROM || "Incident Manager <no-reply@localhost>";
+}
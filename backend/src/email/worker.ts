@@ -0,0 +1,63 @@
+import { getDueEmails, markEmailSent, markEmailAttemptFailed } from "../db/emailQueries.ts";
+import { getMailTransport, getMailFrom, isEmailEnabled } from "./transport.ts";
+
+const BATCH_SIZE = 20;
+const POLL_INTERVAL_MS = 15000;
+const BASE_RETRY_SECONDS = 30;
+
+let isProcessing = false;
+
+function maxAttempts(): number {
+  return parseInt(process.env.EMAIL_MAX_ATTEMPTS || "5", 10);
+}
+
+/**
+ * Send the emails whose next attempt is due
+ * Failed sends are retried with exponential backoff until EMAIL_MAX_ATTEMPTS is reached
+ */
+export async function processEmailQueue(): Promise<void> {
+  // One batch at a time, a slow SMTP server must not cause duplicate sends
+  if (isProcessing) {
+    return;
+  }
+  isProcessing = true;
+
+  try {
+    const emails = await getDueEmails(BATCH_SIZE);
+
+    for (const email of emails) {
+      try {
+        await getMailTransport().sendMail({
+          from: getMailFrom(),
+          to: email.to_address,
+          subject: email.subject,
+          text: email.body,
+        });
+        await markEmailSent(email.id);
+      } catch (error) {
+        const attempts = email.attempts + 1;
+        const message = error instanceof Error ? error.message : String(error);
+        const retryIn = attempts >= maxAttempts() ? null : BASE_RETRY_SECONDS * 2 ** (attempts - 1);
+        await markEmailAttemptFailed(email.id, message.slice(0, 1000), retryIn);
+        console.error(`Email ${email.id} to ${email.to_address} failed (attempt ${attempts}):`, message);
+      }
+    }
+  } catch (error) {
+    console.error("Email queue error:", error);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * Poll the outbox in the background, does nothing when SMTP is not configured
+ */
+export function startEmailWorker(): void {
+  if (!isEmailEnabled()) {
+    console.log("SMTP_HOST not set, email notifications are disabled");
+    return;
+  }
+
+  setInterval(processEmailQueue, POLL_INTERVAL_MS);
+  void processEmailQueue();
+}
@@ -0,0 +1,101 @@
+import type { Incident } from "../types/incident.ts";
+import { IncidentStatus } from "../types/incident.ts";
+import { IncidentEventType } from "../types/incidentEvent.ts";
+import { NotificationType } from "../types/notification.ts";
+import { TeamRole } from "../types/teamUser.ts";
+import { EscalationTarget, type EscalationLevel } from "../types/escalation.ts";
+import { recordIncidentEscalation, markIncidentEscalated } from "../db/escalationQueries.ts";
+import { findUserById, getUsersInTeam } from "../db/usersQueries.ts";
+import { recordIncidentEvent } from "../db/incidentEventQueries.ts";
+import { createNotifications } from "../db/notificationQueries.ts";
+import { addWatcher } from "../db/watcherQueries.ts";
+import { getTeamOnCall } from "../oncall/index.ts";
+import { emailIncidentEscalationLevel } from "../email/index.ts";
+import { recordStatusChange, publishIncidentChanges } from "../incidents/index.ts";
+
+interface Recipient {
+  id: number;
+  name: string;
+}
+
+/**
+ * Whoever is on call for a team, its managers and admins when nobody is
+ */
+async function getOnCallOrManagers(teamId: number): Promise<Recipient[]> {
+  const members = await getUsersInTeam(teamId);
+  const onCallIds = new Set((await getTeamOnCall(teamId)).map((o) => o.user_id));
+  const onCall = members.filter((m) => onCallIds.has(m.id));
+
+  if (onCall.length > 0) {
+    return onCall;
+  }
+  return members.filter((m) => m.role === TeamRole.MANAGER || m.role === TeamRole.ADMIN);
+}
+
+async function resolveRecipients(teamId: number, level: EscalationLevel): Promise<Recipient[]> {
+  switch (level.target_type) {
+    case EscalationTarget.ONCALL:
+      return getOnCallOrManagers(teamId);
+    case EscalationTarget.TEAM:
+      return level.target_team_id === null ? [] : getOnCallOrManagers(level.target_team_id);
+    case EscalationTarget.MANAGERS: {
+      const members = await getUsersInTeam(teamId);
+      return members.filter((m) => m.role === TeamRole.MANAGER || m.role === TeamRole.ADMIN);
+    }
+    case EscalationTarget.USER: {
+      const user = level.target_user_id === null ? null : await findUserById(level.target_user_id);
+      return user ? [{ id: user.id, name: user.name }] : [];
+    }
+  }
+}
+
+/**
+ * Run one escalation level of an unacknowledged incident
+ * The incident is set to escalated and each step is recorded in its history, the notified
+ * users are paged in-app and by email and start watching the incident
+ * Levels already recorded are skipped, so a level never pages twice
+ */
+export async function escalateIncident(incident: Incident, level: EscalationLevel): Promise<void> {
+  if (!(await recordIncidentEscalation(incident.id, level.level))) {
+    return;
+  }
+
+  const note = `Escalation level ${level.level}`;
+
+  if (incident.status !== IncidentStatus.ESCALATED) {
+    // Not an acknowledgement, so the status is set without a first response
+    await markIncidentEscalated(incident.id);
+    await recordStatusChange(incident, IncidentStatus.ESCALATED, null, {
+      note,
+      summary: "was escalated, nobody acknowledged it",
+    });
+  }
+
+  const recipients = await resolveRecipients(incident.team_id, level);
+  const userIds = recipients.map((r) => r.id);
+
+  await recordIncidentEvent(
+    incident.id,
+    null,
+    IncidentEventType.UPDATED,
+    "escalation",
+    null,
+    level.level,
+    recipients.length > 0
+      ? `Notified ${recipients.map((r) => r.name).join(", ")}`
+      : "Nobody to notify"
+  );
+
+  for (const userId of userIds) {
+    await addWatcher(incident.id, userId);
+  }
+  await createNotifications(
+    userIds,
+    NotificationType.INCIDENT_ESCALATED,
+    incident.id,
+    `Incident #${incident.id} "${incident.title}" was escalated to you (level ${level.level})`.slice(0, 255)
+  );
+  await emailIncidentEscalationLevel(incident, userIds, level.level);
+
+  await publishIncidentChanges(incident, null);
+}
@@ -0,0 +1,2 @@
+export { escalateIncident } from "./escalate.ts";
+export { startEscalationWorker, processEscalations } from "./worker.ts";
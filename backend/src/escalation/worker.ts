@@ -0,0 +1,71 @@
+import type { EscalationLevel } from "../types/escalation.ts";
+import { getEscalationCandidates, getTeamEscalationLevels } from "../db/escalationQueries.ts";
+import { escalateIncident } from "./escalate.ts";
+
+const BATCH_SIZE = 100;
+const POLL_INTERVAL_MS = 60000;
+
+let isProcessing = false;
+
+/**
+ * Minutes after creation at which each level of a policy is due
+ */
+function escalationDueMinutes(levels: EscalationLevel[]): number[] {
+  let total = 0;
+  return levels.map((level) => (total += level.delay_minutes));
+}
+
+/**
+ * Escalate the unacknowledged incidents whose next escalation level is due
+ * At most one level per incident and run, a late worker catches up on the next runs
+ */
+export async function processEscalations(): Promise<void> {
+  if (isProcessing) {
+    return;
+  }
+  isProcessing = true;
+
+  try {
+    const candidates = await getEscalationCandidates(BATCH_SIZE);
+    const policies = new Map<number, EscalationLevel[]>();
+    const now = Date.now();
+
+    for (const incident of candidates) {
+      let levels = policies.get(incident.team_id);
+      if (!levels) {
+        levels = await getTeamEscalationLevels(incident.team_id);
+        policies.set(incident.team_id, levels);
+      }
+
+      const next = levels[incident.escalation_level];
+      if (!next) {
+        continue;
+      }
+
+      // The query only returns due levels, this guards against a policy edited since
+      const dueMinutes = escalationDueMinutes(levels)[incident.escalation_level];
+      const dueAt = new Date(incident.created_at).getTime() + dueMinutes * 60000;
+      if (now < dueAt) {
+        continue;
+      }
+
+      try {
+        await escalateIncident(incident, next);
+      } catch (error) {
+        console.error(`Escalation error for incident #${incident.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("Escalation worker error:", error);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * Evaluate open incidents against their team's escalation policy in the background
+ */
+export function startEscalationWorker(): void {
+  setInterval(processEscalations, POLL_INTERVAL_MS);
+  void processEscalations();
+}
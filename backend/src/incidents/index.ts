@@ -0,0 +1,145 @@
+import type { Incident, IncidentStatus } from "../types/incident.ts";
+import { IncidentEventType } from "../types/incidentEvent.ts";
+import { NotificationType } from "../types/notification.ts";
+import { RealtimeEventType } from "../types/realtime.ts";
+import { findIncidentById, updateIncidentStatus, assignIncident } from "../db/incidentQueries.ts";
+import { isTeamMember } from "../db/teamUserQueries.ts";
+import { recordIncidentEvent } from "../db/incidentEventQueries.ts";
+import { createNotifications, notifyIncidentWatchers } from "../db/notificationQueries.ts";
+import { addWatcher } from "../db/watcherQueries.ts";
+import { emailIncidentAssigned, emailIncidentStatusChanged } from "../email/index.ts";
+import { emitIncidentChanges } from "../webhooks/index.ts";
+import { publishIncidentEvent } from "../realtime/index.ts";
+
+interface StatusChangeOptions {
+  // Reason recorded in the history and sent in the email
+  note?: string | null;
+  // Watchers' notification, "moved from <old> to <new>" by default
+  summary?: string;
+}
+
+/**
+ * Record a status change the caller already wrote: history entry,
+ * watcher notifications and email
+ * @param incident - The incident before the change
+ * @param status - The new status
+ * @param actorUserId - The user who changed it, null for system changes
+ */
+export async function recordStatusChange(
+  incident: Incident,
+  status: IncidentStatus,
+  actorUserId: number | null,
+  options: StatusChangeOptions = {}
+): Promise<void> {
+  const note = options.note ?? null;
+  const summary = options.summary ?? `moved from ${incident.status} to ${status}`;
+
+  await recordIncidentEvent(
+    incident.id,
+    actorUserId,
+    IncidentEventType.UPDATED,
+    "status",
+    incident.status,
+    status,
+    note
+  );
+  await notifyIncidentWatchers(
+    incident.id,
+    actorUserId,
+    NotificationType.STATUS_CHANGED,
+    `Incident #${incident.id} "${incident.title}" ${summary}`.slice(0, 255)
+  );
+  await emailIncidentStatusChanged({ ...incident, status }, actorUserId, note);
+}
+
+/**
+ * Move an incident to a new status and record the change
+ * Permissions and the team's workflow are checked by the caller
+ */
+export async function applyStatusChange(
+  incident: Incident,
+  status: IncidentStatus,
+  actorUserId: number | null,
+  options: StatusChangeOptions = {}
+): Promise<void> {
+  await updateIncidentStatus(incident.id, status);
+  await recordStatusChange(incident, status, actorUserId, options);
+}
+
+/**
+ * Record an assignment the caller already wrote: history entry, and for a new
+ * assignee a watch on the incident, a notification and an email
+ * @param incident - The incident before the change
+ * @param assigneeId - The new assignee, null when unassigned
+ * @param actorUserId - The user who assigned it, null for system changes
+ * @param note - Reason recorded in the history
+ */
+export async function recordAssignment(
+  incident: Incident,
+  assigneeId: number | null,
+  actorUserId: number | null,
+  note: string | null = null
+): Promise<void> {
+  await recordIncidentEvent(
+    incident.id,
+    actorUserId,
+    IncidentEventType.UPDATED,
+    "assigned_to_user_id",
+    incident.assigned_to_user_id,
+    assigneeId,
+    note
+  );
+
+  if (assigneeId === null) {
+    return;
+  }
+
+  await addWatcher(incident.id, assigneeId);
+  if (assigneeId !== actorUserId) {
+    await createNotifications(
+      [assigneeId],
+      NotificationType.INCIDENT_ASSIGNED,
+      incident.id,
+      `You were assigned incident #${incident.id} "${incident.title}"`.slice(0, 255)
+    );
+  }
+  await emailIncidentAssigned(incident, assigneeId, actorUserId);
+}
+
+/**
+ * Assign an incident, or unassign it with null, and record the change
+ * Permissions are checked by the caller
+ * @returns false when the assignee is not a member of the incident's team, nothing is changed then
+ */
+export async function applyAssignment(
+  incident: Incident,
+  assigneeId: number | null,
+  actorUserId: number | null
+): Promise<boolean> {
+  if (assigneeId !== null && !(await isTeamMember(assigneeId, incident.team_id))) {
+    return false;
+  }
+
+  await assignIncident(incident.id, assigneeId);
+  await recordAssignment(incident, assigneeId, actorUserId);
+  return true;
+}
+
+/**
+ * Send the changes made to an incident to webhooks and connected clients
+ * @param before - The incident before the changes
+ * @param actorUserId - The user who made them, null for system changes
+ * @returns The incident after the changes, null if it no longer exists
+ */
+export async function publishIncidentChanges(
+  before: Incident,
+  actorUserId: number | null
+): Promise<Incident | null> {
+  const after = await findIncidentById(before.id);
+
+  if (after) {
+    await emitIncidentChanges(before, after, actorUserId);
+    await publishIncidentEvent(RealtimeEventType.INCIDENT_UPDATED, after, actorUserId);
+  }
+  return after;
+}
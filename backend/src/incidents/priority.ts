@@ -0,0 +1,20 @@
+import { IncidentPriority, type IncidentLevel } from "../types/incident.ts";
+
+const levelWeight: Record<IncidentLevel, number> = {
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+/**
+ * Derives the priority from the impact × urgency matrix
+ * high/high is P1, low/low is P4
+ */
+export function derivePriority(impact: IncidentLevel, urgency: IncidentLevel): IncidentPriority {
+  const score = levelWeight[impact] + levelWeight[urgency];
+
+  if (score <= 2) return IncidentPriority.P1;
+  if (score === 3) return IncidentPriority.P2;
+  if (score === 4) return IncidentPriority.P3;
+  return IncidentPriority.P4;
+}
@@ -0,0 +1,45 @@
+import type { OnCallNow, OnCallScheduleWithMembers } from "../types/oncall.ts";
+import { computeOnCallUser, computeOnCallShifts } from "./rotation.ts";
+import { getTeamSchedules, getSchedulesForUserTeams } from "../db/oncallQueries.ts";
+
+export { computeOnCallShifts } from "./rotation.ts";
+
+// How far ahead the end of the current shift is looked for
+const LOOKAHEAD_MS = 62 * 24 * 60 * 60 * 1000;
+
+function onCallNow(schedule: OnCallScheduleWithMembers, at: Date): OnCallNow | null {
+  const onCall = computeOnCallUser(schedule, at);
+  if (!onCall) {
+    return null;
+  }
+
+  const horizon = new Date(at.getTime() + LOOKAHEAD_MS);
+  const [current] = computeOnCallShifts(schedule, at, horizon);
+
+  return {
+    team_id: schedule.team_id,
+    schedule_id: schedule.id,
+    schedule_name: schedule.name,
+    user_id: onCall.user_id,
+    is_override: onCall.is_override,
+    until: current && current.ends_at.getTime() < horizon.getTime() ? current.ends_at : null,
+  };
+}
+
+/**
+ * Who is on call for a team, one entry per schedule with someone on call
+ */
+export async function getTeamOnCall(teamId: number, at: Date = new Date()): Promise<OnCallNow[]> {
+  const schedules = await getTeamSchedules(teamId);
+  return schedules.map((s) => onCallNow(s, at)).filter((o): o is OnCallNow => o !== null);
+}
+
+/**
+ * The schedules a user is on call for right now, across their teams
+ */
+export async function getUserOnCall(userId: number, at: Date = new Date()): Promise<OnCallNow[]> {
+  const schedules = await getSchedulesForUserTeams(userId);
+  return schedules
+    .map((s) => onCallNow(s, at))
+    .filter((o): o is OnCallNow => o !== null && o.user_id === userId);
+}
@@ -0,0 +1,87 @@
+import type { OnCallRotation, OnCallScheduleWithMembers, OnCallShift } from "../types/oncall.ts";
+
+const ROTATION_MS: Record<OnCallRotation, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Who a schedule puts on call at a given time
+ * The most recent override covering the time wins over the rotation
+ * @returns null before the first shift, or when the rotation is empty and no override applies
+ */
+export function computeOnCallUser(
+  schedule: OnCallScheduleWithMembers,
+  at: Date
+): { user_id: number; is_override: boolean } | null {
+  const time = at.getTime();
+  const override = schedule.overrides
+    .filter((o) => new Date(o.starts_at).getTime() <= time && time < new Date(o.ends_at).getTime())
+    .sort((a, b) => b.id - a.id)[0];
+
+  if (override) {
+    return { user_id: override.user_id, is_override: true };
+  }
+
+  const elapsed = time - new Date(schedule.starts_at).getTime();
+  if (elapsed < 0 || schedule.user_ids.length === 0) {
+    return null;
+  }
+
+  const shift = Math.floor(elapsed / ROTATION_MS[schedule.rotation]);
+  return { user_id: schedule.user_ids[shift % schedule.user_ids.length], is_override: false };
+}
+
+/**
+ * Split a time range into the shifts of a schedule, rotation handoffs and overrides included
+ * Times nobody is on call are left out
+ */
+export function computeOnCallShifts(schedule: OnCallScheduleWithMembers, from: Date, to: Date): OnCallShift[] {
+  const start = from.getTime();
+  const end = to.getTime();
+  const boundaries = new Set<number>([start, end]);
+
+  const period = ROTATION_MS[schedule.rotation];
+  const anchor = new Date(schedule.starts_at).getTime();
+  const first = anchor + Math.max(0, Math.ceil((start - anchor) / period)) * period;
+  for (let t = first; t < end; t += period) {
+    boundaries.add(t);
+  }
+
+  for (const o of schedule.overrides) {
+    for (const t of [new Date(o.starts_at).getTime(), new Date(o.ends_at).getTime()]) {
+      if (t > start && t < end) {
+        boundaries.add(t);
+      }
+    }
+  }
+
+  const times = [...boundaries].filter((t) => t >= start && t <= end).sort((a, b) => a - b);
+  const shifts: OnCallShift[] = [];
+
+  for (let i = 0; i < times.length - 1; i++) {
+    const onCall = computeOnCallUser(schedule, new Date(times[i]));
+    if (!onCall) {
+      continue;
+    }
+
+    const previous = shifts[shifts.length - 1];
+    if (
+      previous &&
+      previous.ends_at.getTime() === times[i] &&
+      previous.user_id === onCall.user_id &&
+      previous.is_override === onCall.is_override
+    ) {
+      previous.ends_at = new Date(times[i + 1]);
+    } else {
+      shifts.push({
+        user_id: onCall.user_id,
+        starts_at: new Date(times[i]),
+        ends_at: new Date(times[i + 1]),
+        is_override: onCall.is_override,
+      });
+    }
+  }
+
+  return shifts;
+}
@@ -0,0 +1,72 @@
+import type { Response } from "express";
+import type { Incident } from "../types/incident.ts";
+import type { IncidentRealtimeEvent, RealtimeEventType } from "../types/realtime.ts";
+import { getTeamMembers } from "../db/teamUserQueries.ts";
+import { withIncidentLabels } from "../db/labelQueries.ts";
+import { withIncidentSla } from "../db/slaQueries.ts";
+import { withIncidentCustomFields } from "../db/customFieldQueries.ts";
+
+interface RealtimeClient {
+  userId: number;
+  res: Response;
+}
+
+const clients = new Set<RealtimeClient>();
+
+/**
+ * Register an open event stream
+ * @returns Function removing the stream once the connection closes
+ */
+export function addRealtimeClient(userId: number, res: Response): () => void {
+  const client = { userId, res };
+  clients.add(client);
+  return () => {
+    clients.delete(client);
+  };
+}
+
+/**
+ * Push an incident event to the connected members of the affected teams
+ * Membership is checked when publishing, so streams follow team changes without reconnecting
+ * Failures are logged, they never fail the request that triggered the event
+ * @param type - The event
+ * @param incident - The incident after the change
+ * @param actorUserId - The user who made the change, null for system changes
+ * @param teamIds - Affected teams, defaults to the incident's team
+ */
+export async function publishIncidentEvent(
+  type: RealtimeEventType,
+  incident: Incident,
+  actorUserId: number | null,
+  teamIds: number[] = [incident.team_id]
+): Promise<void> {
+  if (clients.size === 0) {
+    return;
+  }
+
+  try {
+    const recipients = new Set<number>();
+    for (const teamId of new Set(teamIds)) {
+      for (const member of await getTeamMembers(teamId)) {
+        recipients.add(member.user_id);
+      }
+    }
+
+    const event: IncidentRealtimeEvent = {
+      type,
+      team_ids: [...new Set(teamIds)],
+      incident_id: incident.id,
+      actor_user_id: actorUserId,
+      incident: await withIncidentCustomFields(await withIncidentSla(await withIncidentLabels(incident))),
+    };
+    const message = `event: incident\ndata: ${JSON.stringify(event)}\n\n`;
+
+    for (const client of clients) {
+      if (recipients.has(client.userId)) {
+        client.res.write(message);
+      }
+    }
+  } catch (error) {
+    console.error(`Publish ${type} error:`, error);
+  }
+}
@@ -0,0 +1,292 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddleware.ts";
+import { requireTeamRole } from "../auth/authorization.ts";
+import { requireIntegrationKey, type IntegrationRequest } from "../auth/integrationKeyMiddleware.ts";
+import { TeamRole } from "../types/teamUser.ts";
+import { IncidentStatus, type Incident } from "../types/incident.ts";
+import { IncidentEventType } from "../types/incidentEvent.ts";
+import { WebhookEvent } from "../types/webhook.ts";
+import type { AlertmanagerAlert, AlertmanagerPayload } from "../types/alert.ts";
+import {
+  createIncident,
+  findIncidentById,
+  updateIncidentTitle,
+  updateIncidentDescription,
+  updateIncidentSeverity,
+} from "../db/incidentQueries.ts";
+import {
+  getTeamIntegrationKey,
+  setTeamIntegrationKey,
+  deleteTeamIntegrationKey,
+  findOpenIncidentAlert,
+  createIncidentAlert,
+  recordAlertOccurrence,
+} from "../db/alertQueries.ts";
+import { recordIncidentEvent } from "../db/incidentEventQueries.ts";
+import { generateIntegrationKey, hashIntegrationKey, integrationKeyPrefix } from "../alerts/integrationKey.ts";
+import { isAlertmanagerPayload, mapAlert, ALERT_CLASSIFICATION } from "../alerts/alertmanager.ts";
+import { emitWebhookEvent } from "../webhooks/index.ts";
+import { publishIncidentEvent } from "../realtime/index.ts";
+import { applyAssignmentStrategy } from "../assignment/index.ts";
+import { applyStatusChange, publishIncidentChanges } from "../incidents/index.ts";
+import { derivePriority } from "../incidents/priority.ts";
+import { RealtimeEventType } from "../types/realtime.ts";
+
+const alertsRouter = Router();
+
+type AlertOutcome = "created" | "updated" | "resolved" | "ignored";
+
+/**
+ * Open an incident for a firing alert, or update the one it already opened
+ */
+async function handleFiringAlert(
+  teamId: number,
+  reporterUserId: number,
+  alert: AlertmanagerAlert,
+  payload: AlertmanagerPayload
+): Promise<{ outcome: AlertOutcome; incidentId: number }> {
+  const mapped = mapAlert(alert, payload);
+  const openAlert = await findOpenIncidentAlert(teamId, mapped.fingerprint);
+  const incident = openAlert && (await findIncidentById(openAlert.incident_id));
+
+  if (!openAlert || !incident) {
+    const { impact, urgency } = ALERT_CLASSIFICATION[mapped.severity];
+    const opened = await createIncident(mapped.title, mapped.description, teamId, reporterUserId, {
+      severity: mapped.severity,
+      impact,
+      urgency,
+      priority: derivePriority(impact, urgency),
+    });
+
+    await createIncidentAlert(opened.id, teamId, mapped.fingerprint);
+    await recordIncidentEvent(
+      opened.id,
+      null,
+      IncidentEventType.CREATED,
+      null,
+      null,
+      null,
+      `Opened by alert ${mapped.fingerprint}`
+    );
+    const created = await applyAssignmentStrategy(opened);
+    await emitWebhookEvent(teamId, WebhookEvent.INCIDENT_CREATED, created, null);
+    await publishIncidentEvent(RealtimeEventType.INCIDENT_CREATED, created, null);
+
+    return { outcome: "created", incidentId: created.id };
+  }
+
+  await recordAlertOccurrence(openAlert.id);
+
+  // Repeated alerts keep the incident in sync with the latest labels and annotations
+  if (mapped.title !== incident.title) {
+    await updateIncidentTitle(incident.id, mapped.title);
+    await recordIncidentEvent(incident.id, null, IncidentEventType.UPDATED, "title", incident.title, mapped.title);
+  }
+  if (mapped.description !== incident.description) {
+    await updateIncidentDescription(incident.id, mapped.description);
+    await recordIncidentEvent(
+      incident.id,
+      null,
+      IncidentEventType.UPDATED,
+      "description",
+      incident.description,
+      mapped.description
+    );
+  }
+  if (mapped.severity !== incident.severity) {
+    await updateIncidentSeverity(incident.id, mapped.severity);
+    await recordIncidentEvent(
+      incident.id,
+      null,
+      IncidentEventType.UPDATED,
+      "severity",
+      incident.severity,
+      mapped.severity
+    );
+  }
+
+  await publishIncidentChanges(incident, null);
+
+  return { outcome: "updated", incidentId: incident.id };
+}
+
+/**
+ * Resolve the incident opened by an alert, if it is still open
+ */
+async function handleResolvedAlert(
+  teamId: number,
+  alert: AlertmanagerAlert,
+  payload: AlertmanagerPayload
+): Promise<{ outcome: AlertOutcome; incidentId: number | null }> {
+  const { fingerprint } = mapAlert(alert, payload);
+  const openAlert = await findOpenIncidentAlert(teamId, fingerprint);
+  const incident: Incident | null = openAlert && (await findIncidentById(openAlert.incident_id));
+
+  if (!incident) {
+    return { outcome: "ignored", incidentId: null };
+  }
+
+  // The alert is authoritative, the team's workflow is not applied
+  await applyStatusChange(incident, IncidentStatus.RESOLVED, null, {
+    note: "Resolved by the alert source",
+    summary: "was resolved by its alert",
+  });
+  await publishIncidentChanges(incident, null);
+
+  return { outcome: "resolved", incidentId: incident.id };
+}
+
+/**
+ * POST /teams/:teamId/alerts
+ * Ingest an Alertmanager webhook notification (team integration key)
+ * Firing alerts open an incident or update the open one with the same fingerprint,
+ * resolved alerts resolve it
+ */
+alertsRouter.post(
+  "/teams/:teamId/alerts",
+  requireIntegrationKey,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const integrationReq = req as IntegrationRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const payload = req.body as unknown;
+
+      if (!isAlertmanagerPayload(payload)) {
+        res.status(400).json({
+          success: false,
+          message: "Expected an Alertmanager webhook body with an alerts array",
+        });
+        return;
+      }
+
+      const results: { fingerprint: string; outcome: AlertOutcome; incident_id: number | null }[] = [];
+
+      for (const alert of payload.alerts) {
+        const { fingerprint } = mapAlert(alert, payload);
+        const result =
+          alert.status === "firing"
+            ? await handleFiringAlert(teamId, integrationReq.integrationKey.created_by_user_id, alert, payload)
+            : await handleResolvedAlert(teamId, alert, payload);
+
+        results.push({ fingerprint, outcome: result.outcome, incident_id: result.incidentId });
+      }
+
+      res.status(200).json({
+        success: true,
+        message: `Processed ${results.length} alert(s)`,
+        results,
+      });
+    } catch (error) {
+      console.error("Ingest alerts error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * GET /teams/:teamId/integration-key
+ * Get the team's integration key details, never the key itself (admin)
+ */
+alertsRouter.get(
+  "/teams/:teamId/integration-key",
+  authMiddleware,
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+
+      const integrationKey = await getTeamIntegrationKey(teamId);
+
+      res.status(200).json({
+        success: true,
+        integration_key: integrationKey,
+      });
+    } catch (error) {
+      console.error("Get integration key error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /teams/:teamId/integration-key
+ * Generate the team's integration key, replacing the current one (admin)
+ * The key is only returned by this request
+ */
+alertsRouter.post(
+  "/teams/:teamId/integration-key",
+  authMiddleware,
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+
+      const key = generateIntegrationKey();
+      await setTeamIntegrationKey(
+        teamId,
+        hashIntegrationKey(key),
+        integrationKeyPrefix(key),
+        parseInt(authReq.userId, 10)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Integration key generated successfully",
+        key,
+        integration_key: await getTeamIntegrationKey(teamId),
+      });
+    } catch (error) {
+      console.error("Generate integration key error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /teams/:teamId/integration-key
+ * Revoke the team's integration key (admin)
+ */
+alertsRouter.delete(
+  "/teams/:teamId/integration-key",
+  authMiddleware,
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+
+      const deleted = await deleteTeamIntegrationKey(teamId);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          message: "The team has no integration key",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Integration key revoked successfully",
+      });
+    } catch (error) {
+      console.error("Revoke integration key error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default alertsRouter;
@@ -0,0 +1,273 @@
+import { Router } from "express";
+import type { Request, Response, NextFunction } from "express";
+import { randomUUID } from "node:crypto";
+import multer from "multer";
+import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddleware.ts";
+import {
+  requireTeamMembership,
+  hasIncidentPermission,
+  canDeleteOwnAttachment,
+  IncidentPermission,
+} from "../auth/authorization.ts";
+import { ALLOWED_ATTACHMENT_TYPES } from "../types/attachment.ts";
+import { getUserRoleInTeam } from "../db/teamUserQueries.ts";
+import { findIncidentById } from "../db/incidentQueries.ts";
+import {
+  createAttachment,
+  findAttachmentById,
+  getIncidentAttachments,
+  deleteAttachment,
+} from "../db/attachmentQueries.ts";
+import { getStorageDriver } from "../storage/index.ts";
+
+const attachmentsRouter = Router();
+
+const MAX_ATTACHMENT_BYTES = parseInt(process.env.ATTACHMENT_MAX_BYTES || `${10 * 1024 * 1024}`, 10);
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 1 },
+  fileFilter: (_req, file, callback) => {
+    callback(null, ALLOWED_ATTACHMENT_TYPES.includes(file.mimetype));
+  },
+});
+
+/**
+ * Parse a single "file" field, answering with JSON when the upload is rejected
+ */
+function uploadSingleFile(req: Request, res: Response, next: NextFunction): void {
+  upload.single("file")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const tooLarge = error.code === "LIMIT_FILE_SIZE";
+      res.status(tooLarge ? 413 : 400).json({
+        success: false,
+        message: tooLarge
+          ? `File is too large, the limit is ${Math.floor(MAX_ATTACHMENT_BYTES / (1024 * 1024))} MB`
+          : error.message,
+      });
+      return;
+    }
+    if (error) {
+      next(error);
+      return;
+    }
+    next();
+  });
+}
+
+/**
+ * GET /teams/:teamId/incidents/:incidentId/attachments
+ * List the attachments of an incident (any team member)
+ */
+attachmentsRouter.get(
+  "/teams/:teamId/incidents/:incidentId/attachments",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+
+      const incident = await findIncidentById(incidentId);
+
+      if (!incident || incident.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Incident not found",
+        });
+        return;
+      }
+
+      const attachments = await getIncidentAttachments(incidentId);
+
+      res.status(200).json({
+        success: true,
+        attachments,
+      });
+    } catch (error) {
+      console.error("List attachments error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /teams/:teamId/incidents/:incidentId/attachments
+ * Upload a file as multipart/form-data in the "file" field (any team member)
+ */
+attachmentsRouter.post(
+  "/teams/:teamId/incidents/:incidentId/attachments",
+  authMiddleware,
+  requireTeamMembership(),
+  uploadSingleFile,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const file = req.file;
+
+      if (!file) {
+        res.status(400).json({
+          success: false,
+          message: `A file is required. Allowed types: ${ALLOWED_ATTACHMENT_TYPES.join(", ")}`,
+        });
+        return;
+      }
+
+      const incident = await findIncidentById(incidentId);
+
+      if (!incident || incident.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Incident not found",
+        });
+        return;
+      }
+
+      if (incident.archived_at) {
+        res.status(409).json({
+          success: false,
+          message: "Archived incidents cannot be edited, restore it first",
+        });
+        return;
+      }
+
+      const storageKey = `${incidentId}/${randomUUID()}`;
+      await getStorageDriver().save(storageKey, file.buffer);
+
+      const attachment = await createAttachment(
+        incidentId,
+        parseInt(authReq.userId, 10),
+        file.originalname.slice(0, 255),
+        file.mimetype,
+        file.size,
+        storageKey
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "File uploaded successfully",
+        attachment,
+      });
+    } catch (error) {
+      console.error("Upload attachment error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * GET /teams/:teamId/incidents/:incidentId/attachments/:attachmentId
+ * Download an attachment (any team member)
+ */
+attachmentsRouter.get(
+  "/teams/:teamId/incidents/:incidentId/attachments/:attachmentId",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const attachmentId = parseInt(req.params.attachmentId, 10);
+
+      const incident = await findIncidentById(incidentId);
+      const attachment = await findAttachmentById(attachmentId);
+
+      if (!incident || incident.team_id !== teamId || !attachment || attachment.incident_id !== incidentId) {
+        res.status(404).json({
+          success: false,
+          message: "Attachment not found",
+        });
+        return;
+      }
+
+      const stream = await getStorageDriver().read(attachment.storage_key);
+
+      res.setHeader("Content-Type", attachment.mime_type);
+      res.setHeader("Content-Length", attachment.size_bytes);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`
+      );
+      stream.on("error", (error) => {
+        console.error("Stream attachment error:", error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      console.error("Download attachment error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /teams/:teamId/incidents/:incidentId/attachments/:attachmentId
+ * Delete an attachment (uploader OR manager/admin)
+ */
+attachmentsRouter.delete(
+  "/teams/:teamId/incidents/:incidentId/attachments/:attachmentId",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const attachmentId = parseInt(req.params.attachmentId, 10);
+      const userId = parseInt(authReq.userId, 10);
+
+      const incident = await findIncidentById(incidentId);
+      const attachment = await findAttachmentById(attachmentId);
+
+      if (!incident || incident.team_id !== teamId || !attachment || attachment.incident_id !== incidentId) {
+        res.status(404).json({
+          success: false,
+          message: "Attachment not found",
+        });
+        return;
+      }
+
+      const userRole = await getUserRoleInTeam(userId, teamId);
+
+      if (
+        !userRole ||
+        !(canDeleteOwnAttachment(attachment, userId) ||
+          hasIncidentPermission(userRole, IncidentPermission.MANAGE_ATTACHMENTS))
+      ) {
+        res.status(403).json({
+          success: false,
+          message: "You do not have permission to delete this attachment",
+        });
+        return;
+      }
+
+      await deleteAttachment(attachmentId);
+      await getStorageDriver().remove(attachment.storage_key);
+
+      res.status(200).json({
+        success: true,
+        message: "Attachment deleted successfully",
+      });
+    } catch (error) {
+      console.error("Delete attachment error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default attachmentsRouter;
@@ -0,0 +1,308 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddleware.ts";
+import { requireTeamMembership, hasIncidentPermission, IncidentPermission } from "../auth/authorization.ts";
+import { IncidentStatus, type Incident } from "../types/incident.ts";
+import { IncidentEventType } from "../types/incidentEvent.ts";
+import type { StatusTransition } from "../types/workflow.ts";
+import { findTransition } from "../workflow/index.ts";
+import { BulkIncidentAction, type BulkIncidentResult } from "../types/bulkIncident.ts";
+import type { TeamRole } from "../types/teamUser.ts";
+import type { Label } from "../types/label.ts";
+import { getUserRoleInTeam, isTeamMember } from "../db/teamUserQueries.ts";
+import { findIncidentById, archiveIncident } from "../db/incidentQueries.ts";
+import { recordIncidentEvent } from "../db/incidentEventQueries.ts";
+import { getTeamWorkflow } from "../db/workflowQueries.ts";
+import { findLabelById, addLabelToIncident } from "../db/labelQueries.ts";
+import { applyStatusChange, applyAssignment, publishIncidentChanges } from "../incidents/index.ts";
+
+const bulkIncidentsRouter = Router();
+
+interface BulkIncidentBody {
+  incident_ids?: number[];
+  action?: BulkIncidentAction;
+  status?: IncidentStatus;
+  status_note?: string;
+  assigned_to_user_id?: number | null;
+  label_id?: number;
+}
+
+/**
+ * The user running the batch
+ */
+interface BulkContext {
+  userId: number;
+  userRole: TeamRole;
+}
+
+const MAX_BULK_INCIDENTS = 100;
+
+/**
+ * Move an incident to the requested status, following the team's workflow
+ */
+async function applyStatus(
+  incident: Incident,
+  ctx: BulkContext,
+  status: IncidentStatus,
+  statusNote: string | null,
+  workflow: StatusTransition[]
+): Promise<BulkIncidentResult> {
+  if (!hasIncidentPermission(ctx.userRole, IncidentPermission.EDIT_STATUS, incident, ctx.userId)) {
+    return { incident_id: incident.id, success: false, message: "You do not have permission to edit the status" };
+  }
+
+  if (incident.status === status) {
+    return { incident_id: incident.id, success: true, message: "No changes" };
+  }
+
+  const transition = findTransition(workflow, incident.status, status);
+
+  if (!transition) {
+    return {
+      incident_id: incident.id,
+      success: false,
+      message: `Transition from ${incident.status} to ${status} is not allowed`,
+    };
+  }
+
+  if (transition.requires_note && !statusNote) {
+    return {
+      incident_id: incident.id,
+      success: false,
+      message: `A note is required to move from ${incident.status} to ${status}`,
+    };
+  }
+
+  await applyStatusChange(incident, status, ctx.userId, { note: statusNote });
+
+  return { incident_id: incident.id, success: true };
+}
+
+/**
+ * Assign an incident to the requested user, or unassign it
+ */
+async function applyAssign(
+  incident: Incident,
+  ctx: BulkContext,
+  assigneeId: number | null
+): Promise<BulkIncidentResult> {
+  if (!hasIncidentPermission(ctx.userRole, IncidentPermission.ASSIGN)) {
+    return { incident_id: incident.id, success: false, message: "You do not have permission to assign incidents" };
+  }
+
+  if (incident.assigned_to_user_id === assigneeId) {
+    return { incident_id: incident.id, success: true, message: "No changes" };
+  }
+
+  if (!(await applyAssignment(incident, assigneeId, ctx.userId))) {
+    return { incident_id: incident.id, success: false, message: "The assignee must be a member of the team" };
+  }
+
+  return { incident_id: incident.id, success: true };
+}
+
+/**
+ * Add the requested team label to an incident
+ */
+async function applyLabel(incident: Incident, ctx: BulkContext, label: Label): Promise<BulkIncidentResult> {
+  if (!hasIncidentPermission(ctx.userRole, IncidentPermission.LABEL, incident, ctx.userId)) {
+    return { incident_id: incident.id, success: false, message: "You do not have permission to label this incident" };
+  }
+
+  if (!(await addLabelToIncident(incident.id, label.id))) {
+    return { incident_id: incident.id, success: true, message: "No changes" };
+  }
+
+  await recordIncidentEvent(incident.id, ctx.userId, IncidentEventType.UPDATED, "labels", null, label.name);
+
+  return { incident_id: incident.id, success: true };
+}
+
+/**
+ * Archive an incident (soft delete)
+ */
+async function applyDelete(incident: Incident, ctx: BulkContext): Promise<BulkIncidentResult> {
+  if (!hasIncidentPermission(ctx.userRole, IncidentPermission.DELETE, incident, ctx.userId)) {
+    return { incident_id: incident.id, success: false, message: "You do not have permission to delete incidents" };
+  }
+
+  if (!(await archiveIncident(incident.id, ctx.userId))) {
+    return { incident_id: incident.id, success: false, message: "Incident is already archived" };
+  }
+
+  await recordIncidentEvent(incident.id, ctx.userId, IncidentEventType.ARCHIVED);
+
+  return { incident_id: incident.id, success: true };
+}
+
+/**
+ * POST /teams/:teamId/incidents/bulk
+ * Apply one action to several incidents of the team (any team member, checked per incident)
+ * Body: { incident_ids, action, status?, status_note?, assigned_to_user_id?, label_id? }
+ * - status: status (and status_note when the transition requires one)
+ * - assign: assigned_to_user_id, null unassigns
+ * - label: label_id, a label of the team
+ * - delete: archives the incidents
+ * Incidents are handled independently, the response reports the result of each one
+ */
+bulkIncidentsRouter.post(
+  "/teams/:teamId/incidents/bulk",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const userId = parseInt(authReq.userId, 10);
+      const body = req.body as BulkIncidentBody;
+
+      if (
+        !Array.isArray(body.incident_ids) ||
+        body.incident_ids.length === 0 ||
+        body.incident_ids.length > MAX_BULK_INCIDENTS ||
+        !body.incident_ids.every((id) => Number.isInteger(id) && id > 0)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: `incident_ids must list 1 to ${MAX_BULK_INCIDENTS} incident IDs`,
+        });
+        return;
+      }
+
+      const validActions: string[] = Object.values(BulkIncidentAction);
+      if (!body.action || !validActions.includes(body.action)) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid action. Must be one of: ${validActions.join(", ")}`,
+        });
+        return;
+      }
+
+      const userRole = await getUserRoleInTeam(userId, teamId);
+
+      if (!userRole) {
+        res.status(403).json({
+          success: false,
+          message: "You are not a member of this team",
+        });
+        return;
+      }
+
+      const ctx: BulkContext = { userId, userRole };
+
+      // Each action's parameters are validated once, the handler applies them to one incident
+      let handler: (incident: Incident) => Promise<BulkIncidentResult>;
+
+      switch (body.action) {
+        case BulkIncidentAction.STATUS: {
+          const status = body.status;
+          const validStatuses: string[] = Object.values(IncidentStatus);
+          if (!status || !validStatuses.includes(status)) {
+            res.status(400).json({
+              success: false,
+              message: `Invalid status. Must be one of: ${validStatuses.join(", ")}`,
+            });
+            return;
+          }
+
+          const statusNote = body.status_note?.trim() || null;
+          const workflow = await getTeamWorkflow(teamId);
+          handler = (incident) => applyStatus(incident, ctx, status, statusNote, workflow);
+          break;
+        }
+
+        case BulkIncidentAction.ASSIGN: {
+          const assigneeId = body.assigned_to_user_id;
+          if (assigneeId === undefined || (assigneeId !== null && !Number.isInteger(assigneeId))) {
+            res.status(400).json({
+              success: false,
+              message: "assigned_to_user_id must be a user ID or null",
+            });
+            return;
+          }
+
+          if (assigneeId !== null && !(await isTeamMember(assigneeId, teamId))) {
+            res.status(400).json({
+              success: false,
+              message: "The assignee must be a member of the team",
+            });
+            return;
+          }
+          handler = (incident) => applyAssign(incident, ctx, assigneeId);
+          break;
+        }
+
+        case BulkIncidentAction.LABEL: {
+          // Only labels from the incidents' own team can be used
+          const labelId = body.label_id;
+          const label = typeof labelId === "number" && Number.isInteger(labelId) ? await findLabelById(labelId) : null;
+
+          if (!label || label.team_id !== teamId) {
+            res.status(404).json({
+              success: false,
+              message: "Label not found",
+            });
+            return;
+          }
+          handler = (incident) => applyLabel(incident, ctx, label);
+          break;
+        }
+
+        case BulkIncidentAction.DELETE:
+          handler = (incident) => applyDelete(incident, ctx);
+          break;
+      }
+
+      const results: BulkIncidentResult[] = [];
+
+      for (const incidentId of new Set(body.incident_ids)) {
+        const incident = await findIncidentById(incidentId);
+
+        if (!incident || incident.team_id !== teamId) {
+          results.push({ incident_id: incidentId, success: false, message: "Incident not found" });
+          continue;
+        }
+
+        if (incident.archived_at && body.action !== BulkIncidentAction.DELETE) {
+          results.push({
+            incident_id: incidentId,
+            success: false,
+            message: "Archived incidents cannot be edited, restore it first",
+          });
+          continue;
+        }
+
+        try {
+          const result = await handler(incident);
+          results.push(result);
+
+          if (result.success && !result.message) {
+            await publishIncidentChanges(incident, userId);
+          }
+        } catch (error) {
+          // One failing incident does not stop the rest of the batch
+          console.error(`Bulk ${body.action} error on incident ${incidentId}:`, error);
+          results.push({ incident_id: incidentId, success: false, message: "Internal server error" });
+        }
+      }
+
+      const succeeded = results.filter((r) => r.success).length;
+
+      res.status(200).json({
+        success: true,
+        message: `${succeeded} of ${results.length} incidents processed`,
+        succeeded,
+        failed: results.length - succeeded,
+        results,
+      });
+    } catch (error) {
+      console.error("Bulk incident operation error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default bulkIncidentsRouter;
@@ -0,0 +1,268 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddleware.ts";
+import { requireTeamMembership, hasIncidentPermission, canEditOwnComment, IncidentPermission } from "../auth/authorization.ts";
+import { getUserRoleInTeam } from "../db/teamUserQueries.ts";
+import { findIncidentById } from "../db/incidentQueries.ts";
+import {
+  createComment,
+  findCommentById,
+  findCommentWithAuthorById,
+  getIncidentComments,
+  updateCommentContent,
+  deleteComment,
+} from "../db/commentQueries.ts";
+import { notifyIncidentWatchers } from "../db/notificationQueries.ts";
+import { NotificationType } from "../types/notification.ts";
+
+const commentsRouter = Router();
+
+interface CreateCommentBody {
+  content: string;
+  parent_comment_id?: number | null;
+}
+
+interface UpdateCommentBody {
+  content: string;
+}
+
+/**
+ * GET /teams/:teamId/incidents/:incidentId/comments
+ * List all comments of an incident (any team member)
+ */
+commentsRouter.get(
+  "/teams/:teamId/incidents/:incidentId/comments",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+
+      const incident = await findIncidentById(incidentId);
+
+      if (!incident || incident.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Incident not found",
+        });
+        return;
+      }
+
+      const comments = await getIncidentComments(incidentId);
+
+      res.status(200).json({
+        success: true,
+        comments,
+      });
+    } catch (error) {
+      console.error("List comments error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /teams/:teamId/incidents/:incidentId/comments
+ * Add a comment or a reply to an incident (any team member)
+ */
+commentsRouter.post(
+  "/teams/:teamId/incidents/:incidentId/comments",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const { content, parent_comment_id } = req.body as CreateCommentBody;
+
+      if (!content || typeof content !== "string" || content.trim() === "") {
+        res.status(400).json({
+          success: false,
+          message: "Content is required",
+        });
+        return;
+      }
+
+      const incident = await findIncidentById(incidentId);
+
+      if (!incident || incident.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Incident not found",
+        });
+        return;
+      }
+
+      // Replies must point to a comment of the same incident
+      if (parent_comment_id !== undefined && parent_comment_id !== null) {
+        const parent = await findCommentById(parent_comment_id);
+
+        if (!parent || parent.incident_id !== incidentId) {
+          res.status(400).json({
+            success: false,
+            message: "Parent comment not found",
+          });
+          return;
+        }
+      }
+
+      const comment = await createComment(
+        incidentId,
+        parseInt(authReq.userId, 10),
+        content.trim(),
+        parent_comment_id ?? null
+      );
+
+      await notifyIncidentWatchers(
+        incidentId,
+        comment.user_id,
+        NotificationType.COMMENT_ADDED,
+        `${comment.user_name} commented on incident #${incidentId} "${incident.title}"`.slice(0, 255)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Comment added successfully",
+        comment,
+      });
+    } catch (error) {
+      console.error("Create comment error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * PATCH /teams/:teamId/incidents/:incidentId/comments/:commentId
+ * Edit a comment (author OR manager/admin)
+ */
+commentsRouter.patch(
+  "/teams/:teamId/incidents/:incidentId/comments/:commentId",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const commentId = parseInt(req.params.commentId, 10);
+      const userId = parseInt(authReq.userId, 10);
+      const { content } = req.body as UpdateCommentBody;
+
+      if (!content || typeof content !== "string" || content.trim() === "") {
+        res.status(400).json({
+          success: false,
+          message: "Content is required",
+        });
+        return;
+      }
+
+      const incident = await findIncidentById(incidentId);
+      const comment = await findCommentById(commentId);
+
+      if (!incident || incident.team_id !== teamId || !comment || comment.incident_id !== incidentId) {
+        res.status(404).json({
+          success: false,
+          message: "Comment not found",
+        });
+        return;
+      }
+
+      const userRole = await getUserRoleInTeam(userId, teamId);
+
+      if (
+        !userRole ||
+        !(canEditOwnComment(comment, userId) ||
+          hasIncidentPermission(userRole, IncidentPermission.MODERATE_COMMENTS))
+      ) {
+        res.status(403).json({
+          success: false,
+          message: "You do not have permission to edit this comment",
+        });
+        return;
+      }
+
+      await updateCommentContent(commentId, content.trim());
+      const updatedComment = await findCommentWithAuthorById(commentId);
+
+      res.status(200).json({
+        success: true,
+        message: "Comment updated successfully",
+        comment: updatedComment,
+      });
+    } catch (error) {
+      console.error("Update comment error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /teams/:teamId/incidents/:incidentId/comments/:commentId
+ * Delete a comment and its replies (author OR manager/admin)
+ */
+commentsRouter.delete(
+  "/teams/:teamId/incidents/:incidentId/comments/:commentId",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const commentId = parseInt(req.params.commentId, 10);
+      const userId = parseInt(authReq.userId, 10);
+
+      const incident = await findIncidentById(incidentId);
+      const comment = await findCommentById(commentId);
+
+      if (!incident || incident.team_id !== teamId || !comment || comment.incident_id !== incidentId) {
+        res.status(404).json({
+          success: false,
+          message: "Comment not found",
+        });
+        return;
+      }
+
+      const userRole = await getUserRoleInTeam(userId, teamId);
+
+      if (
+        !userRole ||
+        !(canEditOwnComment(comment, userId) ||
+          hasIncidentPermission(userRole, IncidentPermission.MODERATE_COMMENTS))
+      ) {
+        res.status(403).json({
+          success: false,
+          message: "You do not have permission to delete this comment",
+        });
+        return;
+      }
+
+      await deleteComment(commentId);
+
+      res.status(200).json({
+        success: true,
+        message: "Comment deleted successfully",
+      });
+    } catch (error) {
+      console.error("Delete comment error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default commentsRouter;
@@ -0,0 +1,284 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { authMiddleware } from "../auth/authMiddleware.ts";
+import { requireTeamMembership, requireTeamRole } from "../auth/authorization.ts";
+import { TeamRole } from "../types/teamUser.ts";
+import { CustomFieldType } from "../types/customField.ts";
+import {
+  getTeamCustomFields,
+  findCustomFieldById,
+  findTeamCustomFieldByName,
+  createCustomField,
+  updateCustomField,
+  deleteCustomField,
+} from "../db/customFieldQueries.ts";
+
+const customFieldsRouter = Router();
+
+interface CustomFieldBody {
+  name?: string;
+  field_type?: CustomFieldType;
+  options?: string[];
+  is_required?: boolean;
+}
+
+const MAX_OPTIONS = 50;
+
+/**
+ * Validate the options of a field, only select fields have (and need) options
+ * @returns The error message, or the trimmed options
+ */
+function parseOptions(fieldType: CustomFieldType, options: unknown): { error: string } | string[] {
+  if (fieldType !== CustomFieldType.SELECT) {
+    return options === undefined || (Array.isArray(options) && options.length === 0)
+      ? []
+      : { error: "Only select fields have options" };
+  }
+
+  if (
+    !Array.isArray(options) ||
+    options.length === 0 ||
+    options.length > MAX_OPTIONS ||
+    !options.every((o) => typeof o === "string" && o.trim() !== "" && o.trim().length <= 100)
+  ) {
+    return { error: `Select fields need 1 to ${MAX_OPTIONS} options of up to 100 characters` };
+  }
+
+  const trimmed = options.map((o: string) => o.trim());
+  if (new Set(trimmed).size !== trimmed.length) {
+    return { error: "Options must be distinct" };
+  }
+
+  return trimmed;
+}
+
+/**
+ * GET /teams/:teamId/custom-fields
+ * List the team's custom fields (any team member)
+ */
+customFieldsRouter.get(
+  "/teams/:teamId/custom-fields",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+
+      const fields = await getTeamCustomFields(teamId);
+
+      res.status(200).json({
+        success: true,
+        fields,
+      });
+    } catch (error) {
+      console.error("List custom fields error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /teams/:teamId/custom-fields
+ * Add a custom field to the team's incidents (admin)
+ */
+customFieldsRouter.post(
+  "/teams/:teamId/custom-fields",
+  authMiddleware,
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const { name, field_type, options, is_required = false } = req.body as CustomFieldBody;
+
+      if (!name || typeof name !== "string" || name.trim() === "" || name.trim().length > 100) {
+        res.status(400).json({
+          success: false,
+          message: "Name is required, up to 100 characters",
+        });
+        return;
+      }
+
+      const validTypes: string[] = Object.values(CustomFieldType);
+      if (!field_type || !validTypes.includes(field_type)) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid field type. Must be one of: ${validTypes.join(", ")}`,
+        });
+        return;
+      }
+
+      const parsedOptions = parseOptions(field_type, options);
+
+      if ("error" in parsedOptions) {
+        res.status(400).json({
+          success: false,
+          message: parsedOptions.error,
+        });
+        return;
+      }
+
+      if (typeof is_required !== "boolean") {
+        res.status(400).json({
+          success: false,
+          message: "is_required must be a boolean",
+        });
+        return;
+      }
+
+      if (await findTeamCustomFieldByName(teamId, name.trim())) {
+        res.status(409).json({
+          success: false,
+          message: "The team already has a field with this name",
+        });
+        return;
+      }
+
+      const field = await createCustomField(teamId, name.trim(), field_type, parsedOptions, is_required);
+
+      res.status(201).json({
+        success: true,
+        message: "Custom field created successfully",
+        field,
+      });
+    } catch (error) {
+      console.error("Create custom field error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * PATCH /teams/:teamId/custom-fields/:fieldId
+ * Rename a field, change its options or whether it is required (admin)
+ * The type cannot change, values of removed options are kept on existing incidents
+ */
+customFieldsRouter.patch(
+  "/teams/:teamId/custom-fields/:fieldId",
+  authMiddleware,
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const fieldId = parseInt(req.params.fieldId, 10);
+      const updates = req.body as CustomFieldBody;
+
+      const field = await findCustomFieldById(fieldId);
+
+      if (!field || field.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Custom field not found",
+        });
+        return;
+      }
+
+      if (updates.field_type !== undefined && updates.field_type !== field.field_type) {
+        res.status(400).json({
+          success: false,
+          message: "The type of a field cannot change, create a new field instead",
+        });
+        return;
+      }
+
+      const name = updates.name ?? field.name;
+
+      if (typeof name !== "string" || name.trim() === "" || name.trim().length > 100) {
+        res.status(400).json({
+          success: false,
+          message: "Name is required, up to 100 characters",
+        });
+        return;
+      }
+
+      const parsedOptions = parseOptions(field.field_type, updates.options ?? field.options);
+
+      if ("error" in parsedOptions) {
+        res.status(400).json({
+          success: false,
+          message: parsedOptions.error,
+        });
+        return;
+      }
+
+      const isRequired = updates.is_required ?? field.is_required;
+
+      if (typeof isRequired !== "boolean") {
+        res.status(400).json({
+          success: false,
+          message: "is_required must be a boolean",
+        });
+        return;
+      }
+
+      const sameName = await findTeamCustomFieldByName(teamId, name.trim());
+      if (sameName && sameName.id !== fieldId) {
+        res.status(409).json({
+          success: false,
+          message: "The team already has a field with this name",
+        });
+        return;
+      }
+
+      await updateCustomField(fieldId, name.trim(), parsedOptions, isRequired);
+
+      res.status(200).json({
+        success: true,
+        message: "Custom field updated successfully",
+        field: await findCustomFieldById(fieldId),
+      });
+    } catch (error) {
+      console.error("Update custom field error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /teams/:teamId/custom-fields/:fieldId
+ * Delete a field with its values on every incident (admin)
+ */
+customFieldsRouter.delete(
+  "/teams/:teamId/custom-fields/:fieldId",
+  authMiddleware,
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const fieldId = parseInt(req.params.fieldId, 10);
+
+      const field = await findCustomFieldById(fieldId);
+
+      if (!field || field.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Custom field not found",
+        });
+        return;
+      }
+
+      await deleteCustomField(fieldId);
+
+      res.status(200).json({
+        success: true,
+        message: "Custom field deleted successfully",
+      });
+    } catch (error) {
+      console.error("Delete custom field error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default customFieldsRouter;
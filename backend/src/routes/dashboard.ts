@@ -4,8 +4,12 @@ import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddlewar
 import {
   getIncidentsCreatedByUser,
   getIncidentsAssignedToUser,
+  getIncidentsWatchedByUser,
   getTeamIncidentStats,
 } from "../db/incidentQueries.ts";
+import { withLabels } from "../db/labelQueries.ts";
+import { withSla, getBreachingIncidentsForUser } from "../db/slaQueries.ts";
+import { getUserOnCall } from "../oncall/index.ts";
 
 const dashboardRouter = Router();
 
@@ -25,7 +29,7 @@ dashboardRouter.get(
 
       res.status(200).json({
         success: true,
-        incidents,
+        incidents: await withSla(await withLabels(incidents)),
       });
     } catch (error) {
       console.error("Get my incidents error:", error);
@@ -53,7 +57,7 @@ dashboardRouter.get(
 
       res.status(200).json({
         success: true,
-        incidents,
+        incidents: await withSla(await withLabels(incidents)),
       });
     } catch (error) {
       console.error("Get assigned incidents error:", error);
@@ -65,6 +69,90 @@ dashboardRouter.get(
   }
 );
 
+/**
+ * GET /dashboard/watching-incidents
+ * Get unresolved incidents the current user watches without being their reporter or assignee
+ */
+dashboardRouter.get(
+  "/watching-incidents",
+  authMiddleware,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const userId = parseInt(authReq.userId, 10);
+
+      const incidents = await getIncidentsWatchedByUser(userId);
+
+      res.status(200).json({
+        success: true,
+        incidents: await withSla(await withLabels(incidents)),
+      });
+    } catch (error) {
+      console.error("Get watching incidents error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * GET /dashboard/sla-breaches
+ * Get open incidents of the current user's teams that are past an SLA due time
+ */
+dashboardRouter.get(
+  "/sla-breaches",
+  authMiddleware,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const userId = parseInt(authReq.userId, 10);
+
+      const incidents = await getBreachingIncidentsForUser(userId);
+
+      res.status(200).json({
+        success: true,
+        incidents: await withSla(await withLabels(incidents)),
+      });
+    } catch (error) {
+      console.error("Get SLA breaches error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * GET /dashboard/on-call
+ * Get the schedules the current user is on call for right now
+ */
+dashboardRouter.get(
+  "/on-call",
+  authMiddleware,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const userId = parseInt(authReq.userId, 10);
+
+      const oncall = await getUserOnCall(userId);
+
+      res.status(200).json({
+        success: true,
+        oncall,
+      });
+    } catch (error) {
+      console.error("Get on-call status error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
 /**
  * GET /dashboard/team-stats
  * Get incident stats per team for the current user's teams
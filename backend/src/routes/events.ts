@@ -0,0 +1,38 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddleware.ts";
+import { addRealtimeClient } from "../realtime/index.ts";
+
+const eventsRouter = Router();
+
+// Comment lines keep proxies from closing idle streams
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+/**
+ * GET /events
+ * Server-Sent Events stream of incident changes in the user's teams
+ * Each message is an `incident` event whose data is an IncidentRealtimeEvent
+ */
+eventsRouter.get("/", authMiddleware, (req: Request, res: Response): void => {
+  const authReq = req as AuthenticatedRequest;
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // Tells nginx not to buffer the stream
+    "X-Accel-Buffering": "no",
+  });
+  // Clients reconnect after 5 seconds if the stream drops
+  res.write("retry: 5000\n\n");
+
+  const removeClient = addRealtimeClient(parseInt(authReq.userId, 10), res);
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    removeClient();
+  });
+});
+
+export default eventsRouter;
@@ -0,0 +1,278 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddleware.ts";
+import { requireTeamMembership, hasIncidentPermission, IncidentPermission } from "../auth/authorization.ts";
+import { IncidentEventType } from "../types/incidentEvent.ts";
+import { IncidentLinkType } from "../types/incidentLink.ts";
+import { getUserRoleInTeam, getUserTeamMemberships, isTeamMember } from "../db/teamUserQueries.ts";
+import { findIncidentById } from "../db/incidentQueries.ts";
+import { recordIncidentEvent } from "../db/incidentEventQueries.ts";
+import {
+  createIncidentLink,
+  findIncidentLinkById,
+  findLinkBetween,
+  findParentIncidentId,
+  getIncidentLinks,
+  deleteIncidentLink,
+} from "../db/incidentLinkQueries.ts";
+
+const incidentLinksRouter = Router();
+
+interface CreateLinkBody {
+  target_incident_id: number;
+  link_type: IncidentLinkType;
+}
+
+/**
+ * Describe a link for the activity log of both incidents, e.g. "#12 duplicate_of #7"
+ */
+function describeLink(sourceIncidentId: number, targetIncidentId: number, linkType: IncidentLinkType): string {
+  return `#${sourceIncidentId} ${linkType} #${targetIncidentId}`;
+}
+
+/**
+ * GET /teams/:teamId/incidents/:incidentId/links
+ * List the incidents linked to an incident (any team member)
+ * Links to incidents of teams the user does not belong to are left out
+ */
+incidentLinksRouter.get(
+  "/teams/:teamId/incidents/:incidentId/links",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const userId = parseInt(authReq.userId, 10);
+
+      const incident = await findIncidentById(incidentId);
+
+      if (!incident || incident.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Incident not found",
+        });
+        return;
+      }
+
+      const memberships = await getUserTeamMemberships(userId);
+      const teamIds = new Set(memberships.map((m) => m.team_id));
+      const links = (await getIncidentLinks(incidentId)).filter((link) => teamIds.has(link.team_id));
+
+      res.status(200).json({
+        success: true,
+        links,
+      });
+    } catch (error) {
+      console.error("List incident links error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /teams/:teamId/incidents/:incidentId/links
+ * Link an incident to another one (reporter, assigned user OR manager/admin)
+ * The target may belong to another team if the user is a member of it too
+ */
+incidentLinksRouter.post(
+  "/teams/:teamId/incidents/:incidentId/links",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const userId = parseInt(authReq.userId, 10);
+      const { target_incident_id, link_type } = req.body as CreateLinkBody;
+      const targetIncidentId = parseInt(String(target_incident_id), 10);
+
+      const validTypes = Object.values(IncidentLinkType);
+      if (!validTypes.includes(link_type)) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid link type. Must be one of: ${validTypes.join(", ")}`,
+        });
+        return;
+      }
+
+      if (isNaN(targetIncidentId)) {
+        res.status(400).json({
+          success: false,
+          message: "Valid target incident ID is required",
+        });
+        return;
+      }
+
+      if (targetIncidentId === incidentId) {
+        res.status(400).json({
+          success: false,
+          message: "An incident cannot be linked to itself",
+        });
+        return;
+      }
+
+      const incident = await findIncidentById(incidentId);
+
+      if (!incident || incident.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Incident not found",
+        });
+        return;
+      }
+
+      const userRole = await getUserRoleInTeam(userId, teamId);
+
+      if (!userRole || !hasIncidentPermission(userRole, IncidentPermission.LINK, incident, userId)) {
+        res.status(403).json({
+          success: false,
+          message: "You do not have permission to link this incident",
+        });
+        return;
+      }
+
+      const target = await findIncidentById(targetIncidentId);
+
+      if (!target) {
+        res.status(404).json({
+          success: false,
+          message: "Target incident not found",
+        });
+        return;
+      }
+
+      if (target.team_id !== teamId && !(await isTeamMember(userId, target.team_id))) {
+        res.status(403).json({
+          success: false,
+          message: "You must be a member of both teams to link these incidents",
+        });
+        return;
+      }
+
+      if (incident.archived_at || target.archived_at) {
+        res.status(409).json({
+          success: false,
+          message: "Archived incidents cannot be linked",
+        });
+        return;
+      }
+
+      if (await findLinkBetween(incidentId, targetIncidentId)) {
+        res.status(409).json({
+          success: false,
+          message: "These incidents are already linked",
+        });
+        return;
+      }
+
+      if (link_type === IncidentLinkType.PARENT_OF) {
+        if (await findParentIncidentId(targetIncidentId)) {
+          res.status(409).json({
+            success: false,
+            message: `Incident #${targetIncidentId} already has a parent`,
+          });
+          return;
+        }
+
+        // Walk up from the new parent, the child must not be one of its ancestors
+        let ancestorId = await findParentIncidentId(incidentId);
+        while (ancestorId !== null) {
+          if (ancestorId === targetIncidentId) {
+            res.status(409).json({
+              success: false,
+              message: "This link would create a parent/child cycle",
+            });
+            return;
+          }
+          ancestorId = await findParentIncidentId(ancestorId);
+        }
+      }
+
+      const link = await createIncidentLink(incidentId, targetIncidentId, link_type, userId);
+      const description = describeLink(incidentId, targetIncidentId, link_type);
+      await recordIncidentEvent(incidentId, userId, IncidentEventType.UPDATED, "link", null, description);
+      await recordIncidentEvent(targetIncidentId, userId, IncidentEventType.UPDATED, "link", null, description);
+
+      res.status(201).json({
+        success: true,
+        message: "Incidents linked successfully",
+        link,
+      });
+    } catch (error) {
+      console.error("Create incident link error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /teams/:teamId/incidents/:incidentId/links/:linkId
+ * Remove a link from either of its incidents (reporter, assigned user OR manager/admin)
+ */
+incidentLinksRouter.delete(
+  "/teams/:teamId/incidents/:incidentId/links/:linkId",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const linkId = parseInt(req.params.linkId, 10);
+      const userId = parseInt(authReq.userId, 10);
+
+      const incident = await findIncidentById(incidentId);
+      const link = await findIncidentLinkById(linkId);
+
+      if (
+        !incident ||
+        incident.team_id !== teamId ||
+        !link ||
+        (link.source_incident_id !== incidentId && link.target_incident_id !== incidentId)
+      ) {
+        res.status(404).json({
+          success: false,
+          message: "Link not found",
+        });
+        return;
+      }
+
+      const userRole = await getUserRoleInTeam(userId, teamId);
+
+      if (!userRole || !hasIncidentPermission(userRole, IncidentPermission.LINK, incident, userId)) {
+        res.status(403).json({
+          success: false,
+          message: "You do not have permission to unlink this incident",
+        });
+        return;
+      }
+
+      await deleteIncidentLink(linkId);
+      const description = describeLink(link.source_incident_id, link.target_incident_id, link.link_type);
+      await recordIncidentEvent(link.source_incident_id, userId, IncidentEventType.UPDATED, "link", description, null);
+      await recordIncidentEvent(link.target_incident_id, userId, IncidentEventType.UPDATED, "link", description, null);
+
+      res.status(200).json({
+        success: true,
+        message: "Link removed successfully",
+      });
+    } catch (error) {
+      console.error("Delete incident link error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default incidentLinksRouter;
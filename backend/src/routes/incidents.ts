@@ -3,30 +3,179 @@ import type { Request, Response } from "express";
 import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddleware.ts";
 import { requireTeamMembership, requireTeamRole, hasIncidentPermission, canEditOwnIncident, IncidentPermission } from "../auth/authorization.ts";
 import { TeamRole } from "../types/teamUser.ts";
-import { IncidentStatus } from "../types/incident.ts";
-import { getUserRoleInTeam } from "../db/teamUserQueries.ts";
+import {
+  IncidentStatus,
+  IncidentSeverity,
+  IncidentLevel,
+  IncidentPriority,
+  IncidentSortField,
+  SortOrder,
+} from "../types/incident.ts";
+import { IncidentEventType } from "../types/incidentEvent.ts";
+import { findTransition } from "../workflow/index.ts";
+import { getUserRoleInTeam, getTeamMembers, isTeamMember } from "../db/teamUserQueries.ts";
+import { getTeamById } from "../db/teamQueries.ts";
 import {
   createIncident,
   findIncidentById,
   getTeamIncidents,
+  decodeIncidentCursor,
+  type IncidentFilters,
   updateIncidentTitle,
   updateIncidentDescription,
-  updateIncidentStatus,
-  assignIncident,
+  updateIncidentSeverity,
+  updateIncidentPriority,
+  getArchivedTeamIncidents,
+  archiveIncident,
+  restoreIncident,
+  transferIncident,
 } from "../db/incidentQueries.ts";
+import { recordIncidentEvent, getIncidentHistory } from "../db/incidentEventQueries.ts";
+import { getTeamWorkflow } from "../db/workflowQueries.ts";
+import { withLabels, withIncidentLabels, addLabelToIncident } from "../db/labelQueries.ts";
+import { findTemplateById } from "../db/templateQueries.ts";
+import type { IncidentTemplateWithLabels } from "../types/template.ts";
+import { withSla, withIncidentSla } from "../db/slaQueries.ts";
+import {
+  getTeamCustomFields,
+  setIncidentCustomFieldValue,
+  withCustomFields,
+  withIncidentCustomFields,
+} from "../db/customFieldQueries.ts";
+import { CustomFieldType, type CustomField } from "../types/customField.ts";
+import { normalizeCustomFieldValue } from "../customFields/index.ts";
+import { getOpenChildIncidentIds } from "../db/incidentLinkQueries.ts";
+import { createNotifications } from "../db/notificationQueries.ts";
+import { addWatcher } from "../db/watcherQueries.ts";
+import { NotificationType } from "../types/notification.ts";
+import { emitWebhookEvent, emitIncidentChanges } from "../webhooks/index.ts";
+import { WebhookEvent } from "../types/webhook.ts";
+import { publishIncidentEvent } from "../realtime/index.ts";
+import { applyAssignmentStrategy } from "../assignment/index.ts";
+import { applyStatusChange, applyAssignment, recordAssignment, publishIncidentChanges } from "../incidents/index.ts";
+import { derivePriority } from "../incidents/priority.ts";
+import { RealtimeEventType } from "../types/realtime.ts";
 
 const incidentRouter = Router();
 
 interface CreateIncidentBody {
-  title: string;
+  title?: string;
   description?: string;
+  severity?: IncidentSeverity;
+  impact?: IncidentLevel;
+  urgency?: IncidentLevel;
+  template_id?: number;
+  custom_fields?: Record<string, unknown>;
 }
 
 interface UpdateIncidentBody {
   title?: string;
   description?: string;
   status?: IncidentStatus;
+  status_note?: string;
+  resolve_children?: boolean;
+  severity?: IncidentSeverity;
+  impact?: IncidentLevel;
+  urgency?: IncidentLevel;
   assigned_to_user_id?: number | null;
+  custom_fields?: Record<string, unknown>;
+}
+
+interface TransferIncidentBody {
+  team_id: number;
+  assigned_to_user_id?: number | null;
+  note?: string;
+}
+
+/**
+ * Parses a comma-separated query parameter into a list of allowed values
+ * @returns The parsed values, or null if any value is not allowed
+ */
+function parseListParam<T extends string>(value: unknown, allowed: readonly T[]): T[] | null {
+  if (value === undefined || value === "") {
+    return [];
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const items = value.split(",").map((item) => item.trim());
+  if (!items.every((item) => (allowed as readonly string[]).includes(item))) {
+    return null;
+  }
+
+  return items as T[];
+}
+
+/**
+ * Parses a user ID query parameter, accepting "me" for the current user
+ * @returns The user ID, undefined if absent, or NaN if invalid
+ */
+function parseUserParam(value: unknown, currentUserId: number): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  if (value === "me") {
+    return currentUserId;
+  }
+  return typeof value === "string" && /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+}
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Validate the custom field values of a request against the team's fields
+ * Values are keyed by field ID, null or "" clears a value
+ * @param requireAll - Whether required fields missing from the values are an error, when creating
+ * @returns The error message, or the normalised values to store by field ID (null to clear)
+ */
+async function parseCustomFieldValues(
+  teamId: number,
+  fields: CustomField[],
+  input: unknown,
+  requireAll: boolean
+): Promise<{ error: string } | Map<number, string | null>> {
+  if (input !== undefined && (typeof input !== "object" || input === null || Array.isArray(input))) {
+    return { error: "custom_fields must be an object keyed by field ID" };
+  }
+
+  const entries = Object.entries((input ?? {}) as Record<string, unknown>);
+  const values = new Map<number, string | null>();
+
+  for (const [key, value] of entries) {
+    const field = fields.find((f) => f.id.toString() === key);
+    if (!field) {
+      return { error: `Unknown custom field ${key}` };
+    }
+
+    if (value === null || value === "") {
+      if (field.is_required) {
+        return { error: `${field.name} is required` };
+      }
+      values.set(field.id, null);
+      continue;
+    }
+
+    const normalized = normalizeCustomFieldValue(field, value);
+    if (normalized === null) {
+      return { error: `Invalid value for ${field.name} (${field.field_type})` };
+    }
+
+    if (field.field_type === CustomFieldType.USER && !(await isTeamMember(parseInt(normalized, 10), teamId))) {
+      return { error: `${field.name} must be a member of the team` };
+    }
+
+    values.set(field.id, normalized);
+  }
+
+  if (requireAll) {
+    const missing = fields.find((f) => f.is_required && !values.get(f.id));
+    if (missing) {
+      return { error: `${missing.name} is required` };
+    }
+  }
+
+  return values;
 }
 
 /**
@@ -41,9 +190,25 @@ incidentRouter.post(
     try {
       const authReq = req as AuthenticatedRequest;
       const teamId = parseInt(req.params.teamId, 10);
-      const { title, description } = req.body as CreateIncidentBody;
+      const { title: bodyTitle, description, severity, impact, urgency, template_id, custom_fields } =
+        req.body as CreateIncidentBody;
 
-      if (!title || title.trim() === "") {
+      let template: IncidentTemplateWithLabels | null = null;
+      if (template_id !== undefined && template_id !== null) {
+        template = Number.isInteger(template_id) ? await findTemplateById(template_id) : null;
+
+        if (!template || template.team_id !== teamId) {
+          res.status(400).json({
+            success: false,
+            message: "Template not found in this team",
+          });
+          return;
+        }
+      }
+
+      // Fields sent with the request take precedence over the template's
+      const title = bodyTitle?.trim() || template?.title;
+      if (!title) {
         res.status(400).json({
           success: false,
           message: "Title is required",
@@ -51,17 +216,93 @@ incidentRouter.post(
         return;
       }
 
-      const incident = await createIncident(
-        title.trim(),
-        description?.trim() || null,
+      const validSeverities = Object.values(IncidentSeverity);
+      if (severity !== undefined && !validSeverities.includes(severity)) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid severity. Must be one of: ${validSeverities.join(", ")}`,
+        });
+        return;
+      }
+
+      const validLevels = Object.values(IncidentLevel);
+      if (
+        (impact !== undefined && !validLevels.includes(impact)) ||
+        (urgency !== undefined && !validLevels.includes(urgency))
+      ) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid impact or urgency. Must be one of: ${validLevels.join(", ")}`,
+        });
+        return;
+      }
+
+      const customFieldValues = await parseCustomFieldValues(
         teamId,
-        parseInt(authReq.userId, 10)
+        await getTeamCustomFields(teamId),
+        custom_fields,
+        true
       );
 
+      if ("error" in customFieldValues) {
+        res.status(400).json({
+          success: false,
+          message: customFieldValues.error,
+        });
+        return;
+      }
+
+      const userId = parseInt(authReq.userId, 10);
+      const isClassified = severity !== undefined || impact !== undefined || urgency !== undefined;
+
+      if (isClassified) {
+        const userRole = await getUserRoleInTeam(userId, teamId);
+
+        if (!userRole || !hasIncidentPermission(userRole, IncidentPermission.SET_SEVERITY)) {
+          res.status(403).json({
+            success: false,
+            message: "You do not have permission to set severity or priority",
+          });
+          return;
+        }
+      }
+
+      const classifiedImpact = impact ?? IncidentLevel.MEDIUM;
+      const classifiedUrgency = urgency ?? IncidentLevel.MEDIUM;
+      // A template's severity was chosen by a manager, so it applies whoever creates the incident
+      const templateSeverity = template?.severity ?? undefined;
+
+      const created = await createIncident(
+        title,
+        description?.trim() || template?.description || null,
+        teamId,
+        userId,
+        isClassified || templateSeverity
+          ? {
+              severity: severity ?? templateSeverity ?? IncidentSeverity.SEV4,
+              impact: classifiedImpact,
+              urgency: classifiedUrgency,
+              priority: derivePriority(classifiedImpact, classifiedUrgency),
+            }
+          : undefined
+      );
+
+      await recordIncidentEvent(created.id, userId, IncidentEventType.CREATED);
+      for (const labelId of template?.label_ids ?? []) {
+        await addLabelToIncident(created.id, labelId);
+      }
+      for (const [fieldId, value] of customFieldValues) {
+        await setIncidentCustomFieldValue(created.id, fieldId, value);
+      }
+      await addWatcher(created.id, userId);
+      const incident = await applyAssignmentStrategy(created);
+      await emitWebhookEvent(teamId, WebhookEvent.INCIDENT_CREATED, incident, userId);
+      await publishIncidentEvent(RealtimeEventType.INCIDENT_CREATED, incident, userId);
+
       res.status(201).json({
         success: true,
         message: "Incident created successfully",
-        incident,
+        incident: await withIncidentCustomFields(await withIncidentSla(await withIncidentLabels(incident))),
       });
     } catch (error) {
       console.error("Create incident error:", error);
@@ -75,7 +316,18 @@ incidentRouter.post(
 
 /**
  * GET /teams/:teamId/incidents
- * List all incidents for a team (any team member)
+ * List a page of the team's incidents (any team member)
+ * Query:
+ * - severity, priority, status: comma-separated values
+ * - assignee: user ID, "me" or "unassigned"
+ * - reporter: user ID or "me"
+ * - label: comma-separated label IDs, matches incidents with any of them
+ * - cf_<fieldId>: custom field value, text fields match on part of the value
+ * - q: text searched in title and description
+ * - sort: created_at | updated_at | title | status | severity | priority (default created_at)
+ * - order: asc | desc (default desc)
+ * - limit: page size, 1-100 (default 25)
+ * - cursor: next_cursor of the previous page
  */
 incidentRouter.get(
   "/teams/:teamId/incidents",
@@ -83,12 +335,124 @@ incidentRouter.get(
   requireTeamMembership(),
   async (req: Request, res: Response): Promise<void> => {
     try {
+      const authReq = req as AuthenticatedRequest;
       const teamId = parseInt(req.params.teamId, 10);
-      const incidents = await getTeamIncidents(teamId);
+      const userId = parseInt(authReq.userId, 10);
+      const severity = parseListParam(req.query.severity, Object.values(IncidentSeverity));
+      const priority = parseListParam(req.query.priority, Object.values(IncidentPriority));
+      const status = parseListParam(req.query.status, Object.values(IncidentStatus));
+
+      if (!severity || !priority || !status) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid severity, priority or status filter",
+        });
+        return;
+      }
+
+      const filters: IncidentFilters = { severity, priority, status };
+
+      if (req.query.assignee === "unassigned") {
+        filters.assignedTo = null;
+      } else {
+        filters.assignedTo = parseUserParam(req.query.assignee, userId);
+      }
+      filters.reportedBy = parseUserParam(req.query.reporter, userId);
+
+      if (Number.isNaN(filters.assignedTo) || Number.isNaN(filters.reportedBy)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid assignee or reporter filter",
+        });
+        return;
+      }
+
+      if (typeof req.query.label === "string" && req.query.label !== "") {
+        const labelIds = req.query.label.split(",").map((id) => Number(id.trim()));
+
+        if (!labelIds.every((id) => Number.isInteger(id) && id > 0)) {
+          res.status(400).json({
+            success: false,
+            message: "Invalid label filter",
+          });
+          return;
+        }
+        filters.labelIds = labelIds;
+      }
+
+      const customFieldParams = Object.entries(req.query).filter(([key]) => /^cf_\d+$/.test(key));
+
+      if (customFieldParams.length > 0) {
+        const fields = await getTeamCustomFields(teamId);
+        filters.customFields = [];
+
+        for (const [key, value] of customFieldParams) {
+          const field = fields.find((f) => f.id === parseInt(key.slice(3), 10));
+          const normalized = field ? normalizeCustomFieldValue(field, value) : null;
+
+          if (!field || normalized === null) {
+            res.status(400).json({
+              success: false,
+              message: `Invalid custom field filter ${key}`,
+            });
+            return;
+          }
+          filters.customFields.push({
+            fieldId: field.id,
+            value: normalized,
+            partial: field.field_type === CustomFieldType.TEXT,
+          });
+        }
+      }
+
+      if (typeof req.query.q === "string" && req.query.q.trim() !== "") {
+        filters.search = req.query.q.trim();
+      }
+
+      const sort = (req.query.sort ?? IncidentSortField.CREATED_AT) as IncidentSortField;
+      const order = (req.query.order ?? SortOrder.DESC) as SortOrder;
+
+      if (
+        !Object.values(IncidentSortField).includes(sort) ||
+        !Object.values(SortOrder).includes(order)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid sort. Must be one of: ${Object.values(IncidentSortField).join(", ")} with order asc or desc`,
+        });
+        return;
+      }
+
+      const limit = req.query.limit === undefined ? 25 : Number(req.query.limit);
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        res.status(400).json({
+          success: false,
+          message: `Limit must be between 1 and ${MAX_PAGE_SIZE}`,
+        });
+        return;
+      }
+
+      const cursor =
+        typeof req.query.cursor === "string" && req.query.cursor !== ""
+          ? decodeIncidentCursor(req.query.cursor)
+          : null;
+
+      if (req.query.cursor && !cursor) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid cursor",
+        });
+        return;
+      }
+
+      const page = await getTeamIncidents(teamId, filters, { sort, order, limit, cursor });
 
       res.status(200).json({
         success: true,
-        incidents,
+        incidents: await withCustomFields(await withSla(await withLabels(page.incidents))),
+        total: page.total,
+        next_cursor: page.nextCursor,
       });
     } catch (error) {
       console.error("List incidents error:", error);
@@ -100,6 +464,44 @@ incidentRouter.get(
   }
 );
 
+/**
+ * GET /teams/:teamId/incidents/archived
+ * List the archived incidents of a team (roles with delete permission)
+ */
+incidentRouter.get(
+  "/teams/:teamId/incidents/archived",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const userRole = await getUserRoleInTeam(parseInt(authReq.userId, 10), teamId);
+
+      if (!userRole || !hasIncidentPermission(userRole, IncidentPermission.DELETE)) {
+        res.status(403).json({
+          success: false,
+          message: "You do not have permission to view archived incidents",
+        });
+        return;
+      }
+
+      const incidents = await getArchivedTeamIncidents(teamId);
+
+      res.status(200).json({
+        success: true,
+        incidents: await withCustomFields(await withSla(await withLabels(incidents))),
+      });
+    } catch (error) {
+      console.error("List archived incidents error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
 /**
  * GET /teams/:teamId/incidents/:incidentId
  * Get a specific incident (any team member)
@@ -125,7 +527,7 @@ incidentRouter.get(
 
       res.status(200).json({
         success: true,
-        incident,
+        incident: await withIncidentCustomFields(await withIncidentSla(await withIncidentLabels(incident))),
       });
     } catch (error) {
       console.error("Get incident error:", error);
@@ -143,8 +545,11 @@ incidentRouter.get(
  * 
  * Permissions:
  * - title: reporter (owner) OR manager/admin
- * - status: assigned user OR manager/admin
- * - assigned_to_user_id: manager/admin only
+ * - status: assigned user OR manager/admin, following the team's workflow
+ *   (resolve_children also resolves open child incidents when resolving)
+ * - severity, impact, urgency: assigned user OR manager/admin
+ * - assigned_to_user_id: manager/admin only, a member of the team
+ * - custom_fields: reporter (owner) OR manager/admin
  */
 incidentRouter.patch(
   "/teams/:teamId/incidents/:incidentId",
@@ -169,6 +574,14 @@ incidentRouter.patch(
         return;
       }
 
+      if (incident.archived_at) {
+        res.status(409).json({
+          success: false,
+          message: "Archived incidents cannot be edited, restore it first",
+        });
+        return;
+      }
+
       // Get user's role in the team
       const userRole = await getUserRoleInTeam(userId, teamId);
 
@@ -180,7 +593,50 @@ incidentRouter.patch(
         return;
       }
 
+      // The assignee must belong to the team, checked before applying any change
+      if (
+        updates.assigned_to_user_id !== undefined &&
+        updates.assigned_to_user_id !== null &&
+        !(await isTeamMember(updates.assigned_to_user_id, teamId))
+      ) {
+        res.status(400).json({
+          success: false,
+          message: "The assignee must be a member of the team",
+        });
+        return;
+      }
+
+      // Status changes must follow the team's workflow, checked before applying any change
+      const statusNote = updates.status_note?.trim() || null;
+
+      if (
+        updates.status !== undefined &&
+        updates.status !== incident.status &&
+        Object.values(IncidentStatus).includes(updates.status)
+      ) {
+        const workflow = await getTeamWorkflow(teamId);
+        const transition = findTransition(workflow, incident.status, updates.status);
+
+        if (!transition) {
+          res.status(409).json({
+            success: false,
+            message: `Transition from ${incident.status} to ${updates.status} is not allowed`,
+          });
+          return;
+        }
+
+        if (transition.requires_note && !statusNote) {
+          res.status(400).json({
+            success: false,
+            message: `A note is required to move from ${incident.status} to ${updates.status}`,
+          });
+          return;
+        }
+      }
+
       const errors: string[] = [];
+      const resolvedChildren: number[] = [];
+      const skippedChildren: number[] = [];
       let updated = false;
 
       // Handle title update
@@ -193,8 +649,16 @@ incidentRouter.patch(
           errors.push("You do not have permission to edit the title");
         } else if (updates.title.trim() === "") {
           errors.push("Title cannot be empty");
-        } else {
+        } else if (updates.title.trim() !== incident.title) {
           await updateIncidentTitle(incidentId, updates.title.trim());
+          await recordIncidentEvent(
+            incidentId,
+            userId,
+            IncidentEventType.UPDATED,
+            "title",
+            incident.title,
+            updates.title.trim()
+          );
           updated = true;
         }
       }
@@ -207,8 +671,16 @@ incidentRouter.patch(
 
         if (!canEditDescription) {
           errors.push("You do not have permission to edit the description");
-        } else {
+        } else if ((updates.description.trim() || null) !== incident.description) {
           await updateIncidentDescription(incidentId, updates.description.trim() || null);
+          await recordIncidentEvent(
+            incidentId,
+            userId,
+            IncidentEventType.UPDATED,
+            "description",
+            incident.description,
+            updates.description.trim() || null
+          );
           updated = true;
         }
       }
@@ -228,10 +700,120 @@ incidentRouter.patch(
 
           if (!canEditStatus) {
             errors.push("You do not have permission to edit the status");
-          } else {
-            await updateIncidentStatus(incidentId, updates.status);
+          } else if (updates.status !== incident.status) {
+            await applyStatusChange(incident, updates.status, userId, { note: statusNote });
             updated = true;
+
+            // Children are resolved along with their parent when the user could resolve
+            // them directly, following each child team's own workflow
+            if (updates.status === IncidentStatus.RESOLVED && updates.resolve_children === true) {
+              for (const childId of await getOpenChildIncidentIds(incidentId)) {
+                const child = await findIncidentById(childId);
+                if (!child) {
+                  continue;
+                }
+
+                const childRole = await getUserRoleInTeam(userId, child.team_id);
+                const childTransition = findTransition(
+                  await getTeamWorkflow(child.team_id),
+                  child.status,
+                  IncidentStatus.RESOLVED
+                );
+
+                if (
+                  !childRole ||
+                  !hasIncidentPermission(childRole, IncidentPermission.EDIT_STATUS, child, userId) ||
+                  !childTransition ||
+                  (childTransition.requires_note && !statusNote)
+                ) {
+                  skippedChildren.push(childId);
+                  continue;
+                }
+
+                await applyStatusChange(child, IncidentStatus.RESOLVED, userId, {
+                  note: statusNote
+                    ? `${statusNote} (resolved with parent incident #${incidentId})`
+                    : `Resolved with parent incident #${incidentId}`,
+                  summary: `was resolved with parent incident #${incidentId}`,
+                });
+                await publishIncidentChanges(child, userId);
+                resolvedChildren.push(childId);
+              }
+            }
+          }
+        }
+      }
+
+      // Handle severity update
+      if (updates.severity !== undefined) {
+        const validSeverities = Object.values(IncidentSeverity);
+        if (!validSeverities.includes(updates.severity)) {
+          errors.push(`Invalid severity. Must be one of: ${validSeverities.join(", ")}`);
+        } else if (
+          !hasIncidentPermission(userRole, IncidentPermission.SET_SEVERITY, incident, userId)
+        ) {
+          errors.push("You do not have permission to edit the severity");
+        } else if (updates.severity !== incident.severity) {
+          await updateIncidentSeverity(incidentId, updates.severity);
+          await recordIncidentEvent(
+            incidentId,
+            userId,
+            IncidentEventType.UPDATED,
+            "severity",
+            incident.severity,
+            updates.severity
+          );
+          updated = true;
+        }
+      }
+
+      // Handle impact/urgency update, the priority is derived from both
+      if (updates.impact !== undefined || updates.urgency !== undefined) {
+        const validLevels = Object.values(IncidentLevel);
+        const impact = updates.impact ?? incident.impact;
+        const urgency = updates.urgency ?? incident.urgency;
+
+        if (!validLevels.includes(impact) || !validLevels.includes(urgency)) {
+          errors.push(`Invalid impact or urgency. Must be one of: ${validLevels.join(", ")}`);
+        } else if (
+          !hasIncidentPermission(userRole, IncidentPermission.SET_SEVERITY, incident, userId)
+        ) {
+          errors.push("You do not have permission to edit the priority");
+        } else if (impact !== incident.impact || urgency !== incident.urgency) {
+          const priority = derivePriority(impact, urgency);
+          await updateIncidentPriority(incidentId, impact, urgency, priority);
+
+          if (impact !== incident.impact) {
+            await recordIncidentEvent(
+              incidentId,
+              userId,
+              IncidentEventType.UPDATED,
+              "impact",
+              incident.impact,
+              impact
+            );
+          }
+          if (urgency !== incident.urgency) {
+            await recordIncidentEvent(
+              incidentId,
+              userId,
+              IncidentEventType.UPDATED,
+              "urgency",
+              incident.urgency,
+              urgency
+            );
           }
+          if (priority !== incident.priority) {
+            await recordIncidentEvent(
+              incidentId,
+              userId,
+              IncidentEventType.UPDATED,
+              "priority",
+              incident.priority,
+              priority
+            );
+          }
+          updated = true;
         }
       }
 
@@ -241,9 +823,50 @@ incidentRouter.patch(
 
         if (!canAssign) {
           errors.push("You do not have permission to assign incidents");
+        } else if (updates.assigned_to_user_id !== incident.assigned_to_user_id) {
+          if (await applyAssignment(incident, updates.assigned_to_user_id, userId)) {
+            updated = true;
+          } else {
+            errors.push("The assignee must be a member of the team");
+          }
+        }
+      }
+
+      // Handle custom field updates, values are keyed by field ID
+      if (updates.custom_fields !== undefined) {
+        const canEditCustomFields =
+          canEditOwnIncident(incident, userId) ||
+          hasIncidentPermission(userRole, IncidentPermission.ASSIGN); // managers/admins
+
+        const fields = await getTeamCustomFields(teamId);
+        const values = canEditCustomFields
+          ? await parseCustomFieldValues(teamId, fields, updates.custom_fields, false)
+          : null;
+
+        if (!values) {
+          errors.push("You do not have permission to edit custom fields");
+        } else if ("error" in values) {
+          errors.push(values.error);
         } else {
-          await assignIncident(incidentId, updates.assigned_to_user_id);
-          updated = true;
+          const { custom_fields: current } = await withIncidentCustomFields(incident);
+
+          for (const [fieldId, value] of values) {
+            const previous = current[fieldId] !== undefined ? String(current[fieldId]) : null;
+            if (value === previous) {
+              continue;
+            }
+
+            await setIncidentCustomFieldValue(incidentId, fieldId, value);
+            await recordIncidentEvent(
+              incidentId,
+              userId,
+              IncidentEventType.UPDATED,
+              `custom_field:${fieldId}`,
+              previous,
+              value
+            );
+            updated = true;
+          }
         }
       }
 
@@ -258,12 +881,18 @@ incidentRouter.patch(
       }
 
       // Get updated incident
-      const updatedIncident = await findIncidentById(incidentId);
+      const updatedIncident = updated
+        ? await publishIncidentChanges(incident, userId)
+        : await findIncidentById(incidentId);
 
       res.status(200).json({
         success: true,
         message: updated ? "Incident updated successfully" : "No changes made",
-        incident: updatedIncident,
+        incident:
+          updatedIncident &&
+          (await withIncidentCustomFields(await withIncidentSla(await withIncidentLabels(updatedIncident)))),
+        resolved_children: resolvedChildren.length > 0 ? resolvedChildren : undefined,
+        skipped_children: skippedChildren.length > 0 ? skippedChildren : undefined,
         errors: errors.length > 0 ? errors : undefined,
       });
     } catch (error) {
@@ -276,4 +905,333 @@ incidentRouter.patch(
   }
 );
 
+/**
+ * POST /teams/:teamId/incidents/:incidentId/transfer
+ * Move an incident to another team the user belongs to (manager/admin)
+ * Without assigned_to_user_id the assignee is kept if they are in the receiving team, cleared otherwise
+ */
+incidentRouter.post(
+  "/teams/:teamId/incidents/:incidentId/transfer",
+  authMiddleware,
+  requireTeamRole(TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const userId = parseInt(authReq.userId, 10);
+      const body = req.body as TransferIncidentBody;
+      const targetTeamId = parseInt(String(body.team_id), 10);
+
+      if (isNaN(targetTeamId)) {
+        res.status(400).json({
+          success: false,
+          message: "Valid team ID is required",
+        });
+        return;
+      }
+
+      if (targetTeamId === teamId) {
+        res.status(400).json({
+          success: false,
+          message: "The incident already belongs to this team",
+        });
+        return;
+      }
+
+      const requestedAssignee = body.assigned_to_user_id;
+      if (
+        requestedAssignee !== undefined &&
+        requestedAssignee !== null &&
+        !(Number.isInteger(requestedAssignee) && requestedAssignee > 0)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: "assigned_to_user_id must be a user ID or null",
+        });
+        return;
+      }
+
+      const incident = await findIncidentById(incidentId);
+
+      if (!incident || incident.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Incident not found",
+        });
+        return;
+      }
+
+      if (incident.archived_at) {
+        res.status(409).json({
+          success: false,
+          message: "Archived incidents cannot be transferred, restore it first",
+        });
+        return;
+      }
+
+      const sourceTeam = await getTeamById(teamId);
+      const targetTeam = await getTeamById(targetTeamId);
+
+      if (!sourceTeam || !targetTeam) {
+        res.status(404).json({
+          success: false,
+          message: "Team not found",
+        });
+        return;
+      }
+
+      if (!(await isTeamMember(userId, targetTeamId))) {
+        res.status(403).json({
+          success: false,
+          message: "You can only transfer incidents to teams you belong to",
+        });
+        return;
+      }
+
+      let assignee: number | null;
+      if (requestedAssignee !== undefined && requestedAssignee !== null) {
+        assignee = requestedAssignee;
+        if (!(await isTeamMember(assignee, targetTeamId))) {
+          res.status(400).json({
+            success: false,
+            message: "The assignee must be a member of the receiving team",
+          });
+          return;
+        }
+      } else if (requestedAssignee === null || incident.assigned_to_user_id === null) {
+        assignee = null;
+      } else {
+        assignee = (await isTeamMember(incident.assigned_to_user_id, targetTeamId))
+          ? incident.assigned_to_user_id
+          : null;
+      }
+
+      await transferIncident(incidentId, targetTeamId, assignee);
+      await recordIncidentEvent(
+        incidentId,
+        userId,
+        IncidentEventType.UPDATED,
+        "team",
+        sourceTeam.name,
+        targetTeam.name,
+        body.note?.trim() || null
+      );
+      if (assignee !== incident.assigned_to_user_id) {
+        await recordAssignment(incident, assignee, userId);
+      }
+
+      const members = await getTeamMembers(targetTeamId);
+      await createNotifications(
+        members.map((m) => m.user_id).filter((memberId) => memberId !== userId),
+        NotificationType.INCIDENT_TRANSFERRED,
+        incidentId,
+        `Incident #${incidentId} "${incident.title}" was transferred to ${targetTeam.name} from ${sourceTeam.name}`.slice(0, 255)
+      );
+
+      const transferredIncident = await findIncidentById(incidentId);
+
+      // The receiving team gets every change, the previous team only learns where the incident went
+      if (transferredIncident) {
+        await emitIncidentChanges(incident, transferredIncident, userId);
+        await emitWebhookEvent(incident.team_id, WebhookEvent.INCIDENT_UPDATED, transferredIncident, userId, {
+          team_id: { from: incident.team_id, to: transferredIncident.team_id },
+        });
+        await publishIncidentEvent(RealtimeEventType.INCIDENT_UPDATED, transferredIncident, userId, [
+          incident.team_id,
+          transferredIncident.team_id,
+        ]);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: `Incident transferred to ${targetTeam.name}`,
+        incident:
+          transferredIncident &&
+          (await withIncidentCustomFields(await withIncidentSla(await withIncidentLabels(transferredIncident)))),
+      });
+    } catch (error) {
+      console.error("Transfer incident error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /teams/:teamId/incidents/:incidentId
+ * Archive (soft delete) an incident (roles with delete permission)
+ */
+incidentRouter.delete(
+  "/teams/:teamId/incidents/:incidentId",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const userId = parseInt(authReq.userId, 10);
+
+      const incident = await findIncidentById(incidentId);
+
+      if (!incident || incident.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Incident not found",
+        });
+        return;
+      }
+
+      const userRole = await getUserRoleInTeam(userId, teamId);
+
+      if (!userRole || !hasIncidentPermission(userRole, IncidentPermission.DELETE, incident, userId)) {
+        res.status(403).json({
+          success: false,
+          message: "You do not have permission to delete incidents",
+        });
+        return;
+      }
+
+      const archived = await archiveIncident(incidentId, userId);
+
+      if (!archived) {
+        res.status(409).json({
+          success: false,
+          message: "Incident is already archived",
+        });
+        return;
+      }
+
+      await recordIncidentEvent(incidentId, userId, IncidentEventType.ARCHIVED);
+
+      const archivedIncident = await findIncidentById(incidentId);
+      if (archivedIncident) {
+        await publishIncidentEvent(RealtimeEventType.INCIDENT_UPDATED, archivedIncident, userId);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Incident archived successfully",
+      });
+    } catch (error) {
+      console.error("Archive incident error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /teams/:teamId/incidents/:incidentId/restore
+ * Restore an archived incident (roles with delete permission)
+ */
+incidentRouter.post(
+  "/teams/:teamId/incidents/:incidentId/restore",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const userId = parseInt(authReq.userId, 10);
+
+      const incident = await findIncidentById(incidentId);
+
+      if (!incident || incident.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Incident not found",
+        });
+        return;
+      }
+
+      const userRole = await getUserRoleInTeam(userId, teamId);
+
+      if (!userRole || !hasIncidentPermission(userRole, IncidentPermission.DELETE, incident, userId)) {
+        res.status(403).json({
+          success: false,
+          message: "You do not have permission to restore incidents",
+        });
+        return;
+      }
+
+      const restored = await restoreIncident(incidentId);
+
+      if (!restored) {
+        res.status(409).json({
+          success: false,
+          message: "Incident is not archived",
+        });
+        return;
+      }
+
+      await recordIncidentEvent(incidentId, userId, IncidentEventType.RESTORED);
+
+      const restoredIncident = await findIncidentById(incidentId);
+      if (restoredIncident) {
+        await publishIncidentEvent(RealtimeEventType.INCIDENT_UPDATED, restoredIncident, userId);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Incident restored successfully",
+        incident:
+          restoredIncident &&
+          (await withIncidentCustomFields(await withIncidentSla(await withIncidentLabels(restoredIncident)))),
+      });
+    } catch (error) {
+      console.error("Restore incident error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * GET /teams/:teamId/incidents/:incidentId/history
+ * Get the activity log of an incident (any team member)
+ */
+incidentRouter.get(
+  "/teams/:teamId/incidents/:incidentId/history",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+
+      const incident = await findIncidentById(incidentId);
+
+      if (!incident || incident.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Incident not found",
+        });
+        return;
+      }
+
+      const history = await getIncidentHistory(incidentId);
+
+      res.status(200).json({
+        success: true,
+        history,
+      });
+    } catch (error) {
+      console.error("Get incident history error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
 export default incidentRouter;
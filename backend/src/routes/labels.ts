@@ -0,0 +1,390 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddleware.ts";
+import { requireTeamMembership, requireTeamRole, hasIncidentPermission, IncidentPermission } from "../auth/authorization.ts";
+import { TeamRole } from "../types/teamUser.ts";
+import { IncidentEventType } from "../types/incidentEvent.ts";
+import { DEFAULT_LABEL_COLOR } from "../types/label.ts";
+import { getUserRoleInTeam } from "../db/teamUserQueries.ts";
+import { findIncidentById } from "../db/incidentQueries.ts";
+import { recordIncidentEvent } from "../db/incidentEventQueries.ts";
+import {
+  createLabel,
+  findLabelById,
+  findTeamLabelByName,
+  getTeamLabels,
+  updateLabel,
+  deleteLabel,
+  addLabelToIncident,
+  removeLabelFromIncident,
+  withIncidentLabels,
+} from "../db/labelQueries.ts";
+import { withIncidentSla } from "../db/slaQueries.ts";
+import { withIncidentCustomFields } from "../db/customFieldQueries.ts";
+import { publishIncidentEvent } from "../realtime/index.ts";
+import { RealtimeEventType } from "../types/realtime.ts";
+
+const labelsRouter = Router();
+
+interface LabelBody {
+  name?: string;
+  color?: string;
+}
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * GET /teams/:teamId/labels
+ * Get the team's label catalogue (any team member)
+ */
+labelsRouter.get(
+  "/teams/:teamId/labels",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+
+      const labels = await getTeamLabels(teamId);
+
+      res.status(200).json({
+        success: true,
+        labels,
+      });
+    } catch (error) {
+      console.error("List labels error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /teams/:teamId/labels
+ * Add a label to the team's catalogue (manager/admin)
+ */
+labelsRouter.post(
+  "/teams/:teamId/labels",
+  authMiddleware,
+  requireTeamRole(TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const { name, color = DEFAULT_LABEL_COLOR } = req.body as LabelBody;
+
+      if (!name || typeof name !== "string" || name.trim() === "" || name.trim().length > 50) {
+        res.status(400).json({
+          success: false,
+          message: "Name is required (max 50 characters)",
+        });
+        return;
+      }
+
+      if (!COLOR_PATTERN.test(color)) {
+        res.status(400).json({
+          success: false,
+          message: "Color must be a hex value like #ff0000",
+        });
+        return;
+      }
+
+      if (await findTeamLabelByName(teamId, name.trim())) {
+        res.status(409).json({
+          success: false,
+          message: "The team already has a label with this name",
+        });
+        return;
+      }
+
+      const label = await createLabel(teamId, name.trim(), color.toLowerCase());
+
+      res.status(201).json({
+        success: true,
+        message: "Label created successfully",
+        label,
+      });
+    } catch (error) {
+      console.error("Create label error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * PATCH /teams/:teamId/labels/:labelId
+ * Rename or recolour a label (manager/admin)
+ */
+labelsRouter.patch(
+  "/teams/:teamId/labels/:labelId",
+  authMiddleware,
+  requireTeamRole(TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const labelId = parseInt(req.params.labelId, 10);
+      const updates = req.body as LabelBody;
+
+      const label = await findLabelById(labelId);
+
+      if (!label || label.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Label not found",
+        });
+        return;
+      }
+
+      const name = updates.name !== undefined ? updates.name.trim() : label.name;
+      const color = updates.color !== undefined ? updates.color : label.color;
+
+      if (name === "" || name.length > 50) {
+        res.status(400).json({
+          success: false,
+          message: "Name cannot be empty (max 50 characters)",
+        });
+        return;
+      }
+
+      if (!COLOR_PATTERN.test(color)) {
+        res.status(400).json({
+          success: false,
+          message: "Color must be a hex value like #ff0000",
+        });
+        return;
+      }
+
+      const existing = await findTeamLabelByName(teamId, name);
+      if (existing && existing.id !== labelId) {
+        res.status(409).json({
+          success: false,
+          message: "The team already has a label with this name",
+        });
+        return;
+      }
+
+      await updateLabel(labelId, name, color.toLowerCase());
+      const updatedLabel = await findLabelById(labelId);
+
+      res.status(200).json({
+        success: true,
+        message: "Label updated successfully",
+        label: updatedLabel,
+      });
+    } catch (error) {
+      console.error("Update label error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /teams/:teamId/labels/:labelId
+ * Delete a label and remove it from all incidents (manager/admin)
+ */
+labelsRouter.delete(
+  "/teams/:teamId/labels/:labelId",
+  authMiddleware,
+  requireTeamRole(TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const labelId = parseInt(req.params.labelId, 10);
+
+      const label = await findLabelById(labelId);
+
+      if (!label || label.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Label not found",
+        });
+        return;
+      }
+
+      await deleteLabel(labelId);
+
+      res.status(200).json({
+        success: true,
+        message: "Label deleted successfully",
+      });
+    } catch (error) {
+      console.error("Delete label error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /teams/:teamId/incidents/:incidentId/labels
+ * Add a team label to an incident (reporter, assigned user OR manager/admin)
+ */
+labelsRouter.post(
+  "/teams/:teamId/incidents/:incidentId/labels",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const userId = parseInt(authReq.userId, 10);
+      const labelId = parseInt(req.body.label_id, 10);
+
+      if (isNaN(labelId)) {
+        res.status(400).json({
+          success: false,
+          message: "Valid label ID is required",
+        });
+        return;
+      }
+
+      const incident = await findIncidentById(incidentId);
+
+      if (!incident || incident.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Incident not found",
+        });
+        return;
+      }
+
+      if (incident.archived_at) {
+        res.status(409).json({
+          success: false,
+          message: "Archived incidents cannot be edited, restore it first",
+        });
+        return;
+      }
+
+      const userRole = await getUserRoleInTeam(userId, teamId);
+
+      if (!userRole || !hasIncidentPermission(userRole, IncidentPermission.LABEL, incident, userId)) {
+        res.status(403).json({
+          success: false,
+          message: "You do not have permission to label this incident",
+        });
+        return;
+      }
+
+      // Only labels from the incident's own team can be used
+      const label = await findLabelById(labelId);
+
+      if (!label || label.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Label not found",
+        });
+        return;
+      }
+
+      if (await addLabelToIncident(incidentId, labelId)) {
+        await recordIncidentEvent(
+          incidentId,
+          userId,
+          IncidentEventType.UPDATED,
+          "labels",
+          null,
+          label.name
+        );
+        await publishIncidentEvent(RealtimeEventType.INCIDENT_UPDATED, incident, userId);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Label added",
+        incident: await withIncidentCustomFields(await withIncidentSla(await withIncidentLabels(incident))),
+      });
+    } catch (error) {
+      console.error("Add incident label error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /teams/:teamId/incidents/:incidentId/labels/:labelId
+ * Remove a label from an incident (reporter, assigned user OR manager/admin)
+ */
+labelsRouter.delete(
+  "/teams/:teamId/incidents/:incidentId/labels/:labelId",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const labelId = parseInt(req.params.labelId, 10);
+      const userId = parseInt(authReq.userId, 10);
+
+      const incident = await findIncidentById(incidentId);
+
+      if (!incident || incident.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Incident not found",
+        });
+        return;
+      }
+
+      if (incident.archived_at) {
+        res.status(409).json({
+          success: false,
+          message: "Archived incidents cannot be edited, restore it first",
+        });
+        return;
+      }
+
+      const userRole = await getUserRoleInTeam(userId, teamId);
+
+      if (!userRole || !hasIncidentPermission(userRole, IncidentPermission.LABEL, incident, userId)) {
+        res.status(403).json({
+          success: false,
+          message: "You do not have permission to label this incident",
+        });
+        return;
+      }
+
+      const label = await findLabelById(labelId);
+
+      if (label && (await removeLabelFromIncident(incidentId, labelId))) {
+        await recordIncidentEvent(
+          incidentId,
+          userId,
+          IncidentEventType.UPDATED,
+          "labels",
+          label.name,
+          null
+        );
+        await publishIncidentEvent(RealtimeEventType.INCIDENT_UPDATED, incident, userId);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Label removed",
+        incident: await withIncidentCustomFields(await withIncidentSla(await withIncidentLabels(incident))),
+      });
+    } catch (error) {
+      console.error("Remove incident label error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default labelsRouter;
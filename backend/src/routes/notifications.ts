@@ -0,0 +1,127 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddleware.ts";
+import {
+  getUserNotifications,
+  countUnreadNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+} from "../db/notificationQueries.ts";
+
+const notificationsRouter = Router();
+
+const MAX_NOTIFICATIONS = 100;
+
+/**
+ * GET /notifications
+ * Get the current user's notifications, newest first, with the unread count
+ *
+ * Query parameters:
+ * - unread: "true" to only return unread notifications
+ * - limit: number of notifications (1-100, default 50)
+ */
+notificationsRouter.get(
+  "/",
+  authMiddleware,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const userId = parseInt(authReq.userId, 10);
+      const unreadOnly = req.query.unread === "true";
+
+      let limit = 50;
+      if (typeof req.query.limit === "string") {
+        limit = parseInt(req.query.limit, 10);
+        if (isNaN(limit) || limit < 1 || limit > MAX_NOTIFICATIONS) {
+          res.status(400).json({
+            success: false,
+            message: `Limit must be between 1 and ${MAX_NOTIFICATIONS}`,
+          });
+          return;
+        }
+      }
+
+      const notifications = await getUserNotifications(userId, unreadOnly, limit);
+      const unreadCount = await countUnreadNotifications(userId);
+
+      res.status(200).json({
+        success: true,
+        notifications,
+        unread_count: unreadCount,
+      });
+    } catch (error) {
+      console.error("List notifications error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /notifications/read-all
+ * Mark all of the current user's notifications as read
+ */
+notificationsRouter.post(
+  "/read-all",
+  authMiddleware,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const userId = parseInt(authReq.userId, 10);
+
+      const marked = await markAllNotificationsRead(userId);
+
+      res.status(200).json({
+        success: true,
+        message: `${marked} notification${marked === 1 ? "" : "s"} marked as read`,
+        unread_count: 0,
+      });
+    } catch (error) {
+      console.error("Mark all notifications read error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * PATCH /notifications/:notificationId/read
+ * Mark one of the current user's notifications as read
+ */
+notificationsRouter.patch(
+  "/:notificationId/read",
+  authMiddleware,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const userId = parseInt(authReq.userId, 10);
+      const notificationId = parseInt(req.params.notificationId, 10);
+
+      if (isNaN(notificationId) || !(await markNotificationRead(notificationId, userId))) {
+        res.status(404).json({
+          success: false,
+          message: "Notification not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Notification marked as read",
+        unread_count: await countUnreadNotifications(userId),
+      });
+    } catch (error) {
+      console.error("Mark notification read error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default notificationsRouter;
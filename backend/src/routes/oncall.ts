@@ -0,0 +1,455 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddleware.ts";
+import { requireTeamRole } from "../auth/authorization.ts";
+import { TeamRole } from "../types/teamUser.ts";
+import { OnCallRotation } from "../types/oncall.ts";
+import { getTeamMembers, isTeamMember } from "../db/teamUserQueries.ts";
+import {
+  getTeamSchedules,
+  findScheduleById,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  createOverride,
+  findOverrideById,
+  deleteOverride,
+} from "../db/oncallQueries.ts";
+import { getTeamOnCall, computeOnCallShifts } from "../oncall/index.ts";
+
+const oncallRouter = Router();
+
+interface ScheduleBody {
+  name?: string;
+  rotation?: OnCallRotation;
+  starts_at?: string;
+  user_ids?: number[];
+}
+
+interface OverrideBody {
+  user_id?: number;
+  starts_at?: string;
+  ends_at?: string;
+  note?: string | null;
+}
+
+const MAX_SHIFT_RANGE_DAYS = 62;
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== "string" || value.trim() === "") {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Validate a schedule body, the rotation must be made of distinct team members
+ * @returns The error message, or the parsed schedule
+ */
+async function parseScheduleBody(
+  teamId: number,
+  body: ScheduleBody
+): Promise<
+  { error: string } | { name: string; rotation: OnCallRotation; startsAt: Date; userIds: number[] }
+> {
+  const { name, rotation, starts_at, user_ids } = body;
+
+  if (!name || typeof name !== "string" || name.trim() === "" || name.trim().length > 100) {
+    return { error: "Name is required, up to 100 characters" };
+  }
+
+  const validRotations: string[] = Object.values(OnCallRotation);
+  if (!rotation || !validRotations.includes(rotation)) {
+    return { error: `Invalid rotation. Must be one of: ${validRotations.join(", ")}` };
+  }
+
+  const startsAt = parseDate(starts_at);
+  if (!startsAt) {
+    return { error: "starts_at must be a valid date" };
+  }
+
+  if (!Array.isArray(user_ids) || !user_ids.every((id) => Number.isInteger(id))) {
+    return { error: "user_ids must be an array of user IDs" };
+  }
+
+  if (new Set(user_ids).size !== user_ids.length) {
+    return { error: "A user can only appear once in the rotation" };
+  }
+
+  const memberIds = new Set((await getTeamMembers(teamId)).map((m) => m.user_id));
+  if (!user_ids.every((id) => memberIds.has(id))) {
+    return { error: "Every user in the rotation must be a member of the team" };
+  }
+
+  return { name: name.trim(), rotation, startsAt, userIds: user_ids };
+}
+
+/**
+ * GET /teams/:teamId/oncall
+ * Who is on call for the team right now, per schedule (any team member)
+ */
+oncallRouter.get(
+  "/teams/:teamId/oncall",
+  authMiddleware,
+  requireTeamRole(TeamRole.USER, TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+
+      const oncall = await getTeamOnCall(teamId);
+
+      res.status(200).json({
+        success: true,
+        oncall,
+      });
+    } catch (error) {
+      console.error("Get on-call error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * GET /teams/:teamId/oncall/schedules
+ * List the team's schedules with their rotation and recent and upcoming overrides (any team member)
+ */
+oncallRouter.get(
+  "/teams/:teamId/oncall/schedules",
+  authMiddleware,
+  requireTeamRole(TeamRole.USER, TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+
+      const schedules = await getTeamSchedules(teamId);
+
+      res.status(200).json({
+        success: true,
+        schedules,
+      });
+    } catch (error) {
+      console.error("List on-call schedules error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /teams/:teamId/oncall/schedules
+ * Create an on-call schedule (admin)
+ */
+oncallRouter.post(
+  "/teams/:teamId/oncall/schedules",
+  authMiddleware,
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+
+      const parsed = await parseScheduleBody(teamId, req.body as ScheduleBody);
+
+      if ("error" in parsed) {
+        res.status(400).json({
+          success: false,
+          message: parsed.error,
+        });
+        return;
+      }
+
+      const schedule = await createSchedule(
+        teamId,
+        parsed.name,
+        parsed.rotation,
+        parsed.startsAt,
+        parsed.userIds
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "On-call schedule created successfully",
+        schedule,
+      });
+    } catch (error) {
+      console.error("Create on-call schedule error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * PUT /teams/:teamId/oncall/schedules/:scheduleId
+ * Replace a schedule's name, rotation and start, overrides are kept (admin)
+ */
+oncallRouter.put(
+  "/teams/:teamId/oncall/schedules/:scheduleId",
+  authMiddleware,
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const scheduleId = parseInt(req.params.scheduleId, 10);
+
+      const schedule = await findScheduleById(scheduleId);
+
+      if (!schedule || schedule.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Schedule not found",
+        });
+        return;
+      }
+
+      const parsed = await parseScheduleBody(teamId, req.body as ScheduleBody);
+
+      if ("error" in parsed) {
+        res.status(400).json({
+          success: false,
+          message: parsed.error,
+        });
+        return;
+      }
+
+      await updateSchedule(scheduleId, parsed.name, parsed.rotation, parsed.startsAt, parsed.userIds);
+
+      res.status(200).json({
+        success: true,
+        message: "On-call schedule updated successfully",
+        schedule: await findScheduleById(scheduleId),
+      });
+    } catch (error) {
+      console.error("Update on-call schedule error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /teams/:teamId/oncall/schedules/:scheduleId
+ * Delete a schedule with its overrides (admin)
+ */
+oncallRouter.delete(
+  "/teams/:teamId/oncall/schedules/:scheduleId",
+  authMiddleware,
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const scheduleId = parseInt(req.params.scheduleId, 10);
+
+      const schedule = await findScheduleById(scheduleId);
+
+      if (!schedule || schedule.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Schedule not found",
+        });
+        return;
+      }
+
+      await deleteSchedule(scheduleId);
+
+      res.status(200).json({
+        success: true,
+        message: "On-call schedule deleted successfully",
+      });
+    } catch (error) {
+      console.error("Delete on-call schedule error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * GET /teams/:teamId/oncall/schedules/:scheduleId/shifts
+ * Shifts of a schedule between ?from and ?to, overrides applied (any team member)
+ * Defaults to the next 28 days, ranges are limited to 62 days
+ */
+oncallRouter.get(
+  "/teams/:teamId/oncall/schedules/:scheduleId/shifts",
+  authMiddleware,
+  requireTeamRole(TeamRole.USER, TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const scheduleId = parseInt(req.params.scheduleId, 10);
+
+      const from = req.query.from !== undefined ? parseDate(req.query.from) : new Date();
+      const to =
+        req.query.to !== undefined
+          ? parseDate(req.query.to)
+          : from && new Date(from.getTime() + 28 * 24 * 60 * 60 * 1000);
+
+      if (!from || !to || to <= from) {
+        res.status(400).json({
+          success: false,
+          message: "from and to must be valid dates, with to after from",
+        });
+        return;
+      }
+
+      if (to.getTime() - from.getTime() > MAX_SHIFT_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+        res.status(400).json({
+          success: false,
+          message: `The range cannot exceed ${MAX_SHIFT_RANGE_DAYS} days`,
+        });
+        return;
+      }
+
+      const schedule = await findScheduleById(scheduleId);
+
+      if (!schedule || schedule.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Schedule not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        shifts: computeOnCallShifts(schedule, from, to),
+      });
+    } catch (error) {
+      console.error("Get on-call shifts error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /teams/:teamId/oncall/schedules/:scheduleId/overrides
+ * Put a team member on call instead of the rotation for a period (manager/admin)
+ */
+oncallRouter.post(
+  "/teams/:teamId/oncall/schedules/:scheduleId/overrides",
+  authMiddleware,
+  requireTeamRole(TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const scheduleId = parseInt(req.params.scheduleId, 10);
+      const { user_id, starts_at, ends_at, note } = req.body as OverrideBody;
+
+      const startsAt = parseDate(starts_at);
+      const endsAt = parseDate(ends_at);
+
+      if (!startsAt || !endsAt || endsAt <= startsAt) {
+        res.status(400).json({
+          success: false,
+          message: "starts_at and ends_at must be valid dates, with ends_at after starts_at",
+        });
+        return;
+      }
+
+      if (note !== undefined && note !== null && (typeof note !== "string" || note.length > 255)) {
+        res.status(400).json({
+          success: false,
+          message: "Note must be up to 255 characters",
+        });
+        return;
+      }
+
+      const schedule = await findScheduleById(scheduleId);
+
+      if (!schedule || schedule.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Schedule not found",
+        });
+        return;
+      }
+
+      if (!Number.isInteger(user_id) || !(await isTeamMember(user_id as number, teamId))) {
+        res.status(400).json({
+          success: false,
+          message: "The user must be a member of the team",
+        });
+        return;
+      }
+
+      const override = await createOverride(
+        scheduleId,
+        user_id as number,
+        startsAt,
+        endsAt,
+        note?.trim() || null,
+        parseInt(authReq.userId, 10)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Override added successfully",
+        override,
+      });
+    } catch (error) {
+      console.error("Create on-call override error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /teams/:teamId/oncall/schedules/:scheduleId/overrides/:overrideId
+ * Remove an override (manager/admin)
+ */
+oncallRouter.delete(
+  "/teams/:teamId/oncall/schedules/:scheduleId/overrides/:overrideId",
+  authMiddleware,
+  requireTeamRole(TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const scheduleId = parseInt(req.params.scheduleId, 10);
+      const overrideId = parseInt(req.params.overrideId, 10);
+
+      const schedule = await findScheduleById(scheduleId);
+      const override = await findOverrideById(overrideId);
+
+      if (!schedule || schedule.team_id !== teamId || !override || override.schedule_id !== scheduleId) {
+        res.status(404).json({
+          success: false,
+          message: "Override not found",
+        });
+        return;
+      }
+
+      await deleteOverride(overrideId);
+
+      res.status(200).json({
+        success: true,
+        message: "Override removed successfully",
+      });
+    } catch (error) {
+      console.error("Delete on-call override error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default oncallRouter;
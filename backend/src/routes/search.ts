@@ -0,0 +1,180 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddleware.ts";
+import { IncidentStatus, IncidentSeverity, IncidentPriority } from "../types/incident.ts";
+import type { Team } from "../types/team.ts";
+import { getUserTeams } from "../db/teamUserQueries.ts";
+import { searchIncidents, type IncidentFilters } from "../db/incidentQueries.ts";
+import { withLabels } from "../db/labelQueries.ts";
+import { withSla } from "../db/slaQueries.ts";
+
+const searchRouter = Router();
+
+interface ParsedSearchQuery {
+  filters: IncidentFilters;
+  teamIds: number[] | null;
+  text: string | null;
+}
+
+/**
+ * Split a query into words, keeping "quoted values" together
+ */
+function tokenize(query: string): string[] {
+  return (query.match(/(?:[^\s"]+|"[^"]*")+/g) ?? []).map((token) => token.replace(/"/g, ""));
+}
+
+/**
+ * Parse the search query language
+ *
+ * Supported qualifiers, values can be comma-separated or "quoted":
+ * - status:pending,escalated
+ * - severity:sev1
+ * - priority:p1
+ * - assignee:me | assignee:unassigned | assignee:<user id>
+ * - reporter:me | reporter:<user id>
+ * - team:<team name or id>
+ * Remaining words are searched in title and description
+ *
+ * @returns The parsed query, or an error message if the query is invalid
+ */
+function parseSearchQuery(
+  query: string,
+  userId: number,
+  teams: Team[]
+): ParsedSearchQuery | { error: string } {
+  const parsed: ParsedSearchQuery = { filters: {}, teamIds: null, text: null };
+  const words: string[] = [];
+
+  for (const token of tokenize(query)) {
+    const separator = token.indexOf(":");
+    if (separator <= 0) {
+      words.push(token);
+      continue;
+    }
+
+    const key = token.slice(0, separator).toLowerCase();
+    const value = token.slice(separator + 1);
+    const values = value.split(",").map((v) => v.trim().toLowerCase()).filter((v) => v !== "");
+
+    if (values.length === 0) {
+      return { error: `Missing value for "${key}"` };
+    }
+
+    switch (key) {
+      case "status": {
+        const allowed: string[] = Object.values(IncidentStatus);
+        if (!values.every((v) => allowed.includes(v))) {
+          return { error: `Invalid status. Must be one of: ${allowed.join(", ")}` };
+        }
+        parsed.filters.status = values as IncidentStatus[];
+        break;
+      }
+      case "severity": {
+        const allowed: string[] = Object.values(IncidentSeverity);
+        if (!values.every((v) => allowed.includes(v))) {
+          return { error: `Invalid severity. Must be one of: ${allowed.join(", ")}` };
+        }
+        parsed.filters.severity = values as IncidentSeverity[];
+        break;
+      }
+      case "priority": {
+        const allowed: string[] = Object.values(IncidentPriority);
+        if (!values.every((v) => allowed.includes(v))) {
+          return { error: `Invalid priority. Must be one of: ${allowed.join(", ")}` };
+        }
+        parsed.filters.priority = values as IncidentPriority[];
+        break;
+      }
+      case "assignee":
+      case "reporter": {
+        const target = values[0];
+        let resolved: number | null;
+
+        if (target === "me") {
+          resolved = userId;
+        } else if (target === "unassigned" && key === "assignee") {
+          resolved = null;
+        } else if (/^\d+$/.test(target)) {
+          resolved = parseInt(target, 10);
+        } else {
+          return { error: `Invalid ${key}. Use "me", a user ID${key === "assignee" ? ' or "unassigned"' : ""}` };
+        }
+
+        if (key === "assignee") {
+          parsed.filters.assignedTo = resolved;
+        } else {
+          parsed.filters.reportedBy = resolved as number;
+        }
+        break;
+      }
+      case "team": {
+        const matched = teams.filter((team) =>
+          values.some((v) => team.name.toLowerCase() === v || team.id.toString() === v)
+        );
+        if (matched.length === 0) {
+          return { error: `You are not a member of a team named "${value}"` };
+        }
+        parsed.teamIds = matched.map((team) => team.id);
+        break;
+      }
+      default:
+        // Unknown qualifiers (e.g. a URL or "10:30") are searched as text
+        words.push(token);
+    }
+  }
+
+  parsed.text = words.length > 0 ? words.join(" ") : null;
+  return parsed;
+}
+
+/**
+ * GET /search/incidents?q=status:escalated assignee:me team:ops dns
+ * Search incidents across all teams the current user belongs to
+ */
+searchRouter.get(
+  "/incidents",
+  authMiddleware,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const userId = parseInt(authReq.userId, 10);
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+
+      if (query === "") {
+        res.status(400).json({
+          success: false,
+          message: "Search query is required",
+        });
+        return;
+      }
+
+      const teams = await getUserTeams(userId);
+
+      const parsed = parseSearchQuery(query, userId, teams);
+
+      if ("error" in parsed) {
+        res.status(400).json({
+          success: false,
+          message: parsed.error,
+        });
+        return;
+      }
+
+      const teamIds = parsed.teamIds ?? teams.map((team) => team.id);
+      const incidents = await searchIncidents(teamIds, parsed.filters, parsed.text);
+
+      res.status(200).json({
+        success: true,
+        incidents: await withSla(await withLabels(incidents)),
+      });
+    } catch (error) {
+      console.error("Search incidents error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default searchRouter;
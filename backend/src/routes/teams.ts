@@ -3,9 +3,23 @@ import type { Request, Response } from "express";
 import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddleware.ts";
 import { requireTeamRole } from "../auth/authorization.ts";
 import { TeamRole } from "../types/teamUser.ts";
+import { IncidentStatus, IncidentSeverity } from "../types/incident.ts";
+import type { StatusTransition } from "../types/workflow.ts";
+import type { SlaTarget } from "../types/sla.ts";
+import { AssignmentStrategy } from "../types/assignment.ts";
+import { EscalationTarget, type EscalationLevel } from "../types/escalation.ts";
 import { addUserToTeam, removeUserFromTeam, updateUserRoleInTeam, isUserInTeam, getTeamById } from "../db/teamQueries.ts";
-import { getUserRoleInTeam } from "../db/teamUserQueries.ts";
+import { getUserRoleInTeam, isTeamMember } from "../db/teamUserQueries.ts";
 import { findUserById } from "../db/usersQueries.ts";
+import { getTeamWorkflow, hasCustomWorkflow, replaceTeamWorkflow, resetTeamWorkflow } from "../db/workflowQueries.ts";
+import { withLabels } from "../db/labelQueries.ts";
+import { getTeamEscalationLevels, replaceTeamEscalationLevels } from "../db/escalationQueries.ts";
+import {
+  getTeamAssignmentSettings,
+  setTeamAssignmentSettings,
+  getTeamAssignmentDecisions,
+} from "../db/assignmentQueries.ts";
+import { getTeamSlaTargets, replaceTeamSlaTargets, withSla, getTeamIncidentsCreatedSince } from "../db/slaQueries.ts";
 import pool from "../db/dbPool.ts";
 import type { RowDataPacket } from "mysql2";
 
@@ -233,4 +247,470 @@ teamsRouter.get(
   }
 );
 
+/**
+ * GET /teams/:teamId/workflow
+ * Get the team's allowed status transitions (any team member can view)
+ */
+teamsRouter.get(
+  "/:teamId/workflow",
+  requireTeamRole(TeamRole.USER, TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+
+      const transitions = await getTeamWorkflow(teamId);
+      const isCustom = await hasCustomWorkflow(teamId);
+
+      res.status(200).json({ success: true, transitions, is_custom: isCustom });
+    } catch (error) {
+      console.error("Get team workflow error:", error);
+      res.status(500).json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+/**
+ * PUT /teams/:teamId/workflow
+ * Replace the team's allowed status transitions (admin only)
+ */
+teamsRouter.put(
+  "/:teamId/workflow",
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const { transitions } = req.body;
+
+      if (!Array.isArray(transitions)) {
+        res.status(400).json({ success: false, message: "Transitions must be an array" });
+        return;
+      }
+
+      const validStatuses: string[] = Object.values(IncidentStatus);
+      const parsed: StatusTransition[] = [];
+      const seen = new Set<string>();
+
+      for (const t of transitions) {
+        if (!t || !validStatuses.includes(t.from_status) || !validStatuses.includes(t.to_status)) {
+          res.status(400).json({
+            success: false,
+            message: `Invalid status in transition. Must be one of: ${validStatuses.join(", ")}`,
+          });
+          return;
+        }
+
+        if (t.from_status === t.to_status) {
+          res.status(400).json({ success: false, message: "A transition must change the status" });
+          return;
+        }
+
+        const key = `${t.from_status}:${t.to_status}`;
+        if (seen.has(key)) {
+          res.status(400).json({ success: false, message: `Duplicate transition ${t.from_status} -> ${t.to_status}` });
+          return;
+        }
+        seen.add(key);
+
+        parsed.push({
+          from_status: t.from_status,
+          to_status: t.to_status,
+          requires_note: t.requires_note === true,
+        });
+      }
+
+      if (parsed.length === 0) {
+        res.status(400).json({ success: false, message: "At least one transition is required" });
+        return;
+      }
+
+      await replaceTeamWorkflow(teamId, parsed);
+
+      res.status(200).json({ success: true, message: "Workflow updated", transitions: parsed, is_custom: true });
+    } catch (error) {
+      console.error("Update team workflow error:", error);
+      res.status(500).json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+/**
+ * DELETE /teams/:teamId/workflow
+ * Reset the team to the default workflow (admin only)
+ */
+teamsRouter.delete(
+  "/:teamId/workflow",
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+
+      await resetTeamWorkflow(teamId);
+      const transitions = await getTeamWorkflow(teamId);
+
+      res.status(200).json({ success: true, message: "Workflow reset to default", transitions, is_custom: false });
+    } catch (error) {
+      console.error("Reset team workflow error:", error);
+      res.status(500).json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Targets are capped at one year
+const MAX_SLA_MINUTES = 525600;
+
+function isValidSlaMinutes(value: unknown): value is number | null {
+  return value === null || (Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_SLA_MINUTES);
+}
+
+/**
+ * GET /teams/:teamId/sla
+ * Get the team's SLA targets per severity (any team member can view)
+ */
+teamsRouter.get(
+  "/:teamId/sla",
+  requireTeamRole(TeamRole.USER, TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+
+      const targets = await getTeamSlaTargets(teamId);
+
+      res.status(200).json({ success: true, targets });
+    } catch (error) {
+      console.error("Get team SLA error:", error);
+      res.status(500).json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+/**
+ * PUT /teams/:teamId/sla
+ * Replace the team's SLA targets (admin only), at most one per severity, an empty list removes them
+ */
+teamsRouter.put(
+  "/:teamId/sla",
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const { targets } = req.body;
+
+      if (!Array.isArray(targets)) {
+        res.status(400).json({ success: false, message: "Targets must be an array" });
+        return;
+      }
+
+      const validSeverities: string[] = Object.values(IncidentSeverity);
+      const parsed: SlaTarget[] = [];
+      const seen = new Set<string>();
+
+      for (const t of targets) {
+        if (!t || !validSeverities.includes(t.severity)) {
+          res.status(400).json({
+            success: false,
+            message: `Invalid severity in target. Must be one of: ${validSeverities.join(", ")}`,
+          });
+          return;
+        }
+
+        if (seen.has(t.severity)) {
+          res.status(400).json({ success: false, message: `Duplicate target for ${t.severity}` });
+          return;
+        }
+        seen.add(t.severity);
+
+        const respond = t.respond_within_minutes ?? null;
+        const resolve = t.resolve_within_minutes ?? null;
+
+        if (!isValidSlaMinutes(respond) || !isValidSlaMinutes(resolve)) {
+          res.status(400).json({
+            success: false,
+            message: `Targets must be a whole number of minutes between 1 and ${MAX_SLA_MINUTES}, or null`,
+          });
+          return;
+        }
+
+        if (respond === null && resolve === null) {
+          continue;
+        }
+
+        parsed.push({ severity: t.severity, respond_within_minutes: respond, resolve_within_minutes: resolve });
+      }
+
+      await replaceTeamSlaTargets(teamId, parsed);
+
+      res.status(200).json({ success: true, message: "SLA targets updated", targets: await getTeamSlaTargets(teamId) });
+    } catch (error) {
+      console.error("Update team SLA error:", error);
+      res.status(500).json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+/**
+ * GET /teams/:teamId/sla/report
+ * SLA breach report of the incidents created in the last ?days (1-365, default 30)
+ * (any team member can view)
+ */
+teamsRouter.get(
+  "/:teamId/sla/report",
+  requireTeamRole(TeamRole.USER, TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const days = req.query.days !== undefined ? parseInt(String(req.query.days), 10) : 30;
+
+      if (isNaN(days) || days < 1 || days > 365) {
+        res.status(400).json({ success: false, message: "days must be between 1 and 365" });
+        return;
+      }
+
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const incidents = await withSla(await withLabels(await getTeamIncidentsCreatedSince(teamId, since)));
+
+      const bySeverity = Object.values(IncidentSeverity).map((severity) => {
+        const covered = incidents.filter((i) => i.severity === severity && i.sla !== null);
+        return {
+          severity,
+          total: covered.length,
+          response_breached: covered.filter((i) => i.sla?.response_breached).length,
+          resolution_breached: covered.filter((i) => i.sla?.resolution_breached).length,
+          breached: covered.filter((i) => i.sla?.breached).length,
+        };
+      });
+
+      const total = bySeverity.reduce((sum, s) => sum + s.total, 0);
+      const breached = bySeverity.reduce((sum, s) => sum + s.breached, 0);
+
+      res.status(200).json({
+        success: true,
+        report: {
+          days,
+          since,
+          total,
+          breached,
+          // Share of incidents with a target that met all of them, null without any
+          compliance: total === 0 ? null : Math.round(((total - breached) / total) * 1000) / 10,
+          by_severity: bySeverity,
+          breached_incidents: incidents.filter((i) => i.sla?.breached),
+        },
+      });
+    } catch (error) {
+      console.error("Get team SLA report error:", error);
+      res.status(500).json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+/**
+ * GET /teams/:teamId/assignment
+ * Get the team's automatic assignment strategy (any team member can view)
+ */
+teamsRouter.get(
+  "/:teamId/assignment",
+  requireTeamRole(TeamRole.USER, TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+
+      const settings = await getTeamAssignmentSettings(teamId);
+
+      res.status(200).json({
+        success: true,
+        strategy: settings.strategy,
+        default_assignee_user_id: settings.default_assignee_user_id,
+      });
+    } catch (error) {
+      console.error("Get assignment strategy error:", error);
+      res.status(500).json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+/**
+ * PUT /teams/:teamId/assignment
+ * Set the team's automatic assignment strategy (admin only)
+ * The fixed strategy needs a default assignee who is a member of the team
+ */
+teamsRouter.put(
+  "/:teamId/assignment",
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const { strategy, default_assignee_user_id } = req.body;
+
+      const validStrategies: string[] = Object.values(AssignmentStrategy);
+      if (!validStrategies.includes(strategy)) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid strategy. Must be one of: ${validStrategies.join(", ")}`,
+        });
+        return;
+      }
+
+      let defaultAssigneeId: number | null = null;
+
+      if (strategy === AssignmentStrategy.FIXED) {
+        if (!Number.isInteger(default_assignee_user_id)) {
+          res.status(400).json({ success: false, message: "The fixed strategy needs a default_assignee_user_id" });
+          return;
+        }
+
+        if (!(await isTeamMember(default_assignee_user_id, teamId))) {
+          res.status(400).json({ success: false, message: "The default assignee must be a member of the team" });
+          return;
+        }
+
+        defaultAssigneeId = default_assignee_user_id;
+      }
+
+      await setTeamAssignmentSettings(teamId, strategy, defaultAssigneeId);
+
+      res.status(200).json({
+        success: true,
+        message: "Assignment strategy updated",
+        strategy,
+        default_assignee_user_id: defaultAssigneeId,
+      });
+    } catch (error) {
+      console.error("Update assignment strategy error:", error);
+      res.status(500).json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+/**
+ * GET /teams/:teamId/assignment/decisions
+ * Latest automatic assignment decisions of the team, newest first (manager/admin)
+ */
+teamsRouter.get(
+  "/:teamId/assignment/decisions",
+  requireTeamRole(TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+
+      const decisions = await getTeamAssignmentDecisions(teamId);
+
+      res.status(200).json({ success: true, decisions });
+    } catch (error) {
+      console.error("Get assignment decisions error:", error);
+      res.status(500).json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+const MAX_ESCALATION_LEVELS = 10;
+// Delays are capped at one week
+const MAX_ESCALATION_DELAY_MINUTES = 10080;
+
+/**
+ * GET /teams/:teamId/escalation
+ * Get the team's escalation policy (any team member can view)
+ */
+teamsRouter.get(
+  "/:teamId/escalation",
+  requireTeamRole(TeamRole.USER, TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+
+      const levels = await getTeamEscalationLevels(teamId);
+
+      res.status(200).json({ success: true, levels });
+    } catch (error) {
+      console.error("Get escalation policy error:", error);
+      res.status(500).json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+/**
+ * PUT /teams/:teamId/escalation
+ * Replace the team's escalation policy (admin only), levels are numbered in the given order
+ * An empty list disables escalation
+ */
+teamsRouter.put(
+  "/:teamId/escalation",
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const { levels } = req.body;
+
+      if (!Array.isArray(levels) || levels.length > MAX_ESCALATION_LEVELS) {
+        res.status(400).json({
+          success: false,
+          message: `Levels must be an array of at most ${MAX_ESCALATION_LEVELS} levels`,
+        });
+        return;
+      }
+
+      const validTargets: string[] = Object.values(EscalationTarget);
+      const parsed: Omit<EscalationLevel, "level">[] = [];
+
+      for (const l of levels) {
+        if (
+          !l ||
+          !Number.isInteger(l.delay_minutes) ||
+          l.delay_minutes < 1 ||
+          l.delay_minutes > MAX_ESCALATION_DELAY_MINUTES
+        ) {
+          res.status(400).json({
+            success: false,
+            message: `delay_minutes must be a whole number between 1 and ${MAX_ESCALATION_DELAY_MINUTES}`,
+          });
+          return;
+        }
+
+        if (!validTargets.includes(l.target_type)) {
+          res.status(400).json({
+            success: false,
+            message: `Invalid target_type. Must be one of: ${validTargets.join(", ")}`,
+          });
+          return;
+        }
+
+        if (
+          l.target_type === EscalationTarget.USER &&
+          !(Number.isInteger(l.target_user_id) && (await findUserById(l.target_user_id)))
+        ) {
+          res.status(400).json({ success: false, message: "A user level needs an existing target_user_id" });
+          return;
+        }
+
+        if (
+          l.target_type === EscalationTarget.TEAM &&
+          !(Number.isInteger(l.target_team_id) && l.target_team_id !== teamId && (await getTeamById(l.target_team_id)))
+        ) {
+          res.status(400).json({
+            success: false,
+            message: "A team level needs an existing target_team_id of another team",
+          });
+          return;
+        }
+
+        parsed.push({
+          delay_minutes: l.delay_minutes,
+          target_type: l.target_type,
+          target_user_id: l.target_type === EscalationTarget.USER ? l.target_user_id : null,
+          target_team_id: l.target_type === EscalationTarget.TEAM ? l.target_team_id : null,
+        });
+      }
+
+      await replaceTeamEscalationLevels(teamId, parsed);
+
+      res.status(200).json({
+        success: true,
+        message: "Escalation policy updated",
+        levels: await getTeamEscalationLevels(teamId),
+      });
+    } catch (error) {
+      console.error("Update escalation policy error:", error);
+      res.status(500).json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
 export default teamsRouter;
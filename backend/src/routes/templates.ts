@@ -0,0 +1,244 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddleware.ts";
+import { requireTeamMembership, requireTeamRole } from "../auth/authorization.ts";
+import { TeamRole } from "../types/teamUser.ts";
+import { IncidentSeverity } from "../types/incident.ts";
+import { getTeamLabels } from "../db/labelQueries.ts";
+import {
+  getTeamTemplates,
+  findTemplateById,
+  findTeamTemplateByName,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+  type TemplateFields,
+} from "../db/templateQueries.ts";
+
+const templatesRouter = Router();
+
+interface TemplateBody {
+  name?: string;
+  title?: string;
+  description?: string | null;
+  severity?: IncidentSeverity | null;
+  label_ids?: number[];
+}
+
+/**
+ * Validate a template body, default labels must come from the team's catalogue
+ * @returns The error message, or the parsed template
+ */
+async function parseTemplateBody(teamId: number, body: TemplateBody): Promise<{ error: string } | TemplateFields> {
+  const { name, title = "", description = null, severity = null, label_ids = [] } = body;
+
+  if (!name || typeof name !== "string" || name.trim() === "" || name.trim().length > 100) {
+    return { error: "Name is required, up to 100 characters" };
+  }
+
+  if (typeof title !== "string" || title.trim().length > 255) {
+    return { error: "Title must be up to 255 characters" };
+  }
+
+  if (description !== null && typeof description !== "string") {
+    return { error: "Description must be a string" };
+  }
+
+  const validSeverities: string[] = Object.values(IncidentSeverity);
+  if (severity !== null && !validSeverities.includes(severity)) {
+    return { error: `Invalid severity. Must be one of: ${validSeverities.join(", ")}` };
+  }
+
+  if (!Array.isArray(label_ids) || !label_ids.every((id) => Number.isInteger(id))) {
+    return { error: "label_ids must be an array of label IDs" };
+  }
+
+  const teamLabelIds = new Set((await getTeamLabels(teamId)).map((l) => l.id));
+  if (!label_ids.every((id) => teamLabelIds.has(id))) {
+    return { error: "Every label must belong to the team" };
+  }
+
+  return {
+    name: name.trim(),
+    title: title.trim(),
+    description: description?.trim() || null,
+    severity,
+    labelIds: [...new Set(label_ids)],
+  };
+}
+
+/**
+ * GET /teams/:teamId/templates
+ * List the team's incident templates (any team member)
+ */
+templatesRouter.get(
+  "/teams/:teamId/templates",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+
+      const templates = await getTeamTemplates(teamId);
+
+      res.status(200).json({
+        success: true,
+        templates,
+      });
+    } catch (error) {
+      console.error("List templates error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /teams/:teamId/templates
+ * Create an incident template (manager/admin)
+ */
+templatesRouter.post(
+  "/teams/:teamId/templates",
+  authMiddleware,
+  requireTeamRole(TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+
+      const parsed = await parseTemplateBody(teamId, req.body as TemplateBody);
+
+      if ("error" in parsed) {
+        res.status(400).json({
+          success: false,
+          message: parsed.error,
+        });
+        return;
+      }
+
+      if (await findTeamTemplateByName(teamId, parsed.name)) {
+        res.status(409).json({
+          success: false,
+          message: "The team already has a template with this name",
+        });
+        return;
+      }
+
+      const template = await createTemplate(teamId, parsed, parseInt(authReq.userId, 10));
+
+      res.status(201).json({
+        success: true,
+        message: "Template created successfully",
+        template,
+      });
+    } catch (error) {
+      console.error("Create template error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * PUT /teams/:teamId/templates/:templateId
+ * Replace an incident template (manager/admin)
+ */
+templatesRouter.put(
+  "/teams/:teamId/templates/:templateId",
+  authMiddleware,
+  requireTeamRole(TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const templateId = parseInt(req.params.templateId, 10);
+
+      const template = await findTemplateById(templateId);
+
+      if (!template || template.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Template not found",
+        });
+        return;
+      }
+
+      const parsed = await parseTemplateBody(teamId, req.body as TemplateBody);
+
+      if ("error" in parsed) {
+        res.status(400).json({
+          success: false,
+          message: parsed.error,
+        });
+        return;
+      }
+
+      const sameName = await findTeamTemplateByName(teamId, parsed.name);
+      if (sameName && sameName.id !== templateId) {
+        res.status(409).json({
+          success: false,
+          message: "The team already has a template with this name",
+        });
+        return;
+      }
+
+      await updateTemplate(templateId, parsed);
+
+      res.status(200).json({
+        success: true,
+        message: "Template updated successfully",
+        template: await findTemplateById(templateId),
+      });
+    } catch (error) {
+      console.error("Update template error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /teams/:teamId/templates/:templateId
+ * Delete an incident template (manager/admin)
+ */
+templatesRouter.delete(
+  "/teams/:teamId/templates/:templateId",
+  authMiddleware,
+  requireTeamRole(TeamRole.MANAGER, TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const templateId = parseInt(req.params.templateId, 10);
+
+      const template = await findTemplateById(templateId);
+
+      if (!template || template.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Template not found",
+        });
+        return;
+      }
+
+      await deleteTemplate(templateId);
+
+      res.status(200).json({
+        success: true,
+        message: "Template deleted successfully",
+      });
+    } catch (error) {
+      console.error("Delete template error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default templatesRouter;
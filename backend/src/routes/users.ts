@@ -2,7 +2,7 @@ import { Router } from "express";
 import type { Request, Response } from "express";
 import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddleware.ts";
 import { requireTeamMembership } from "../auth/authorization.ts";
-import { getAllUsers } from "../db/usersQueries.ts";
+import { getAllUsers, getEmailNotificationsEnabled, setEmailNotificationsEnabled } from "../db/usersQueries.ts";
 import pool from "../db/dbPool.ts";
 import type { RowDataPacket } from "mysql2";
 
@@ -118,6 +118,85 @@ usersRouter.get(
   }
 );
 
+/**
+ * GET /users/me/preferences
+ * Get the current user's notification preferences
+ */
+usersRouter.get(
+  "/users/me/preferences",
+  authMiddleware,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const emailNotifications = await getEmailNotificationsEnabled(parseInt(authReq.userId, 10));
+
+      if (emailNotifications === null) {
+        res.status(404).json({
+          success: false,
+          message: "User not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        preferences: { email_notifications: emailNotifications },
+      });
+    } catch (error) {
+      console.error("Get preferences error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * PUT /users/me/preferences
+ * Update the current user's notification preferences
+ */
+usersRouter.put(
+  "/users/me/preferences",
+  authMiddleware,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const { email_notifications } = req.body as { email_notifications?: unknown };
+
+      if (typeof email_notifications !== "boolean") {
+        res.status(400).json({
+          success: false,
+          message: "email_notifications must be a boolean",
+        });
+        return;
+      }
+
+      const updated = await setEmailNotificationsEnabled(parseInt(authReq.userId, 10), email_notifications);
+
+      if (!updated) {
+        res.status(404).json({
+          success: false,
+          message: "User not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Preferences updated successfully",
+        preferences: { email_notifications },
+      });
+    } catch (error) {
+      console.error("Update preferences error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
 /**
  * GET /teams/:teamId/users
  * Get all users in a team (team members only)
@@ -0,0 +1,138 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddleware.ts";
+import { requireTeamMembership } from "../auth/authorization.ts";
+import { findIncidentById } from "../db/incidentQueries.ts";
+import { addWatcher, removeWatcher, getIncidentWatchers } from "../db/watcherQueries.ts";
+
+const watchersRouter = Router();
+
+/**
+ * GET /teams/:teamId/incidents/:incidentId/watchers
+ * List the watchers of an incident and whether the current user is one (any team member)
+ */
+watchersRouter.get(
+  "/teams/:teamId/incidents/:incidentId/watchers",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const userId = parseInt(authReq.userId, 10);
+
+      const incident = await findIncidentById(incidentId);
+
+      if (!incident || incident.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Incident not found",
+        });
+        return;
+      }
+
+      const watchers = await getIncidentWatchers(incidentId);
+
+      res.status(200).json({
+        success: true,
+        watchers,
+        watching: watchers.some((w) => w.user_id === userId),
+      });
+    } catch (error) {
+      console.error("List watchers error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /teams/:teamId/incidents/:incidentId/watchers
+ * Start watching an incident (any team member)
+ */
+watchersRouter.post(
+  "/teams/:teamId/incidents/:incidentId/watchers",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const userId = parseInt(authReq.userId, 10);
+
+      const incident = await findIncidentById(incidentId);
+
+      if (!incident || incident.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Incident not found",
+        });
+        return;
+      }
+
+      await addWatcher(incidentId, userId);
+
+      res.status(200).json({
+        success: true,
+        message: "You are now watching this incident",
+        watchers: await getIncidentWatchers(incidentId),
+        watching: true,
+      });
+    } catch (error) {
+      console.error("Watch incident error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /teams/:teamId/incidents/:incidentId/watchers
+ * Stop watching an incident (any team member)
+ */
+watchersRouter.delete(
+  "/teams/:teamId/incidents/:incidentId/watchers",
+  authMiddleware,
+  requireTeamMembership(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const incidentId = parseInt(req.params.incidentId, 10);
+      const userId = parseInt(authReq.userId, 10);
+
+      const incident = await findIncidentById(incidentId);
+
+      if (!incident || incident.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Incident not found",
+        });
+        return;
+      }
+
+      await removeWatcher(incidentId, userId);
+
+      res.status(200).json({
+        success: true,
+        message: "You are no longer watching this incident",
+        watchers: await getIncidentWatchers(incidentId),
+        watching: false,
+      });
+    } catch (error) {
+      console.error("Unwatch incident error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default watchersRouter;
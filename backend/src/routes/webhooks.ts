@@ -0,0 +1,362 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { randomBytes } from "node:crypto";
+import { authMiddleware, type AuthenticatedRequest } from "../auth/authMiddleware.ts";
+import { requireTeamRole } from "../auth/authorization.ts";
+import { TeamRole } from "../types/teamUser.ts";
+import { WebhookEvent, WebhookDeliveryStatus } from "../types/webhook.ts";
+import {
+  createWebhook,
+  findWebhookById,
+  getTeamWebhooks,
+  updateWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  findWebhookDeliveryById,
+  retryWebhookDelivery,
+  withoutSecret,
+} from "../db/webhookQueries.ts";
+import { processWebhookDeliveries } from "../webhooks/worker.ts";
+import { validateWebhookTarget } from "../webhooks/target.ts";
+
+const webhooksRouter = Router();
+
+interface WebhookBody {
+  url?: string;
+  events?: WebhookEvent[];
+  is_active?: boolean;
+}
+
+/**
+ * Only absolute http(s) URLs can receive deliveries, their host is checked by validateWebhookTarget
+ */
+function isValidWebhookUrl(url: unknown): url is string {
+  if (typeof url !== "string" || url.length > 2048) {
+    return false;
+  }
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === "http:" || parsed.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function isValidEventList(events: unknown): events is WebhookEvent[] {
+  const validEvents: string[] = Object.values(WebhookEvent);
+  return (
+    Array.isArray(events) &&
+    events.length > 0 &&
+    events.every((event) => typeof event === "string" && validEvents.includes(event))
+  );
+}
+
+/**
+ * GET /teams/:teamId/webhooks
+ * List the team's webhooks, without their secrets (admin)
+ */
+webhooksRouter.get(
+  "/teams/:teamId/webhooks",
+  authMiddleware,
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+
+      const webhooks = await getTeamWebhooks(teamId);
+
+      res.status(200).json({
+        success: true,
+        webhooks,
+      });
+    } catch (error) {
+      console.error("List webhooks error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /teams/:teamId/webhooks
+ * Register a webhook (admin), the signing secret is only returned here
+ */
+webhooksRouter.post(
+  "/teams/:teamId/webhooks",
+  authMiddleware,
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const teamId = parseInt(req.params.teamId, 10);
+      const { url, events } = req.body as WebhookBody;
+
+      if (!isValidWebhookUrl(url)) {
+        res.status(400).json({
+          success: false,
+          message: "A valid http(s) URL is required",
+        });
+        return;
+      }
+
+      const targetError = await validateWebhookTarget(url);
+      if (targetError) {
+        res.status(400).json({
+          success: false,
+          message: targetError,
+        });
+        return;
+      }
+
+      if (!isValidEventList(events)) {
+        res.status(400).json({
+          success: false,
+          message: `Choose at least one event: ${Object.values(WebhookEvent).join(", ")}`,
+        });
+        return;
+      }
+
+      const webhook = await createWebhook(
+        teamId,
+        url,
+        randomBytes(32).toString("hex"),
+        [...new Set(events)],
+        parseInt(authReq.userId, 10)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Webhook created successfully",
+        webhook,
+      });
+    } catch (error) {
+      console.error("Create webhook error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * PATCH /teams/:teamId/webhooks/:webhookId
+ * Change a webhook's URL, events or pause it (admin)
+ */
+webhooksRouter.patch(
+  "/teams/:teamId/webhooks/:webhookId",
+  authMiddleware,
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const webhookId = parseInt(req.params.webhookId, 10);
+      const { url, events, is_active } = req.body as WebhookBody;
+
+      const webhook = await findWebhookById(webhookId);
+
+      if (!webhook || webhook.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Webhook not found",
+        });
+        return;
+      }
+
+      if (url !== undefined && !isValidWebhookUrl(url)) {
+        res.status(400).json({
+          success: false,
+          message: "A valid http(s) URL is required",
+        });
+        return;
+      }
+
+      const targetError = url !== undefined ? await validateWebhookTarget(url) : null;
+      if (targetError) {
+        res.status(400).json({
+          success: false,
+          message: targetError,
+        });
+        return;
+      }
+
+      if (events !== undefined && !isValidEventList(events)) {
+        res.status(400).json({
+          success: false,
+          message: `Choose at least one event: ${Object.values(WebhookEvent).join(", ")}`,
+        });
+        return;
+      }
+
+      if (is_active !== undefined && typeof is_active !== "boolean") {
+        res.status(400).json({
+          success: false,
+          message: "is_active must be a boolean",
+        });
+        return;
+      }
+
+      await updateWebhook(webhookId, {
+        url,
+        events: events && [...new Set(events)],
+        is_active,
+      });
+      const updatedWebhook = await findWebhookById(webhookId);
+
+      res.status(200).json({
+        success: true,
+        message: "Webhook updated successfully",
+        webhook: updatedWebhook && withoutSecret(updatedWebhook),
+      });
+    } catch (error) {
+      console.error("Update webhook error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /teams/:teamId/webhooks/:webhookId
+ * Remove a webhook and its delivery log (admin)
+ */
+webhooksRouter.delete(
+  "/teams/:teamId/webhooks/:webhookId",
+  authMiddleware,
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const webhookId = parseInt(req.params.webhookId, 10);
+
+      const webhook = await findWebhookById(webhookId);
+
+      if (!webhook || webhook.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Webhook not found",
+        });
+        return;
+      }
+
+      await deleteWebhook(webhookId);
+
+      res.status(200).json({
+        success: true,
+        message: "Webhook deleted successfully",
+      });
+    } catch (error) {
+      console.error("Delete webhook error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * GET /teams/:teamId/webhooks/:webhookId/deliveries
+ * Latest deliveries of a webhook, newest first (admin)
+ * Query: ?limit=1-100 (default 50)
+ */
+webhooksRouter.get(
+  "/teams/:teamId/webhooks/:webhookId/deliveries",
+  authMiddleware,
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const webhookId = parseInt(req.params.webhookId, 10);
+      const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : 50;
+
+      if (isNaN(limit) || limit < 1 || limit > 100) {
+        res.status(400).json({
+          success: false,
+          message: "limit must be between 1 and 100",
+        });
+        return;
+      }
+
+      const webhook = await findWebhookById(webhookId);
+
+      if (!webhook || webhook.team_id !== teamId) {
+        res.status(404).json({
+          success: false,
+          message: "Webhook not found",
+        });
+        return;
+      }
+
+      const deliveries = await getWebhookDeliveries(webhookId, limit);
+
+      res.status(200).json({
+        success: true,
+        deliveries,
+      });
+    } catch (error) {
+      console.error("List webhook deliveries error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /teams/:teamId/webhooks/:webhookId/deliveries/:deliveryId/retry
+ * Queue a failed delivery again (admin)
+ */
+webhooksRouter.post(
+  "/teams/:teamId/webhooks/:webhookId/deliveries/:deliveryId/retry",
+  authMiddleware,
+  requireTeamRole(TeamRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const teamId = parseInt(req.params.teamId, 10);
+      const webhookId = parseInt(req.params.webhookId, 10);
+      const deliveryId = parseInt(req.params.deliveryId, 10);
+
+      const webhook = await findWebhookById(webhookId);
+      const delivery = await findWebhookDeliveryById(deliveryId);
+
+      if (!webhook || webhook.team_id !== teamId || !delivery || delivery.webhook_id !== webhookId) {
+        res.status(404).json({
+          success: false,
+          message: "Delivery not found",
+        });
+        return;
+      }
+
+      if (delivery.status !== WebhookDeliveryStatus.FAILED) {
+        res.status(409).json({
+          success: false,
+          message: "Only failed deliveries can be retried",
+        });
+        return;
+      }
+
+      await retryWebhookDelivery(deliveryId);
+      void processWebhookDeliveries();
+
+      res.status(200).json({
+        success: true,
+        message: "Delivery queued again",
+        delivery: await findWebhookDeliveryById(deliveryId),
+      });
+    } catch (error) {
+      console.error("Retry webhook delivery error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default webhooksRouter;
@@ -0,0 +1,40 @@
+import type { Incident } from "../types/incident.ts";
+import type { IncidentSla, SlaTarget } from "../types/sla.ts";
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(new Date(date).getTime() + minutes * 60000);
+}
+
+/**
+ * Compute due times and breach state of an incident
+ * A target is breached when it was met late, or is still unmet past its due time
+ * @returns null when the team has no target for the incident's severity
+ */
+export function computeIncidentSla(
+  incident: Incident,
+  target: SlaTarget | undefined,
+  now: Date = new Date()
+): IncidentSla | null {
+  if (!target || (target.respond_within_minutes === null && target.resolve_within_minutes === null)) {
+    return null;
+  }
+
+  const responseDueAt =
+    target.respond_within_minutes === null ? null : addMinutes(incident.created_at, target.respond_within_minutes);
+  const resolutionDueAt =
+    target.resolve_within_minutes === null ? null : addMinutes(incident.created_at, target.resolve_within_minutes);
+
+  const respondedAt = incident.first_response_at ? new Date(incident.first_response_at) : now;
+  const resolvedAt = incident.resolved_at ? new Date(incident.resolved_at) : now;
+
+  const responseBreached = responseDueAt !== null && respondedAt > responseDueAt;
+  const resolutionBreached = resolutionDueAt !== null && resolvedAt > resolutionDueAt;
+
+  return {
+    response_due_at: responseDueAt,
+    resolution_due_at: resolutionDueAt,
+    response_breached: responseBreached,
+    resolution_breached: resolutionBreached,
+    breached: responseBreached || resolutionBreached,
+  };
+}
@@ -0,0 +1,27 @@
+import type { StorageDriver } from "./storageDriver.ts";
+import { createLocalStorage } from "./localStorage.ts";
+
+export type { StorageDriver } from "./storageDriver.ts";
+
+let driver: StorageDriver | null = null;
+
+/**
+ * Get the storage driver selected by STORAGE_DRIVER (only "local" for now)
+ */
+export function getStorageDriver(): StorageDriver {
+  if (driver) {
+    return driver;
+  }
+
+  const name = process.env.STORAGE_DRIVER || "local";
+
+  switch (name) {
+    case "local":
+      driver = createLocalStorage(process.env.ATTACHMENTS_DIR || "./uploads");
+      break;
+    default:
+      throw new Error(`Unknown storage driver: ${name}`);
+  }
+
+  return driver;
+}
@@ -0,0 +1,40 @@
+import { createReadStream } from "node:fs";
+import { mkdir, writeFile, rm, access } from "node:fs/promises";
+import path from "node:path";
+import type { Readable } from "node:stream";
+import type { StorageDriver } from "./storageDriver.ts";
+
+/**
+ * Create a driver that stores files in a directory on the local disk
+ * @param rootDir - Directory holding the files, created on first write
+ */
+export function createLocalStorage(rootDir: string): StorageDriver {
+  const root = path.resolve(rootDir);
+
+  // Keys are generated server-side, this only guards against path traversal
+  function resolveKey(key: string): string {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  return {
+    async save(key: string, data: Buffer): Promise<void> {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+
+    async read(key: string): Promise<Readable> {
+      const filePath = resolveKey(key);
+      await access(filePath);
+      return createReadStream(filePath);
+    },
+
+    async remove(key: string): Promise<void> {
+      await rm(resolveKey(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,11 @@
+import type { Readable } from "node:stream";
+
+/**
+ * Backend where attachment contents are stored
+ * Keys are generated by the caller and are unique per file
+ */
+export interface StorageDriver {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
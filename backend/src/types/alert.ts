@@ -0,0 +1,49 @@
+/**
+ * A single alert of an Alertmanager webhook notification
+ * https://prometheus.io/docs/alerting/latest/configuration/#webhook_config
+ */
+export interface AlertmanagerAlert {
+  status: "firing" | "resolved";
+  labels: Record<string, string>;
+  annotations?: Record<string, string>;
+  startsAt?: string;
+  endsAt?: string;
+  generatorURL?: string;
+  fingerprint?: string;
+}
+
+export interface AlertmanagerPayload {
+  version?: string;
+  groupKey?: string;
+  status?: "firing" | "resolved";
+  receiver?: string;
+  groupLabels?: Record<string, string>;
+  commonLabels?: Record<string, string>;
+  commonAnnotations?: Record<string, string>;
+  externalURL?: string;
+  alerts: AlertmanagerAlert[];
+}
+
+/**
+ * Integration key a team's monitoring uses to open incidents, only its hash is stored
+ */
+export interface TeamIntegrationKey {
+  team_id: number;
+  key_prefix: string;
+  created_by_user_id: number;
+  created_at: Date;
+  last_used_at: Date | null;
+}
+
+/**
+ * Link between an alert fingerprint and the incident it opened
+ */
+export interface IncidentAlert {
+  id: number;
+  incident_id: number;
+  team_id: number;
+  fingerprint: string;
+  occurrences: number;
+  first_received_at: Date;
+  last_received_at: Date;
+}
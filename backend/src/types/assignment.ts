@@ -0,0 +1,35 @@
+/**
+ * How a team's new incidents are assigned
+ * - none: left unassigned for a manager
+ * - round_robin: in turn among the members with the user role
+ * - least_open: to the member with the user role with the fewest open assigned incidents
+ * - fixed: to the team's default assignee
+ */
+export const AssignmentStrategy = {
+  NONE: "none",
+  ROUND_ROBIN: "round_robin",
+  LEAST_OPEN: "least_open",
+  FIXED: "fixed",
+} as const;
+
+export type AssignmentStrategy = (typeof AssignmentStrategy)[keyof typeof AssignmentStrategy];
+
+export interface TeamAssignmentSettings {
+  team_id: number;
+  strategy: AssignmentStrategy;
+  default_assignee_user_id: number | null;
+  last_assigned_user_id: number | null;
+}
+
+/**
+ * Outcome of an automatic assignment, logged for each new incident of a team with a strategy
+ */
+export interface AssignmentDecision {
+  id: number;
+  team_id: number;
+  incident_id: number;
+  strategy: Exclude<AssignmentStrategy, "none">;
+  assigned_user_id: number | null;
+  reason: string;
+  created_at: Date;
+}
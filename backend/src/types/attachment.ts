@@ -0,0 +1,31 @@
+export interface Attachment {
+  id: number;
+  incident_id: number;
+  uploaded_by_user_id: number;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  storage_key: string;
+  created_at: Date;
+}
+
+export interface AttachmentWithUploader extends Attachment {
+  uploader_name: string;
+}
+
+/**
+ * MIME types accepted for attachments: screenshots, logs and common documents
+ */
+export const ALLOWED_ATTACHMENT_TYPES: readonly string[] = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "text/plain",
+  "text/csv",
+  "application/json",
+  "application/pdf",
+  "application/zip",
+  "application/gzip",
+  "application/x-gzip",
+];
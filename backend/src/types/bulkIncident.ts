@@ -0,0 +1,22 @@
+/**
+ * Operations the bulk endpoint applies to every selected incident
+ * - delete archives the incidents, like DELETE on a single incident
+ */
+export const BulkIncidentAction = {
+  STATUS: "status",
+  ASSIGN: "assign",
+  LABEL: "label",
+  DELETE: "delete",
+} as const;
+
+export type BulkIncidentAction = (typeof BulkIncidentAction)[keyof typeof BulkIncidentAction];
+
+/**
+ * Outcome of a bulk operation for one incident
+ */
+export interface BulkIncidentResult {
+  incident_id: number;
+  success: boolean;
+  // Why the incident was skipped, or "No changes" when it already matched
+  message?: string;
+}
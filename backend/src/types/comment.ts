@@ -3,4 +3,11 @@ export interface Comment {
   user_id: number;
   content: string;
   incident_id: number;
+  parent_comment_id: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CommentWithAuthor extends Comment {
+  user_name: string;
 }
@@ -0,0 +1,29 @@
+export const CustomFieldType = {
+  TEXT: "text",
+  NUMBER: "number",
+  SELECT: "select",
+  DATE: "date",
+  USER: "user",
+} as const;
+
+export type CustomFieldType = (typeof CustomFieldType)[keyof typeof CustomFieldType];
+
+/**
+ * A typed field a team adds to its incidents
+ * Only select fields have options
+ */
+export interface CustomField {
+  id: number;
+  team_id: number;
+  name: string;
+  field_type: CustomFieldType;
+  options: string[];
+  is_required: boolean;
+  created_at: Date;
+}
+
+/**
+ * Custom field values of an incident, keyed by field ID
+ * Number and user values are numbers, dates are YYYY-MM-DD strings
+ */
+export type CustomFieldValues = Record<number, string | number>;
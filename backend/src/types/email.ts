@@ -0,0 +1,18 @@
+export interface QueuedEmail {
+  id: number;
+  to_address: string;
+  subject: string;
+  body: string;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: Date;
+  sent_at: Date | null;
+  failed_at: Date | null;
+  created_at: Date;
+}
+
+export interface EmailRecipient {
+  id: number;
+  name: string;
+  email: string;
+}
@@ -0,0 +1,28 @@
+/**
+ * Who an escalation level notifies
+ * - oncall: whoever is on call for the team, its managers when nobody is
+ * - user: a specific user
+ * - managers: the team's managers and admins
+ * - team: whoever is on call for another team, its managers when nobody is
+ */
+export const EscalationTarget = {
+  ONCALL: "oncall",
+  USER: "user",
+  MANAGERS: "managers",
+  TEAM: "team",
+} as const;
+
+export type EscalationTarget = (typeof EscalationTarget)[keyof typeof EscalationTarget];
+
+/**
+ * One step of a team's escalation policy
+ * Levels fire in order while the incident is unacknowledged (no first response),
+ * level 1 delay_minutes after creation and each next one delay_minutes after the previous
+ */
+export interface EscalationLevel {
+  level: number;
+  delay_minutes: number;
+  target_type: EscalationTarget;
+  target_user_id: number | null;
+  target_team_id: number | null;
+}
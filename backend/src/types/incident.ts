@@ -7,12 +7,72 @@ export const IncidentStatus = {
 
 export type IncidentStatus = (typeof IncidentStatus)[keyof typeof IncidentStatus];
 
+export const IncidentSeverity = {
+  SEV1: "sev1",
+  SEV2: "sev2",
+  SEV3: "sev3",
+  SEV4: "sev4",
+} as const;
+
+export type IncidentSeverity = (typeof IncidentSeverity)[keyof typeof IncidentSeverity];
+
+/**
+ * Levels used for both impact and urgency
+ */
+export const IncidentLevel = {
+  HIGH: "high",
+  MEDIUM: "medium",
+  LOW: "low",
+} as const;
+
+export type IncidentLevel = (typeof IncidentLevel)[keyof typeof IncidentLevel];
+
+export const IncidentPriority = {
+  P1: "p1",
+  P2: "p2",
+  P3: "p3",
+  P4: "p4",
+} as const;
+
+export type IncidentPriority = (typeof IncidentPriority)[keyof typeof IncidentPriority];
+
+/**
+ * Fields the team incident list can be sorted by
+ */
+export const IncidentSortField = {
+  CREATED_AT: "created_at",
+  UPDATED_AT: "updated_at",
+  TITLE: "title",
+  STATUS: "status",
+  SEVERITY: "severity",
+  PRIORITY: "priority",
+} as const;
+
+export type IncidentSortField = (typeof IncidentSortField)[keyof typeof IncidentSortField];
+
+export const SortOrder = {
+  ASC: "asc",
+  DESC: "desc",
+} as const;
+
+export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder];
+
 export interface Incident {
   id: number;
   title: string;
   description: string | null;
   status: IncidentStatus;
+  severity: IncidentSeverity;
+  impact: IncidentLevel;
+  urgency: IncidentLevel;
+  priority: IncidentPriority;
   team_id: number;
   reported_by_user_id: number;
   assigned_to_user_id: number | null;
+  created_at: Date;
+  updated_at: Date;
+  first_response_at: Date | null;
+  resolved_at: Date | null;
+  archived_at: Date | null;
+  archived_by_user_id: number | null;
 }
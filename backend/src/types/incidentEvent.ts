@@ -0,0 +1,24 @@
+export const IncidentEventType = {
+  CREATED: "created",
+  UPDATED: "updated",
+  ARCHIVED: "archived",
+  RESTORED: "restored",
+} as const;
+
+export type IncidentEventType = (typeof IncidentEventType)[keyof typeof IncidentEventType];
+
+export interface IncidentEvent {
+  id: number;
+  incident_id: number;
+  actor_user_id: number | null;
+  event_type: IncidentEventType;
+  field: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  note: string | null;
+  created_at: Date;
+}
+
+export interface IncidentEventWithActor extends IncidentEvent {
+  actor_name: string | null;
+}
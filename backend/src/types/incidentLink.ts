@@ -0,0 +1,49 @@
+import type { IncidentStatus, IncidentSeverity } from "./incident.ts";
+
+/**
+ * Kinds of link, read from the source incident to the target:
+ * "#1 duplicate_of #2", "#1 caused_by #2", "#1 parent_of #2", "#1 related_to #2"
+ */
+export const IncidentLinkType = {
+  DUPLICATE_OF: "duplicate_of",
+  CAUSED_BY: "caused_by",
+  PARENT_OF: "parent_of",
+  RELATED_TO: "related_to",
+} as const;
+
+export type IncidentLinkType = (typeof IncidentLinkType)[keyof typeof IncidentLinkType];
+
+/**
+ * Side of the link the viewed incident is on
+ */
+export const IncidentLinkDirection = {
+  OUTGOING: "outgoing",
+  INCOMING: "incoming",
+} as const;
+
+export type IncidentLinkDirection = (typeof IncidentLinkDirection)[keyof typeof IncidentLinkDirection];
+
+export interface IncidentLink {
+  id: number;
+  source_incident_id: number;
+  target_incident_id: number;
+  link_type: IncidentLinkType;
+  created_by_user_id: number | null;
+  created_at: Date;
+}
+
+/**
+ * A link as seen from one of its incidents, with a summary of the other one
+ */
+export interface LinkedIncident {
+  id: number;
+  link_type: IncidentLinkType;
+  direction: IncidentLinkDirection;
+  incident_id: number;
+  team_id: number;
+  team_name: string;
+  title: string;
+  status: IncidentStatus;
+  severity: IncidentSeverity;
+  created_at: Date;
+}
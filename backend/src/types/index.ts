@@ -3,3 +3,21 @@ export * from "./team.ts";
 export * from "./teamUser.ts";
 export * from "./incident.ts";
 export * from "./comment.ts";
+export * from "./incidentEvent.ts";
+export * from "./workflow.ts";
+export * from "./attachment.ts";
+export * from "./label.ts";
+export * from "./incidentLink.ts";
+export * from "./notification.ts";
+export * from "./watcher.ts";
+export * from "./email.ts";
+export * from "./webhook.ts";
+export * from "./alert.ts";
+export * from "./realtime.ts";
+export * from "./sla.ts";
+export * from "./assignment.ts";
+export * from "./oncall.ts";
+export * from "./escalation.ts";
+export * from "./template.ts";
+export * from "./customField.ts";
+export * from "./bulkIncident.ts";
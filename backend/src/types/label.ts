@@ -0,0 +1,12 @@
+export interface Label {
+  id: number;
+  team_id: number;
+  name: string;
+  color: string;
+  created_at: Date;
+}
+
+/**
+ * Colour used when a label is created without one
+ */
+export const DEFAULT_LABEL_COLOR = "#6b7280";
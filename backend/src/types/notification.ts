@@ -0,0 +1,26 @@
+/**
+ * Kinds of in-app notification
+ */
+export const NotificationType = {
+  INCIDENT_TRANSFERRED: "incident_transferred",
+  STATUS_CHANGED: "status_changed",
+  INCIDENT_ASSIGNED: "incident_assigned",
+  COMMENT_ADDED: "comment_added",
+  INCIDENT_ESCALATED: "incident_escalated",
+} as const;
+
+export type NotificationType = (typeof NotificationType)[keyof typeof NotificationType];
+
+export interface Notification {
+  id: number;
+  user_id: number;
+  incident_id: number | null;
+  type: NotificationType;
+  message: string;
+  read_at: Date | null;
+  created_at: Date;
+}
+
+export interface NotificationWithIncident extends Notification {
+  team_id: number | null;
+}
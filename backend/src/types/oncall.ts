@@ -0,0 +1,57 @@
+export const OnCallRotation = {
+  DAILY: "daily",
+  WEEKLY: "weekly",
+} as const;
+
+export type OnCallRotation = (typeof OnCallRotation)[keyof typeof OnCallRotation];
+
+export interface OnCallSchedule {
+  id: number;
+  team_id: number;
+  name: string;
+  rotation: OnCallRotation;
+  starts_at: Date;
+  created_at: Date;
+}
+
+/**
+ * Puts a user on call instead of the rotation, for swaps and holidays
+ */
+export interface OnCallOverride {
+  id: number;
+  schedule_id: number;
+  user_id: number;
+  starts_at: Date;
+  ends_at: Date;
+  note: string | null;
+  created_by_user_id: number | null;
+  created_at: Date;
+}
+
+/**
+ * A schedule with its rotation order and overrides, only current team members are included
+ */
+export interface OnCallScheduleWithMembers extends OnCallSchedule {
+  user_ids: number[];
+  overrides: OnCallOverride[];
+}
+
+export interface OnCallShift {
+  user_id: number;
+  starts_at: Date;
+  ends_at: Date;
+  is_override: boolean;
+}
+
+/**
+ * Who a schedule puts on call right now
+ */
+export interface OnCallNow {
+  team_id: number;
+  schedule_id: number;
+  schedule_name: string;
+  user_id: number;
+  is_override: boolean;
+  // End of the current shift, null when it lasts beyond the lookahead
+  until: Date | null;
+}
@@ -0,0 +1,23 @@
+import type { Incident } from "./incident.ts";
+import type { Label } from "./label.ts";
+import type { IncidentSla } from "./sla.ts";
+import type { CustomFieldValues } from "./customField.ts";
+
+/**
+ * Events pushed to connected clients over the /events stream
+ */
+export const RealtimeEventType = {
+  INCIDENT_CREATED: "incident.created",
+  INCIDENT_UPDATED: "incident.updated",
+} as const;
+
+export type RealtimeEventType = (typeof RealtimeEventType)[keyof typeof RealtimeEventType];
+
+export interface IncidentRealtimeEvent {
+  type: RealtimeEventType;
+  // Teams whose lists are affected, both teams on a transfer
+  team_ids: number[];
+  incident_id: number;
+  actor_user_id: number | null;
+  incident: Incident & { labels: Label[]; sla: IncidentSla | null; custom_fields: CustomFieldValues };
+}
@@ -0,0 +1,26 @@
+import type { IncidentSeverity } from "./incident.ts";
+
+/**
+ * SLA targets of a team for one severity
+ * - respond: time until the first response (first_response_at), the incident
+ *   leaving pending or its first assignment, whichever comes first
+ * - resolve: time until the incident is resolved (resolved_at)
+ * Both are counted from creation, null means no target
+ * Targets are keyed by severity only, the two clocks already cover the status changes that matter
+ */
+export interface SlaTarget {
+  severity: IncidentSeverity;
+  respond_within_minutes: number | null;
+  resolve_within_minutes: number | null;
+}
+
+/**
+ * SLA state of an incident, computed from its team's target for its current severity
+ */
+export interface IncidentSla {
+  response_due_at: Date | null;
+  resolution_due_at: Date | null;
+  response_breached: boolean;
+  resolution_breached: boolean;
+  breached: boolean;
+}
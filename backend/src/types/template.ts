@@ -0,0 +1,22 @@
+import type { IncidentSeverity } from "./incident.ts";
+
+/**
+ * A team's starting point for new incidents
+ * The title and description prefill the create form, the severity and labels are applied on creation
+ */
+export interface IncidentTemplate {
+  id: number;
+  team_id: number;
+  name: string;
+  title: string;
+  description: string | null;
+  // null keeps the usual default severity
+  severity: IncidentSeverity | null;
+  created_by_user_id: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface IncidentTemplateWithLabels extends IncidentTemplate {
+  label_ids: number[];
+}
@@ -0,0 +1,9 @@
+export interface IncidentWatcher {
+  incident_id: number;
+  user_id: number;
+  created_at: Date;
+}
+
+export interface IncidentWatcherWithUser extends IncidentWatcher {
+  user_name: string;
+}
@@ -0,0 +1,50 @@
+/**
+ * Incident events a team webhook can subscribe to
+ */
+export const WebhookEvent = {
+  INCIDENT_CREATED: "incident.created",
+  INCIDENT_UPDATED: "incident.updated",
+  INCIDENT_STATUS_CHANGED: "incident.status_changed",
+  INCIDENT_ASSIGNED: "incident.assigned",
+} as const;
+
+export type WebhookEvent = (typeof WebhookEvent)[keyof typeof WebhookEvent];
+
+export const WebhookDeliveryStatus = {
+  PENDING: "pending",
+  DELIVERED: "delivered",
+  FAILED: "failed",
+} as const;
+
+export type WebhookDeliveryStatus = (typeof WebhookDeliveryStatus)[keyof typeof WebhookDeliveryStatus];
+
+export interface TeamWebhook {
+  id: number;
+  team_id: number;
+  url: string;
+  events: WebhookEvent[];
+  is_active: boolean;
+  created_by_user_id: number | null;
+  created_at: Date;
+}
+
+/**
+ * Webhook including the signing secret, only used server-side and on creation
+ */
+export interface TeamWebhookWithSecret extends TeamWebhook {
+  secret: string;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  event: WebhookEvent;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  last_error: string | null;
+  next_attempt_at: Date;
+  delivered_at: Date | null;
+  created_at: Date;
+}
@@ -0,0 +1,7 @@
+import type { IncidentStatus } from "./incident.ts";
+
+export interface StatusTransition {
+  from_status: IncidentStatus;
+  to_status: IncidentStatus;
+  requires_note: boolean;
+}
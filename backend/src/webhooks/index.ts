@@ -0,0 +1,94 @@
+import type { Incident } from "../types/incident.ts";
+import { WebhookEvent } from "../types/webhook.ts";
+import { getWebhooksForEvent, createWebhookDelivery } from "../db/webhookQueries.ts";
+import { processWebhookDeliveries } from "./worker.ts";
+
+export { startWebhookWorker, signPayload } from "./worker.ts";
+
+type IncidentChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Changes to these fields are sent as incident.updated
+const UPDATED_FIELDS = [
+  "title",
+  "description",
+  "severity",
+  "impact",
+  "urgency",
+  "priority",
+  "team_id",
+] as const satisfies readonly (keyof Incident)[];
+
+/**
+ * Queue an incident event for every active webhook of the team subscribed to it
+ * Failures are logged, they never fail the request that triggered the event
+ * @param teamId - The team whose webhooks receive the event
+ * @param event - The event
+ * @param incident - The incident after the change
+ * @param actorUserId - The user who made the change, null for system changes
+ * @param changes - Changed fields with their old and new values
+ */
+export async function emitWebhookEvent(
+  teamId: number,
+  event: WebhookEvent,
+  incident: Incident,
+  actorUserId: number | null,
+  changes?: IncidentChanges
+): Promise<void> {
+  try {
+    const webhooks = await getWebhooksForEvent(teamId, event);
+
+    if (webhooks.length === 0) {
+      return;
+    }
+
+    const payload = JSON.stringify({
+      event,
+      occurred_at: new Date().toISOString(),
+      team_id: teamId,
+      actor_user_id: actorUserId,
+      incident,
+      changes,
+    });
+
+    for (const webhook of webhooks) {
+      await createWebhookDelivery(webhook.id, event, payload);
+    }
+
+    void processWebhookDeliveries();
+  } catch (error) {
+    console.error(`Emit ${event} webhook error:`, error);
+  }
+}
+
+/**
+ * Emit the events matching the differences between two versions of an incident
+ * (status_changed, assigned and updated for the remaining fields)
+ */
+export async function emitIncidentChanges(
+  before: Incident,
+  after: Incident,
+  actorUserId: number | null
+): Promise<void> {
+  if (before.status !== after.status) {
+    await emitWebhookEvent(after.team_id, WebhookEvent.INCIDENT_STATUS_CHANGED, after, actorUserId, {
+      status: { from: before.status, to: after.status },
+    });
+  }
+
+  if (before.assigned_to_user_id !== after.assigned_to_user_id) {
+    await emitWebhookEvent(after.team_id, WebhookEvent.INCIDENT_ASSIGNED, after, actorUserId, {
+      assigned_to_user_id: { from: before.assigned_to_user_id, to: after.assigned_to_user_id },
+    });
+  }
+
+  const changes: IncidentChanges = {};
+  for (const field of UPDATED_FIELDS) {
+    if (before[field] !== after[field]) {
+      changes[field] = { from: before[field], to: after[field] };
+    }
+  }
+
+  if (Object.keys(changes).length > 0) {
+    await emitWebhookEvent(after.team_id, WebhookEvent.INCIDENT_UPDATED, after, actorUserId, changes);
+  }
+}
@@ -0,0 +1,112 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+
+// Address ranges that never receive deliveries: loopback, private, link-local,
+// shared, reserved and multicast, as [prefix, length]
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+const BLOCKED_IPV6_RANGES: [string, number][] = [
+  ["::", 128],
+  ["::1", 128],
+  ["::ffff:0:0", 96], // IPv4-mapped
+  ["64:ff9b::", 96], // NAT64
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+];
+
+// Suffixes used for names that only resolve inside a private network
+const INTERNAL_HOSTNAME_SUFFIXES = [".localhost", ".local", ".internal", ".lan", ".home.arpa"];
+
+function ipv4ToBigInt(address: string): bigint {
+  return address.split(".").reduce((value, part) => (value << 8n) + BigInt(parseInt(part, 10)), 0n);
+}
+
+function ipv6ToBigInt(address: string): bigint {
+  let groups = address;
+
+  // An embedded IPv4 tail (::ffff:1.2.3.4) becomes two hex groups
+  const ipv4Tail = groups.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (ipv4Tail) {
+    const value = ipv4ToBigInt(ipv4Tail[1]!);
+    groups = `${groups.slice(0, -ipv4Tail[1]!.length)}${(value >> 16n).toString(16)}:${(value & 0xffffn).toString(16)}`;
+  }
+
+  const [head = "", tail] = groups.split("::");
+  const headParts = head ? head.split(":") : [];
+  const tailParts = tail ? tail.split(":") : [];
+  const zeros = tail === undefined ? [] : Array(8 - headParts.length - tailParts.length).fill("0");
+
+  return [...headParts, ...zeros, ...tailParts].reduce((value, part) => (value << 16n) + BigInt(`0x${part}`), 0n);
+}
+
+function isInRanges(value: bigint, bits: number, ranges: [string, number][], toBigInt: (address: string) => bigint) {
+  return ranges.some(([prefix, length]) => {
+    const shift = BigInt(bits - length);
+    return value >> shift === toBigInt(prefix) >> shift;
+  });
+}
+
+/**
+ * Whether an IP address belongs to a loopback, private, link-local or otherwise non-public range
+ */
+function isBlockedAddress(address: string): boolean {
+  const version = isIP(address);
+
+  if (version === 4) {
+    return isInRanges(ipv4ToBigInt(address), 32, BLOCKED_IPV4_RANGES, ipv4ToBigInt);
+  }
+  if (version === 6) {
+    return isInRanges(ipv6ToBigInt(address.split("%")[0]!), 128, BLOCKED_IPV6_RANGES, ipv6ToBigInt);
+  }
+  return true;
+}
+
+/**
+ * Check that a webhook URL points to a public host
+ * Runs when the URL is saved and again before every delivery, so a name that
+ * later resolves to an internal address is still refused
+ * @returns Why the URL cannot receive deliveries, or null when it can
+ */
+export async function validateWebhookTarget(url: string): Promise<string | null> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  } catch {
+    return "Invalid webhook URL";
+  }
+
+  if (isIP(hostname)) {
+    return isBlockedAddress(hostname) ? "Webhook URLs cannot point to private or internal addresses" : null;
+  }
+
+  // Single-label names (localhost, docker service names such as db) are internal
+  if (!hostname.includes(".") || INTERNAL_HOSTNAME_SUFFIXES.some((suffix) => hostname.endsWith(suffix))) {
+    return "Webhook URLs cannot point to internal hostnames";
+  }
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname, { all: true });
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+    return "Webhook URLs cannot point to private or internal addresses";
+  }
+
+  return null;
+}
@@ -0,0 +1,91 @@
+import { createHmac } from "node:crypto";
+import {
+  getDueWebhookDeliveries,
+  markWebhookDelivered,
+  markWebhookAttemptFailed,
+} from "../db/webhookQueries.ts";
+import { validateWebhookTarget } from "./target.ts";
+
+const BATCH_SIZE = 20;
+const POLL_INTERVAL_MS = 10000;
+const REQUEST_TIMEOUT_MS = 10000;
+const BASE_RETRY_SECONDS = 30;
+
+let isProcessing = false;
+
+function maxAttempts(): number {
+  return parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "6", 10);
+}
+
+/**
+ * HMAC-SHA256 of the raw request body, sent as `X-Webhook-Signature: sha256=<hex>`
+ */
+export function signPayload(secret: string, payload: string): string {
+  return `sha256=${createHmac("sha256", secret).update(payload).digest("hex")}`;
+}
+
+/**
+ * Send the webhook deliveries whose next attempt is due
+ * Any non-2xx response, redirects included, counts as a failure and is retried with exponential backoff
+ */
+export async function processWebhookDeliveries(): Promise<void> {
+  // One batch at a time, a slow endpoint must not cause duplicate deliveries
+  if (isProcessing) {
+    return;
+  }
+  isProcessing = true;
+
+  try {
+    const deliveries = await getDueWebhookDeliveries(BATCH_SIZE);
+
+    for (const delivery of deliveries) {
+      const attempts = delivery.attempts + 1;
+      const retryIn = attempts >= maxAttempts() ? null : BASE_RETRY_SECONDS * 2 ** (attempts - 1);
+
+      // The host may resolve to a different address than when the webhook was saved
+      const targetError = await validateWebhookTarget(delivery.url);
+      if (targetError) {
+        await markWebhookAttemptFailed(delivery.id, null, targetError, retryIn);
+        continue;
+      }
+
+      try {
+        const response = await fetch(delivery.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "User-Agent": "IncidentManager-Webhooks",
+            "X-Webhook-Event": delivery.event,
+            "X-Webhook-Delivery": String(delivery.id),
+            "X-Webhook-Signature": signPayload(delivery.secret, delivery.payload),
+          },
+          body: delivery.payload,
+          // Redirects are not followed, they could lead to an internal address
+          redirect: "manual",
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        if (response.ok) {
+          await markWebhookDelivered(delivery.id, response.status);
+        } else {
+          await markWebhookAttemptFailed(delivery.id, response.status, `HTTP ${response.status}`, retryIn);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await markWebhookAttemptFailed(delivery.id, null, message.slice(0, 1000), retryIn);
+      }
+    }
+  } catch (error) {
+    console.error("Webhook queue error:", error);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * Poll for pending deliveries in the background
+ */
+export function startWebhookWorker(): void {
+  setInterval(processWebhookDeliveries, POLL_INTERVAL_MS);
+  void processWebhookDeliveries();
+}
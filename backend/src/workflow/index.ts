@@ -0,0 +1,30 @@
+import { IncidentStatus } from "../types/incident.ts";
+import type { StatusTransition } from "../types/workflow.ts";
+
+/**
+ * Workflow used by teams that have not defined their own
+ * Resolving and reopening require a note
+ */
+export const DEFAULT_WORKFLOW: StatusTransition[] = [
+  { from_status: IncidentStatus.PENDING, to_status: IncidentStatus.UNDER_REVIEW, requires_note: false },
+  { from_status: IncidentStatus.PENDING, to_status: IncidentStatus.ESCALATED, requires_note: false },
+  { from_status: IncidentStatus.PENDING, to_status: IncidentStatus.RESOLVED, requires_note: true },
+  { from_status: IncidentStatus.UNDER_REVIEW, to_status: IncidentStatus.PENDING, requires_note: false },
+  { from_status: IncidentStatus.UNDER_REVIEW, to_status: IncidentStatus.ESCALATED, requires_note: false },
+  { from_status: IncidentStatus.UNDER_REVIEW, to_status: IncidentStatus.RESOLVED, requires_note: true },
+  { from_status: IncidentStatus.ESCALATED, to_status: IncidentStatus.UNDER_REVIEW, requires_note: false },
+  { from_status: IncidentStatus.ESCALATED, to_status: IncidentStatus.RESOLVED, requires_note: true },
+  { from_status: IncidentStatus.RESOLVED, to_status: IncidentStatus.UNDER_REVIEW, requires_note: true },
+];
+
+/**
+ * Find the transition between two statuses in a workflow
+ * @returns The transition, or null if the workflow does not allow it
+ */
+export function findTransition(
+  workflow: StatusTransition[],
+  from: IncidentStatus,
+  to: IncidentStatus
+): StatusTransition | null {
+  return workflow.find((t) => t.from_status === from && t.to_status === to) ?? null;
+}
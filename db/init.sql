@@ -10,6 +10,7 @@ CREATE TABLE IF NOT EXISTS users (
   name    VARCHAR(255) NOT NULL,
   email   VARCHAR(255) NOT NULL UNIQUE, -- No repeated emails
   pwd_hash VARCHAR(255) NOT NULL, -- Store hashed passwords
+  email_notifications BOOLEAN NOT NULL DEFAULT TRUE, -- Opt-out of notification emails
   PRIMARY KEY (id),
   UNIQUE KEY uk_users_email (email)
 );
@@ -38,16 +39,29 @@ CREATE TABLE IF NOT EXISTS incident (
   title               VARCHAR(255) NOT NULL,
   description         TEXT,
   status              ENUM('pending', 'under_review', 'escalated', 'resolved') NOT NULL DEFAULT 'pending',
+  severity            ENUM('sev1', 'sev2', 'sev3', 'sev4') NOT NULL DEFAULT 'sev4',
+  impact              ENUM('high', 'medium', 'low') NOT NULL DEFAULT 'medium',
+  urgency             ENUM('high', 'medium', 'low') NOT NULL DEFAULT 'medium',
+  priority            ENUM('p1', 'p2', 'p3', 'p4') NOT NULL DEFAULT 'p3', -- derived from impact x urgency
   team_id             INT NOT NULL,
   reported_by_user_id INT NOT NULL,
   assigned_to_user_id INT,
+  created_at          TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at          TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  first_response_at   TIMESTAMP NULL, -- first assignment or status change away from pending
+  resolved_at         TIMESTAMP NULL, -- cleared again when the incident is reopened
+  archived_at         TIMESTAMP NULL, -- soft delete, archived incidents are hidden from lists and stats
+  archived_by_user_id INT,
   PRIMARY KEY (id),
+  FULLTEXT KEY ft_incident_title_description (title, description), -- cross-team search
   CONSTRAINT fk_incident_team
     FOREIGN KEY (team_id) REFERENCES team(id),
   CONSTRAINT fk_incident_reported_by
     FOREIGN KEY (reported_by_user_id) REFERENCES users(id),
   CONSTRAINT fk_incident_assigned_to
-    FOREIGN KEY (assigned_to_user_id) REFERENCES users(id)
+    FOREIGN KEY (assigned_to_user_id) REFERENCES users(id),
+  CONSTRAINT fk_incident_archived_by
+    FOREIGN KEY (archived_by_user_id) REFERENCES users(id)
 );
 
 -- Platform managers can manage teams and team memberships
@@ -56,3 +70,409 @@ CREATE TABLE IF NOT EXISTS platform_manager (
   CONSTRAINT fk_platform_manager_user
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
 );
+
+-- Comments on incidents, replies point to their parent comment
+CREATE TABLE IF NOT EXISTS comment (
+  id                INT NOT NULL AUTO_INCREMENT,
+  content           TEXT NOT NULL,
+  incident_id       INT NOT NULL,
+  user_id           INT NOT NULL,
+  parent_comment_id INT,
+  created_at        TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at        TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY idx_comment_incident (incident_id),
+  CONSTRAINT fk_comment_incident
+    FOREIGN KEY (incident_id) REFERENCES incident(id) ON DELETE CASCADE,
+  CONSTRAINT fk_comment_user
+    FOREIGN KEY (user_id) REFERENCES users(id),
+  CONSTRAINT fk_comment_parent
+    FOREIGN KEY (parent_comment_id) REFERENCES comment(id) ON DELETE CASCADE
+);
+
+-- Activity log of incidents, one row per creation or changed field
+CREATE TABLE IF NOT EXISTS incident_event (
+  id            INT NOT NULL AUTO_INCREMENT,
+  incident_id   INT NOT NULL,
+  actor_user_id INT,
+  event_type    ENUM('created', 'updated', 'archived', 'restored') NOT NULL,
+  field         VARCHAR(64),
+  old_value     TEXT,
+  new_value     TEXT,
+  note          TEXT, -- reason given for a status transition
+  created_at    TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY idx_incident_event_incident (incident_id),
+  CONSTRAINT fk_incident_event_incident
+    FOREIGN KEY (incident_id) REFERENCES incident(id) ON DELETE CASCADE,
+  CONSTRAINT fk_incident_event_actor
+    FOREIGN KEY (actor_user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- Allowed status transitions per team, teams without rows use the default workflow
+CREATE TABLE IF NOT EXISTS team_status_transition (
+  id            INT NOT NULL AUTO_INCREMENT,
+  team_id       INT NOT NULL,
+  from_status   ENUM('pending', 'under_review', 'escalated', 'resolved') NOT NULL,
+  to_status     ENUM('pending', 'under_review', 'escalated', 'resolved') NOT NULL,
+  requires_note BOOLEAN NOT NULL DEFAULT FALSE,
+  PRIMARY KEY (id),
+  UNIQUE KEY uk_team_status_transition (team_id, from_status, to_status),
+  CONSTRAINT fk_team_status_transition_team
+    FOREIGN KEY (team_id) REFERENCES team(id) ON DELETE CASCADE
+);
+
+-- Files attached to incidents, contents live in the storage driver under storage_key
+CREATE TABLE IF NOT EXISTS attachment (
+  id                  INT NOT NULL AUTO_INCREMENT,
+  incident_id         INT NOT NULL,
+  uploaded_by_user_id INT NOT NULL,
+  file_name           VARCHAR(255) NOT NULL,
+  mime_type           VARCHAR(127) NOT NULL,
+  size_bytes          INT NOT NULL,
+  storage_key         VARCHAR(255) NOT NULL,
+  created_at          TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  UNIQUE KEY uk_attachment_storage_key (storage_key),
+  KEY idx_attachment_incident (incident_id),
+  CONSTRAINT fk_attachment_incident
+    FOREIGN KEY (incident_id) REFERENCES incident(id) ON DELETE CASCADE,
+  CONSTRAINT fk_attachment_uploaded_by
+    FOREIGN KEY (uploaded_by_user_id) REFERENCES users(id)
+);
+
+-- Team-owned label catalogue, managed by team managers and admins
+CREATE TABLE IF NOT EXISTS label (
+  id          INT NOT NULL AUTO_INCREMENT,
+  team_id     INT NOT NULL,
+  name        VARCHAR(50) NOT NULL,
+  color       CHAR(7) NOT NULL DEFAULT '#6b7280', -- hex colour of the badge
+  created_at  TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  UNIQUE KEY uk_label_team_name (team_id, name),
+  CONSTRAINT fk_label_team
+    FOREIGN KEY (team_id) REFERENCES team(id) ON DELETE CASCADE
+);
+
+-- Labels carried by each incident
+CREATE TABLE IF NOT EXISTS incident_label (
+  incident_id INT NOT NULL,
+  label_id    INT NOT NULL,
+  PRIMARY KEY (incident_id, label_id),
+  KEY idx_incident_label_label (label_id),
+  CONSTRAINT fk_incident_label_incident
+    FOREIGN KEY (incident_id) REFERENCES incident(id) ON DELETE CASCADE,
+  CONSTRAINT fk_incident_label_label
+    FOREIGN KEY (label_id) REFERENCES label(id) ON DELETE CASCADE
+);
+
+-- Typed links between incidents, possibly of different teams
+CREATE TABLE IF NOT EXISTS incident_link (
+  id                  INT NOT NULL AUTO_INCREMENT,
+  source_incident_id  INT NOT NULL,
+  target_incident_id  INT NOT NULL,
+  link_type           ENUM('duplicate_of', 'caused_by', 'parent_of', 'related_to') NOT NULL,
+  created_by_user_id  INT,
+  created_at          TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  UNIQUE KEY uk_incident_link (source_incident_id, target_incident_id),
+  KEY idx_incident_link_target (target_incident_id),
+  CONSTRAINT fk_incident_link_source
+    FOREIGN KEY (source_incident_id) REFERENCES incident(id) ON DELETE CASCADE,
+  CONSTRAINT fk_incident_link_target
+    FOREIGN KEY (target_incident_id) REFERENCES incident(id) ON DELETE CASCADE,
+  CONSTRAINT fk_incident_link_created_by
+    FOREIGN KEY (created_by_user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- In-app notifications, unread while read_at is NULL
+CREATE TABLE IF NOT EXISTS notification (
+  id          INT NOT NULL AUTO_INCREMENT,
+  user_id     INT NOT NULL,
+  incident_id INT,
+  type        ENUM('incident_transferred', 'status_changed', 'incident_assigned', 'comment_added', 'incident_escalated') NOT NULL,
+  message     VARCHAR(255) NOT NULL,
+  read_at     TIMESTAMP NULL,
+  created_at  TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY idx_notification_user (user_id, read_at),
+  CONSTRAINT fk_notification_user
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  CONSTRAINT fk_notification_incident
+    FOREIGN KEY (incident_id) REFERENCES incident(id) ON DELETE CASCADE
+);
+
+-- Users following an incident, reporters and assignees are added automatically
+CREATE TABLE IF NOT EXISTS incident_watcher (
+  incident_id INT NOT NULL,
+  user_id     INT NOT NULL,
+  created_at  TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (incident_id, user_id),
+  KEY idx_incident_watcher_user (user_id),
+  CONSTRAINT fk_incident_watcher_incident
+    FOREIGN KEY (incident_id) REFERENCES incident(id) ON DELETE CASCADE,
+  CONSTRAINT fk_incident_watcher_user
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Outgoing notification emails, retried until sent_at or failed_at is set
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id              INT NOT NULL AUTO_INCREMENT,
+  to_address      VARCHAR(255) NOT NULL,
+  subject         VARCHAR(255) NOT NULL,
+  body            TEXT NOT NULL,
+  attempts        INT NOT NULL DEFAULT 0,
+  last_error      VARCHAR(1000),
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  sent_at         TIMESTAMP NULL,
+  failed_at       TIMESTAMP NULL,
+  created_at      TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY idx_email_outbox_pending (sent_at, failed_at, next_attempt_at)
+);
+
+-- Team webhooks, deliveries are signed with the secret (HMAC-SHA256)
+CREATE TABLE IF NOT EXISTS team_webhook (
+  id                 INT NOT NULL AUTO_INCREMENT,
+  team_id            INT NOT NULL,
+  url                VARCHAR(2048) NOT NULL,
+  secret             VARCHAR(64) NOT NULL,
+  events             SET('incident.created', 'incident.updated', 'incident.status_changed', 'incident.assigned') NOT NULL,
+  is_active          BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by_user_id INT,
+  created_at         TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY idx_team_webhook_team (team_id),
+  CONSTRAINT fk_team_webhook_team
+    FOREIGN KEY (team_id) REFERENCES team(id) ON DELETE CASCADE,
+  CONSTRAINT fk_team_webhook_created_by
+    FOREIGN KEY (created_by_user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- One row per event sent to a webhook, retried while pending
+CREATE TABLE IF NOT EXISTS webhook_delivery (
+  id              INT NOT NULL AUTO_INCREMENT,
+  webhook_id      INT NOT NULL,
+  event           VARCHAR(50) NOT NULL,
+  payload         MEDIUMTEXT NOT NULL,
+  status          ENUM('pending', 'delivered', 'failed') NOT NULL DEFAULT 'pending',
+  attempts        INT NOT NULL DEFAULT 0,
+  response_status INT,
+  last_error      VARCHAR(1000),
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  delivered_at    TIMESTAMP NULL,
+  created_at      TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY idx_webhook_delivery_webhook (webhook_id, created_at),
+  KEY idx_webhook_delivery_pending (status, next_attempt_at),
+  CONSTRAINT fk_webhook_delivery_webhook
+    FOREIGN KEY (webhook_id) REFERENCES team_webhook(id) ON DELETE CASCADE
+);
+
+-- One alert ingestion key per team, incidents are reported by the user who generated it
+CREATE TABLE IF NOT EXISTS team_integration_key (
+  team_id            INT NOT NULL,
+  key_hash           CHAR(64) NOT NULL, -- SHA-256 of the key
+  key_prefix         VARCHAR(12) NOT NULL, -- Shown in the UI to recognise the key
+  created_by_user_id INT NOT NULL,
+  created_at         TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_used_at       TIMESTAMP NULL,
+  PRIMARY KEY (team_id),
+  UNIQUE KEY uk_team_integration_key_hash (key_hash),
+  CONSTRAINT fk_team_integration_key_team
+    FOREIGN KEY (team_id) REFERENCES team(id) ON DELETE CASCADE,
+  CONSTRAINT fk_team_integration_key_created_by
+    FOREIGN KEY (created_by_user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Incidents opened by alerts, repeated alerts with the same fingerprint update the open one
+CREATE TABLE IF NOT EXISTS incident_alert (
+  id                INT NOT NULL AUTO_INCREMENT,
+  incident_id       INT NOT NULL,
+  team_id           INT NOT NULL,
+  fingerprint       VARCHAR(64) NOT NULL,
+  occurrences       INT NOT NULL DEFAULT 1,
+  first_received_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_received_at  TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  UNIQUE KEY uk_incident_alert_incident (incident_id),
+  KEY idx_incident_alert_fingerprint (team_id, fingerprint),
+  CONSTRAINT fk_incident_alert_incident
+    FOREIGN KEY (incident_id) REFERENCES incident(id) ON DELETE CASCADE,
+  CONSTRAINT fk_incident_alert_team
+    FOREIGN KEY (team_id) REFERENCES team(id) ON DELETE CASCADE
+);
+
+-- SLA targets per team and severity, counted in minutes from the incident's creation
+CREATE TABLE IF NOT EXISTS team_sla_target (
+  id                     INT NOT NULL AUTO_INCREMENT,
+  team_id                INT NOT NULL,
+  severity               ENUM('sev1', 'sev2', 'sev3', 'sev4') NOT NULL,
+  respond_within_minutes INT, -- Until the first response, leaving pending or the first assignment
+  resolve_within_minutes INT, -- Until the incident is resolved
+  PRIMARY KEY (id),
+  UNIQUE KEY uk_team_sla_target (team_id, severity),
+  CONSTRAINT fk_team_sla_target_team
+    FOREIGN KEY (team_id) REFERENCES team(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS team_assignment_strategy (
+  team_id                  INT NOT NULL,
+  strategy                 ENUM('none', 'round_robin', 'least_open', 'fixed') NOT NULL DEFAULT 'none',
+  default_assignee_user_id INT NULL, -- Assignee of the fixed strategy
+  last_assigned_user_id    INT NULL, -- Round-robin position
+  updated_at               TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (team_id),
+  CONSTRAINT fk_team_assignment_strategy_team
+    FOREIGN KEY (team_id) REFERENCES team(id) ON DELETE CASCADE,
+  CONSTRAINT fk_team_assignment_strategy_default_assignee
+    FOREIGN KEY (default_assignee_user_id) REFERENCES users(id) ON DELETE SET NULL,
+  CONSTRAINT fk_team_assignment_strategy_last_assigned
+    FOREIGN KEY (last_assigned_user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS assignment_decision (
+  id               INT NOT NULL AUTO_INCREMENT,
+  team_id          INT NOT NULL,
+  incident_id      INT NOT NULL,
+  strategy         ENUM('round_robin', 'least_open', 'fixed') NOT NULL,
+  assigned_user_id INT NULL, -- NULL when no member could be picked
+  reason           VARCHAR(255) NOT NULL,
+  created_at       TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY idx_assignment_decision_team (team_id, created_at),
+  CONSTRAINT fk_assignment_decision_team
+    FOREIGN KEY (team_id) REFERENCES team(id) ON DELETE CASCADE,
+  CONSTRAINT fk_assignment_decision_incident
+    FOREIGN KEY (incident_id) REFERENCES incident(id) ON DELETE CASCADE,
+  CONSTRAINT fk_assignment_decision_user
+    FOREIGN KEY (assigned_user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS oncall_schedule (
+  id         INT NOT NULL AUTO_INCREMENT,
+  team_id    INT NOT NULL,
+  name       VARCHAR(100) NOT NULL,
+  rotation   ENUM('daily', 'weekly') NOT NULL,
+  starts_at  TIMESTAMP NOT NULL, -- Start of the first shift, later shifts follow every day or week
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY idx_oncall_schedule_team (team_id),
+  CONSTRAINT fk_oncall_schedule_team
+    FOREIGN KEY (team_id) REFERENCES team(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS oncall_schedule_member (
+  schedule_id INT NOT NULL,
+  user_id     INT NOT NULL,
+  position    INT NOT NULL, -- Order in the rotation
+  PRIMARY KEY (schedule_id, user_id),
+  CONSTRAINT fk_oncall_schedule_member_schedule
+    FOREIGN KEY (schedule_id) REFERENCES oncall_schedule(id) ON DELETE CASCADE,
+  CONSTRAINT fk_oncall_schedule_member_user
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS oncall_override (
+  id                 INT NOT NULL AUTO_INCREMENT,
+  schedule_id        INT NOT NULL,
+  user_id            INT NOT NULL, -- On call instead of the rotation
+  starts_at          TIMESTAMP NOT NULL,
+  ends_at            TIMESTAMP NOT NULL,
+  note               VARCHAR(255) NULL,
+  created_by_user_id INT NULL,
+  created_at         TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY idx_oncall_override_schedule (schedule_id, ends_at),
+  CONSTRAINT fk_oncall_override_schedule
+    FOREIGN KEY (schedule_id) REFERENCES oncall_schedule(id) ON DELETE CASCADE,
+  CONSTRAINT fk_oncall_override_user
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  CONSTRAINT fk_oncall_override_created_by
+    FOREIGN KEY (created_by_user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS team_escalation_level (
+  id             INT NOT NULL AUTO_INCREMENT,
+  team_id        INT NOT NULL,
+  level          INT NOT NULL, -- 1 is notified first
+  delay_minutes  INT NOT NULL, -- After creation for level 1, after the previous level otherwise
+  target_type    ENUM('oncall', 'user', 'managers', 'team') NOT NULL,
+  target_user_id INT NULL,
+  target_team_id INT NULL,
+  PRIMARY KEY (id),
+  UNIQUE KEY uk_team_escalation_level (team_id, level),
+  CONSTRAINT fk_team_escalation_level_team
+    FOREIGN KEY (team_id) REFERENCES team(id) ON DELETE CASCADE,
+  CONSTRAINT fk_team_escalation_level_user
+    FOREIGN KEY (target_user_id) REFERENCES users(id) ON DELETE SET NULL,
+  CONSTRAINT fk_team_escalation_level_target_team
+    FOREIGN KEY (target_team_id) REFERENCES team(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS incident_escalation (
+  id          INT NOT NULL AUTO_INCREMENT,
+  incident_id INT NOT NULL,
+  level       INT NOT NULL,
+  created_at  TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  UNIQUE KEY uk_incident_escalation (incident_id, level),
+  CONSTRAINT fk_incident_escalation_incident
+    FOREIGN KEY (incident_id) REFERENCES incident(id) ON DELETE CASCADE
+);
+
+-- Reusable starting points for new incidents, maintained by team managers
+CREATE TABLE IF NOT EXISTS incident_template (
+  id                 INT NOT NULL AUTO_INCREMENT,
+  team_id            INT NOT NULL,
+  name               VARCHAR(100) NOT NULL,
+  title              VARCHAR(255) NOT NULL DEFAULT '', -- Prefilled title, may be empty
+  description        TEXT NULL, -- Description skeleton
+  severity           ENUM('sev1', 'sev2', 'sev3', 'sev4') NULL, -- Default severity, NULL keeps the usual default
+  created_by_user_id INT NULL,
+  created_at         TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at         TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  UNIQUE KEY uk_incident_template_name (team_id, name),
+  CONSTRAINT fk_incident_template_team
+    FOREIGN KEY (team_id) REFERENCES team(id) ON DELETE CASCADE,
+  CONSTRAINT fk_incident_template_created_by
+    FOREIGN KEY (created_by_user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS incident_template_label (
+  template_id INT NOT NULL,
+  label_id    INT NOT NULL,
+  PRIMARY KEY (template_id, label_id),
+  CONSTRAINT fk_incident_template_label_template
+    FOREIGN KEY (template_id) REFERENCES incident_template(id) ON DELETE CASCADE,
+  CONSTRAINT fk_incident_template_label_label
+    FOREIGN KEY (label_id) REFERENCES label(id) ON DELETE CASCADE
+);
+
+-- Typed fields a team adds to its incidents, values are stored as text in their normalised form
+CREATE TABLE IF NOT EXISTS team_custom_field (
+  id          INT NOT NULL AUTO_INCREMENT,
+  team_id     INT NOT NULL,
+  name        VARCHAR(100) NOT NULL,
+  field_type  ENUM('text', 'number', 'select', 'date', 'user') NOT NULL,
+  options     TEXT NULL, -- JSON array of the choices of a select field
+  is_required BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at  TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  UNIQUE KEY uk_team_custom_field_name (team_id, name),
+  CONSTRAINT fk_team_custom_field_team
+    FOREIGN KEY (team_id) REFERENCES team(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS incident_custom_field_value (
+  incident_id INT NOT NULL,
+  field_id    INT NOT NULL,
+  value       VARCHAR(1000) NOT NULL,
+  PRIMARY KEY (incident_id, field_id),
+  KEY idx_incident_custom_field_value (field_id, value(191)),
+  CONSTRAINT fk_incident_custom_field_value_incident
+    FOREIGN KEY (incident_id) REFERENCES incident(id) ON DELETE CASCADE,
+  CONSTRAINT fk_incident_custom_field_value_field
+    FOREIGN KEY (field_id) REFERENCES team_custom_field(id) ON DELETE CASCADE
+);
@@ -0,0 +1,70 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
+
+export interface TeamIntegrationKey {
+  team_id: number;
+  key_prefix: string;
+  created_by_user_id: number;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+/**
+ * URL Alertmanager posts a team's alerts to
+ */
+export function getAlertIngestionUrl(teamId: number): string {
+  return new URL(`${API_BASE_URL}/teams/${teamId}/alerts`, window.location.origin).toString();
+}
+
+/**
+ * Get the team's integration key details, null if none was generated (admin)
+ */
+export async function getTeamIntegrationKey(teamId: number): Promise<TeamIntegrationKey | null> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/integration-key`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch integration key");
+  }
+
+  return data.integration_key;
+}
+
+/**
+ * Generate a new integration key, replacing the current one
+ * The returned key is not shown again
+ */
+export async function generateTeamIntegrationKey(
+  teamId: number
+): Promise<{ key: string; integrationKey: TeamIntegrationKey }> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/integration-key`, {
+    method: "POST",
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to generate integration key");
+  }
+
+  return { key: data.key, integrationKey: data.integration_key };
+}
+
+/**
+ * Revoke the team's integration key
+ */
+export async function revokeTeamIntegrationKey(teamId: number): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/integration-key`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to revoke integration key");
+  }
+}
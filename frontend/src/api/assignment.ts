@@ -0,0 +1,60 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
+
+export type AssignmentStrategy = "none" | "round_robin" | "least_open" | "fixed";
+
+export interface TeamAssignmentSettings {
+  strategy: AssignmentStrategy;
+  default_assignee_user_id: number | null;
+}
+
+export interface AssignmentDecision {
+  id: number;
+  team_id: number;
+  incident_id: number;
+  strategy: Exclude<AssignmentStrategy, "none">;
+  assigned_user_id: number | null;
+  reason: string;
+  created_at: string;
+}
+
+/**
+ * Get the team's automatic assignment strategy
+ */
+export async function getTeamAssignment(teamId: number): Promise<TeamAssignmentSettings> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/assignment`, {
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to fetch assignment strategy");
+  return { strategy: data.strategy, default_assignee_user_id: data.default_assignee_user_id };
+}
+
+/**
+ * Set the team's automatic assignment strategy (team admin)
+ */
+export async function updateTeamAssignment(
+  teamId: number,
+  settings: TeamAssignmentSettings
+): Promise<TeamAssignmentSettings> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/assignment`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(settings),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to update assignment strategy");
+  return { strategy: data.strategy, default_assignee_user_id: data.default_assignee_user_id };
+}
+
+/**
+ * Get the team's latest automatic assignment decisions (manager/admin)
+ */
+export async function getAssignmentDecisions(teamId: number): Promise<AssignmentDecision[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/assignment/decisions`, {
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to fetch assignment decisions");
+  return data.decisions;
+}
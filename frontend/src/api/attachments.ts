@@ -0,0 +1,74 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
+
+export interface Attachment {
+  id: number;
+  incident_id: number;
+  uploaded_by_user_id: number;
+  uploader_name: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  created_at: string;
+}
+
+/**
+ * Get all attachments of an incident
+ */
+export async function getIncidentAttachments(teamId: number, incidentId: number): Promise<Attachment[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/attachments`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch attachments");
+  }
+
+  return data.attachments;
+}
+
+/**
+ * Upload a file to an incident
+ */
+export async function uploadAttachment(teamId: number, incidentId: number, file: File): Promise<Attachment> {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/attachments`, {
+    method: "POST",
+    credentials: "include",
+    body: formData,
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to upload file");
+  }
+
+  return data.attachment;
+}
+
+/**
+ * URL that downloads an attachment, authorized by the auth cookie
+ */
+export function getAttachmentUrl(teamId: number, incidentId: number, attachmentId: number): string {
+  return `${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/attachments/${attachmentId}`;
+}
+
+/**
+ * Delete an attachment
+ */
+export async function deleteAttachment(teamId: number, incidentId: number, attachmentId: number): Promise<void> {
+  const response = await fetch(getAttachmentUrl(teamId, incidentId, attachmentId), {
+    method: "DELETE",
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to delete attachment");
+  }
+}
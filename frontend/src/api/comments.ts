@@ -0,0 +1,105 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
+
+export interface Comment {
+  id: number;
+  user_id: number;
+  user_name: string;
+  content: string;
+  incident_id: number;
+  parent_comment_id: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Get all comments of an incident
+ */
+export async function getIncidentComments(teamId: number, incidentId: number): Promise<Comment[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/comments`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch comments");
+  }
+
+  return data.comments;
+}
+
+/**
+ * Add a comment to an incident, or reply to an existing comment
+ */
+export async function createComment(
+  teamId: number,
+  incidentId: number,
+  content: string,
+  parentCommentId?: number
+): Promise<Comment> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/comments`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify({ content, parent_comment_id: parentCommentId ?? null }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to add comment");
+  }
+
+  return data.comment;
+}
+
+/**
+ * Edit a comment
+ */
+export async function updateComment(
+  teamId: number,
+  incidentId: number,
+  commentId: number,
+  content: string
+): Promise<Comment> {
+  const response = await fetch(
+    `${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/comments/${commentId}`,
+    {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      credentials: "include",
+      body: JSON.stringify({ content }),
+    }
+  );
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to update comment");
+  }
+
+  return data.comment;
+}
+
+/**
+ * Delete a comment and its replies
+ */
+export async function deleteComment(teamId: number, incidentId: number, commentId: number): Promise<void> {
+  const response = await fetch(
+    `${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/comments/${commentId}`,
+    {
+      method: "DELETE",
+      credentials: "include",
+    }
+  );
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to delete comment");
+  }
+}
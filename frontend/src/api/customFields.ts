@@ -0,0 +1,143 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
+
+export type CustomFieldType = "text" | "number" | "select" | "date" | "user";
+
+export interface CustomField {
+  id: number;
+  team_id: number;
+  name: string;
+  field_type: CustomFieldType;
+  /** Choices of a select field, empty for other types */
+  options: string[];
+  is_required: boolean;
+  created_at: string;
+}
+
+/**
+ * Custom field values of an incident, keyed by field ID
+ * Number and user values are numbers, dates are YYYY-MM-DD strings
+ */
+export type CustomFieldValues = Record<number, string | number>;
+
+export interface CustomFieldData {
+  name: string;
+  field_type: CustomFieldType;
+  options?: string[];
+  is_required?: boolean;
+}
+
+/**
+ * Form values of custom fields, as typed, "" meaning no value
+ */
+export type CustomFieldInputs = Record<number, string>;
+
+/**
+ * Turn an incident's values into form values
+ */
+export function toCustomFieldInputs(fields: CustomField[], values: CustomFieldValues = {}): CustomFieldInputs {
+  const inputs: CustomFieldInputs = {};
+  for (const field of fields) {
+    inputs[field.id] = values[field.id]?.toString() ?? "";
+  }
+  return inputs;
+}
+
+/**
+ * Turn form values into the values sent to the API, null clearing a value
+ */
+export function fromCustomFieldInputs(
+  fields: CustomField[],
+  inputs: CustomFieldInputs
+): Record<number, string | number | null> {
+  const values: Record<number, string | number | null> = {};
+  for (const field of fields) {
+    const input = inputs[field.id]?.trim() ?? "";
+    if (input === "") {
+      values[field.id] = null;
+    } else {
+      values[field.id] = field.field_type === "number" || field.field_type === "user" ? Number(input) : input;
+    }
+  }
+  return values;
+}
+
+/**
+ * Get a team's custom fields
+ */
+export async function getTeamCustomFields(teamId: number): Promise<CustomField[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/custom-fields`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch custom fields");
+  }
+
+  return data.fields;
+}
+
+/**
+ * Add a custom field to a team's incidents (admin)
+ */
+export async function createCustomField(teamId: number, field: CustomFieldData): Promise<CustomField> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/custom-fields`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify(field),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to create custom field");
+  }
+
+  return data.field;
+}
+
+/**
+ * Rename a custom field, change its options or whether it is required (admin)
+ */
+export async function updateCustomField(
+  teamId: number,
+  fieldId: number,
+  updates: { name?: string; options?: string[]; is_required?: boolean }
+): Promise<CustomField> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/custom-fields/${fieldId}`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify(updates),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to update custom field");
+  }
+
+  return data.field;
+}
+
+/**
+ * Delete a custom field with its values on every incident (admin)
+ */
+export async function deleteCustomField(teamId: number, fieldId: number): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/custom-fields/${fieldId}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to delete custom field");
+  }
+}
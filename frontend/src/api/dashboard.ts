@@ -1,4 +1,5 @@
 import type { Incident } from "./incidents";
+import type { OnCallNow } from "./oncall";
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
 
@@ -45,6 +46,23 @@ export async function getAssignedIncidents(): Promise<Incident[]> {
   return data.incidents;
 }
 
+/**
+ * Get unresolved incidents the current user watches without being their reporter or assignee
+ */
+export async function getWatchingIncidents(): Promise<Incident[]> {
+  const response = await fetch(`${API_BASE_URL}/dashboard/watching-incidents`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch watched incidents");
+  }
+
+  return data.incidents;
+}
+
 /**
  * Get incident stats per team
  */
@@ -61,3 +79,37 @@ export async function getTeamIncidentStats(): Promise<TeamIncidentStats[]> {
 
   return data.stats;
 }
+
+/**
+ * Get open incidents of the current user's teams that are past an SLA due time
+ */
+export async function getSlaBreaches(): Promise<Incident[]> {
+  const response = await fetch(`${API_BASE_URL}/dashboard/sla-breaches`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch SLA breaches");
+  }
+
+  return data.incidents;
+}
+
+/**
+ * Get the schedules the current user is on call for right now
+ */
+export async function getMyOnCall(): Promise<OnCallNow[]> {
+  const response = await fetch(`${API_BASE_URL}/dashboard/on-call`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch on-call status");
+  }
+
+  return data.oncall;
+}
@@ -0,0 +1,41 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
+
+export type EscalationTarget = "oncall" | "user" | "managers" | "team";
+
+export interface EscalationLevel {
+  level: number;
+  delay_minutes: number;
+  target_type: EscalationTarget;
+  target_user_id: number | null;
+  target_team_id: number | null;
+}
+
+/**
+ * Get the team's escalation policy, in level order
+ */
+export async function getTeamEscalation(teamId: number): Promise<EscalationLevel[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/escalation`, {
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to fetch escalation policy");
+  return data.levels;
+}
+
+/**
+ * Replace the team's escalation policy (team admin), levels are numbered in the given order
+ */
+export async function updateTeamEscalation(
+  teamId: number,
+  levels: Omit<EscalationLevel, "level">[]
+): Promise<EscalationLevel[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/escalation`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ levels }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to update escalation policy");
+  return data.levels;
+}
@@ -0,0 +1,29 @@
+import type { Incident } from "./incidents";
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
+
+export type RealtimeEventType = "incident.created" | "incident.updated";
+
+export interface IncidentRealtimeEvent {
+  type: RealtimeEventType;
+  // Teams whose lists are affected, both teams on a transfer
+  team_ids: number[];
+  incident_id: number;
+  actor_user_id: number | null;
+  incident: Incident;
+}
+
+/**
+ * Listen to incident changes in the user's teams
+ * The browser reconnects on its own if the stream drops
+ * @returns Function closing the stream
+ */
+export function subscribeToIncidentEvents(onEvent: (event: IncidentRealtimeEvent) => void): () => void {
+  const source = new EventSource(`${API_BASE_URL}/events`, { withCredentials: true });
+
+  source.addEventListener("incident", (message) => {
+    onEvent(JSON.parse((message as MessageEvent<string>).data));
+  });
+
+  return () => source.close();
+}
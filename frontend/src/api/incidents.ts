@@ -1,34 +1,163 @@
+import type { Label } from "./labels";
+import type { IncidentSla } from "./sla";
+import type { CustomFieldValues } from "./customFields";
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
 
 export type IncidentStatus = "pending" | "under_review" | "escalated" | "resolved";
 
+export type IncidentSeverity = "sev1" | "sev2" | "sev3" | "sev4";
+
+export type IncidentLevel = "high" | "medium" | "low";
+
+export type IncidentPriority = "p1" | "p2" | "p3" | "p4";
+
 export interface Incident {
   id: number;
   title: string;
   description: string | null;
   status: IncidentStatus;
+  severity: IncidentSeverity;
+  impact: IncidentLevel;
+  urgency: IncidentLevel;
+  priority: IncidentPriority;
   team_id: number;
   reported_by_user_id: number;
   assigned_to_user_id: number | null;
+  created_at: string;
+  updated_at: string;
+  first_response_at: string | null;
+  resolved_at: string | null;
+  archived_at: string | null;
+  archived_by_user_id: number | null;
+  labels: Label[];
+  sla: IncidentSla | null;
+  /** Only included by the team incident endpoints */
+  custom_fields?: CustomFieldValues;
+}
+
+export type IncidentEventType = "created" | "updated" | "archived" | "restored";
+
+export interface IncidentEvent {
+  id: number;
+  incident_id: number;
+  actor_user_id: number | null;
+  actor_name: string | null;
+  event_type: IncidentEventType;
+  field: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  note: string | null;
+  created_at: string;
 }
 
 export interface CreateIncidentData {
   title: string;
   description?: string;
+  severity?: IncidentSeverity;
+  impact?: IncidentLevel;
+  urgency?: IncidentLevel;
+  // The template's severity and labels are applied, title and description fall back to it
+  template_id?: number;
+  /** Keyed by field ID, every required field needs a value */
+  custom_fields?: Record<number, string | number | null>;
 }
 
 export interface UpdateIncidentData {
   title?: string;
   description?: string;
   status?: IncidentStatus;
+  status_note?: string;
+  /** When resolving, also resolve the incident's open children */
+  resolve_children?: boolean;
+  severity?: IncidentSeverity;
+  impact?: IncidentLevel;
+  urgency?: IncidentLevel;
   assigned_to_user_id?: number | null;
+  /** Keyed by field ID, null clears a value */
+  custom_fields?: Record<number, string | number | null>;
+}
+
+export interface IncidentFilters {
+  severity?: IncidentSeverity[];
+  priority?: IncidentPriority[];
+  status?: IncidentStatus[];
+  /** User ID, "me" or "unassigned" */
+  assignee?: number | "me" | "unassigned";
+  /** User ID or "me" */
+  reporter?: number | "me";
+  /** Matches incidents carrying any of these label IDs */
+  labels?: number[];
+  /** Custom field values keyed by field ID, text fields match on part of the value */
+  customFields?: Record<number, string>;
+  search?: string;
+}
+
+export type IncidentSortField = "created_at" | "updated_at" | "title" | "status" | "severity" | "priority";
+
+export type SortOrder = "asc" | "desc";
+
+export interface IncidentListOptions {
+  sort?: IncidentSortField;
+  order?: SortOrder;
+  limit?: number;
+  cursor?: string | null;
+}
+
+export interface IncidentPage {
+  incidents: Incident[];
+  total: number;
+  next_cursor: string | null;
 }
 
 /**
- * Get all incidents for a team
+ * Get a page of a team's incidents, filtered and sorted server-side
  */
-export async function getTeamIncidents(teamId: number): Promise<Incident[]> {
-  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents`, {
+export async function getTeamIncidents(
+  teamId: number,
+  filters: IncidentFilters = {},
+  options: IncidentListOptions = {}
+): Promise<IncidentPage> {
+  const params = new URLSearchParams();
+  if (filters.severity && filters.severity.length > 0) {
+    params.set("severity", filters.severity.join(","));
+  }
+  if (filters.priority && filters.priority.length > 0) {
+    params.set("priority", filters.priority.join(","));
+  }
+  if (filters.status && filters.status.length > 0) {
+    params.set("status", filters.status.join(","));
+  }
+  if (filters.assignee !== undefined) {
+    params.set("assignee", filters.assignee.toString());
+  }
+  if (filters.reporter !== undefined) {
+    params.set("reporter", filters.reporter.toString());
+  }
+  if (filters.labels && filters.labels.length > 0) {
+    params.set("label", filters.labels.join(","));
+  }
+  for (const [fieldId, value] of Object.entries(filters.customFields ?? {})) {
+    params.set(`cf_${fieldId}`, value);
+  }
+  if (filters.search) {
+    params.set("q", filters.search);
+  }
+  if (options.sort) {
+    params.set("sort", options.sort);
+  }
+  if (options.order) {
+    params.set("order", options.order);
+  }
+  if (options.limit) {
+    params.set("limit", options.limit.toString());
+  }
+  if (options.cursor) {
+    params.set("cursor", options.cursor);
+  }
+
+  const query = params.toString();
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents${query ? `?${query}` : ""}`, {
     credentials: "include",
   });
 
@@ -38,7 +167,11 @@ export async function getTeamIncidents(teamId: number): Promise<Incident[]> {
     throw new Error(data.message || "Failed to fetch incidents");
   }
 
-  return data.incidents;
+  return {
+    incidents: data.incidents,
+    total: data.total,
+    next_cursor: data.next_cursor,
+  };
 }
 
 /**
@@ -105,3 +238,150 @@ export async function updateIncident(
 
   return data.incident;
 }
+
+/**
+ * Get the activity log of an incident
+ */
+export async function getIncidentHistory(teamId: number, incidentId: number): Promise<IncidentEvent[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/history`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch incident history");
+  }
+
+  return data.history;
+}
+
+/**
+ * Archive (soft delete) an incident
+ */
+export async function archiveIncident(teamId: number, incidentId: number): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to archive incident");
+  }
+}
+
+export type BulkIncidentAction = "status" | "assign" | "label" | "delete";
+
+export interface BulkIncidentData {
+  incident_ids: number[];
+  action: BulkIncidentAction;
+  status?: IncidentStatus;
+  status_note?: string;
+  assigned_to_user_id?: number | null;
+  label_id?: number;
+}
+
+export interface BulkIncidentResult {
+  incident_id: number;
+  success: boolean;
+  message?: string;
+}
+
+export interface BulkIncidentResponse {
+  succeeded: number;
+  failed: number;
+  results: BulkIncidentResult[];
+}
+
+/**
+ * Apply a status change, assignment, label or archive to several incidents
+ * Each incident is permission-checked on its own, failures are reported per incident
+ */
+export async function bulkUpdateIncidents(teamId: number, bulkData: BulkIncidentData): Promise<BulkIncidentResponse> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/bulk`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify(bulkData),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to update incidents");
+  }
+
+  return {
+    succeeded: data.succeeded,
+    failed: data.failed,
+    results: data.results,
+  };
+}
+
+/**
+ * Get the archived incidents of a team
+ */
+export async function getArchivedIncidents(teamId: number): Promise<Incident[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/archived`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch archived incidents");
+  }
+
+  return data.incidents;
+}
+
+/**
+ * Restore an archived incident
+ */
+export async function restoreIncident(teamId: number, incidentId: number): Promise<Incident> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/restore`, {
+    method: "POST",
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to restore incident");
+  }
+
+  return data.incident;
+}
+
+/**
+ * Move an incident to another team (manager/admin)
+ * @param assignedToUserId - New assignee, null to clear, undefined to keep them if they are in the receiving team
+ */
+export async function transferIncident(
+  teamId: number,
+  incidentId: number,
+  targetTeamId: number,
+  assignedToUserId?: number | null,
+  note?: string
+): Promise<Incident> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/transfer`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify({ team_id: targetTeamId, assigned_to_user_id: assignedToUserId, note }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to transfer incident");
+  }
+
+  return data.incident;
+}
@@ -6,6 +6,12 @@ export {
   type UserWithRole 
 } from "./users";
 export * from "./incidents";
+export * from "./comments";
+export * from "./attachments";
+export * from "./labels";
+export * from "./links";
+export * from "./watchers";
+export * from "./notifications";
 export { 
   getAllTeams,
   createTeam,
@@ -31,6 +37,21 @@ export {
 export { 
   getMyRoleInTeam,
   getTeamMembersAsAdmin,
-  type TeamRole
+  getTeamWorkflow,
+  updateTeamWorkflow,
+  resetTeamWorkflow,
+  type TeamRole,
+  type StatusTransition,
+  type TeamWorkflow
 } from "./teams";
 export * from "./dashboard";
+export * from "./search";
+export * from "./webhooks";
+export * from "./alerts";
+export * from "./events";
+export * from "./sla";
+export * from "./assignment";
+export * from "./oncall";
+export * from "./escalation";
+export * from "./templates";
+export * from "./customFields";
@@ -0,0 +1,132 @@
+import type { Incident } from "./incidents";
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
+
+export interface Label {
+  id: number;
+  team_id: number;
+  name: string;
+  color: string;
+  created_at: string;
+}
+
+/**
+ * Get a team's label catalogue
+ */
+export async function getTeamLabels(teamId: number): Promise<Label[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/labels`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch labels");
+  }
+
+  return data.labels;
+}
+
+/**
+ * Add a label to a team's catalogue (manager/admin)
+ */
+export async function createLabel(teamId: number, name: string, color: string): Promise<Label> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/labels`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify({ name, color }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to create label");
+  }
+
+  return data.label;
+}
+
+/**
+ * Rename or recolour a label (manager/admin)
+ */
+export async function updateLabel(
+  teamId: number,
+  labelId: number,
+  updates: { name?: string; color?: string }
+): Promise<Label> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/labels/${labelId}`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify(updates),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to update label");
+  }
+
+  return data.label;
+}
+
+/**
+ * Delete a label, removing it from every incident (manager/admin)
+ */
+export async function deleteLabel(teamId: number, labelId: number): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/labels/${labelId}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to delete label");
+  }
+}
+
+/**
+ * Add a team label to an incident
+ */
+export async function addIncidentLabel(teamId: number, incidentId: number, labelId: number): Promise<Incident> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/labels`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify({ label_id: labelId }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to add label");
+  }
+
+  return data.incident;
+}
+
+/**
+ * Remove a label from an incident
+ */
+export async function removeIncidentLabel(teamId: number, incidentId: number, labelId: number): Promise<Incident> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/labels/${labelId}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to remove label");
+  }
+
+  return data.incident;
+}
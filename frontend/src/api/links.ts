@@ -0,0 +1,89 @@
+import type { IncidentStatus, IncidentSeverity } from "./incidents";
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
+
+export type IncidentLinkType = "duplicate_of" | "caused_by" | "parent_of" | "related_to";
+
+export type IncidentLinkDirection = "outgoing" | "incoming";
+
+export interface IncidentLink {
+  id: number;
+  source_incident_id: number;
+  target_incident_id: number;
+  link_type: IncidentLinkType;
+  created_by_user_id: number | null;
+  created_at: string;
+}
+
+export interface LinkedIncident {
+  id: number;
+  link_type: IncidentLinkType;
+  direction: IncidentLinkDirection;
+  incident_id: number;
+  team_id: number;
+  team_name: string;
+  title: string;
+  status: IncidentStatus;
+  severity: IncidentSeverity;
+  created_at: string;
+}
+
+/**
+ * Get the incidents linked to an incident
+ */
+export async function getIncidentLinks(teamId: number, incidentId: number): Promise<LinkedIncident[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/links`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch linked incidents");
+  }
+
+  return data.links;
+}
+
+/**
+ * Link an incident to another one, possibly of another team
+ */
+export async function createIncidentLink(
+  teamId: number,
+  incidentId: number,
+  targetIncidentId: number,
+  linkType: IncidentLinkType
+): Promise<IncidentLink> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/links`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify({ target_incident_id: targetIncidentId, link_type: linkType }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to link incidents");
+  }
+
+  return data.link;
+}
+
+/**
+ * Remove a link between two incidents
+ */
+export async function deleteIncidentLink(teamId: number, incidentId: number, linkId: number): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/links/${linkId}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to remove link");
+  }
+}
@@ -0,0 +1,76 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
+
+export type NotificationType =
+  | "incident_transferred"
+  | "status_changed"
+  | "incident_assigned"
+  | "comment_added"
+  | "incident_escalated";
+
+export interface Notification {
+  id: number;
+  user_id: number;
+  incident_id: number | null;
+  team_id: number | null;
+  type: NotificationType;
+  message: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationInbox {
+  notifications: Notification[];
+  unread_count: number;
+}
+
+/**
+ * Get the current user's notifications, newest first, with the unread count
+ */
+export async function getNotifications(unreadOnly = false): Promise<NotificationInbox> {
+  const response = await fetch(`${API_BASE_URL}/notifications${unreadOnly ? "?unread=true" : ""}`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch notifications");
+  }
+
+  return { notifications: data.notifications, unread_count: data.unread_count };
+}
+
+/**
+ * Mark a notification as read
+ * @returns The remaining unread count
+ */
+export async function markNotificationRead(notificationId: number): Promise<number> {
+  const response = await fetch(`${API_BASE_URL}/notifications/${notificationId}/read`, {
+    method: "PATCH",
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to mark notification as read");
+  }
+
+  return data.unread_count;
+}
+
+/**
+ * Mark all notifications as read
+ */
+export async function markAllNotificationsRead(): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/notifications/read-all`, {
+    method: "POST",
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to mark notifications as read");
+  }
+}
@@ -0,0 +1,175 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
+
+export type OnCallRotation = "daily" | "weekly";
+
+export interface OnCallOverride {
+  id: number;
+  schedule_id: number;
+  user_id: number;
+  starts_at: string;
+  ends_at: string;
+  note: string | null;
+  created_by_user_id: number | null;
+  created_at: string;
+}
+
+export interface OnCallSchedule {
+  id: number;
+  team_id: number;
+  name: string;
+  rotation: OnCallRotation;
+  starts_at: string;
+  created_at: string;
+  user_ids: number[];
+  overrides: OnCallOverride[];
+}
+
+export interface OnCallShift {
+  user_id: number;
+  starts_at: string;
+  ends_at: string;
+  is_override: boolean;
+}
+
+export interface OnCallNow {
+  team_id: number;
+  schedule_id: number;
+  schedule_name: string;
+  user_id: number;
+  is_override: boolean;
+  until: string | null;
+}
+
+export interface OnCallScheduleData {
+  name: string;
+  rotation: OnCallRotation;
+  starts_at: string;
+  user_ids: number[];
+}
+
+export interface OnCallOverrideData {
+  user_id: number;
+  starts_at: string;
+  ends_at: string;
+  note?: string;
+}
+
+/**
+ * Get who is on call for a team right now, per schedule
+ */
+export async function getTeamOnCall(teamId: number): Promise<OnCallNow[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/oncall`, {
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to fetch on-call");
+  return data.oncall;
+}
+
+/**
+ * Get the team's on-call schedules
+ */
+export async function getOnCallSchedules(teamId: number): Promise<OnCallSchedule[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/oncall/schedules`, {
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to fetch on-call schedules");
+  return data.schedules;
+}
+
+/**
+ * Create an on-call schedule (team admin)
+ */
+export async function createOnCallSchedule(teamId: number, schedule: OnCallScheduleData): Promise<OnCallSchedule> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/oncall/schedules`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(schedule),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to create on-call schedule");
+  return data.schedule;
+}
+
+/**
+ * Replace an on-call schedule's settings and rotation (team admin)
+ */
+export async function updateOnCallSchedule(
+  teamId: number,
+  scheduleId: number,
+  schedule: OnCallScheduleData
+): Promise<OnCallSchedule> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/oncall/schedules/${scheduleId}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(schedule),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to update on-call schedule");
+  return data.schedule;
+}
+
+/**
+ * Delete an on-call schedule (team admin)
+ */
+export async function deleteOnCallSchedule(teamId: number, scheduleId: number): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/oncall/schedules/${scheduleId}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to delete on-call schedule");
+}
+
+/**
+ * Get the shifts of a schedule in a time range, overrides applied
+ */
+export async function getOnCallShifts(
+  teamId: number,
+  scheduleId: number,
+  from: Date,
+  to: Date
+): Promise<OnCallShift[]> {
+  const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+  const response = await fetch(
+    `${API_BASE_URL}/teams/${teamId}/oncall/schedules/${scheduleId}/shifts?${params}`,
+    { credentials: "include" }
+  );
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to fetch on-call shifts");
+  return data.shifts;
+}
+
+/**
+ * Put a member on call instead of the rotation for a period (team manager/admin)
+ */
+export async function createOnCallOverride(
+  teamId: number,
+  scheduleId: number,
+  override: OnCallOverrideData
+): Promise<OnCallOverride> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/oncall/schedules/${scheduleId}/overrides`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(override),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to add override");
+  return data.override;
+}
+
+/**
+ * Remove an on-call override (team manager/admin)
+ */
+export async function deleteOnCallOverride(teamId: number, scheduleId: number, overrideId: number): Promise<void> {
+  const response = await fetch(
+    `${API_BASE_URL}/teams/${teamId}/oncall/schedules/${scheduleId}/overrides/${overrideId}`,
+    { method: "DELETE", credentials: "include" }
+  );
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to remove override");
+}
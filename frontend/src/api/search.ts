@@ -0,0 +1,26 @@
+import type { Incident } from "./incidents";
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
+
+export interface IncidentSearchResult extends Incident {
+  team_name: string;
+}
+
+/**
+ * Search incidents across all of the current user's teams
+ * The query supports qualifiers like `status:escalated assignee:me team:ops dns`
+ */
+export async function searchIncidents(query: string): Promise<IncidentSearchResult[]> {
+  const params = new URLSearchParams({ q: query });
+  const response = await fetch(`${API_BASE_URL}/search/incidents?${params.toString()}`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to search incidents");
+  }
+
+  return data.incidents;
+}
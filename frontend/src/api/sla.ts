@@ -0,0 +1,74 @@
+import type { Incident, IncidentSeverity } from "./incidents";
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
+
+export interface SlaTarget {
+  severity: IncidentSeverity;
+  respond_within_minutes: number | null;
+  resolve_within_minutes: number | null;
+}
+
+export interface IncidentSla {
+  response_due_at: string | null;
+  resolution_due_at: string | null;
+  response_breached: boolean;
+  resolution_breached: boolean;
+  breached: boolean;
+}
+
+export interface SlaSeverityReport {
+  severity: IncidentSeverity;
+  total: number;
+  response_breached: number;
+  resolution_breached: number;
+  breached: number;
+}
+
+export interface SlaReport {
+  days: number;
+  since: string;
+  total: number;
+  breached: number;
+  compliance: number | null;
+  by_severity: SlaSeverityReport[];
+  breached_incidents: Incident[];
+}
+
+/**
+ * Get the team's SLA targets per severity
+ */
+export async function getTeamSlaTargets(teamId: number): Promise<SlaTarget[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/sla`, {
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to fetch SLA targets");
+  return data.targets;
+}
+
+/**
+ * Replace the team's SLA targets (team admin)
+ */
+export async function updateTeamSlaTargets(teamId: number, targets: SlaTarget[]): Promise<SlaTarget[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/sla`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ targets }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to update SLA targets");
+  return data.targets;
+}
+
+/**
+ * Get the SLA breach report of the incidents created in the last days
+ */
+export async function getTeamSlaReport(teamId: number, days = 30): Promise<SlaReport> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/sla/report?days=${days}`, {
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to fetch SLA report");
+  return data.report;
+}
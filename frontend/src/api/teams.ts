@@ -1,3 +1,5 @@
+import type { IncidentStatus } from "./incidents";
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
 
 export type TeamRole = "user" | "manager" | "admin";
@@ -9,6 +11,17 @@ export interface TeamMember {
   role: TeamRole;
 }
 
+export interface StatusTransition {
+  from_status: IncidentStatus;
+  to_status: IncidentStatus;
+  requires_note: boolean;
+}
+
+export interface TeamWorkflow {
+  transitions: StatusTransition[];
+  is_custom: boolean;
+}
+
 /**
  * Get current user's role in a team
  */
@@ -84,3 +97,46 @@ export async function removeMemberAsAdmin(teamId: number, userId: number): Promi
   const data = await response.json();
   if (!response.ok) throw new Error(data.message || "Failed to remove member");
 }
+
+/**
+ * Get the team's status workflow
+ */
+export async function getTeamWorkflow(teamId: number): Promise<TeamWorkflow> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/workflow`, {
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to fetch workflow");
+  return { transitions: data.transitions, is_custom: data.is_custom };
+}
+
+/**
+ * Replace the team's status workflow (team admin)
+ */
+export async function updateTeamWorkflow(
+  teamId: number,
+  transitions: StatusTransition[]
+): Promise<TeamWorkflow> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/workflow`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ transitions }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to update workflow");
+  return { transitions: data.transitions, is_custom: data.is_custom };
+}
+
+/**
+ * Reset the team to the default status workflow (team admin)
+ */
+export async function resetTeamWorkflow(teamId: number): Promise<TeamWorkflow> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/workflow`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to reset workflow");
+  return { transitions: data.transitions, is_custom: data.is_custom };
+}
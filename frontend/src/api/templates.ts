@@ -0,0 +1,105 @@
+import type { IncidentSeverity } from "./incidents";
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
+
+export interface IncidentTemplate {
+  id: number;
+  team_id: number;
+  name: string;
+  title: string;
+  description: string | null;
+  severity: IncidentSeverity | null;
+  label_ids: number[];
+  created_by_user_id: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface IncidentTemplateData {
+  name: string;
+  title: string;
+  description: string | null;
+  severity: IncidentSeverity | null;
+  label_ids: number[];
+}
+
+/**
+ * Get a team's incident templates
+ */
+export async function getTeamTemplates(teamId: number): Promise<IncidentTemplate[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/templates`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch templates");
+  }
+
+  return data.templates;
+}
+
+/**
+ * Create an incident template (manager/admin)
+ */
+export async function createTemplate(teamId: number, template: IncidentTemplateData): Promise<IncidentTemplate> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/templates`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify(template),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to create template");
+  }
+
+  return data.template;
+}
+
+/**
+ * Replace an incident template (manager/admin)
+ */
+export async function updateTemplate(
+  teamId: number,
+  templateId: number,
+  template: IncidentTemplateData
+): Promise<IncidentTemplate> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/templates/${templateId}`, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify(template),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to update template");
+  }
+
+  return data.template;
+}
+
+/**
+ * Delete an incident template (manager/admin)
+ */
+export async function deleteTemplate(teamId: number, templateId: number): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/templates/${templateId}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to delete template");
+  }
+}
@@ -70,3 +70,46 @@ export async function getTeamUsers(teamId: number): Promise<UserWithRole[]> {
 
   return data.users;
 }
+
+export interface UserPreferences {
+  email_notifications: boolean;
+}
+
+/**
+ * Get the current user's notification preferences
+ */
+export async function getMyPreferences(): Promise<UserPreferences> {
+  const response = await fetch(`${API_BASE_URL}/users/me/preferences`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch preferences");
+  }
+
+  return data.preferences;
+}
+
+/**
+ * Update the current user's notification preferences
+ */
+export async function updateMyPreferences(preferences: UserPreferences): Promise<UserPreferences> {
+  const response = await fetch(`${API_BASE_URL}/users/me/preferences`, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify(preferences),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to update preferences");
+  }
+
+  return data.preferences;
+}
@@ -0,0 +1,66 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
+
+export interface IncidentWatcher {
+  incident_id: number;
+  user_id: number;
+  user_name: string;
+  created_at: string;
+}
+
+export interface IncidentWatchers {
+  watchers: IncidentWatcher[];
+  watching: boolean;
+}
+
+/**
+ * Get the watchers of an incident and whether the current user is one
+ */
+export async function getIncidentWatchers(teamId: number, incidentId: number): Promise<IncidentWatchers> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/watchers`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch watchers");
+  }
+
+  return { watchers: data.watchers, watching: data.watching };
+}
+
+/**
+ * Start watching an incident
+ */
+export async function watchIncident(teamId: number, incidentId: number): Promise<IncidentWatchers> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/watchers`, {
+    method: "POST",
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to watch incident");
+  }
+
+  return { watchers: data.watchers, watching: data.watching };
+}
+
+/**
+ * Stop watching an incident
+ */
+export async function unwatchIncident(teamId: number, incidentId: number): Promise<IncidentWatchers> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/incidents/${incidentId}/watchers`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to unwatch incident");
+  }
+
+  return { watchers: data.watchers, watching: data.watching };
+}
@@ -0,0 +1,171 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost/api";
+
+export type WebhookEvent =
+  | "incident.created"
+  | "incident.updated"
+  | "incident.status_changed"
+  | "incident.assigned";
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  "incident.created",
+  "incident.updated",
+  "incident.status_changed",
+  "incident.assigned",
+];
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface TeamWebhook {
+  id: number;
+  team_id: number;
+  url: string;
+  events: WebhookEvent[];
+  is_active: boolean;
+  created_by_user_id: number | null;
+  created_at: string;
+}
+
+export interface TeamWebhookWithSecret extends TeamWebhook {
+  secret: string;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  event: WebhookEvent;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  last_error: string | null;
+  next_attempt_at: string;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Get a team's webhooks (admin)
+ */
+export async function getTeamWebhooks(teamId: number): Promise<TeamWebhook[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/webhooks`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch webhooks");
+  }
+
+  return data.webhooks;
+}
+
+/**
+ * Register a webhook, the returned secret is not shown again
+ */
+export async function createWebhook(
+  teamId: number,
+  url: string,
+  events: WebhookEvent[]
+): Promise<TeamWebhookWithSecret> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/webhooks`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify({ url, events }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to create webhook");
+  }
+
+  return data.webhook;
+}
+
+/**
+ * Change a webhook's URL, events or active flag
+ */
+export async function updateWebhook(
+  teamId: number,
+  webhookId: number,
+  updates: { url?: string; events?: WebhookEvent[]; is_active?: boolean }
+): Promise<TeamWebhook> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/webhooks/${webhookId}`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify(updates),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to update webhook");
+  }
+
+  return data.webhook;
+}
+
+/**
+ * Delete a webhook and its delivery log
+ */
+export async function deleteWebhook(teamId: number, webhookId: number): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/webhooks/${webhookId}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to delete webhook");
+  }
+}
+
+/**
+ * Get the latest deliveries of a webhook, newest first
+ */
+export async function getWebhookDeliveries(teamId: number, webhookId: number): Promise<WebhookDelivery[]> {
+  const response = await fetch(`${API_BASE_URL}/teams/${teamId}/webhooks/${webhookId}/deliveries`, {
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch deliveries");
+  }
+
+  return data.deliveries;
+}
+
+/**
+ * Queue a failed delivery again
+ */
+export async function retryWebhookDelivery(
+  teamId: number,
+  webhookId: number,
+  deliveryId: number
+): Promise<WebhookDelivery> {
+  const response = await fetch(
+    `${API_BASE_URL}/teams/${teamId}/webhooks/${webhookId}/deliveries/${deliveryId}/retry`,
+    {
+      method: "POST",
+      credentials: "include",
+    }
+  );
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to retry delivery");
+  }
+
+  return data.delivery;
+}
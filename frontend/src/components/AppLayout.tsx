@@ -2,6 +2,7 @@ import type { ReactNode } from "react";
 import { SidebarProvider, SidebarTrigger, SidebarInset } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
 import { Separator } from "@/components/ui/separator";
+import { GlobalSearch } from "@/components/GlobalSearch";
 
 interface AppLayoutProps {
   children: ReactNode;
@@ -17,6 +18,9 @@ export function AppLayout({ children, title }: AppLayoutProps) {
           <SidebarTrigger className="-ml-1" />
           <Separator orientation="vertical" className="mr-2 h-4" />
           {title && <h1 className="font-semibold">{title}</h1>}
+          <div className="ml-auto flex w-full max-w-md justify-end">
+            <GlobalSearch />
+          </div>
         </header>
         <main className="flex-1 overflow-auto p-4">
           {children}
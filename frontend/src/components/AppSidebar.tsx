@@ -1,3 +1,4 @@
+import { useState, useEffect } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import {
   AlertTriangle,
@@ -9,6 +10,8 @@ import {
   Monitor,
   Building2,
   Shield,
+  Mail,
+  MailX,
 } from "lucide-react";
 import {
   Sidebar,
@@ -32,6 +35,8 @@ import {
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useAuth, useTheme } from "@/contexts";
 import { logout } from "@/api/auth";
+import { getMyPreferences, updateMyPreferences } from "@/api/users";
+import { NotificationBell } from "./NotificationBell";
 
 const mainNavItems = [
   {
@@ -61,6 +66,30 @@ export function AppSidebar() {
   const location = useLocation();
   const { user, setUser } = useAuth();
   const { theme, setTheme } = useTheme();
+  const [emailNotifications, setEmailNotifications] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    loadPreferences();
+  }, []);
+
+  async function loadPreferences() {
+    try {
+      const preferences = await getMyPreferences();
+      setEmailNotifications(preferences.email_notifications);
+    } catch {
+      // The toggle stays hidden if preferences cannot be loaded
+    }
+  }
+
+  const toggleEmailNotifications = async () => {
+    if (emailNotifications === null) return;
+    try {
+      const preferences = await updateMyPreferences({ email_notifications: !emailNotifications });
+      setEmailNotifications(preferences.email_notifications);
+    } catch (err) {
+      console.error("Failed to update preferences:", err);
+    }
+  };
 
   const cycleTheme = () => {
     if (theme === "system") {
@@ -109,6 +138,9 @@ export function AppSidebar() {
         <div className="flex items-center gap-2 px-2 py-2">
           <AlertTriangle className="h-6 w-6 text-primary" />
           <span className="font-semibold text-lg">Incident Manager</span>
+          <div className="ml-auto">
+            <NotificationBell />
+          </div>
         </div>
       </SidebarHeader>
 
@@ -173,6 +205,16 @@ export function AppSidebar() {
                   {getThemeIcon()}
                   Theme: {getThemeLabel()}
                 </DropdownMenuItem>
+                {emailNotifications !== null && (
+                  <DropdownMenuItem onClick={toggleEmailNotifications}>
+                    {emailNotifications ? (
+                      <Mail className="mr-2 h-4 w-4" />
+                    ) : (
+                      <MailX className="mr-2 h-4 w-4" />
+                    )}
+                    Email notifications: {emailNotifications ? "On" : "Off"}
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={handleLogout}>
                   <LogOut className="mr-2 h-4 w-4" />
@@ -0,0 +1,79 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CustomField, CustomFieldInputs } from "@/api/customFields";
+import type { UserPublic } from "@/api/users";
+
+interface CustomFieldsFormProps {
+  fields: CustomField[];
+  members: UserPublic[];
+  values: CustomFieldInputs;
+  onChange: (fieldId: number, value: string) => void;
+}
+
+// Select items cannot have an empty value
+const NO_VALUE = "__none__";
+
+export function CustomFieldsForm({ fields, members, values, onChange }: CustomFieldsFormProps) {
+  if (fields.length === 0) {
+    return null;
+  }
+
+  function renderInput(field: CustomField) {
+    const value = values[field.id] ?? "";
+
+    if (field.field_type === "select" || field.field_type === "user") {
+      const choices =
+        field.field_type === "select"
+          ? field.options.map((option) => ({ value: option, label: option }))
+          : members.map((member) => ({ value: member.id.toString(), label: member.name }));
+
+      return (
+        <Select value={value || NO_VALUE} onValueChange={(v) => onChange(field.id, v === NO_VALUE ? "" : v)}>
+          <SelectTrigger id={`custom-field-${field.id}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_VALUE}>None</SelectItem>
+            {choices.map((choice) => (
+              <SelectItem key={choice.value} value={choice.value}>
+                {choice.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        id={`custom-field-${field.id}`}
+        type={field.field_type === "text" ? "text" : field.field_type}
+        step={field.field_type === "number" ? "any" : undefined}
+        maxLength={field.field_type === "text" ? 1000 : undefined}
+        value={value}
+        onChange={(e) => onChange(field.id, e.target.value)}
+      />
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {fields.map((field) => (
+        <div key={field.id} className="space-y-2">
+          <Label htmlFor={`custom-field-${field.id}`}>
+            {field.name}
+            {field.is_required && <span className="text-destructive">*</span>}
+          </Label>
+          {renderInput(field)}
+        </div>
+      ))}
+    </div>
+  );
+}
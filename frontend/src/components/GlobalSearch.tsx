@@ -0,0 +1,128 @@
+import { useState, useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import { Search, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { searchIncidents, type IncidentSearchResult } from "@/api/search";
+import type { IncidentStatus } from "@/api/incidents";
+
+const statusColors: Record<IncidentStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  under_review: "bg-blue-100 text-blue-800",
+  escalated: "bg-red-100 text-red-800",
+  resolved: "bg-green-100 text-green-800",
+};
+
+const statusLabels: Record<IncidentStatus, string> = {
+  pending: "Pending",
+  under_review: "Under Review",
+  escalated: "Escalated",
+  resolved: "Resolved",
+};
+
+export function GlobalSearch() {
+  const navigate = useNavigate();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<IncidentSearchResult[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    const timeout = setTimeout(() => runSearch(trimmed), 300);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  // Close the results when clicking elsewhere
+  useEffect(() => {
+    function handleClick(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, []);
+
+  async function runSearch(q: string) {
+    setIsSearching(true);
+    try {
+      const data = await searchIncidents(q);
+      setResults(data);
+      setError(null);
+    } catch (err) {
+      setResults([]);
+      setError(err instanceof Error ? err.message : "Search failed");
+    } finally {
+      setIsSearching(false);
+    }
+  }
+
+  function openResult(incident: IncidentSearchResult) {
+    setIsOpen(false);
+    setQuery("");
+    navigate(`/incidents?team=${incident.team_id}&incident=${incident.id}`);
+  }
+
+  return (
+    <div ref={containerRef} className="relative w-full max-w-md">
+      <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+      <Input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") setIsOpen(false);
+          if (e.key === "Enter" && results.length > 0) openResult(results[0]);
+        }}
+        placeholder="Search incidents... (e.g. status:escalated team:ops dns)"
+        className="pl-8"
+      />
+      {isOpen && query.trim() && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover text-popover-foreground shadow-md">
+          {isSearching ? (
+            <div className="flex items-center gap-2 p-3 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Searching...
+            </div>
+          ) : error ? (
+            <div className="p-3 text-sm text-destructive">{error}</div>
+          ) : results.length === 0 ? (
+            <div className="p-3 text-sm text-muted-foreground">No incidents found</div>
+          ) : (
+            <ul className="max-h-[360px] overflow-y-auto py-1">
+              {results.map((incident) => (
+                <li key={incident.id}>
+                  <button
+                    type="button"
+                    className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm hover:bg-accent"
+                    onClick={() => openResult(incident)}
+                  >
+                    <span className="font-mono text-muted-foreground">#{incident.id}</span>
+                    <span className="flex-1 truncate">{incident.title}</span>
+                    <Badge variant="outline">{incident.team_name}</Badge>
+                    <Badge className={statusColors[incident.status]}>
+                      {statusLabels[incident.status]}
+                    </Badge>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
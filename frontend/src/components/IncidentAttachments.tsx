@@ -0,0 +1,151 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Paperclip, Upload, Download, Trash2, FileText, Image } from "lucide-react";
+import { useAuth } from "@/contexts";
+import {
+  getIncidentAttachments,
+  uploadAttachment,
+  deleteAttachment,
+  getAttachmentUrl,
+  type Attachment,
+} from "@/api/attachments";
+import type { TeamRole } from "@/api/teams";
+import { formatFileSize } from "@/lib/utils";
+
+interface IncidentAttachmentsProps {
+  teamId: number;
+  incidentId: number;
+  myRole: TeamRole | null;
+}
+
+const ACCEPTED_TYPES = "image/png,image/jpeg,image/gif,image/webp,text/plain,text/csv,application/json,application/pdf,application/zip,application/gzip,.log";
+
+export function IncidentAttachments({ teamId, incidentId, myRole }: IncidentAttachmentsProps) {
+  const { user } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canModerate = myRole === "admin" || myRole === "manager";
+
+  useEffect(() => {
+    loadAttachments(teamId, incidentId);
+  }, [teamId, incidentId]);
+
+  async function loadAttachments(teamId: number, incidentId: number) {
+    setIsLoading(true);
+    try {
+      const data = await getIncidentAttachments(teamId, incidentId);
+      setAttachments(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load attachments");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleUpload(file: File) {
+    setIsUploading(true);
+    try {
+      const attachment = await uploadAttachment(teamId, incidentId, file);
+      setAttachments((prev) => [...prev, attachment]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to upload file");
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  }
+
+  async function handleDelete(attachment: Attachment) {
+    if (!confirm(`Delete ${attachment.file_name}?`)) return;
+
+    try {
+      await deleteAttachment(teamId, incidentId, attachment.id);
+      setAttachments((prev) => prev.filter((a) => a.id !== attachment.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete attachment");
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Paperclip className="h-4 w-4" />
+          Attachments ({attachments.length})
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_TYPES}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleUpload(file);
+          }}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+        >
+          <Upload className="h-3 w-3 mr-1" />
+          {isUploading ? "Uploading..." : "Attach file"}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading attachments...</p>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">No attachments</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {attachments.map((attachment) => {
+            const FileIcon = attachment.mime_type.startsWith("image/") ? Image : FileText;
+            const canDelete = canModerate || attachment.uploaded_by_user_id === user?.id;
+
+            return (
+              <li key={attachment.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                <FileIcon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="flex-1 min-w-0">
+                  <p className="truncate font-medium">{attachment.file_name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(attachment.size_bytes)} • {attachment.uploader_name} •{" "}
+                    {new Date(attachment.created_at).toLocaleString()}
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" className="h-7 w-7" asChild>
+                  <a href={getAttachmentUrl(teamId, incidentId, attachment.id)} download={attachment.file_name}>
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+                {canDelete && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-destructive"
+                    onClick={() => handleDelete(attachment)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
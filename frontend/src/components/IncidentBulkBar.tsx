@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2, X } from "lucide-react";
+import {
+  bulkUpdateIncidents,
+  type BulkIncidentData,
+  type BulkIncidentResponse,
+  type IncidentStatus,
+} from "@/api/incidents";
+import type { Label } from "@/api/labels";
+import type { UserPublic } from "@/api/users";
+
+interface IncidentBulkBarProps {
+  teamId: number;
+  incidentIds: number[];
+  members: UserPublic[];
+  labels: Label[];
+  canAssign: boolean;
+  canDelete: boolean;
+  onDone: (response: BulkIncidentResponse) => void;
+  onClear: () => void;
+}
+
+const statusLabels: Record<IncidentStatus, string> = {
+  pending: "Pending",
+  under_review: "Under Review",
+  escalated: "Escalated",
+  resolved: "Resolved",
+};
+
+export function IncidentBulkBar({
+  teamId,
+  incidentIds,
+  members,
+  labels,
+  canAssign,
+  canDelete,
+  onDone,
+  onClear,
+}: IncidentBulkBarProps) {
+  const [statusNote, setStatusNote] = useState("");
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function apply(data: Omit<BulkIncidentData, "incident_ids">) {
+    setIsApplying(true);
+    try {
+      const response = await bulkUpdateIncidents(teamId, { incident_ids: incidentIds, ...data });
+      setStatusNote("");
+      setError(null);
+      onDone(response);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update incidents");
+    } finally {
+      setIsApplying(false);
+    }
+  }
+
+  function handleDelete() {
+    if (!confirm(`Archive ${incidentIds.length} incident(s)?`)) return;
+    apply({ action: "delete" });
+  }
+
+  return (
+    <div className="space-y-2 rounded-lg border bg-muted/50 p-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium px-2">{incidentIds.length} selected</span>
+        <Select
+          value=""
+          onValueChange={(v) =>
+            apply({ action: "status", status: v as IncidentStatus, status_note: statusNote.trim() || undefined })
+          }
+          disabled={isApplying}
+        >
+          <SelectTrigger className="w-[150px]">
+            <SelectValue placeholder="Set status" />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(statusLabels) as IncidentStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>
+                {statusLabels[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={statusNote}
+          onChange={(e) => setStatusNote(e.target.value)}
+          placeholder="Status note (optional)"
+          className="w-[200px]"
+        />
+        {canAssign && (
+          <Select
+            value=""
+            onValueChange={(v) =>
+              apply({ action: "assign", assigned_to_user_id: v === "unassigned" ? null : parseInt(v, 10) })
+            }
+            disabled={isApplying}
+          >
+            <SelectTrigger className="w-[150px]">
+              <SelectValue placeholder="Assign to" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+              {members.map((member) => (
+                <SelectItem key={member.id} value={member.id.toString()}>
+                  {member.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {labels.length > 0 && (
+          <Select
+            value=""
+            onValueChange={(v) => apply({ action: "label", label_id: parseInt(v, 10) })}
+            disabled={isApplying}
+          >
+            <SelectTrigger className="w-[150px]">
+              <SelectValue placeholder="Add label" />
+            </SelectTrigger>
+            <SelectContent>
+              {labels.map((label) => (
+                <SelectItem key={label.id} value={label.id.toString()}>
+                  {label.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {canDelete && (
+          <Button variant="outline" size="sm" className="text-destructive" onClick={handleDelete} disabled={isApplying}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Archive
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" onClick={onClear} disabled={isApplying}>
+          <X className="h-4 w-4 mr-2" />
+          Clear
+        </Button>
+      </div>
+      {error && (
+        <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { IncidentSeverity, IncidentLevel } from "@/api/incidents";
+
+interface IncidentClassificationFieldsProps {
+  severity: IncidentSeverity;
+  impact: IncidentLevel;
+  urgency: IncidentLevel;
+  onSeverityChange: (severity: IncidentSeverity) => void;
+  onImpactChange: (impact: IncidentLevel) => void;
+  onUrgencyChange: (urgency: IncidentLevel) => void;
+}
+
+const severityColors: Record<IncidentSeverity, string> = {
+  sev1: "bg-red-600 text-white",
+  sev2: "bg-orange-100 text-orange-800",
+  sev3: "bg-yellow-100 text-yellow-800",
+  sev4: "bg-gray-100 text-gray-800",
+};
+
+const severityLabels: Record<IncidentSeverity, string> = {
+  sev1: "SEV1 - Critical",
+  sev2: "SEV2 - Major",
+  sev3: "SEV3 - Moderate",
+  sev4: "SEV4 - Minor",
+};
+
+const levelLabels: Record<IncidentLevel, string> = {
+  high: "High",
+  medium: "Medium",
+  low: "Low",
+};
+
+export function IncidentClassificationFields({
+  severity,
+  impact,
+  urgency,
+  onSeverityChange,
+  onImpactChange,
+  onUrgencyChange,
+}: IncidentClassificationFieldsProps) {
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <div className="space-y-2">
+        <Label>Severity</Label>
+        <Select value={severity} onValueChange={(v) => onSeverityChange(v as IncidentSeverity)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(severityLabels) as IncidentSeverity[]).map((sev) => (
+              <SelectItem key={sev} value={sev}>
+                <Badge className={severityColors[sev]}>{severityLabels[sev]}</Badge>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Impact</Label>
+        <Select value={impact} onValueChange={(v) => onImpactChange(v as IncidentLevel)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(levelLabels) as IncidentLevel[]).map((level) => (
+              <SelectItem key={level} value={level}>
+                {levelLabels[level]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Urgency</Label>
+        <Select value={urgency} onValueChange={(v) => onUrgencyChange(v as IncidentLevel)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(levelLabels) as IncidentLevel[]).map((level) => (
+              <SelectItem key={level} value={level}>
+                {levelLabels[level]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { MessageSquare, Reply, Pencil, Trash2 } from "lucide-react";
+import { useAuth } from "@/contexts";
+import {
+  getIncidentComments,
+  createComment,
+  updateComment,
+  deleteComment,
+  type Comment,
+} from "@/api/comments";
+import type { TeamRole } from "@/api/teams";
+
+interface IncidentCommentsProps {
+  teamId: number;
+  incidentId: number;
+  myRole: TeamRole | null;
+}
+
+const getInitials = (name: string) => {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+};
+
+export function IncidentComments({ teamId, incidentId, myRole }: IncidentCommentsProps) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newContent, setNewContent] = useState("");
+  const [isPosting, setIsPosting] = useState(false);
+
+  const [replyingTo, setReplyingTo] = useState<number | null>(null);
+  const [replyContent, setReplyContent] = useState("");
+
+  const [editingCommentId, setEditingCommentId] = useState<number | null>(null);
+  const [editContent, setEditContent] = useState("");
+
+  const canModerate = myRole === "admin" || myRole === "manager";
+
+  useEffect(() => {
+    loadComments(teamId, incidentId);
+  }, [teamId, incidentId]);
+
+  async function loadComments(teamId: number, incidentId: number) {
+    setIsLoading(true);
+    try {
+      const data = await getIncidentComments(teamId, incidentId);
+      setComments(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load comments");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handlePost(content: string, parentCommentId?: number) {
+    if (!content.trim()) return;
+
+    setIsPosting(true);
+    try {
+      const comment = await createComment(teamId, incidentId, content.trim(), parentCommentId);
+      setComments((prev) => [...prev, comment]);
+      if (parentCommentId) {
+        setReplyingTo(null);
+        setReplyContent("");
+      } else {
+        setNewContent("");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add comment");
+    } finally {
+      setIsPosting(false);
+    }
+  }
+
+  async function handleSaveEdit(commentId: number) {
+    if (!editContent.trim()) return;
+
+    try {
+      const updated = await updateComment(teamId, incidentId, commentId, editContent.trim());
+      setComments((prev) => prev.map((c) => (c.id === commentId ? updated : c)));
+      setEditingCommentId(null);
+      setEditContent("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update comment");
+    }
+  }
+
+  async function handleDelete(commentId: number) {
+    if (!confirm("Delete this comment and its replies?")) return;
+
+    try {
+      await deleteComment(teamId, incidentId, commentId);
+      // Replies are removed server-side together with their parent
+      loadComments(teamId, incidentId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete comment");
+    }
+  }
+
+  function renderComment(comment: Comment, depth: number) {
+    const replies = comments.filter((c) => c.parent_comment_id === comment.id);
+    const canManage = canModerate || comment.user_id === user?.id;
+    const isEditing = editingCommentId === comment.id;
+    const wasEdited = comment.updated_at !== comment.created_at;
+
+    return (
+      <div key={comment.id} className={depth > 0 ? "ml-6 border-l pl-3" : ""}>
+        <div className="flex gap-2 py-2">
+          <Avatar className="h-6 w-6">
+            <AvatarFallback className="text-xs">{getInitials(comment.user_name)}</AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span className="font-medium text-foreground">{comment.user_name}</span>
+              <span>{new Date(comment.created_at).toLocaleString()}</span>
+              {wasEdited && <span>(edited)</span>}
+            </div>
+            {isEditing ? (
+              <div className="space-y-2">
+                <Textarea
+                  value={editContent}
+                  onChange={(e) => setEditContent(e.target.value)}
+                  rows={2}
+                />
+                <div className="flex gap-1">
+                  <Button size="sm" onClick={() => handleSaveEdit(comment.id)} disabled={!editContent.trim()}>
+                    Save
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setEditingCommentId(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm whitespace-pre-wrap break-words">{comment.content}</p>
+            )}
+            {!isEditing && (
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => {
+                    setReplyingTo(comment.id);
+                    setReplyContent("");
+                  }}
+                >
+                  <Reply className="h-3 w-3 mr-1" />
+                  Reply
+                </Button>
+                {canManage && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => {
+                        setEditingCommentId(comment.id);
+                        setEditContent(comment.content);
+                      }}
+                    >
+                      <Pencil className="h-3 w-3 mr-1" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs text-destructive"
+                      onClick={() => handleDelete(comment.id)}
+                    >
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      Delete
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+            {replyingTo === comment.id && (
+              <div className="space-y-2 pt-1">
+                <Textarea
+                  value={replyContent}
+                  onChange={(e) => setReplyContent(e.target.value)}
+                  placeholder={`Reply to ${comment.user_name}...`}
+                  rows={2}
+                />
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    onClick={() => handlePost(replyContent, comment.id)}
+                    disabled={isPosting || !replyContent.trim()}
+                  >
+                    Reply
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setReplyingTo(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+        {replies.map((reply) => renderComment(reply, depth + 1))}
+      </div>
+    );
+  }
+
+  const rootComments = comments.filter((c) => c.parent_comment_id === null);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <MessageSquare className="h-4 w-4" />
+        Discussion ({comments.length})
+      </div>
+
+      {error && (
+        <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+      )}
+
+      <div className="max-h-[300px] overflow-y-auto">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground py-2">Loading comments...</p>
+        ) : rootComments.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic py-2">No comments yet</p>
+        ) : (
+          rootComments.map((comment) => renderComment(comment, 0))
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Textarea
+          value={newContent}
+          onChange={(e) => setNewContent(e.target.value)}
+          placeholder="Add a comment..."
+          rows={2}
+        />
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            onClick={() => handlePost(newContent)}
+            disabled={isPosting || !newContent.trim()}
+          >
+            {isPosting ? "Posting..." : "Comment"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus } from "lucide-react";
+import { CustomFieldsForm } from "./CustomFieldsForm";
+import { IncidentClassificationFields } from "./IncidentClassificationFields";
+import { LabelBadge } from "./LabelBadge";
+import { createIncident, type IncidentSeverity, type IncidentLevel } from "@/api/incidents";
+import type { UserWithRole } from "@/api/users";
+import type { Label as IncidentLabel } from "@/api/labels";
+import type { IncidentTemplate } from "@/api/templates";
+import {
+  toCustomFieldInputs,
+  fromCustomFieldInputs,
+  type CustomField,
+  type CustomFieldInputs,
+} from "@/api/customFields";
+
+interface IncidentCreateDialogProps {
+  teamId: number | null;
+  members: UserWithRole[];
+  labels: IncidentLabel[];
+  templates: IncidentTemplate[];
+  fields: CustomField[];
+  canAssign: boolean;
+  onCreated: () => void;
+}
+
+export function IncidentCreateDialog({
+  teamId,
+  members,
+  labels,
+  templates,
+  fields,
+  canAssign,
+  onCreated,
+}: IncidentCreateDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [severity, setSeverity] = useState<IncidentSeverity>("sev4");
+  const [impact, setImpact] = useState<IncidentLevel>("medium");
+  const [urgency, setUrgency] = useState<IncidentLevel>("medium");
+  const [templateId, setTemplateId] = useState<string>("none");
+  const [customFields, setCustomFields] = useState<CustomFieldInputs>({});
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedTemplate = templates.find((t) => t.id.toString() === templateId);
+  const selectedTemplateLabels = labels.filter((l) => selectedTemplate?.label_ids.includes(l.id));
+  const isMissingRequired = fields.some((f) => f.is_required && !customFields[f.id]?.trim());
+
+  useEffect(() => {
+    setTemplateId("none");
+  }, [templates]);
+
+  useEffect(() => {
+    setCustomFields(toCustomFieldInputs(fields));
+  }, [fields]);
+
+  // Prefill the form from a template, its labels are added by the server
+  function handleTemplateChange(value: string) {
+    setTemplateId(value);
+    const template = templates.find((t) => t.id.toString() === value);
+    if (!template) return;
+
+    setTitle(template.title);
+    setDescription(template.description ?? "");
+    if (template.severity) {
+      setSeverity(template.severity);
+    }
+  }
+
+  async function handleCreate() {
+    if (!teamId || !title.trim()) return;
+
+    setIsCreating(true);
+    try {
+      await createIncident(teamId, {
+        title: title.trim(),
+        description: description.trim() || undefined,
+        ...(canAssign && { severity, impact, urgency }),
+        ...(templateId !== "none" && { template_id: parseInt(templateId, 10) }),
+        ...(fields.length > 0 && { custom_fields: fromCustomFieldInputs(fields, customFields) }),
+      });
+      setTitle("");
+      setDescription("");
+      setSeverity("sev4");
+      setImpact("medium");
+      setUrgency("medium");
+      setTemplateId("none");
+      setCustomFields(toCustomFieldInputs(fields));
+      setError(null);
+      setIsOpen(false);
+      onCreated();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create incident");
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button disabled={!teamId}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Incident
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Create New Incident</DialogTitle>
+          <DialogDescription>Report a new incident for your team to track.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          {error && (
+            <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+          )}
+          {templates.length > 0 && (
+            <div className="space-y-2">
+              <Label>Template</Label>
+              <Select value={templateId} onValueChange={handleTemplateChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No template</SelectItem>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id.toString()}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedTemplateLabels.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="text-xs text-muted-foreground">Labels added:</span>
+                  {selectedTemplateLabels.map((label) => (
+                    <LabelBadge key={label.id} label={label} />
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="title">Title</Label>
+            <Input
+              id="title"
+              placeholder="Brief summary of the incident..."
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea
+              id="description"
+              placeholder="Detailed description of the incident..."
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={4}
+            />
+          </div>
+          {canAssign && (
+            <IncidentClassificationFields
+              severity={severity}
+              impact={impact}
+              urgency={urgency}
+              onSeverityChange={setSeverity}
+              onImpactChange={setImpact}
+              onUrgencyChange={setUrgency}
+            />
+          )}
+          <CustomFieldsForm
+            fields={fields}
+            members={members}
+            values={customFields}
+            onChange={(fieldId, value) => setCustomFields((prev) => ({ ...prev, [fieldId]: value }))}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={isCreating || !title.trim() || isMissingRequired}>
+            {isCreating ? "Creating..." : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
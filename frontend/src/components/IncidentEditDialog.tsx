@@ -0,0 +1,389 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { CustomFieldsForm } from "./CustomFieldsForm";
+import { IncidentAttachments } from "./IncidentAttachments";
+import { IncidentClassificationFields } from "./IncidentClassificationFields";
+import { IncidentComments } from "./IncidentComments";
+import { IncidentLinks } from "./IncidentLinks";
+import { LabelBadge } from "./LabelBadge";
+import {
+  updateIncident,
+  type Incident,
+  type IncidentStatus,
+  type IncidentSeverity,
+  type IncidentLevel,
+} from "@/api/incidents";
+import type { TeamRole, StatusTransition } from "@/api/teams";
+import type { UserWithRole } from "@/api/users";
+import { addIncidentLabel, removeIncidentLabel, type Label as IncidentLabel } from "@/api/labels";
+import {
+  toCustomFieldInputs,
+  fromCustomFieldInputs,
+  type CustomField,
+  type CustomFieldInputs,
+} from "@/api/customFields";
+import { useAuth } from "@/contexts";
+
+interface IncidentEditDialogProps {
+  teamId: number;
+  incident: Incident | null;
+  // Latest version of the incident, when someone else changed it while it was being edited
+  conflict: { incident: Incident; actorUserId: number | null } | null;
+  members: UserWithRole[];
+  labels: IncidentLabel[];
+  fields: CustomField[];
+  workflow: StatusTransition[];
+  myRole: TeamRole | null;
+  getUserName: (userId: number | null) => string;
+  onClose: () => void;
+  onLoadLatest: (incident: Incident) => void;
+  onSaved: () => void;
+  onOpenIncident: (teamId: number, incidentId: number) => void;
+}
+
+const statusLabels: Record<IncidentStatus, string> = {
+  pending: "Pending",
+  under_review: "Under Review",
+  escalated: "Escalated",
+  resolved: "Resolved",
+};
+
+export function IncidentEditDialog({
+  teamId,
+  incident,
+  conflict,
+  members,
+  labels,
+  fields,
+  workflow,
+  myRole,
+  getUserName,
+  onClose,
+  onLoadLatest,
+  onSaved,
+  onOpenIncident,
+}: IncidentEditDialogProps) {
+  const { user } = useAuth();
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [status, setStatus] = useState<IncidentStatus>("pending");
+  const [statusNote, setStatusNote] = useState("");
+  const [resolveChildren, setResolveChildren] = useState(false);
+  const [severity, setSeverity] = useState<IncidentSeverity>("sev4");
+  const [impact, setImpact] = useState<IncidentLevel>("medium");
+  const [urgency, setUrgency] = useState<IncidentLevel>("medium");
+  const [assignedTo, setAssignedTo] = useState<string>("unassigned");
+  const [customFields, setCustomFields] = useState<CustomFieldInputs>({});
+  // Labels are saved as soon as they are toggled
+  const [appliedLabels, setAppliedLabels] = useState<IncidentLabel[]>([]);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canAssign = myRole === "admin" || myRole === "manager";
+  const isReporter = !!incident && incident.reported_by_user_id === user?.id;
+  const canClassify = canAssign || (!!incident && incident.assigned_to_user_id === user?.id);
+  // Labels and links: reporter, assigned user or manager/admin
+  const canLabel = canClassify || isReporter;
+  const canEditCustomFields = canAssign || isReporter;
+  // Required fields can stay empty on older incidents, but cannot be cleared
+  const clearsRequiredField =
+    canEditCustomFields &&
+    fields.some(
+      (f) => f.is_required && incident?.custom_fields?.[f.id] !== undefined && !customFields[f.id]?.trim()
+    );
+  // Only the current status and the ones the team's workflow allows from it can be picked
+  const nextTransitions = incident ? workflow.filter((t) => t.from_status === incident.status) : [];
+  const selectedTransition = nextTransitions.find((t) => t.to_status === status);
+  const noteRequired = !!selectedTransition?.requires_note;
+
+  useEffect(() => {
+    if (!incident) return;
+
+    setTitle(incident.title);
+    setDescription(incident.description || "");
+    setStatus(incident.status);
+    setStatusNote("");
+    setResolveChildren(false);
+    setSeverity(incident.severity);
+    setImpact(incident.impact);
+    setUrgency(incident.urgency);
+    setAssignedTo(incident.assigned_to_user_id?.toString() || "unassigned");
+    setCustomFields(toCustomFieldInputs(fields, incident.custom_fields));
+    setAppliedLabels(incident.labels);
+    setError(null);
+  }, [incident, fields]);
+
+  async function handleToggleLabel(label: IncidentLabel) {
+    if (!incident) return;
+
+    const hasLabel = appliedLabels.some((l) => l.id === label.id);
+    try {
+      const updated = hasLabel
+        ? await removeIncidentLabel(teamId, incident.id, label.id)
+        : await addIncidentLabel(teamId, incident.id, label.id);
+      setAppliedLabels(updated.labels);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update labels");
+    }
+  }
+
+  async function handleUpdate() {
+    if (!incident) return;
+
+    setIsUpdating(true);
+    try {
+      const updates: {
+        title?: string;
+        description?: string;
+        status?: IncidentStatus;
+        status_note?: string;
+        resolve_children?: boolean;
+        severity?: IncidentSeverity;
+        impact?: IncidentLevel;
+        urgency?: IncidentLevel;
+        assigned_to_user_id?: number | null;
+        custom_fields?: Record<number, string | number | null>;
+      } = {};
+
+      if (title.trim() !== incident.title) {
+        updates.title = title.trim();
+      }
+      if (description.trim() !== (incident.description || "")) {
+        updates.description = description.trim();
+      }
+      if (status !== incident.status) {
+        updates.status = status;
+        if (statusNote.trim()) {
+          updates.status_note = statusNote.trim();
+        }
+        if (status === "resolved" && resolveChildren) {
+          updates.resolve_children = true;
+        }
+      }
+      if (severity !== incident.severity) {
+        updates.severity = severity;
+      }
+      if (impact !== incident.impact) {
+        updates.impact = impact;
+      }
+      if (urgency !== incident.urgency) {
+        updates.urgency = urgency;
+      }
+
+      // Handle assignment change
+      const currentAssigned = incident.assigned_to_user_id?.toString() || "unassigned";
+      if (assignedTo !== currentAssigned && canAssign) {
+        updates.assigned_to_user_id = assignedTo === "unassigned" ? null : parseInt(assignedTo);
+      }
+
+      // Only the custom fields that changed are sent
+      if (canEditCustomFields) {
+        const current = toCustomFieldInputs(fields, incident.custom_fields);
+        const values = fromCustomFieldInputs(fields, customFields);
+        const changed = fields.filter((f) => (customFields[f.id] ?? "").trim() !== current[f.id]);
+        if (changed.length > 0) {
+          updates.custom_fields = Object.fromEntries(changed.map((f) => [f.id, values[f.id]]));
+        }
+      }
+
+      if (Object.keys(updates).length > 0) {
+        await updateIncident(teamId, incident.id, updates);
+      }
+
+      onClose();
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update incident");
+    } finally {
+      setIsUpdating(false);
+    }
+  }
+
+  return (
+    <Dialog open={!!incident} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Incident #{incident?.id}</DialogTitle>
+          <DialogDescription>Update the incident details</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          {conflict && (
+            <div className="flex items-center justify-between gap-2 p-2 text-xs text-destructive bg-destructive/10 rounded-md">
+              <span>
+                {conflict.actorUserId ? getUserName(conflict.actorUserId) : "The system"} changed this
+                incident while you were editing it. Saving may overwrite their changes.
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-6 px-2 text-xs shrink-0"
+                onClick={() => onLoadLatest(conflict.incident)}
+              >
+                Load latest
+              </Button>
+            </div>
+          )}
+          {error && (
+            <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+          )}
+          <div className="space-y-2">
+            <Label>Title</Label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Incident title..." />
+          </div>
+          <div className="space-y-2">
+            <Label>Description</Label>
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Detailed description..."
+              rows={4}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(v) => setStatus(v as IncidentStatus)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {incident && <SelectItem value={incident.status}>{statusLabels[incident.status]}</SelectItem>}
+                {nextTransitions.map((t) => (
+                  <SelectItem key={t.to_status} value={t.to_status}>
+                    {statusLabels[t.to_status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {incident && status !== incident.status && (
+            <div className="space-y-2">
+              <Label>
+                {status === "resolved" ? "Resolution note" : "Reason"}
+                {noteRequired ? " (required)" : " (optional)"}
+              </Label>
+              <Textarea
+                value={statusNote}
+                onChange={(e) => setStatusNote(e.target.value)}
+                placeholder={status === "resolved" ? "How was this incident resolved?" : "Why is the status changing?"}
+                rows={2}
+              />
+              {status === "resolved" && (
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={resolveChildren}
+                    onChange={(e) => setResolveChildren(e.target.checked)}
+                  />
+                  Also resolve open child incidents
+                </label>
+              )}
+            </div>
+          )}
+          {canClassify && (
+            <IncidentClassificationFields
+              severity={severity}
+              impact={impact}
+              urgency={urgency}
+              onSeverityChange={setSeverity}
+              onImpactChange={setImpact}
+              onUrgencyChange={setUrgency}
+            />
+          )}
+          {canLabel && labels.length > 0 && (
+            <div className="space-y-2">
+              <Label>Labels</Label>
+              <div className="flex flex-wrap gap-1">
+                {labels.map((label) => {
+                  const isApplied = appliedLabels.some((l) => l.id === label.id);
+                  return (
+                    <button
+                      key={label.id}
+                      type="button"
+                      onClick={() => handleToggleLabel(label)}
+                      className={isApplied ? "" : "opacity-40 hover:opacity-70"}
+                      title={isApplied ? "Remove label" : "Add label"}
+                    >
+                      <LabelBadge label={label} />
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+          {canEditCustomFields && (
+            <CustomFieldsForm
+              fields={fields}
+              members={members}
+              values={customFields}
+              onChange={(fieldId, value) => setCustomFields((prev) => ({ ...prev, [fieldId]: value }))}
+            />
+          )}
+          {canAssign && (
+            <div className="space-y-2">
+              <Label>Assigned To</Label>
+              <Select value={assignedTo} onValueChange={setAssignedTo}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.id} value={member.id.toString()}>
+                      {member.name} ({member.role})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        {incident && (
+          <>
+            <Separator />
+            <IncidentLinks
+              teamId={teamId}
+              incidentId={incident.id}
+              canEdit={canLabel}
+              onOpenIncident={onOpenIncident}
+            />
+            <Separator />
+            <IncidentAttachments teamId={teamId} incidentId={incident.id} myRole={myRole} />
+            <Separator />
+            <IncidentComments teamId={teamId} incidentId={incident.id} myRole={myRole} />
+          </>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleUpdate}
+            disabled={isUpdating || !title.trim() || (noteRequired && !statusNote.trim()) || clearsRequiredField}
+          >
+            {isUpdating ? "Updating..." : "Save Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect } from "react";
+import { History } from "lucide-react";
+import { getIncidentHistory, type IncidentEvent } from "@/api/incidents";
+import type { CustomField } from "@/api/customFields";
+
+interface IncidentHistoryProps {
+  teamId: number;
+  incidentId: number;
+  getUserName: (userId: number | null) => string;
+  /** The team's custom fields, to name them in the log */
+  customFields?: CustomField[];
+}
+
+const fieldLabels: Record<string, string> = {
+  title: "title",
+  description: "description",
+  status: "status",
+  severity: "severity",
+  impact: "impact",
+  urgency: "urgency",
+  priority: "priority",
+  assigned_to_user_id: "assignee",
+};
+
+const statusLabels: Record<string, string> = {
+  pending: "Pending",
+  under_review: "Under Review",
+  escalated: "Escalated",
+  resolved: "Resolved",
+};
+
+export function IncidentHistory({ teamId, incidentId, getUserName, customFields = [] }: IncidentHistoryProps) {
+  const [events, setEvents] = useState<IncidentEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadHistory(teamId, incidentId);
+  }, [teamId, incidentId]);
+
+  async function loadHistory(teamId: number, incidentId: number) {
+    setIsLoading(true);
+    try {
+      const data = await getIncidentHistory(teamId, incidentId);
+      setEvents(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load history");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // Custom field changes are logged as custom_field:<field ID>
+  function findCustomField(field: string | null): CustomField | undefined {
+    return field?.startsWith("custom_field:")
+      ? customFields.find((f) => f.id === parseInt(field.slice("custom_field:".length), 10))
+      : undefined;
+  }
+
+  function formatValue(field: string | null, value: string | null): string {
+    if (value === null || value === "") {
+      return field === "assigned_to_user_id" ? "Unassigned" : "empty";
+    }
+    if (field === "assigned_to_user_id" || findCustomField(field)?.field_type === "user") {
+      return getUserName(parseInt(value, 10));
+    }
+    if (field === "status") {
+      return statusLabels[value] || value;
+    }
+    if (field === "severity" || field === "priority") {
+      return value.toUpperCase();
+    }
+    return value;
+  }
+
+  function describeEvent(event: IncidentEvent): string {
+    if (event.event_type === "created") {
+      return "created the incident";
+    }
+    if (event.event_type === "archived") {
+      return "archived the incident";
+    }
+    if (event.event_type === "restored") {
+      return "restored the incident";
+    }
+    const field = event.field?.startsWith("custom_field:")
+      ? findCustomField(event.field)?.name || "a custom field"
+      : event.field
+        ? fieldLabels[event.field] || event.field
+        : "incident";
+    if (event.field === "description") {
+      return "updated the description";
+    }
+    if (event.field === "labels") {
+      return event.new_value !== null
+        ? `added label "${event.new_value}"`
+        : `removed label "${event.old_value}"`;
+    }
+    if (event.field === "team") {
+      return `moved the incident from ${event.old_value} to ${event.new_value}`;
+    }
+    if (event.field === "escalation") {
+      return `escalated the incident to level ${event.new_value}`;
+    }
+    if (event.field === "link") {
+      return event.new_value !== null
+        ? `linked ${event.new_value.replace(/_/g, " ")}`
+        : `removed link ${event.old_value?.replace(/_/g, " ")}`;
+    }
+    return `changed ${field} from "${formatValue(event.field, event.old_value)}" to "${formatValue(event.field, event.new_value)}"`;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <History className="h-4 w-4" />
+        History
+      </div>
+
+      {error && (
+        <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading history...</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">No activity recorded</p>
+      ) : (
+        <ol className="relative border-l ml-2 max-h-[200px] overflow-y-auto">
+          {events.map((event) => (
+            <li key={event.id} className="ml-4 pb-3">
+              <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+              <p className="text-sm">
+                <span className="font-medium">{event.actor_name || "System"}</span>{" "}
+                {describeEvent(event)}
+              </p>
+              {event.note && (
+                <p className="text-sm text-muted-foreground italic whitespace-pre-wrap">"{event.note}"</p>
+              )}
+              <time className="text-xs text-muted-foreground">
+                {new Date(event.created_at).toLocaleString()}
+              </time>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
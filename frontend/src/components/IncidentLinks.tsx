@@ -0,0 +1,187 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Link2, Plus, X } from "lucide-react";
+import {
+  getIncidentLinks,
+  createIncidentLink,
+  deleteIncidentLink,
+  type LinkedIncident,
+  type IncidentLinkType,
+} from "@/api/links";
+import type { IncidentStatus } from "@/api/incidents";
+
+interface IncidentLinksProps {
+  teamId: number;
+  incidentId: number;
+  canEdit: boolean;
+  onOpenIncident?: (teamId: number, incidentId: number) => void;
+}
+
+// How a link reads from the incident on each side of it
+const outgoingLabels: Record<IncidentLinkType, string> = {
+  duplicate_of: "Duplicate of",
+  caused_by: "Caused by",
+  parent_of: "Parent of",
+  related_to: "Related to",
+};
+
+const incomingLabels: Record<IncidentLinkType, string> = {
+  duplicate_of: "Duplicated by",
+  caused_by: "Causes",
+  parent_of: "Child of",
+  related_to: "Related to",
+};
+
+const statusColors: Record<IncidentStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  under_review: "bg-blue-100 text-blue-800",
+  escalated: "bg-red-100 text-red-800",
+  resolved: "bg-green-100 text-green-800",
+};
+
+const statusLabels: Record<IncidentStatus, string> = {
+  pending: "Pending",
+  under_review: "Under Review",
+  escalated: "Escalated",
+  resolved: "Resolved",
+};
+
+export function IncidentLinks({ teamId, incidentId, canEdit, onOpenIncident }: IncidentLinksProps) {
+  const [links, setLinks] = useState<LinkedIncident[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [linkType, setLinkType] = useState<IncidentLinkType>("related_to");
+  const [targetId, setTargetId] = useState("");
+  const [isLinking, setIsLinking] = useState(false);
+
+  useEffect(() => {
+    loadLinks(teamId, incidentId);
+  }, [teamId, incidentId]);
+
+  async function loadLinks(teamId: number, incidentId: number) {
+    setIsLoading(true);
+    try {
+      const data = await getIncidentLinks(teamId, incidentId);
+      setLinks(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load linked incidents");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleLink() {
+    const target = parseInt(targetId.replace("#", ""), 10);
+    if (isNaN(target)) return;
+
+    setIsLinking(true);
+    try {
+      await createIncidentLink(teamId, incidentId, target, linkType);
+      setTargetId("");
+      loadLinks(teamId, incidentId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to link incidents");
+    } finally {
+      setIsLinking(false);
+    }
+  }
+
+  async function handleUnlink(link: LinkedIncident) {
+    try {
+      await deleteIncidentLink(teamId, incidentId, link.id);
+      setLinks((prev) => prev.filter((l) => l.id !== link.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove link");
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Link2 className="h-4 w-4" />
+        Linked Incidents ({links.length})
+      </div>
+
+      {error && (
+        <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading linked incidents...</p>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">No linked incidents</p>
+      ) : (
+        <ul className="space-y-1">
+          {links.map((link) => (
+            <li key={link.id} className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground w-24 shrink-0">
+                {link.direction === "outgoing" ? outgoingLabels[link.link_type] : incomingLabels[link.link_type]}
+              </span>
+              <button
+                type="button"
+                className="flex-1 min-w-0 truncate text-left hover:underline disabled:no-underline"
+                onClick={() => onOpenIncident?.(link.team_id, link.incident_id)}
+                disabled={!onOpenIncident}
+              >
+                <span className="font-mono text-muted-foreground">#{link.incident_id}</span> {link.title}
+                {link.team_id !== teamId && (
+                  <span className="text-muted-foreground"> ({link.team_name})</span>
+                )}
+              </button>
+              <Badge className={statusColors[link.status]}>{statusLabels[link.status]}</Badge>
+              {canEdit && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => handleUnlink(link)}
+                  title="Remove link"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && (
+        <div className="flex items-center gap-2">
+          <Select value={linkType} onValueChange={(v) => setLinkType(v as IncidentLinkType)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(outgoingLabels) as IncidentLinkType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {outgoingLabels[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            placeholder="Incident #"
+            className="w-[120px]"
+          />
+          <Button size="sm" onClick={handleLink} disabled={isLinking || !targetId.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Link
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,7 +11,10 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Pencil, ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react";
-import type { Incident, IncidentStatus } from "@/api/incidents";
+import type { Incident, IncidentStatus, IncidentSeverity, IncidentPriority } from "@/api/incidents";
+import { formatRelativeTime } from "@/lib/utils";
+import { LabelBadge } from "./LabelBadge";
+import { SlaBadge } from "./SlaBadge";
 
 const statusColors: Record<IncidentStatus, string> = {
   pending: "bg-yellow-100 text-yellow-800",
@@ -27,7 +30,21 @@ const statusLabels: Record<IncidentStatus, string> = {
   resolved: "Resolved",
 };
 
-type SortField = "title" | "status" | "team" | null;
+const severityColors: Record<IncidentSeverity, string> = {
+  sev1: "bg-red-600 text-white",
+  sev2: "bg-orange-100 text-orange-800",
+  sev3: "bg-yellow-100 text-yellow-800",
+  sev4: "bg-gray-100 text-gray-800",
+};
+
+const priorityColors: Record<IncidentPriority, string> = {
+  p1: "bg-purple-600 text-white",
+  p2: "bg-purple-100 text-purple-800",
+  p3: "bg-slate-100 text-slate-800",
+  p4: "bg-slate-50 text-slate-600",
+};
+
+type SortField = "title" | "status" | "team" | "created" | null;
 type SortOrder = "asc" | "desc";
 
 interface IncidentListProps {
@@ -98,6 +115,8 @@ export function IncidentList({
       comparison = statusOrder[a.status] - statusOrder[b.status];
     } else if (sortField === "team") {
       comparison = getTeamName(a.team_id).localeCompare(getTeamName(b.team_id));
+    } else if (sortField === "created") {
+      comparison = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
     }
 
     return sortOrder === "asc" ? comparison : -comparison;
@@ -152,25 +171,58 @@ export function IncidentList({
                     </Button>
                   </TableHead>
                 )}
+                <TableHead>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2 -ml-2 font-medium"
+                    onClick={() => handleSort("created")}
+                  >
+                    Age
+                    {getSortIcon("created")}
+                  </Button>
+                </TableHead>
                 <TableHead className="w-16"></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {sortedIncidents.map((incident) => (
                 <TableRow key={incident.id}>
-                  <TableCell className="font-medium max-w-[150px] truncate">
-                    {incident.title}
+                  <TableCell className="font-medium max-w-[150px]">
+                    <div className="truncate">{incident.title}</div>
+                    {incident.labels.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {incident.labels.map((label) => (
+                          <LabelBadge key={label.id} label={label} />
+                        ))}
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell>
-                    <Badge className={statusColors[incident.status]}>
-                      {statusLabels[incident.status]}
-                    </Badge>
+                    <div className="flex items-center gap-1">
+                      <Badge className={statusColors[incident.status]}>
+                        {statusLabels[incident.status]}
+                      </Badge>
+                      <Badge className={severityColors[incident.severity]}>
+                        {incident.severity.toUpperCase()}
+                      </Badge>
+                      <Badge className={priorityColors[incident.priority]}>
+                        {incident.priority.toUpperCase()}
+                      </Badge>
+                      <SlaBadge sla={incident.sla} />
+                    </div>
                   </TableCell>
                   {showTeamColumn && (
                     <TableCell className="text-sm text-muted-foreground">
                       {getTeamName(incident.team_id)}
                     </TableCell>
                   )}
+                  <TableCell
+                    className="text-sm text-muted-foreground whitespace-nowrap"
+                    title={`Updated ${formatRelativeTime(incident.updated_at)}`}
+                  >
+                    {formatRelativeTime(incident.created_at)}
+                  </TableCell>
                   <TableCell>
                     <Button
                       variant="ghost"
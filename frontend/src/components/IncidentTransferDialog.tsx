@@ -0,0 +1,154 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getTeamUsers, type Team, type UserWithRole } from "@/api/users";
+import { transferIncident, type Incident } from "@/api/incidents";
+
+interface IncidentTransferDialogProps {
+  teamId: number;
+  incident: Incident | null;
+  teams: Team[];
+  onClose: () => void;
+  onTransferred: () => void;
+}
+
+export function IncidentTransferDialog({
+  teamId,
+  incident,
+  teams,
+  onClose,
+  onTransferred,
+}: IncidentTransferDialogProps) {
+  const [targetTeamId, setTargetTeamId] = useState<string>("");
+  const [targetMembers, setTargetMembers] = useState<UserWithRole[]>([]);
+  const [assignee, setAssignee] = useState<string>("keep");
+  const [note, setNote] = useState("");
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTargetTeamId("");
+    setTargetMembers([]);
+    setAssignee("keep");
+    setNote("");
+    setError(null);
+  }, [incident]);
+
+  async function handleTeamChange(value: string) {
+    setTargetTeamId(value);
+    setAssignee("keep");
+    try {
+      setTargetMembers(await getTeamUsers(parseInt(value, 10)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load team members");
+    }
+  }
+
+  async function handleTransfer() {
+    if (!incident || !targetTeamId) return;
+
+    setIsTransferring(true);
+    try {
+      await transferIncident(
+        teamId,
+        incident.id,
+        parseInt(targetTeamId, 10),
+        assignee === "keep" ? undefined : assignee === "unassigned" ? null : parseInt(assignee, 10),
+        note.trim() || undefined
+      );
+      onClose();
+      onTransferred();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to transfer incident");
+    } finally {
+      setIsTransferring(false);
+    }
+  }
+
+  return (
+    <Dialog open={!!incident} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Transfer Incident #{incident?.id}</DialogTitle>
+          <DialogDescription>
+            Move this incident to another of your teams. Its labels are removed and the receiving team is notified.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          {error && (
+            <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+          )}
+          <div className="space-y-2">
+            <Label>Receiving team</Label>
+            <Select value={targetTeamId} onValueChange={handleTeamChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select team" />
+              </SelectTrigger>
+              <SelectContent>
+                {teams
+                  .filter((team) => team.id !== teamId)
+                  .map((team) => (
+                    <SelectItem key={team.id} value={team.id.toString()}>
+                      {team.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {targetTeamId && (
+            <div className="space-y-2">
+              <Label>Assigned To</Label>
+              <Select value={assignee} onValueChange={setAssignee}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="keep">Keep current assignee if they are a member</SelectItem>
+                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                  {targetMembers.map((member) => (
+                    <SelectItem key={member.id} value={member.id.toString()}>
+                      {member.name} ({member.role})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Reason (optional)</Label>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Why is this incident moving?"
+              rows={2}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleTransfer} disabled={isTransferring || !targetTeamId}>
+            {isTransferring ? "Transferring..." : "Transfer"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
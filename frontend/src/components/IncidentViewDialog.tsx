@@ -0,0 +1,213 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card, CardContent } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { IncidentAttachments } from "./IncidentAttachments";
+import { IncidentHistory } from "./IncidentHistory";
+import { IncidentLinks } from "./IncidentLinks";
+import { IncidentWatchers } from "./IncidentWatchers";
+import { LabelBadge } from "./LabelBadge";
+import type {
+  Incident,
+  IncidentStatus,
+  IncidentSeverity,
+  IncidentLevel,
+  IncidentPriority,
+} from "@/api/incidents";
+import type { TeamRole } from "@/api/teams";
+import type { CustomField } from "@/api/customFields";
+import { formatRelativeTime } from "@/lib/utils";
+
+interface IncidentViewDialogProps {
+  teamId: number;
+  incident: Incident | null;
+  fields: CustomField[];
+  myRole: TeamRole | null;
+  getUserName: (userId: number | null) => string;
+  onClose: () => void;
+  onEdit: (incident: Incident) => void;
+  onOpenIncident: (teamId: number, incidentId: number) => void;
+}
+
+const statusColors: Record<IncidentStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  under_review: "bg-blue-100 text-blue-800",
+  escalated: "bg-red-100 text-red-800",
+  resolved: "bg-green-100 text-green-800",
+};
+
+const statusLabels: Record<IncidentStatus, string> = {
+  pending: "Pending",
+  under_review: "Under Review",
+  escalated: "Escalated",
+  resolved: "Resolved",
+};
+
+const severityColors: Record<IncidentSeverity, string> = {
+  sev1: "bg-red-600 text-white",
+  sev2: "bg-orange-100 text-orange-800",
+  sev3: "bg-yellow-100 text-yellow-800",
+  sev4: "bg-gray-100 text-gray-800",
+};
+
+const severityLabels: Record<IncidentSeverity, string> = {
+  sev1: "SEV1 - Critical",
+  sev2: "SEV2 - Major",
+  sev3: "SEV3 - Moderate",
+  sev4: "SEV4 - Minor",
+};
+
+const priorityColors: Record<IncidentPriority, string> = {
+  p1: "bg-purple-600 text-white",
+  p2: "bg-purple-100 text-purple-800",
+  p3: "bg-slate-100 text-slate-800",
+  p4: "bg-slate-50 text-slate-600",
+};
+
+const levelLabels: Record<IncidentLevel, string> = {
+  high: "High",
+  medium: "Medium",
+  low: "Low",
+};
+
+export function IncidentViewDialog({
+  teamId,
+  incident,
+  fields,
+  myRole,
+  getUserName,
+  onClose,
+  onEdit,
+  onOpenIncident,
+}: IncidentViewDialogProps) {
+  const filledFields = fields.filter((f) => incident?.custom_fields?.[f.id] !== undefined);
+
+  return (
+    <Dialog open={!!incident} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <span className="font-mono text-muted-foreground">#{incident?.id}</span>
+            {incident?.title}
+          </DialogTitle>
+        </DialogHeader>
+        {incident && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Status:</span>
+              <Badge className={statusColors[incident.status]}>{statusLabels[incident.status]}</Badge>
+              <Badge className={severityColors[incident.severity]}>{severityLabels[incident.severity]}</Badge>
+              <Badge className={priorityColors[incident.priority]}>{incident.priority.toUpperCase()}</Badge>
+            </div>
+            {incident.labels.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1">
+                <span className="text-sm text-muted-foreground mr-1">Labels:</span>
+                {incident.labels.map((label) => (
+                  <LabelBadge key={label.id} label={label} />
+                ))}
+              </div>
+            )}
+            <div className="text-sm text-muted-foreground">
+              Impact: {levelLabels[incident.impact]} • Urgency: {levelLabels[incident.urgency]}
+            </div>
+            <div>
+              <span className="text-sm font-medium">Description</span>
+              <Card className="mt-2">
+                <CardContent className="pt-4 max-h-[200px] overflow-y-auto">
+                  {incident.description ? (
+                    <p className="text-sm whitespace-pre-wrap">{incident.description}</p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground italic">No description provided</p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+            <div className="flex gap-4 text-sm text-muted-foreground">
+              <span>Reported by: {getUserName(incident.reported_by_user_id)}</span>
+              <span>
+                Assigned to: {incident.assigned_to_user_id ? getUserName(incident.assigned_to_user_id) : "Unassigned"}
+              </span>
+            </div>
+            {filledFields.length > 0 && (
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                {filledFields.map((field) => {
+                  const value = incident.custom_fields![field.id];
+                  return (
+                    <span key={field.id}>
+                      <span className="text-muted-foreground">{field.name}:</span>{" "}
+                      {field.field_type === "user" ? getUserName(Number(value)) : value}
+                    </span>
+                  );
+                })}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-muted-foreground">
+              <span title={new Date(incident.created_at).toLocaleString()}>
+                Created: {formatRelativeTime(incident.created_at)}
+              </span>
+              <span title={new Date(incident.updated_at).toLocaleString()}>
+                Updated: {formatRelativeTime(incident.updated_at)}
+              </span>
+              <span>
+                First response:{" "}
+                {incident.first_response_at ? formatRelativeTime(incident.first_response_at) : "None yet"}
+              </span>
+              <span>
+                Resolved: {incident.resolved_at ? formatRelativeTime(incident.resolved_at) : "Not resolved"}
+              </span>
+              {incident.sla?.response_due_at && (
+                <span
+                  className={incident.sla.response_breached ? "text-destructive" : ""}
+                  title={new Date(incident.sla.response_due_at).toLocaleString()}
+                >
+                  Response due: {formatRelativeTime(incident.sla.response_due_at)}
+                  {incident.sla.response_breached && " (breached)"}
+                </span>
+              )}
+              {incident.sla?.resolution_due_at && (
+                <span
+                  className={incident.sla.resolution_breached ? "text-destructive" : ""}
+                  title={new Date(incident.sla.resolution_due_at).toLocaleString()}
+                >
+                  Resolution due: {formatRelativeTime(incident.sla.resolution_due_at)}
+                  {incident.sla.resolution_breached && " (breached)"}
+                </span>
+              )}
+            </div>
+            <Separator />
+            <IncidentWatchers teamId={teamId} incidentId={incident.id} />
+            <Separator />
+            <IncidentLinks
+              teamId={teamId}
+              incidentId={incident.id}
+              canEdit={false}
+              onOpenIncident={onOpenIncident}
+            />
+            <Separator />
+            <IncidentAttachments teamId={teamId} incidentId={incident.id} myRole={myRole} />
+            <Separator />
+            <IncidentHistory
+              teamId={teamId}
+              incidentId={incident.id}
+              getUserName={getUserName}
+              customFields={fields}
+            />
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button onClick={() => incident && onEdit(incident)}>Edit</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Eye, EyeOff } from "lucide-react";
+import {
+  getIncidentWatchers,
+  watchIncident,
+  unwatchIncident,
+  type IncidentWatcher,
+} from "@/api/watchers";
+
+interface IncidentWatchersProps {
+  teamId: number;
+  incidentId: number;
+}
+
+export function IncidentWatchers({ teamId, incidentId }: IncidentWatchersProps) {
+  const [watchers, setWatchers] = useState<IncidentWatcher[]>([]);
+  const [watching, setWatching] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadWatchers(teamId, incidentId);
+  }, [teamId, incidentId]);
+
+  async function loadWatchers(teamId: number, incidentId: number) {
+    setIsLoading(true);
+    try {
+      const data = await getIncidentWatchers(teamId, incidentId);
+      setWatchers(data.watchers);
+      setWatching(data.watching);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load watchers");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleToggle() {
+    setIsSaving(true);
+    try {
+      const data = watching
+        ? await unwatchIncident(teamId, incidentId)
+        : await watchIncident(teamId, incidentId);
+      setWatchers(data.watchers);
+      setWatching(data.watching);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update watch status");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Eye className="h-4 w-4" />
+          Watchers ({watchers.length})
+        </div>
+        <Button size="sm" variant="outline" onClick={handleToggle} disabled={isLoading || isSaving}>
+          {watching ? (
+            <>
+              <EyeOff className="h-4 w-4 mr-1" />
+              Unwatch
+            </>
+          ) : (
+            <>
+              <Eye className="h-4 w-4 mr-1" />
+              Watch
+            </>
+          )}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+      )}
+
+      {!isLoading && (
+        <p className="text-sm text-muted-foreground">
+          {watchers.length === 0 ? "Nobody is watching this incident" : watchers.map((w) => w.user_name).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { Badge } from "@/components/ui/badge";
+import type { Label } from "@/api/labels";
+
+interface LabelBadgeProps {
+  label: Pick<Label, "name" | "color">;
+  className?: string;
+}
+
+/**
+ * Pick black or white text depending on the brightness of the label colour
+ */
+function getTextColor(hex: string): string {
+  const r = parseInt(hex.slice(1, 3), 16);
+  const g = parseInt(hex.slice(3, 5), 16);
+  const b = parseInt(hex.slice(5, 7), 16);
+  return r * 0.299 + g * 0.587 + b * 0.114 > 150 ? "#111827" : "#ffffff";
+}
+
+export function LabelBadge({ label, className }: LabelBadgeProps) {
+  return (
+    <Badge
+      className={className}
+      style={{ backgroundColor: label.color, color: getTextColor(label.color) }}
+    >
+      {label.name}
+    </Badge>
+  );
+}
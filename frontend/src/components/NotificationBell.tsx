@@ -0,0 +1,117 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Bell, CheckCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  type Notification,
+} from "@/api/notifications";
+import { formatRelativeTime } from "@/lib/utils";
+
+// How often the unread counter is refreshed
+const POLL_INTERVAL_MS = 30000;
+
+export function NotificationBell() {
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    loadNotifications();
+    const interval = setInterval(loadNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  async function loadNotifications() {
+    try {
+      const inbox = await getNotifications();
+      setNotifications(inbox.notifications);
+      setUnreadCount(inbox.unread_count);
+    } catch {
+      // Keep the last known state, the next poll retries
+    }
+  }
+
+  async function handleOpen(notification: Notification) {
+    if (!notification.read_at) {
+      try {
+        setUnreadCount(await markNotificationRead(notification.id));
+        setNotifications((prev) =>
+          prev.map((n) => (n.id === notification.id ? { ...n, read_at: new Date().toISOString() } : n))
+        );
+      } catch {
+        // Opening the incident matters more than the read state
+      }
+    }
+    if (notification.incident_id && notification.team_id) {
+      navigate(`/incidents?team=${notification.team_id}&incident=${notification.incident_id}`);
+    }
+  }
+
+  async function handleMarkAllRead() {
+    try {
+      await markAllNotificationsRead();
+      setUnreadCount(0);
+      setNotifications((prev) => prev.map((n) => ({ ...n, read_at: n.read_at ?? new Date().toISOString() })));
+    } catch {
+      loadNotifications();
+    }
+  }
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && loadNotifications()}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-8 w-8" title="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-white">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleMarkAllRead}>
+              <CheckCheck className="h-3 w-3 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        <div className="max-h-[400px] overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="px-2 py-4 text-center text-sm text-muted-foreground">No notifications</p>
+          ) : (
+            notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex flex-col items-start gap-0.5"
+                onClick={() => handleOpen(notification)}
+              >
+                <span className={notification.read_at ? "text-sm text-muted-foreground" : "text-sm font-medium"}>
+                  {notification.message}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {formatRelativeTime(notification.created_at)}
+                </span>
+              </DropdownMenuItem>
+            ))
+          )}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
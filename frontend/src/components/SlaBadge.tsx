@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge";
+import type { IncidentSla } from "@/api/sla";
+
+interface SlaBadgeProps {
+  sla: IncidentSla | null;
+}
+
+/**
+ * Shows which SLA targets of an incident were breached, nothing when none were
+ */
+export function SlaBadge({ sla }: SlaBadgeProps) {
+  if (!sla?.breached) return null;
+
+  const breached = [sla.response_breached && "response", sla.resolution_breached && "resolution"]
+    .filter(Boolean)
+    .join(" and ");
+
+  return (
+    <Badge variant="destructive" title={`SLA ${breached} target breached`}>
+      SLA
+    </Badge>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { BellRing, KeyRound, Trash2 } from "lucide-react";
+import {
+  getTeamIntegrationKey,
+  generateTeamIntegrationKey,
+  revokeTeamIntegrationKey,
+  getAlertIngestionUrl,
+  type TeamIntegrationKey,
+} from "@/api/alerts";
+
+interface TeamAlertIntegrationProps {
+  teamId: number;
+  onSaved?: (message: string) => void;
+}
+
+export function TeamAlertIntegration({ teamId, onSaved }: TeamAlertIntegrationProps) {
+  const [integrationKey, setIntegrationKey] = useState<TeamIntegrationKey | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [generatedKey, setGeneratedKey] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadIntegrationKey(teamId);
+    setGeneratedKey(null);
+  }, [teamId]);
+
+  async function loadIntegrationKey(teamId: number) {
+    setIsLoading(true);
+    try {
+      const data = await getTeamIntegrationKey(teamId);
+      setIntegrationKey(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load integration key");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleGenerate() {
+    if (integrationKey && !confirm("Generate a new key? The current one stops working immediately.")) return;
+
+    setIsSaving(true);
+    try {
+      const result = await generateTeamIntegrationKey(teamId);
+      setIntegrationKey(result.integrationKey);
+      setGeneratedKey(result.key);
+      setError(null);
+      onSaved?.("Integration key generated");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to generate integration key");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleRevoke() {
+    if (!confirm("Revoke the integration key? Alerts will be rejected until a new one is generated.")) return;
+
+    setIsSaving(true);
+    try {
+      await revokeTeamIntegrationKey(teamId);
+      setIntegrationKey(null);
+      setGeneratedKey(null);
+      setError(null);
+      onSaved?.("Integration key revoked");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke integration key");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Alert Ingestion
+        </CardTitle>
+        <CardDescription>
+          Point an Alertmanager webhook receiver at this URL, with the key as a Bearer token, to open
+          and resolve incidents from alerts
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+        )}
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Endpoint</p>
+          <code className="block text-xs break-all p-2 bg-muted rounded-md">
+            POST {getAlertIngestionUrl(teamId)}
+          </code>
+        </div>
+        {generatedKey && (
+          <div className="p-2 text-xs bg-muted rounded-md space-y-1">
+            <p className="font-medium">Integration key, copy it now, it will not be shown again:</p>
+            <code className="block break-all">{generatedKey}</code>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setGeneratedKey(null)}>
+              Dismiss
+            </Button>
+          </div>
+        )}
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading integration key...</div>
+        ) : (
+          <div className="flex items-center justify-between gap-2">
+            {integrationKey ? (
+              <div className="text-sm">
+                <span className="font-mono">{integrationKey.key_prefix}…</span>
+                <span className="text-muted-foreground">
+                  {" "}
+                  created {new Date(integrationKey.created_at).toLocaleDateString()},{" "}
+                  {integrationKey.last_used_at
+                    ? `last used ${new Date(integrationKey.last_used_at).toLocaleString()}`
+                    : "never used"}
+                </span>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground italic">No integration key</p>
+            )}
+            <div className="flex items-center gap-1 shrink-0">
+              <Button size="sm" onClick={handleGenerate} disabled={isSaving}>
+                <KeyRound className="h-4 w-4 mr-2" />
+                {integrationKey ? "Regenerate" : "Generate"}
+              </Button>
+              {integrationKey && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  onClick={handleRevoke}
+                  disabled={isSaving}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,248 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Save, ScrollText, UserCheck } from "lucide-react";
+import {
+  getTeamAssignment,
+  updateTeamAssignment,
+  getAssignmentDecisions,
+  type AssignmentDecision,
+  type AssignmentStrategy,
+} from "@/api/assignment";
+import type { UserWithRole } from "@/api/users";
+
+interface TeamAssignmentEditorProps {
+  teamId: number;
+  members: UserWithRole[];
+  canEdit: boolean;
+  canViewLog: boolean;
+  onSaved?: (message: string) => void;
+}
+
+const strategyLabels: Record<AssignmentStrategy, string> = {
+  none: "Manual",
+  round_robin: "Round-robin",
+  least_open: "Fewest open incidents",
+  fixed: "Default assignee",
+};
+
+const strategyDescriptions: Record<AssignmentStrategy, string> = {
+  none: "New incidents stay unassigned until a manager assigns them",
+  round_robin: "New incidents go in turn to the members with the user role",
+  least_open: "New incidents go to the member with the user role with the fewest open incidents",
+  fixed: "New incidents go to the default assignee",
+};
+
+export function TeamAssignmentEditor({ teamId, members, canEdit, canViewLog, onSaved }: TeamAssignmentEditorProps) {
+  const [strategy, setStrategy] = useState<AssignmentStrategy>("none");
+  const [defaultAssignee, setDefaultAssignee] = useState<string>("");
+  const [isDirty, setIsDirty] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showLog, setShowLog] = useState(false);
+  const [decisions, setDecisions] = useState<AssignmentDecision[]>([]);
+  const [isLoadingLog, setIsLoadingLog] = useState(false);
+
+  useEffect(() => {
+    loadAssignment(teamId);
+    setShowLog(false);
+  }, [teamId]);
+
+  async function loadAssignment(teamId: number) {
+    setIsLoading(true);
+    try {
+      const settings = await getTeamAssignment(teamId);
+      setStrategy(settings.strategy);
+      setDefaultAssignee(settings.default_assignee_user_id?.toString() ?? "");
+      setIsDirty(false);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load assignment strategy");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function loadDecisions() {
+    setIsLoadingLog(true);
+    try {
+      const data = await getAssignmentDecisions(teamId);
+      setDecisions(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load assignment log");
+    } finally {
+      setIsLoadingLog(false);
+    }
+  }
+
+  function handleToggleLog() {
+    if (!showLog) {
+      loadDecisions();
+    }
+    setShowLog(!showLog);
+  }
+
+  async function handleSave() {
+    setIsSaving(true);
+    try {
+      const settings = await updateTeamAssignment(teamId, {
+        strategy,
+        default_assignee_user_id: strategy === "fixed" && defaultAssignee ? parseInt(defaultAssignee, 10) : null,
+      });
+      setStrategy(settings.strategy);
+      setDefaultAssignee(settings.default_assignee_user_id?.toString() ?? "");
+      setIsDirty(false);
+      setError(null);
+      onSaved?.("Assignment strategy saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save assignment strategy");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function getMemberName(userId: number | null): string {
+    if (userId === null) return "Nobody";
+    return members.find((m) => m.id === userId)?.name || `User #${userId}`;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <UserCheck className="h-5 w-5" />
+              Automatic Assignment
+            </CardTitle>
+            <CardDescription>{strategyDescriptions[strategy]}</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {canViewLog && (
+              <Button size="sm" variant="outline" onClick={handleToggleLog}>
+                <ScrollText className="h-4 w-4 mr-2" />
+                {showLog ? "Hide log" : "Log"}
+              </Button>
+            )}
+            {canEdit && (
+              <Button
+                size="sm"
+                onClick={handleSave}
+                disabled={isSaving || !isDirty || (strategy === "fixed" && !defaultAssignee)}
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+        )}
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading assignment strategy...</div>
+        ) : canEdit ? (
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              value={strategy}
+              onValueChange={(v) => {
+                setStrategy(v as AssignmentStrategy);
+                setIsDirty(true);
+              }}
+            >
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(strategyLabels) as AssignmentStrategy[]).map((s) => (
+                  <SelectItem key={s} value={s}>
+                    {strategyLabels[s]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {strategy === "fixed" && (
+              <Select
+                value={defaultAssignee}
+                onValueChange={(v) => {
+                  setDefaultAssignee(v);
+                  setIsDirty(true);
+                }}
+              >
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue placeholder="Choose the default assignee" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members.map((member) => (
+                    <SelectItem key={member.id} value={member.id.toString()}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm">
+            {strategyLabels[strategy]}
+            {strategy === "fixed" && defaultAssignee && ` • ${getMemberName(parseInt(defaultAssignee, 10))}`}
+          </p>
+        )}
+        {showLog && (
+          isLoadingLog ? (
+            <p className="text-sm text-muted-foreground">Loading assignment log...</p>
+          ) : decisions.length === 0 ? (
+            <p className="text-sm text-muted-foreground italic">No automatic assignments yet</p>
+          ) : (
+            <div className="max-h-[300px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Incident</TableHead>
+                    <TableHead>Assigned to</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {decisions.map((decision) => (
+                    <TableRow key={decision.id}>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {new Date(decision.created_at).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">#{decision.incident_id}</TableCell>
+                      <TableCell className="text-xs">{getMemberName(decision.assigned_user_id)}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {strategyLabels[decision.strategy]}: {decision.reason}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
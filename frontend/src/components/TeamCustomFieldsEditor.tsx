@@ -0,0 +1,243 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ListPlus, Plus, Trash2 } from "lucide-react";
+import {
+  getTeamCustomFields,
+  createCustomField,
+  updateCustomField,
+  deleteCustomField,
+  type CustomField,
+  type CustomFieldType,
+} from "@/api/customFields";
+
+interface TeamCustomFieldsEditorProps {
+  teamId: number;
+  canEdit: boolean;
+  onSaved?: (message: string) => void;
+}
+
+const typeLabels: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  select: "Select",
+  date: "Date",
+  user: "User",
+};
+
+/**
+ * Split comma-separated options, dropping empty ones
+ */
+function parseOptions(value: string): string[] {
+  return value
+    .split(",")
+    .map((option) => option.trim())
+    .filter((option) => option !== "");
+}
+
+export function TeamCustomFieldsEditor({ teamId, canEdit, onSaved }: TeamCustomFieldsEditorProps) {
+  const [fields, setFields] = useState<CustomField[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newName, setNewName] = useState("");
+  const [newType, setNewType] = useState<CustomFieldType>("text");
+  const [newOptions, setNewOptions] = useState("");
+  const [newRequired, setNewRequired] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadFields(teamId);
+  }, [teamId]);
+
+  async function loadFields(teamId: number) {
+    setIsLoading(true);
+    try {
+      const data = await getTeamCustomFields(teamId);
+      setFields(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load custom fields");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleCreate() {
+    if (!newName.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const field = await createCustomField(teamId, {
+        name: newName.trim(),
+        field_type: newType,
+        options: newType === "select" ? parseOptions(newOptions) : undefined,
+        is_required: newRequired,
+      });
+      setFields((prev) => [...prev, field]);
+      setNewName("");
+      setNewType("text");
+      setNewOptions("");
+      setNewRequired(false);
+      setError(null);
+      onSaved?.("Custom field created");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create custom field");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleUpdate(
+    field: CustomField,
+    updates: { name?: string; options?: string[]; is_required?: boolean }
+  ) {
+    try {
+      const updated = await updateCustomField(teamId, field.id, updates);
+      setFields((prev) => prev.map((f) => (f.id === field.id ? updated : f)));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update custom field");
+    }
+  }
+
+  async function handleDelete(field: CustomField) {
+    if (!confirm(`Delete field "${field.name}"? Its values will be removed from all incidents.`)) return;
+
+    try {
+      await deleteCustomField(teamId, field.id);
+      setFields((prev) => prev.filter((f) => f.id !== field.id));
+      setError(null);
+      onSaved?.("Custom field deleted");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete custom field");
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListPlus className="h-5 w-5" />
+          Custom Fields
+        </CardTitle>
+        <CardDescription>Extra data recorded on this team's incidents</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+        )}
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading custom fields...</div>
+        ) : fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">No custom fields defined</p>
+        ) : (
+          <div className="space-y-2">
+            {fields.map((field) =>
+              canEdit ? (
+                <div key={field.id} className="flex flex-wrap items-center gap-2">
+                  <Input
+                    defaultValue={field.name}
+                    onBlur={(e) =>
+                      e.target.value.trim() !== field.name && handleUpdate(field, { name: e.target.value.trim() })
+                    }
+                    className="w-[180px]"
+                    maxLength={100}
+                  />
+                  <Badge variant="outline">{typeLabels[field.field_type]}</Badge>
+                  {field.field_type === "select" && (
+                    <Input
+                      defaultValue={field.options.join(", ")}
+                      onBlur={(e) =>
+                        e.target.value !== field.options.join(", ") &&
+                        handleUpdate(field, { options: parseOptions(e.target.value) })
+                      }
+                      className="flex-1 min-w-[160px]"
+                      title="Comma-separated options"
+                    />
+                  )}
+                  <label className="flex items-center gap-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={field.is_required}
+                      onChange={(e) => handleUpdate(field, { is_required: e.target.checked })}
+                    />
+                    Required
+                  </label>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    onClick={() => handleDelete(field)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div key={field.id} className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">{field.name}</span>
+                  <Badge variant="outline">{typeLabels[field.field_type]}</Badge>
+                  {field.is_required && <span className="text-xs text-muted-foreground">required</span>}
+                </div>
+              )
+            )}
+          </div>
+        )}
+        {canEdit && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="New field name"
+                maxLength={100}
+              />
+              <Select value={newType} onValueChange={(v) => setNewType(v as CustomFieldType)}>
+                <SelectTrigger className="w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(typeLabels) as CustomFieldType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {typeLabels[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                onClick={handleCreate}
+                disabled={isSaving || !newName.trim() || (newType === "select" && parseOptions(newOptions).length === 0)}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              {newType === "select" && (
+                <Input
+                  value={newOptions}
+                  onChange={(e) => setNewOptions(e.target.value)}
+                  placeholder="Options, comma-separated"
+                />
+              )}
+              <label className="flex items-center gap-2 text-xs shrink-0">
+                <input type="checkbox" checked={newRequired} onChange={(e) => setNewRequired(e.target.checked)} />
+                Required
+              </label>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
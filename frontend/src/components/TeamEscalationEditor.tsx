@@ -0,0 +1,244 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Save, Siren, Trash2 } from "lucide-react";
+import {
+  getTeamEscalation,
+  updateTeamEscalation,
+  type EscalationLevel,
+  type EscalationTarget,
+} from "@/api/escalation";
+import type { Team, UserPublic } from "@/api/users";
+
+interface TeamEscalationEditorProps {
+  teamId: number;
+  users: UserPublic[];
+  teams: Team[];
+  canEdit: boolean;
+  onSaved?: (message: string) => void;
+}
+
+type LevelDraft = Omit<EscalationLevel, "level">;
+
+const targetLabels: Record<EscalationTarget, string> = {
+  oncall: "On-call",
+  user: "User",
+  managers: "Managers",
+  team: "Another team",
+};
+
+export function TeamEscalationEditor({ teamId, users, teams, canEdit, onSaved }: TeamEscalationEditorProps) {
+  const [levels, setLevels] = useState<LevelDraft[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const otherTeams = teams.filter((t) => t.id !== teamId);
+
+  useEffect(() => {
+    loadEscalation(teamId);
+  }, [teamId]);
+
+  async function loadEscalation(teamId: number) {
+    setIsLoading(true);
+    try {
+      const data = await getTeamEscalation(teamId);
+      setLevels(data);
+      setIsDirty(false);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load escalation policy");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function updateLevel(index: number, changes: Partial<LevelDraft>) {
+    setLevels((prev) => prev.map((l, i) => (i === index ? { ...l, ...changes } : l)));
+    setIsDirty(true);
+  }
+
+  function handleAddLevel() {
+    setLevels((prev) => [
+      ...prev,
+      { delay_minutes: 15, target_type: "oncall", target_user_id: null, target_team_id: null },
+    ]);
+    setIsDirty(true);
+  }
+
+  function handleRemoveLevel(index: number) {
+    setLevels((prev) => prev.filter((_, i) => i !== index));
+    setIsDirty(true);
+  }
+
+  async function handleSave() {
+    setIsSaving(true);
+    try {
+      const data = await updateTeamEscalation(teamId, levels);
+      setLevels(data);
+      setIsDirty(false);
+      setError(null);
+      onSaved?.("Escalation policy saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save escalation policy");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function describeTarget(level: LevelDraft): string {
+    if (level.target_type === "user") {
+      return users.find((u) => u.id === level.target_user_id)?.name || `User #${level.target_user_id}`;
+    }
+    if (level.target_type === "team") {
+      const team = teams.find((t) => t.id === level.target_team_id);
+      return `On-call of ${team?.name || `team #${level.target_team_id}`}`;
+    }
+    return targetLabels[level.target_type];
+  }
+
+  const isValid = levels.every(
+    (l) =>
+      Number.isInteger(l.delay_minutes) &&
+      l.delay_minutes > 0 &&
+      (l.target_type !== "user" || l.target_user_id !== null) &&
+      (l.target_type !== "team" || l.target_team_id !== null)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Siren className="h-5 w-5" />
+              Escalation Policy
+            </CardTitle>
+            <CardDescription>
+              Incidents nobody acknowledged are escalated level by level, each after its delay
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={handleSave} disabled={isSaving || !isDirty || !isValid}>
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+        )}
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading escalation policy...</div>
+        ) : levels.length === 0 && !canEdit ? (
+          <p className="text-sm text-muted-foreground italic">No escalation policy</p>
+        ) : (
+          <>
+            {levels.map((level, index) =>
+              canEdit ? (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium w-16">Level {index + 1}</span>
+                  <span className="text-sm text-muted-foreground">after</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-[90px]"
+                    value={level.delay_minutes}
+                    onChange={(e) => updateLevel(index, { delay_minutes: parseInt(e.target.value, 10) || 0 })}
+                  />
+                  <span className="text-sm text-muted-foreground">min, notify</span>
+                  <Select
+                    value={level.target_type}
+                    onValueChange={(v) =>
+                      updateLevel(index, {
+                        target_type: v as EscalationTarget,
+                        target_user_id: null,
+                        target_team_id: null,
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-[140px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(targetLabels) as EscalationTarget[]).map((target) => (
+                        <SelectItem key={target} value={target}>
+                          {targetLabels[target]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {level.target_type === "user" && (
+                    <Select
+                      value={level.target_user_id?.toString() ?? ""}
+                      onValueChange={(v) => updateLevel(index, { target_user_id: parseInt(v, 10) })}
+                    >
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue placeholder="Choose a user" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {users.map((user) => (
+                          <SelectItem key={user.id} value={user.id.toString()}>
+                            {user.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {level.target_type === "team" && (
+                    <Select
+                      value={level.target_team_id?.toString() ?? ""}
+                      onValueChange={(v) => updateLevel(index, { target_team_id: parseInt(v, 10) })}
+                    >
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue placeholder="Choose a team" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {otherTeams.map((team) => (
+                          <SelectItem key={team.id} value={team.id.toString()}>
+                            {team.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    onClick={() => handleRemoveLevel(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <p key={index} className="text-sm">
+                  <span className="font-medium">Level {index + 1}</span>{" "}
+                  <span className="text-muted-foreground">after {level.delay_minutes} min:</span>{" "}
+                  {describeTarget(level)}
+                </p>
+              )
+            )}
+            {canEdit && (
+              <Button variant="outline" size="sm" onClick={handleAddLevel}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add level
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Plus, Tag, Trash2 } from "lucide-react";
+import { getTeamLabels, createLabel, updateLabel, deleteLabel, type Label } from "@/api/labels";
+import { LabelBadge } from "./LabelBadge";
+
+interface TeamLabelsEditorProps {
+  teamId: number;
+  canEdit: boolean;
+  onSaved?: (message: string) => void;
+}
+
+const DEFAULT_COLOR = "#6b7280";
+
+export function TeamLabelsEditor({ teamId, canEdit, onSaved }: TeamLabelsEditorProps) {
+  const [labels, setLabels] = useState<Label[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState(DEFAULT_COLOR);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadLabels(teamId);
+  }, [teamId]);
+
+  async function loadLabels(teamId: number) {
+    setIsLoading(true);
+    try {
+      const data = await getTeamLabels(teamId);
+      setLabels(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load labels");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleCreate() {
+    if (!newName.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const label = await createLabel(teamId, newName.trim(), newColor);
+      setLabels((prev) => [...prev, label].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewName("");
+      setNewColor(DEFAULT_COLOR);
+      setError(null);
+      onSaved?.("Label created");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create label");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleColorChange(labelId: number, color: string) {
+    try {
+      const updated = await updateLabel(teamId, labelId, { color });
+      setLabels((prev) => prev.map((l) => (l.id === labelId ? updated : l)));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update label");
+    }
+  }
+
+  async function handleDelete(label: Label) {
+    if (!confirm(`Delete label "${label.name}"? It will be removed from all incidents.`)) return;
+
+    try {
+      await deleteLabel(teamId, label.id);
+      setLabels((prev) => prev.filter((l) => l.id !== label.id));
+      setError(null);
+      onSaved?.("Label deleted");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete label");
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tag className="h-5 w-5" />
+          Labels
+        </CardTitle>
+        <CardDescription>Labels available to this team's incidents</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+        )}
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading labels...</div>
+        ) : labels.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">No labels defined</p>
+        ) : (
+          <div className="space-y-2">
+            {labels.map((label) => (
+              <div key={label.id} className="flex items-center justify-between gap-2">
+                <LabelBadge label={label} />
+                {canEdit && (
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="color"
+                      defaultValue={label.color}
+                      onBlur={(e) => e.target.value !== label.color && handleColorChange(label.id, e.target.value)}
+                      className="h-8 w-8 cursor-pointer rounded border bg-transparent"
+                      title="Change colour"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => handleDelete(label)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {canEdit && (
+          <div className="flex items-center gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New label name"
+              maxLength={50}
+            />
+            <input
+              type="color"
+              value={newColor}
+              onChange={(e) => setNewColor(e.target.value)}
+              className="h-9 w-9 shrink-0 cursor-pointer rounded border bg-transparent"
+              title="Label colour"
+            />
+            <Button size="sm" onClick={handleCreate} disabled={isSaving || !newName.trim()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
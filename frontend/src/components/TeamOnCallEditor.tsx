@@ -0,0 +1,561 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowUp, CalendarClock, ChevronLeft, ChevronRight, Pencil, Plus, Trash2, X } from "lucide-react";
+import {
+  getTeamOnCall,
+  getOnCallSchedules,
+  createOnCallSchedule,
+  updateOnCallSchedule,
+  deleteOnCallSchedule,
+  getOnCallShifts,
+  createOnCallOverride,
+  deleteOnCallOverride,
+  type OnCallNow,
+  type OnCallRotation,
+  type OnCallSchedule,
+  type OnCallShift,
+} from "@/api/oncall";
+import type { UserWithRole } from "@/api/users";
+
+interface TeamOnCallEditorProps {
+  teamId: number;
+  members: UserWithRole[];
+  canEditSchedules: boolean;
+  canEditOverrides: boolean;
+  onSaved?: (message: string) => void;
+}
+
+interface ScheduleForm {
+  id: number | null;
+  name: string;
+  rotation: OnCallRotation;
+  starts_at: string;
+  user_ids: number[];
+}
+
+interface OverrideForm {
+  user_id: string;
+  starts_at: string;
+  ends_at: string;
+  note: string;
+}
+
+const CALENDAR_DAYS = 28;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyOverride: OverrideForm = { user_id: "", starts_at: "", ends_at: "", note: "" };
+
+/**
+ * Format a date for a datetime-local input, in local time
+ */
+function toLocalInput(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Monday of the current week, at local midnight
+ */
+function startOfWeek(): Date {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date;
+}
+
+export function TeamOnCallEditor({
+  teamId,
+  members,
+  canEditSchedules,
+  canEditOverrides,
+  onSaved,
+}: TeamOnCallEditorProps) {
+  const [schedules, setSchedules] = useState<OnCallSchedule[]>([]);
+  const [oncallNow, setOncallNow] = useState<OnCallNow[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [shifts, setShifts] = useState<OnCallShift[]>([]);
+  const [rangeStart, setRangeStart] = useState<Date>(startOfWeek);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [form, setForm] = useState<ScheduleForm | null>(null);
+  const [overrideForm, setOverrideForm] = useState<OverrideForm | null>(null);
+
+  const selected = schedules.find((s) => s.id === selectedId) ?? null;
+
+  useEffect(() => {
+    loadSchedules(teamId);
+    setForm(null);
+    setOverrideForm(null);
+  }, [teamId]);
+
+  useEffect(() => {
+    if (selectedId !== null) {
+      loadShifts(teamId, selectedId, rangeStart);
+    } else {
+      setShifts([]);
+    }
+  }, [teamId, selectedId, rangeStart]);
+
+  async function loadSchedules(teamId: number, keepSelectedId: number | null = null) {
+    setIsLoading(true);
+    try {
+      const [data, now] = await Promise.all([getOnCallSchedules(teamId), getTeamOnCall(teamId)]);
+      setSchedules(data);
+      setOncallNow(now);
+      setSelectedId(
+        keepSelectedId !== null && data.some((s) => s.id === keepSelectedId)
+          ? keepSelectedId
+          : data[0]?.id ?? null
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load on-call schedules");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function loadShifts(teamId: number, scheduleId: number, from: Date) {
+    try {
+      const data = await getOnCallShifts(teamId, scheduleId, from, new Date(from.getTime() + CALENDAR_DAYS * DAY_MS));
+      setShifts(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load shifts");
+    }
+  }
+
+  function getMemberName(userId: number): string {
+    return members.find((m) => m.id === userId)?.name || `User #${userId}`;
+  }
+
+  function openNewSchedule() {
+    setOverrideForm(null);
+    setForm({ id: null, name: "", rotation: "weekly", starts_at: toLocalInput(startOfWeek()), user_ids: [] });
+  }
+
+  function openEditSchedule(schedule: OnCallSchedule) {
+    setOverrideForm(null);
+    setForm({
+      id: schedule.id,
+      name: schedule.name,
+      rotation: schedule.rotation,
+      starts_at: toLocalInput(new Date(schedule.starts_at)),
+      user_ids: schedule.user_ids,
+    });
+  }
+
+  function moveUp(index: number) {
+    if (!form || index === 0) return;
+    const userIds = [...form.user_ids];
+    [userIds[index - 1], userIds[index]] = [userIds[index], userIds[index - 1]];
+    setForm({ ...form, user_ids: userIds });
+  }
+
+  async function handleSaveSchedule() {
+    if (!form || !form.name.trim() || !form.starts_at) return;
+
+    setIsSaving(true);
+    try {
+      const data = {
+        name: form.name.trim(),
+        rotation: form.rotation,
+        starts_at: new Date(form.starts_at).toISOString(),
+        user_ids: form.user_ids,
+      };
+      const schedule = form.id === null
+        ? await createOnCallSchedule(teamId, data)
+        : await updateOnCallSchedule(teamId, form.id, data);
+      setForm(null);
+      await loadSchedules(teamId, schedule.id);
+      onSaved?.(form.id === null ? "On-call schedule created" : "On-call schedule saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save on-call schedule");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDeleteSchedule(schedule: OnCallSchedule) {
+    if (!confirm(`Delete the schedule "${schedule.name}" and its overrides?`)) return;
+
+    try {
+      await deleteOnCallSchedule(teamId, schedule.id);
+      setForm(null);
+      await loadSchedules(teamId);
+      onSaved?.("On-call schedule deleted");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete on-call schedule");
+    }
+  }
+
+  async function handleAddOverride() {
+    if (!selected || !overrideForm || !overrideForm.user_id || !overrideForm.starts_at || !overrideForm.ends_at) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await createOnCallOverride(teamId, selected.id, {
+        user_id: parseInt(overrideForm.user_id, 10),
+        starts_at: new Date(overrideForm.starts_at).toISOString(),
+        ends_at: new Date(overrideForm.ends_at).toISOString(),
+        note: overrideForm.note.trim() || undefined,
+      });
+      setOverrideForm(null);
+      await loadSchedules(teamId, selected.id);
+      await loadShifts(teamId, selected.id, rangeStart);
+      onSaved?.("Override added");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add override");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDeleteOverride(overrideId: number) {
+    if (!selected) return;
+
+    try {
+      await deleteOnCallOverride(teamId, selected.id, overrideId);
+      await loadSchedules(teamId, selected.id);
+      await loadShifts(teamId, selected.id, rangeStart);
+      onSaved?.("Override removed");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove override");
+    }
+  }
+
+  function shiftsOfDay(day: Date): OnCallShift[] {
+    const start = day.getTime();
+    const end = start + DAY_MS;
+    return shifts.filter((s) => new Date(s.starts_at).getTime() < end && new Date(s.ends_at).getTime() > start);
+  }
+
+  const days = Array.from({ length: CALENDAR_DAYS }, (_, i) => {
+    const day = new Date(rangeStart);
+    day.setDate(day.getDate() + i);
+    return day;
+  });
+  const today = new Date().toDateString();
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              On-call
+            </CardTitle>
+            <CardDescription>
+              {oncallNow.length === 0
+                ? "Nobody is on call right now"
+                : `On call now: ${oncallNow
+                    .map((o) => `${getMemberName(o.user_id)} (${o.schedule_name})`)
+                    .join(", ")}`}
+            </CardDescription>
+          </div>
+          {canEditSchedules && (
+            <Button size="sm" onClick={openNewSchedule} disabled={form !== null}>
+              <Plus className="h-4 w-4 mr-2" />
+              New schedule
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+        )}
+
+        {form && (
+          <div className="rounded-md border p-3 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                className="w-[200px]"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Schedule name"
+                maxLength={100}
+              />
+              <Select
+                value={form.rotation}
+                onValueChange={(v) => setForm({ ...form, rotation: v as OnCallRotation })}
+              >
+                <SelectTrigger className="w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="datetime-local"
+                className="w-[210px]"
+                value={form.starts_at}
+                onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+                title="First handoff, later handoffs happen at the same time"
+              />
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Rotation order</p>
+              {form.user_ids.length === 0 ? (
+                <p className="text-sm text-muted-foreground italic">No members in the rotation</p>
+              ) : (
+                <ol className="space-y-1">
+                  {form.user_ids.map((userId, index) => (
+                    <li key={userId} className="flex items-center gap-2 text-sm">
+                      <span className="w-5 text-muted-foreground">{index + 1}.</span>
+                      <span className="flex-1">{getMemberName(userId)}</span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => moveUp(index)}
+                        disabled={index === 0}
+                      >
+                        <ArrowUp className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => setForm({ ...form, user_ids: form.user_ids.filter((id) => id !== userId) })}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              <Select
+                value=""
+                onValueChange={(v) => setForm({ ...form, user_ids: [...form.user_ids, parseInt(v, 10)] })}
+              >
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder="Add member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members
+                    .filter((m) => !form.user_ids.includes(m.id))
+                    .map((member) => (
+                      <SelectItem key={member.id} value={member.id.toString()}>
+                        {member.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="outline" onClick={() => setForm(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSaveSchedule}
+                disabled={isSaving || !form.name.trim() || !form.starts_at}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading on-call schedules...</div>
+        ) : schedules.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">No on-call schedules</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Select
+                  value={selectedId?.toString() ?? ""}
+                  onValueChange={(v) => setSelectedId(parseInt(v, 10))}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {schedules.map((schedule) => (
+                      <SelectItem key={schedule.id} value={schedule.id.toString()}>
+                        {schedule.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selected && <Badge variant="outline">{selected.rotation}</Badge>}
+                {selected && canEditSchedules && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => openEditSchedule(selected)}
+                      disabled={form !== null}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => handleDeleteSchedule(selected)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setRangeStart(new Date(rangeStart.getTime() - CALENDAR_DAYS * DAY_MS))}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setRangeStart(startOfWeek())}>
+                  Today
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setRangeStart(new Date(rangeStart.getTime() + CALENDAR_DAYS * DAY_MS))}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-7 gap-1">
+              {days.map((day) => (
+                <div
+                  key={day.toISOString()}
+                  className={`min-h-[64px] rounded-md border p-1 ${day.toDateString() === today ? "border-primary" : ""}`}
+                >
+                  <div className="text-xs text-muted-foreground">
+                    {day.toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short" })}
+                  </div>
+                  {shiftsOfDay(day).map((shift) => (
+                    <div
+                      key={shift.starts_at}
+                      className={`text-xs truncate ${shift.is_override ? "font-medium text-blue-700" : ""}`}
+                      title={`${getMemberName(shift.user_id)}: ${new Date(shift.starts_at).toLocaleString()} - ${new Date(shift.ends_at).toLocaleString()}`}
+                    >
+                      {getMemberName(shift.user_id)}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Overrides</span>
+                  {canEditOverrides && !overrideForm && (
+                    <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setOverrideForm(emptyOverride)}>
+                      <Plus className="h-3 w-3 mr-1" />
+                      Add override
+                    </Button>
+                  )}
+                </div>
+                {overrideForm && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Select
+                      value={overrideForm.user_id}
+                      onValueChange={(v) => setOverrideForm({ ...overrideForm, user_id: v })}
+                    >
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue placeholder="On call instead" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {members.map((member) => (
+                          <SelectItem key={member.id} value={member.id.toString()}>
+                            {member.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="datetime-local"
+                      className="w-[210px]"
+                      value={overrideForm.starts_at}
+                      onChange={(e) => setOverrideForm({ ...overrideForm, starts_at: e.target.value })}
+                    />
+                    <Input
+                      type="datetime-local"
+                      className="w-[210px]"
+                      value={overrideForm.ends_at}
+                      onChange={(e) => setOverrideForm({ ...overrideForm, ends_at: e.target.value })}
+                    />
+                    <Input
+                      className="w-[180px]"
+                      value={overrideForm.note}
+                      onChange={(e) => setOverrideForm({ ...overrideForm, note: e.target.value })}
+                      placeholder="Note (optional)"
+                      maxLength={255}
+                    />
+                    <Button
+                      size="sm"
+                      onClick={handleAddOverride}
+                      disabled={isSaving || !overrideForm.user_id || !overrideForm.starts_at || !overrideForm.ends_at}
+                    >
+                      Add
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setOverrideForm(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+                {selected.overrides.length === 0 ? (
+                  <p className="text-sm text-muted-foreground italic">No overrides</p>
+                ) : (
+                  <div className="space-y-1">
+                    {selected.overrides.map((override) => (
+                      <div key={override.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate">
+                          <span className="font-medium">{getMemberName(override.user_id)}</span>{" "}
+                          <span className="text-muted-foreground">
+                            {new Date(override.starts_at).toLocaleString()} - {new Date(override.ends_at).toLocaleString()}
+                            {override.note && ` • ${override.note}`}
+                          </span>
+                        </span>
+                        {canEditOverrides && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 text-destructive shrink-0"
+                            onClick={() => handleDeleteOverride(override.id)}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Save, Timer } from "lucide-react";
+import {
+  getTeamSlaTargets,
+  updateTeamSlaTargets,
+  getTeamSlaReport,
+  type SlaReport,
+  type SlaTarget,
+} from "@/api/sla";
+import type { IncidentSeverity } from "@/api/incidents";
+
+interface TeamSlaEditorProps {
+  teamId: number;
+  canEdit: boolean;
+  onSaved?: (message: string) => void;
+}
+
+// Minutes as typed, "" means no target
+type TargetInputs = Record<IncidentSeverity, { respond: string; resolve: string }>;
+
+const severities: IncidentSeverity[] = ["sev1", "sev2", "sev3", "sev4"];
+
+const REPORT_DAYS = 30;
+
+function toInputs(targets: SlaTarget[]): TargetInputs {
+  const inputs = {} as TargetInputs;
+  for (const severity of severities) {
+    const target = targets.find((t) => t.severity === severity);
+    inputs[severity] = {
+      respond: target?.respond_within_minutes?.toString() ?? "",
+      resolve: target?.resolve_within_minutes?.toString() ?? "",
+    };
+  }
+  return inputs;
+}
+
+function toTargets(inputs: TargetInputs): SlaTarget[] {
+  return severities
+    .filter((severity) => inputs[severity].respond !== "" || inputs[severity].resolve !== "")
+    .map((severity) => ({
+      severity,
+      respond_within_minutes: inputs[severity].respond === "" ? null : Number(inputs[severity].respond),
+      resolve_within_minutes: inputs[severity].resolve === "" ? null : Number(inputs[severity].resolve),
+    }));
+}
+
+function formatMinutes(value: string): string {
+  if (value === "") return "—";
+  const minutes = Number(value);
+  if (minutes % 1440 === 0) return `${minutes / 1440}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
+
+export function TeamSlaEditor({ teamId, canEdit, onSaved }: TeamSlaEditorProps) {
+  const [inputs, setInputs] = useState<TargetInputs>(toInputs([]));
+  const [report, setReport] = useState<SlaReport | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSla(teamId);
+  }, [teamId]);
+
+  async function loadSla(teamId: number) {
+    setIsLoading(true);
+    try {
+      const [targets, report] = await Promise.all([
+        getTeamSlaTargets(teamId),
+        getTeamSlaReport(teamId, REPORT_DAYS),
+      ]);
+      setInputs(toInputs(targets));
+      setReport(report);
+      setIsDirty(false);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load SLA");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function handleInputChange(severity: IncidentSeverity, field: "respond" | "resolve", value: string) {
+    setInputs((prev) => ({ ...prev, [severity]: { ...prev[severity], [field]: value.trim() } }));
+    setIsDirty(true);
+  }
+
+  async function handleSave() {
+    setIsSaving(true);
+    try {
+      const targets = await updateTeamSlaTargets(teamId, toTargets(inputs));
+      setInputs(toInputs(targets));
+      setIsDirty(false);
+      setError(null);
+      setReport(await getTeamSlaReport(teamId, REPORT_DAYS));
+      onSaved?.("SLA targets saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save SLA targets");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function severityReport(severity: IncidentSeverity) {
+    return report?.by_severity.find((s) => s.severity === severity);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="h-5 w-5" />
+              SLA Targets
+            </CardTitle>
+            <CardDescription>
+              Minutes from creation to the first response and to resolution, per severity
+              {report && report.compliance !== null && (
+                <> • {report.compliance}% met in the last {report.days} days</>
+              )}
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={handleSave} disabled={isSaving || !isDirty}>
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+        )}
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading SLA...</div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Respond within</TableHead>
+                  <TableHead>Resolve within</TableHead>
+                  <TableHead>Breached ({REPORT_DAYS}d)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {severities.map((severity) => {
+                  const stats = severityReport(severity);
+                  return (
+                    <TableRow key={severity}>
+                      <TableCell className="font-medium">{severity.toUpperCase()}</TableCell>
+                      {(["respond", "resolve"] as const).map((field) => (
+                        <TableCell key={field}>
+                          {canEdit ? (
+                            <Input
+                              type="number"
+                              min={1}
+                              className="w-[110px]"
+                              value={inputs[severity][field]}
+                              onChange={(e) => handleInputChange(severity, field, e.target.value)}
+                              placeholder="No target"
+                            />
+                          ) : (
+                            <span className={inputs[severity][field] === "" ? "text-muted-foreground" : ""}>
+                              {formatMinutes(inputs[severity][field])}
+                            </span>
+                          )}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-sm">
+                        {stats && stats.total > 0 ? `${stats.breached} of ${stats.total}` : "—"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {report && report.breached_incidents.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Breached in the last {report.days} days</p>
+                <div className="max-h-[200px] overflow-y-auto space-y-1">
+                  {report.breached_incidents.map((incident) => (
+                    <div key={incident.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="truncate">
+                        #{incident.id} {incident.title}
+                      </span>
+                      <div className="flex items-center gap-1 shrink-0">
+                        {incident.sla?.response_breached && <Badge variant="destructive">Response</Badge>}
+                        {incident.sla?.resolution_breached && <Badge variant="destructive">Resolution</Badge>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileText, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  getTeamTemplates,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+  type IncidentTemplate,
+  type IncidentTemplateData,
+} from "@/api/templates";
+import { getTeamLabels, type Label } from "@/api/labels";
+import type { IncidentSeverity } from "@/api/incidents";
+import { LabelBadge } from "./LabelBadge";
+
+interface TeamTemplatesEditorProps {
+  teamId: number;
+  canEdit: boolean;
+  onSaved?: (message: string) => void;
+}
+
+const severityLabels: Record<IncidentSeverity, string> = {
+  sev1: "SEV1 - Critical",
+  sev2: "SEV2 - Major",
+  sev3: "SEV3 - Moderate",
+  sev4: "SEV4 - Minor",
+};
+
+const emptyDraft: IncidentTemplateData = {
+  name: "",
+  title: "",
+  description: null,
+  severity: null,
+  label_ids: [],
+};
+
+export function TeamTemplatesEditor({ teamId, canEdit, onSaved }: TeamTemplatesEditorProps) {
+  const [templates, setTemplates] = useState<IncidentTemplate[]>([]);
+  const [labels, setLabels] = useState<Label[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // "new" while creating, the template ID while editing one
+  const [editingId, setEditingId] = useState<number | "new" | null>(null);
+  const [draft, setDraft] = useState<IncidentTemplateData>(emptyDraft);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadTemplates(teamId);
+    setEditingId(null);
+  }, [teamId]);
+
+  async function loadTemplates(teamId: number) {
+    setIsLoading(true);
+    try {
+      const [templateData, labelData] = await Promise.all([getTeamTemplates(teamId), getTeamLabels(teamId)]);
+      setTemplates(templateData);
+      setLabels(labelData);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load templates");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function handleStartCreate() {
+    setDraft(emptyDraft);
+    setEditingId("new");
+  }
+
+  function handleStartEdit(template: IncidentTemplate) {
+    setDraft({
+      name: template.name,
+      title: template.title,
+      description: template.description,
+      severity: template.severity,
+      label_ids: template.label_ids,
+    });
+    setEditingId(template.id);
+  }
+
+  function toggleLabel(labelId: number) {
+    setDraft((prev) => ({
+      ...prev,
+      label_ids: prev.label_ids.includes(labelId)
+        ? prev.label_ids.filter((id) => id !== labelId)
+        : [...prev.label_ids, labelId],
+    }));
+  }
+
+  async function handleSave() {
+    if (!draft.name.trim() || editingId === null) return;
+
+    setIsSaving(true);
+    try {
+      if (editingId === "new") {
+        const template = await createTemplate(teamId, draft);
+        setTemplates((prev) => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+        onSaved?.("Template created");
+      } else {
+        const template = await updateTemplate(teamId, editingId, draft);
+        setTemplates((prev) =>
+          prev.map((t) => (t.id === editingId ? template : t)).sort((a, b) => a.name.localeCompare(b.name))
+        );
+        onSaved?.("Template saved");
+      }
+      setEditingId(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save template");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDelete(template: IncidentTemplate) {
+    if (!confirm(`Delete template "${template.name}"? Incidents created from it are kept.`)) return;
+
+    try {
+      await deleteTemplate(teamId, template.id);
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      if (editingId === template.id) {
+        setEditingId(null);
+      }
+      setError(null);
+      onSaved?.("Template deleted");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete template");
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Incident Templates
+            </CardTitle>
+            <CardDescription>Starting points offered when reporting an incident</CardDescription>
+          </div>
+          {canEdit && editingId === null && (
+            <Button size="sm" variant="outline" onClick={handleStartCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              New template
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+        )}
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading templates...</div>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">No templates defined</p>
+        ) : (
+          <div className="space-y-2">
+            {templates.map((template) => (
+              <div key={template.id} className="flex items-center justify-between gap-2">
+                <div className="min-w-0 space-y-1">
+                  <p className="text-sm font-medium">{template.name}</p>
+                  <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                    {template.severity && <span>{severityLabels[template.severity]}</span>}
+                    {labels
+                      .filter((label) => template.label_ids.includes(label.id))
+                      .map((label) => (
+                        <LabelBadge key={label.id} label={label} />
+                      ))}
+                  </div>
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleStartEdit(template)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => handleDelete(template)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {canEdit && editingId !== null && (
+          <div className="space-y-3 rounded-md border p-3">
+            <Input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Template name"
+              maxLength={100}
+            />
+            <Input
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              placeholder="Prefilled title (optional)"
+              maxLength={255}
+            />
+            <Textarea
+              value={draft.description ?? ""}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value || null })}
+              placeholder="Description skeleton (optional)"
+              rows={5}
+            />
+            <Select
+              value={draft.severity ?? "none"}
+              onValueChange={(v) =>
+                setDraft({ ...draft, severity: v === "none" ? null : (v as IncidentSeverity) })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No default severity</SelectItem>
+                {(Object.keys(severityLabels) as IncidentSeverity[]).map((severity) => (
+                  <SelectItem key={severity} value={severity}>
+                    {severityLabels[severity]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {labels.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {labels.map((label) => (
+                  <button
+                    key={label.id}
+                    type="button"
+                    onClick={() => toggleLabel(label.id)}
+                    className={draft.label_ids.includes(label.id) ? "" : "opacity-40"}
+                    title={draft.label_ids.includes(label.id) ? "Remove default label" : "Add default label"}
+                  >
+                    <LabelBadge label={label} />
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={isSaving || !draft.name.trim()}>
+                {isSaving ? "Saving..." : "Save template"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
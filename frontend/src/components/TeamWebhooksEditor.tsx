@@ -0,0 +1,363 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Pause, Play, Plus, RefreshCw, RotateCcw, ScrollText, Trash2, Webhook } from "lucide-react";
+import {
+  getTeamWebhooks,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  retryWebhookDelivery,
+  WEBHOOK_EVENTS,
+  type TeamWebhook,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEvent,
+} from "@/api/webhooks";
+
+interface TeamWebhooksEditorProps {
+  teamId: number;
+  onSaved?: (message: string) => void;
+}
+
+const deliveryStatusVariants: Record<WebhookDeliveryStatus, "default" | "secondary" | "destructive"> = {
+  delivered: "default",
+  pending: "secondary",
+  failed: "destructive",
+};
+
+export function TeamWebhooksEditor({ teamId, onSaved }: TeamWebhooksEditorProps) {
+  const [webhooks, setWebhooks] = useState<TeamWebhook[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newUrl, setNewUrl] = useState("");
+  const [newEvents, setNewEvents] = useState<WebhookEvent[]>(WEBHOOK_EVENTS);
+  const [isSaving, setIsSaving] = useState(false);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+
+  const [logWebhookId, setLogWebhookId] = useState<number | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoadingDeliveries, setIsLoadingDeliveries] = useState(false);
+
+  useEffect(() => {
+    loadWebhooks(teamId);
+    setLogWebhookId(null);
+    setCreatedSecret(null);
+  }, [teamId]);
+
+  async function loadWebhooks(teamId: number) {
+    setIsLoading(true);
+    try {
+      const data = await getTeamWebhooks(teamId);
+      setWebhooks(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load webhooks");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function loadDeliveries(webhookId: number) {
+    setIsLoadingDeliveries(true);
+    try {
+      const data = await getWebhookDeliveries(teamId, webhookId);
+      setDeliveries(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load deliveries");
+    } finally {
+      setIsLoadingDeliveries(false);
+    }
+  }
+
+  function toggleNewEvent(event: WebhookEvent) {
+    setNewEvents((prev) =>
+      prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]
+    );
+  }
+
+  async function handleCreate() {
+    if (!newUrl.trim() || newEvents.length === 0) return;
+
+    setIsSaving(true);
+    try {
+      const { secret, ...webhook } = await createWebhook(teamId, newUrl.trim(), newEvents);
+      setWebhooks((prev) => [...prev, webhook]);
+      setCreatedSecret(secret);
+      setNewUrl("");
+      setNewEvents(WEBHOOK_EVENTS);
+      setError(null);
+      onSaved?.("Webhook created");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create webhook");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleToggleEvent(webhook: TeamWebhook, event: WebhookEvent) {
+    const events = webhook.events.includes(event)
+      ? webhook.events.filter((e) => e !== event)
+      : [...webhook.events, event];
+    if (events.length === 0) return;
+
+    try {
+      const updated = await updateWebhook(teamId, webhook.id, { events });
+      setWebhooks((prev) => prev.map((w) => (w.id === webhook.id ? updated : w)));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update webhook");
+    }
+  }
+
+  async function handleToggleActive(webhook: TeamWebhook) {
+    try {
+      const updated = await updateWebhook(teamId, webhook.id, { is_active: !webhook.is_active });
+      setWebhooks((prev) => prev.map((w) => (w.id === webhook.id ? updated : w)));
+      setError(null);
+      onSaved?.(updated.is_active ? "Webhook resumed" : "Webhook paused");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update webhook");
+    }
+  }
+
+  async function handleDelete(webhook: TeamWebhook) {
+    if (!confirm(`Delete the webhook to ${webhook.url}? Its delivery log is removed too.`)) return;
+
+    try {
+      await deleteWebhook(teamId, webhook.id);
+      setWebhooks((prev) => prev.filter((w) => w.id !== webhook.id));
+      if (logWebhookId === webhook.id) {
+        setLogWebhookId(null);
+      }
+      setError(null);
+      onSaved?.("Webhook deleted");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete webhook");
+    }
+  }
+
+  function handleShowLog(webhookId: number) {
+    if (logWebhookId === webhookId) {
+      setLogWebhookId(null);
+      return;
+    }
+    setLogWebhookId(webhookId);
+    setDeliveries([]);
+    loadDeliveries(webhookId);
+  }
+
+  async function handleRetry(delivery: WebhookDelivery) {
+    try {
+      const updated = await retryWebhookDelivery(teamId, delivery.webhook_id, delivery.id);
+      setDeliveries((prev) => prev.map((d) => (d.id === delivery.id ? updated : d)));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to retry delivery");
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="h-5 w-5" />
+          Webhooks
+        </CardTitle>
+        <CardDescription>
+          Incident events are POSTed to these URLs, signed with an HMAC-SHA256 of the body in the
+          X-Webhook-Signature header
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+        )}
+        {createdSecret && (
+          <div className="p-2 text-xs bg-muted rounded-md space-y-1">
+            <p className="font-medium">Signing secret, copy it now, it will not be shown again:</p>
+            <code className="block break-all">{createdSecret}</code>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setCreatedSecret(null)}>
+              Dismiss
+            </Button>
+          </div>
+        )}
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading webhooks...</div>
+        ) : webhooks.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">No webhooks registered</p>
+        ) : (
+          <div className="space-y-3">
+            {webhooks.map((webhook) => (
+              <div key={webhook.id} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-sm font-mono truncate" title={webhook.url}>
+                      {webhook.url}
+                    </span>
+                    {!webhook.is_active && <Badge variant="outline">Paused</Badge>}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleShowLog(webhook.id)}
+                      title="Delivery log"
+                    >
+                      <ScrollText className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleToggleActive(webhook)}
+                      title={webhook.is_active ? "Pause" : "Resume"}
+                    >
+                      {webhook.is_active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => handleDelete(webhook)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {WEBHOOK_EVENTS.map((event) => (
+                    <label key={event} className="flex items-center gap-2 text-xs">
+                      <input
+                        type="checkbox"
+                        checked={webhook.events.includes(event)}
+                        onChange={() => handleToggleEvent(webhook, event)}
+                      />
+                      {event}
+                    </label>
+                  ))}
+                </div>
+                {logWebhookId === webhook.id && (
+                  <div className="space-y-2 pt-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">Recent deliveries</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => loadDeliveries(webhook.id)}
+                        disabled={isLoadingDeliveries}
+                      >
+                        <RefreshCw className="h-3 w-3 mr-1" />
+                        Refresh
+                      </Button>
+                    </div>
+                    {isLoadingDeliveries ? (
+                      <p className="text-sm text-muted-foreground">Loading deliveries...</p>
+                    ) : deliveries.length === 0 ? (
+                      <p className="text-sm text-muted-foreground italic">No deliveries yet</p>
+                    ) : (
+                      <div className="max-h-[300px] overflow-y-auto">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Time</TableHead>
+                              <TableHead>Event</TableHead>
+                              <TableHead>Status</TableHead>
+                              <TableHead>Attempts</TableHead>
+                              <TableHead>Response</TableHead>
+                              <TableHead className="w-[60px]"></TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {deliveries.map((delivery) => (
+                              <TableRow key={delivery.id}>
+                                <TableCell className="text-xs whitespace-nowrap">
+                                  {new Date(delivery.created_at).toLocaleString()}
+                                </TableCell>
+                                <TableCell className="text-xs">{delivery.event}</TableCell>
+                                <TableCell>
+                                  <Badge variant={deliveryStatusVariants[delivery.status]}>
+                                    {delivery.status}
+                                  </Badge>
+                                </TableCell>
+                                <TableCell className="text-xs">{delivery.attempts}</TableCell>
+                                <TableCell
+                                  className="text-xs max-w-[200px] truncate"
+                                  title={delivery.last_error ?? undefined}
+                                >
+                                  {delivery.response_status ?? delivery.last_error ?? "-"}
+                                </TableCell>
+                                <TableCell>
+                                  {delivery.status === "failed" && (
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-6 w-6"
+                                      onClick={() => handleRetry(delivery)}
+                                      title="Retry"
+                                    >
+                                      <RotateCcw className="h-3 w-3" />
+                                    </Button>
+                                  )}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              value={newUrl}
+              onChange={(e) => setNewUrl(e.target.value)}
+              placeholder="https://example.com/hooks/incidents"
+              maxLength={2048}
+            />
+            <Button
+              size="sm"
+              onClick={handleCreate}
+              disabled={isSaving || !newUrl.trim() || newEvents.length === 0}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {WEBHOOK_EVENTS.map((event) => (
+              <label key={event} className="flex items-center gap-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={newEvents.includes(event)}
+                  onChange={() => toggleNewEvent(event)}
+                />
+                {event}
+              </label>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
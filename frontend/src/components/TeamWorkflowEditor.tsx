@@ -0,0 +1,214 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GitBranch, RotateCcw, Save } from "lucide-react";
+import {
+  getTeamWorkflow,
+  updateTeamWorkflow,
+  resetTeamWorkflow,
+  type StatusTransition,
+} from "@/api/teams";
+import type { IncidentStatus } from "@/api/incidents";
+
+interface TeamWorkflowEditorProps {
+  teamId: number;
+  canEdit: boolean;
+  onSaved?: (message: string) => void;
+}
+
+type CellValue = "none" | "allowed" | "note";
+
+const statuses: IncidentStatus[] = ["pending", "under_review", "escalated", "resolved"];
+
+const statusLabels: Record<IncidentStatus, string> = {
+  pending: "Pending",
+  under_review: "Under Review",
+  escalated: "Escalated",
+  resolved: "Resolved",
+};
+
+function cellValue(transitions: StatusTransition[], from: IncidentStatus, to: IncidentStatus): CellValue {
+  const transition = transitions.find((t) => t.from_status === from && t.to_status === to);
+  if (!transition) return "none";
+  return transition.requires_note ? "note" : "allowed";
+}
+
+export function TeamWorkflowEditor({ teamId, canEdit, onSaved }: TeamWorkflowEditorProps) {
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [isCustom, setIsCustom] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadWorkflow(teamId);
+  }, [teamId]);
+
+  async function loadWorkflow(teamId: number) {
+    setIsLoading(true);
+    try {
+      const workflow = await getTeamWorkflow(teamId);
+      setTransitions(workflow.transitions);
+      setIsCustom(workflow.is_custom);
+      setIsDirty(false);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load workflow");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function handleCellChange(from: IncidentStatus, to: IncidentStatus, value: CellValue) {
+    const others = transitions.filter((t) => !(t.from_status === from && t.to_status === to));
+    setTransitions(
+      value === "none"
+        ? others
+        : [...others, { from_status: from, to_status: to, requires_note: value === "note" }]
+    );
+    setIsDirty(true);
+  }
+
+  async function handleSave() {
+    setIsSaving(true);
+    try {
+      const workflow = await updateTeamWorkflow(teamId, transitions);
+      setTransitions(workflow.transitions);
+      setIsCustom(workflow.is_custom);
+      setIsDirty(false);
+      setError(null);
+      onSaved?.("Workflow saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save workflow");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleReset() {
+    if (!confirm("Reset this team to the default workflow?")) return;
+
+    setIsSaving(true);
+    try {
+      const workflow = await resetTeamWorkflow(teamId);
+      setTransitions(workflow.transitions);
+      setIsCustom(workflow.is_custom);
+      setIsDirty(false);
+      setError(null);
+      onSaved?.("Workflow reset to default");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reset workflow");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitBranch className="h-5 w-5" />
+              Status Workflow
+            </CardTitle>
+            <CardDescription>
+              Allowed status changes for this team's incidents
+              {!isCustom && " • Using the default workflow"}
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={handleReset} disabled={isSaving || !isCustom}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={isSaving || !isDirty}>
+                <Save className="h-4 w-4 mr-2" />
+                Save
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 p-2 text-xs text-destructive bg-destructive/10 rounded-md">{error}</div>
+        )}
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading workflow...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>From \ To</TableHead>
+                {statuses.map((to) => (
+                  <TableHead key={to}>{statusLabels[to]}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {statuses.map((from) => (
+                <TableRow key={from}>
+                  <TableCell className="font-medium">{statusLabels[from]}</TableCell>
+                  {statuses.map((to) => {
+                    if (from === to) {
+                      return (
+                        <TableCell key={to} className="text-muted-foreground">
+                          —
+                        </TableCell>
+                      );
+                    }
+                    const value = cellValue(transitions, from, to);
+                    return (
+                      <TableCell key={to}>
+                        {canEdit ? (
+                          <Select
+                            value={value}
+                            onValueChange={(v) => handleCellChange(from, to, v as CellValue)}
+                          >
+                            <SelectTrigger className="w-[130px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Not allowed</SelectItem>
+                              <SelectItem value="allowed">Allowed</SelectItem>
+                              <SelectItem value="note">Needs note</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        ) : value === "none" ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : (
+                          <Badge variant={value === "note" ? "secondary" : "outline"}>
+                            {value === "note" ? "Needs note" : "Allowed"}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,3 +2,29 @@ export { AppSidebar } from "./AppSidebar";
 export { AppLayout } from "./AppLayout";
 export { IncidentList } from "./IncidentList";
 export { TeamStatsChart } from "./TeamStatsChart";
+export { IncidentComments } from "./IncidentComments";
+export { IncidentHistory } from "./IncidentHistory";
+export { TeamWorkflowEditor } from "./TeamWorkflowEditor";
+export { GlobalSearch } from "./GlobalSearch";
+export { IncidentAttachments } from "./IncidentAttachments";
+export { LabelBadge } from "./LabelBadge";
+export { TeamLabelsEditor } from "./TeamLabelsEditor";
+export { IncidentLinks } from "./IncidentLinks";
+export { IncidentWatchers } from "./IncidentWatchers";
+export { NotificationBell } from "./NotificationBell";
+export { TeamWebhooksEditor } from "./TeamWebhooksEditor";
+export { TeamAlertIntegration } from "./TeamAlertIntegration";
+export { TeamSlaEditor } from "./TeamSlaEditor";
+export { SlaBadge } from "./SlaBadge";
+export { TeamAssignmentEditor } from "./TeamAssignmentEditor";
+export { TeamOnCallEditor } from "./TeamOnCallEditor";
+export { TeamEscalationEditor } from "./TeamEscalationEditor";
+export { TeamTemplatesEditor } from "./TeamTemplatesEditor";
+export { TeamCustomFieldsEditor } from "./TeamCustomFieldsEditor";
+export { CustomFieldsForm } from "./CustomFieldsForm";
+export { IncidentBulkBar } from "./IncidentBulkBar";
+export { IncidentClassificationFields } from "./IncidentClassificationFields";
+export { IncidentTransferDialog } from "./IncidentTransferDialog";
+export { IncidentViewDialog } from "./IncidentViewDialog";
+export { IncidentEditDialog } from "./IncidentEditDialog";
+export { IncidentCreateDialog } from "./IncidentCreateDialog";
@@ -0,0 +1,18 @@
+import { useEffect, useRef } from "react"
+import { subscribeToIncidentEvents, type IncidentRealtimeEvent } from "@/api/events"
+
+/**
+ * Call onEvent for every incident change pushed by the server
+ * One stream is kept for the component's lifetime, onEvent always sees the latest state
+ */
+export function useIncidentEvents(onEvent: (event: IncidentRealtimeEvent) => void) {
+  const onEventRef = useRef(onEvent)
+
+  useEffect(() => {
+    onEventRef.current = onEvent
+  })
+
+  useEffect(() => {
+    return subscribeToIncidentEvents((event) => onEventRef.current(event))
+  }, [])
+}
@@ -4,3 +4,42 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+const relativeTimeFormat = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" })
+
+const relativeTimeUnits: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60],
+  ["month", 30 * 24 * 60 * 60],
+  ["week", 7 * 24 * 60 * 60],
+  ["day", 24 * 60 * 60],
+  ["hour", 60 * 60],
+  ["minute", 60],
+]
+
+/**
+ * Formats a date as a relative time, e.g. "5 minutes ago" or "yesterday"
+ */
+export function formatRelativeTime(date: string | Date): string {
+  const seconds = Math.round((new Date(date).getTime() - Date.now()) / 1000)
+
+  for (const [unit, unitSeconds] of relativeTimeUnits) {
+    if (Math.abs(seconds) >= unitSeconds) {
+      return relativeTimeFormat.format(Math.trunc(seconds / unitSeconds), unit)
+    }
+  }
+
+  return relativeTimeFormat.format(seconds, "second")
+}
+
+/**
+ * Formats a byte count for display, e.g. "1.2 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { AppLayout, IncidentList, TeamStatsChart } from "@/components";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -21,19 +21,25 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+import { AlertCircle, CalendarClock, CheckCircle2, Loader2 } from "lucide-react";
 import {
   getMyIncidents,
   getAssignedIncidents,
+  getWatchingIncidents,
+  getSlaBreaches,
+  getMyOnCall,
   getTeamIncidentStats,
   type TeamIncidentStats,
 } from "@/api/dashboard";
+import type { OnCallNow } from "@/api/oncall";
 import {
   updateIncident,
   type Incident,
   type IncidentStatus,
 } from "@/api/incidents";
 import { getMyTeams, type Team } from "@/api/users";
+import { getTeamWorkflow, type StatusTransition } from "@/api/teams";
+import { useIncidentEvents } from "@/hooks/use-incident-events";
 
 const statusColors: Record<IncidentStatus, string> = {
   pending: "bg-yellow-100 text-yellow-800",
@@ -42,9 +48,19 @@ const statusColors: Record<IncidentStatus, string> = {
   resolved: "bg-green-100 text-green-800",
 };
 
+const statusLabels: Record<IncidentStatus, string> = {
+  pending: "Pending",
+  under_review: "Under Review",
+  escalated: "Escalated",
+  resolved: "Resolved",
+};
+
 export function DashboardPage() {
   const [myIncidents, setMyIncidents] = useState<Incident[]>([]);
   const [assignedIncidents, setAssignedIncidents] = useState<Incident[]>([]);
+  const [watchingIncidents, setWatchingIncidents] = useState<Incident[]>([]);
+  const [slaBreaches, setSlaBreaches] = useState<Incident[]>([]);
+  const [myOnCall, setMyOnCall] = useState<OnCallNow[]>([]);
   const [teamStats, setTeamStats] = useState<TeamIncidentStats[]>([]);
   const [teams, setTeams] = useState<Team[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -55,6 +71,8 @@ export function DashboardPage() {
   const [editTitle, setEditTitle] = useState("");
   const [editDescription, setEditDescription] = useState("");
   const [editStatus, setEditStatus] = useState<IncidentStatus>("pending");
+  const [editStatusNote, setEditStatusNote] = useState("");
+  const [editTransitions, setEditTransitions] = useState<StatusTransition[]>([]);
   const [isUpdating, setIsUpdating] = useState(false);
   const [updateSuccess, setUpdateSuccess] = useState(false);
 
@@ -62,20 +80,29 @@ export function DashboardPage() {
     loadDashboardData();
   }, []);
 
-  async function loadDashboardData() {
-    setIsLoading(true);
-    setError(null);
+  // Live updates refresh quietly, without replacing the dashboard with the loading state
+  async function loadDashboardData(quiet = false) {
+    if (!quiet) {
+      setIsLoading(true);
+      setError(null);
+    }
 
     try {
-      const [myInc, assignedInc, stats, teamsData] = await Promise.all([
+      const [myInc, assignedInc, watchingInc, breaches, oncall, stats, teamsData] = await Promise.all([
         getMyIncidents(),
         getAssignedIncidents(),
+        getWatchingIncidents(),
+        getSlaBreaches(),
+        getMyOnCall(),
         getTeamIncidentStats(),
         getMyTeams(),
       ]);
 
       setMyIncidents(myInc);
       setAssignedIncidents(assignedInc);
+      setWatchingIncidents(watchingInc);
+      setSlaBreaches(breaches);
+      setMyOnCall(oncall);
       setTeamStats(stats);
       setTeams(teamsData);
     } catch (err) {
@@ -85,12 +112,32 @@ export function DashboardPage() {
     }
   }
 
+  // The lists and the team chart follow changes made in any of the user's teams,
+  // bursts of events (e.g. resolving children) trigger a single refresh
+  const refreshTimeout = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  useIncidentEvents(() => {
+    clearTimeout(refreshTimeout.current);
+    refreshTimeout.current = setTimeout(() => loadDashboardData(true), 500);
+  });
+
   function openEditDialog(incident: Incident) {
     setEditingIncident(incident);
     setEditTitle(incident.title);
     setEditDescription(incident.description || "");
     setEditStatus(incident.status);
+    setEditStatusNote("");
+    setEditTransitions([]);
     setUpdateSuccess(false);
+    loadTransitions(incident);
+  }
+
+  async function loadTransitions(incident: Incident) {
+    try {
+      const workflow = await getTeamWorkflow(incident.team_id);
+      setEditTransitions(workflow.transitions.filter((t) => t.from_status === incident.status));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load workflow");
+    }
   }
 
   function closeEditDialog() {
@@ -98,6 +145,8 @@ export function DashboardPage() {
     setEditTitle("");
     setEditDescription("");
     setEditStatus("pending");
+    setEditStatusNote("");
+    setEditTransitions([]);
     setUpdateSuccess(false);
   }
 
@@ -108,7 +157,12 @@ export function DashboardPage() {
     setError(null);
 
     try {
-      const updates: { title?: string; description?: string; status?: IncidentStatus } = {};
+      const updates: {
+        title?: string;
+        description?: string;
+        status?: IncidentStatus;
+        status_note?: string;
+      } = {};
 
       if (editTitle !== editingIncident.title) {
         updates.title = editTitle;
@@ -118,6 +172,9 @@ export function DashboardPage() {
       }
       if (editStatus !== editingIncident.status) {
         updates.status = editStatus;
+        if (editStatusNote.trim()) {
+          updates.status_note = editStatusNote.trim();
+        }
       }
 
       if (Object.keys(updates).length > 0) {
@@ -146,6 +203,8 @@ export function DashboardPage() {
     return team?.name || `Team ${teamId}`;
   };
 
+  const noteRequired = !!editTransitions.find((t) => t.to_status === editStatus)?.requires_note;
+
   if (isLoading) {
     return (
       <AppLayout title="Dashboard">
@@ -166,8 +225,35 @@ export function DashboardPage() {
           </Alert>
         )}
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 h-[calc(100vh-200px)]">
-          {/* Left: Created by me */}
+        {myOnCall.length > 0 && (
+          <Alert>
+            <CalendarClock className="h-4 w-4" />
+            <AlertDescription>
+              You are on call for{" "}
+              {myOnCall
+                .map((o) => {
+                  const teamName = teams.find((t) => t.id === o.team_id)?.name ?? "your team";
+                  const until = o.until ? ` until ${new Date(o.until).toLocaleString()}` : "";
+                  return `${teamName} (${o.schedule_name})${until}`;
+                })
+                .join(", ")}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Only shown while some incident of the user's teams is past an SLA due time */}
+        {slaBreaches.length > 0 && (
+          <IncidentList
+            title="SLA Breaches"
+            incidents={slaBreaches}
+            teams={teams}
+            emptyMessage="No open incidents past their SLA"
+            onEdit={openEditDialog}
+          />
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 lg:grid-rows-2 gap-4 h-[calc(100vh-200px)]">
+          {/* Top left: Created by me */}
           <IncidentList
             title="Created by Me"
             incidents={myIncidents}
@@ -176,7 +262,7 @@ export function DashboardPage() {
             onEdit={openEditDialog}
           />
 
-          {/* Center: Assigned to me */}
+          {/* Top right: Assigned to me */}
           <IncidentList
             title="Assigned to Me"
             incidents={assignedIncidents}
@@ -185,7 +271,16 @@ export function DashboardPage() {
             onEdit={openEditDialog}
           />
 
-          {/* Right: Team stats chart */}
+          {/* Bottom left: Watched incidents */}
+          <IncidentList
+            title="Watching"
+            incidents={watchingIncidents}
+            teams={teams}
+            emptyMessage="You are not watching any other unresolved incidents"
+            onEdit={openEditDialog}
+          />
+
+          {/* Bottom right: Team stats chart */}
           <TeamStatsChart stats={teamStats} />
         </div>
       </div>
@@ -244,29 +339,43 @@ export function DashboardPage() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="pending">
-                      <div className="flex items-center gap-2">
-                        <Badge className={statusColors.pending}>Pending</Badge>
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="under_review">
-                      <div className="flex items-center gap-2">
-                        <Badge className={statusColors.under_review}>Under Review</Badge>
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="escalated">
-                      <div className="flex items-center gap-2">
-                        <Badge className={statusColors.escalated}>Escalated</Badge>
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="resolved">
-                      <div className="flex items-center gap-2">
-                        <Badge className={statusColors.resolved}>Resolved</Badge>
-                      </div>
-                    </SelectItem>
+                    {editingIncident && (
+                      <SelectItem value={editingIncident.status}>
+                        <div className="flex items-center gap-2">
+                          <Badge className={statusColors[editingIncident.status]}>
+                            {statusLabels[editingIncident.status]}
+                          </Badge>
+                        </div>
+                      </SelectItem>
+                    )}
+                    {editTransitions.map((t) => (
+                      <SelectItem key={t.to_status} value={t.to_status}>
+                        <div className="flex items-center gap-2">
+                          <Badge className={statusColors[t.to_status]}>{statusLabels[t.to_status]}</Badge>
+                        </div>
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
+
+              {editingIncident && editStatus !== editingIncident.status && (
+                <div className="space-y-2">
+                  <Label htmlFor="edit-status-note">
+                    {editStatus === "resolved" ? "Resolution note" : "Reason"}
+                    {noteRequired ? " (required)" : " (optional)"}
+                  </Label>
+                  <Textarea
+                    id="edit-status-note"
+                    value={editStatusNote}
+                    onChange={(e) => setEditStatusNote(e.target.value)}
+                    placeholder={
+                      editStatus === "resolved" ? "How was this incident resolved?" : "Why is the status changing?"
+                    }
+                    rows={2}
+                  />
+                </div>
+              )}
             </div>
           )}
 
@@ -275,7 +384,10 @@ export function DashboardPage() {
               Cancel
             </Button>
             {!updateSuccess && (
-              <Button onClick={handleUpdateIncident} disabled={isUpdating || !editTitle.trim()}>
+              <Button
+                onClick={handleUpdateIncident}
+                disabled={isUpdating || !editTitle.trim() || (noteRequired && !editStatusNote.trim())}
+              >
                 {isUpdating ? (
                   <>
                     <Loader2 className="h-4 w-4 mr-2 animate-spin" />
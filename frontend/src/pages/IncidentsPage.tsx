@@ -1,5 +1,15 @@
-import { useState, useEffect } from "react";
-import { AppLayout } from "@/components";
+import { useState, useEffect, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  AppLayout,
+  IncidentBulkBar,
+  IncidentCreateDialog,
+  IncidentEditDialog,
+  IncidentTransferDialog,
+  IncidentViewDialog,
+  LabelBadge,
+  SlaBadge,
+} from "@/components";
 import {
   Table,
   TableBody,
@@ -12,16 +22,6 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
 import {
   Select,
   SelectContent,
@@ -29,17 +29,60 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Card, CardContent } from "@/components/ui/card";
-import { Plus, AlertTriangle, Eye } from "lucide-react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  AlertTriangle,
+  Eye,
+  Trash2,
+  Archive,
+  ArchiveRestore,
+  Search,
+  ArrowUpDown,
+  ArrowUp,
+  ArrowDown,
+  ArrowRightLeft,
+} from "lucide-react";
 import { getMyTeams, getTeamUsers, type Team, type UserWithRole } from "@/api/users";
-import { getMyRoleInTeam, type TeamRole } from "@/api/teams";
+import { getMyRoleInTeam, getTeamWorkflow, type TeamRole, type StatusTransition } from "@/api/teams";
 import {
   getTeamIncidents,
-  createIncident,
-  updateIncident,
+  getIncident,
+  archiveIncident,
+  getArchivedIncidents,
+  restoreIncident,
   type Incident,
   type IncidentStatus,
+  type IncidentSeverity,
+  type IncidentPriority,
+  type IncidentFilters,
+  type IncidentListOptions,
+  type IncidentSortField,
+  type SortOrder,
+  type BulkIncidentResponse,
 } from "@/api/incidents";
+import { getTeamLabels, type Label as IncidentLabel } from "@/api/labels";
+import { getTeamTemplates, type IncidentTemplate } from "@/api/templates";
+import { getTeamCustomFields, type CustomField } from "@/api/customFields";
+import { formatRelativeTime } from "@/lib/utils";
+import { useAuth } from "@/contexts";
+import { useIncidentEvents } from "@/hooks/use-incident-events";
+
+const PAGE_SIZE = 25;
+
+/**
+ * Converts an assignee/reporter select value into an API filter
+ */
+function parseUserFilter(value: string): IncidentFilters["assignee"] {
+  if (value === "all") return undefined;
+  if (value === "me" || value === "unassigned") return value;
+  return parseInt(value, 10);
+}
 
 const statusColors: Record<IncidentStatus, string> = {
   pending: "bg-yellow-100 text-yellow-800",
@@ -55,50 +98,168 @@ const statusLabels: Record<IncidentStatus, string> = {
   resolved: "Resolved",
 };
 
+const severityColors: Record<IncidentSeverity, string> = {
+  sev1: "bg-red-600 text-white",
+  sev2: "bg-orange-100 text-orange-800",
+  sev3: "bg-yellow-100 text-yellow-800",
+  sev4: "bg-gray-100 text-gray-800",
+};
+
+const severityLabels: Record<IncidentSeverity, string> = {
+  sev1: "SEV1 - Critical",
+  sev2: "SEV2 - Major",
+  sev3: "SEV3 - Moderate",
+  sev4: "SEV4 - Minor",
+};
+
+const priorityColors: Record<IncidentPriority, string> = {
+  p1: "bg-purple-600 text-white",
+  p2: "bg-purple-100 text-purple-800",
+  p3: "bg-slate-100 text-slate-800",
+  p4: "bg-slate-50 text-slate-600",
+};
+
 export function IncidentsPage() {
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [teams, setTeams] = useState<Team[]>([]);
   const [selectedTeamId, setSelectedTeamId] = useState<number | null>(null);
   const [incidents, setIncidents] = useState<Incident[]>([]);
   const [teamMembers, setTeamMembers] = useState<UserWithRole[]>([]);
   const [myRole, setMyRole] = useState<TeamRole | null>(null);
+  const [workflow, setWorkflow] = useState<StatusTransition[]>([]);
+  const [teamLabels, setTeamLabels] = useState<IncidentLabel[]>([]);
+  const [teamTemplates, setTeamTemplates] = useState<IncidentTemplate[]>([]);
+  const [teamFields, setTeamFields] = useState<CustomField[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Create dialog state
-  const [isCreateOpen, setIsCreateOpen] = useState(false);
-  const [newTitle, setNewTitle] = useState("");
-  const [newDescription, setNewDescription] = useState("");
-  const [isCreating, setIsCreating] = useState(false);
+  // Filters
+  const [severityFilter, setSeverityFilter] = useState<IncidentSeverity | "all">("all");
+  const [priorityFilter, setPriorityFilter] = useState<IncidentPriority | "all">("all");
+  const [statusFilter, setStatusFilter] = useState<IncidentStatus | "all">("all");
+  const [assigneeFilter, setAssigneeFilter] = useState<string>("all");
+  const [reporterFilter, setReporterFilter] = useState<string>("all");
+  const [labelFilter, setLabelFilter] = useState<string>("all");
+  // Values of select custom fields, keyed by field ID
+  const [customFieldFilter, setCustomFieldFilter] = useState<Record<number, string>>({});
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+
+  // Sorting and cursor pagination, the last cursor is the current page
+  const [sortField, setSortField] = useState<IncidentSortField>("created_at");
+  const [sortOrder, setSortOrder] = useState<SortOrder>("desc");
+  const [cursorStack, setCursorStack] = useState<(string | null)[]>([null]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalIncidents, setTotalIncidents] = useState(0);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Incidents selected for bulk actions
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+
+  // Archive state (team admins)
+  const [showArchived, setShowArchived] = useState(false);
+  const [archivedIncidents, setArchivedIncidents] = useState<Incident[]>([]);
 
   // Edit dialog state
   const [editingIncident, setEditingIncident] = useState<Incident | null>(null);
-  const [editTitle, setEditTitle] = useState("");
-  const [editDescription, setEditDescription] = useState("");
-  const [editStatus, setEditStatus] = useState<IncidentStatus>("pending");
-  const [editAssignedTo, setEditAssignedTo] = useState<string>("unassigned");
-  const [isUpdating, setIsUpdating] = useState(false);
+  // Latest version of the incident being edited, when someone else changed it meanwhile
+  const [editConflict, setEditConflict] = useState<{ incident: Incident; actorUserId: number | null } | null>(null);
+
+  // Transfer dialog state (managers/admins)
+  const [transferringIncident, setTransferringIncident] = useState<Incident | null>(null);
 
   // View dialog state
   const [viewingIncident, setViewingIncident] = useState<Incident | null>(null);
 
   const canAssign = myRole === "admin" || myRole === "manager";
+  const canDelete = myRole === "admin";
+  const visibleIncidents = showArchived ? archivedIncidents : incidents;
+  // Bulk actions apply to the selected incidents of the current page
+  const selectedVisibleIds = showArchived ? [] : incidents.filter((i) => selectedIds.has(i.id)).map((i) => i.id);
+  const allVisibleSelected = incidents.length > 0 && selectedVisibleIds.length === incidents.length;
+  const columnCount = showArchived ? 8 : 9;
+  const incidentFilters = useMemo<IncidentFilters>(
+    () => ({
+      severity: severityFilter === "all" ? undefined : [severityFilter],
+      priority: priorityFilter === "all" ? undefined : [priorityFilter],
+      status: statusFilter === "all" ? undefined : [statusFilter],
+      assignee: parseUserFilter(assigneeFilter),
+      reporter: parseUserFilter(reporterFilter) as IncidentFilters["reporter"],
+      labels: labelFilter === "all" ? undefined : [parseInt(labelFilter, 10)],
+      customFields: customFieldFilter,
+      search: search || undefined,
+    }),
+    [severityFilter, priorityFilter, statusFilter, assigneeFilter, reporterFilter, labelFilter, customFieldFilter, search]
+  );
+  const listOptions = useMemo<IncidentListOptions>(
+    () => ({
+      sort: sortField,
+      order: sortOrder,
+      limit: PAGE_SIZE,
+      cursor: cursorStack[cursorStack.length - 1],
+    }),
+    [sortField, sortOrder, cursorStack]
+  );
+  const pageNumber = cursorStack.length;
+  const pageCount = Math.max(1, Math.ceil(totalIncidents / PAGE_SIZE));
+  const selectFields = teamFields.filter((f) => f.field_type === "select");
 
   useEffect(() => {
     loadTeams();
   }, []);
 
+  // Links from the global search select the team and open the incident
+  useEffect(() => {
+    const teamParam = searchParams.get("team");
+    const incidentParam = searchParams.get("incident");
+    if (!teamParam) return;
+
+    const teamId = parseInt(teamParam, 10);
+    setSelectedTeamId(teamId);
+    setLabelFilter("all");
+    setCustomFieldFilter({});
+    setSelectedIds(new Set());
+    resetPage();
+    if (incidentParam) {
+      openLinkedIncident(teamId, parseInt(incidentParam, 10));
+    }
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams]);
+
   useEffect(() => {
     if (selectedTeamId) {
       loadTeamData(selectedTeamId);
     }
   }, [selectedTeamId]);
 
+  useEffect(() => {
+    if (selectedTeamId) {
+      loadIncidents(selectedTeamId, incidentFilters, listOptions);
+    }
+  }, [selectedTeamId, incidentFilters, listOptions, reloadKey]);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchInput.trim());
+      resetPage();
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  useEffect(() => {
+    if (selectedTeamId && showArchived) {
+      loadArchived(selectedTeamId);
+    }
+  }, [selectedTeamId, showArchived]);
+
   async function loadTeams() {
     try {
       const data = await getMyTeams();
       setTeams(data);
       if (data.length > 0) {
-        setSelectedTeamId(data[0].id);
+        setSelectedTeamId((current) => current ?? data[0].id);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load teams");
@@ -108,98 +269,215 @@ export function IncidentsPage() {
   }
 
   async function loadTeamData(teamId: number) {
-    setIsLoading(true);
     try {
-      const [incidentsData, membersData, roleData] = await Promise.all([
-        getTeamIncidents(teamId),
+      const [membersData, roleData, workflowData, labelsData, templatesData, fieldsData] = await Promise.all([
         getTeamUsers(teamId),
         getMyRoleInTeam(teamId),
+        getTeamWorkflow(teamId),
+        getTeamLabels(teamId),
+        getTeamTemplates(teamId),
+        getTeamCustomFields(teamId),
       ]);
-      setIncidents(incidentsData);
       setTeamMembers(membersData);
       setMyRole(roleData);
+      setWorkflow(workflowData.transitions);
+      setTeamLabels(labelsData);
+      setTeamTemplates(templatesData);
+      setTeamFields(fieldsData);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load team data");
+    }
+  }
+
+  // Live updates refresh quietly, without replacing the list with the loading state
+  async function loadIncidents(
+    teamId: number,
+    filters: IncidentFilters,
+    options: IncidentListOptions,
+    quiet = false
+  ) {
+    if (!quiet) setIsLoading(true);
+    try {
+      const page = await getTeamIncidents(teamId, filters, options);
+      setIncidents(page.incidents);
+      setTotalIncidents(page.total);
+      setNextCursor(page.next_cursor);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load incidents");
     } finally {
       setIsLoading(false);
     }
   }
 
-  function getUserName(userId: number | null): string {
-    if (!userId) return "Unassigned";
-    const user = teamMembers.find((m) => m.id === userId);
-    return user ? user.name : `User #${userId}`;
-  }
+  // Changes made by other team members show up without reloading the page
+  useIncidentEvents((event) => {
+    if (!selectedTeamId || !event.team_ids.includes(selectedTeamId)) return;
 
-  async function handleCreate() {
-    if (!selectedTeamId || !newTitle.trim()) return;
+    loadIncidents(selectedTeamId, incidentFilters, listOptions, true);
+    if (showArchived) {
+      loadArchived(selectedTeamId);
+    }
+    if (viewingIncident?.id === event.incident_id) {
+      setViewingIncident(event.incident);
+    }
+    if (editingIncident?.id === event.incident_id && event.actor_user_id !== user?.id) {
+      setEditConflict({ incident: event.incident, actorUserId: event.actor_user_id });
+    }
+  });
 
-    setIsCreating(true);
+  async function openLinkedIncident(teamId: number, incidentId: number) {
     try {
-      await createIncident(selectedTeamId, {
-        title: newTitle.trim(),
-        description: newDescription.trim() || undefined,
-      });
-      setNewTitle("");
-      setNewDescription("");
-      setIsCreateOpen(false);
-      loadTeamData(selectedTeamId);
+      const incident = await getIncident(teamId, incidentId);
+      setViewingIncident(incident);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to create incident");
-    } finally {
-      setIsCreating(false);
+      setError(err instanceof Error ? err.message : "Failed to load incident");
     }
   }
 
-  async function handleUpdate() {
-    if (!selectedTeamId || !editingIncident) return;
+  function toggleSelected(incidentId: number) {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(incidentId)) {
+        next.delete(incidentId);
+      } else {
+        next.add(incidentId);
+      }
+      return next;
+    });
+  }
+
+  function toggleAllSelected() {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(incidents.map((i) => i.id)));
+  }
+
+  // Failed incidents stay selected so the action can be retried on them
+  function handleBulkDone(response: BulkIncidentResponse) {
+    const failures = response.results.filter((r) => !r.success);
+    setSelectedIds(new Set(failures.map((r) => r.incident_id)));
+    setError(
+      failures.length > 0
+        ? `${failures.length} of ${response.results.length} incidents were not updated: ` +
+            failures.map((r) => `#${r.incident_id} ${r.message}`).join("; ")
+        : null
+    );
+    reloadIncidents();
+  }
+
+  function reloadIncidents() {
+    setReloadKey((key) => key + 1);
+  }
+
+  // Filters and sorting apply from the first page
+  function resetPage() {
+    setCursorStack((stack) => (stack.length === 1 && stack[0] === null ? stack : [null]));
+  }
+
+  function applyFilter<T>(setter: (value: T) => void) {
+    return (value: T) => {
+      setter(value);
+      resetPage();
+    };
+  }
 
-    setIsUpdating(true);
+  function handleSort(field: IncidentSortField) {
+    if (sortField === field) {
+      setSortOrder(sortOrder === "asc" ? "desc" : "asc");
+    } else {
+      setSortField(field);
+      setSortOrder(field === "title" ? "asc" : "desc");
+    }
+    resetPage();
+  }
+
+  function renderSortableHead(label: string, field: IncidentSortField) {
+    if (showArchived) {
+      return label;
+    }
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="-ml-3 h-8"
+        onClick={() => handleSort(field)}
+      >
+        {label}
+        {getSortIcon(field)}
+      </Button>
+    );
+  }
+
+  function getSortIcon(field: IncidentSortField) {
+    if (sortField !== field) {
+      return <ArrowUpDown className="ml-1 h-3 w-3" />;
+    }
+    return sortOrder === "asc" ? (
+      <ArrowUp className="ml-1 h-3 w-3" />
+    ) : (
+      <ArrowDown className="ml-1 h-3 w-3" />
+    );
+  }
+
+  async function loadArchived(teamId: number) {
     try {
-      const updates: {
-        title?: string;
-        description?: string;
-        status?: IncidentStatus;
-        assigned_to_user_id?: number | null;
-      } = {};
-
-      if (editTitle.trim() !== editingIncident.title) {
-        updates.title = editTitle.trim();
-      }
-      if (editDescription.trim() !== (editingIncident.description || "")) {
-        updates.description = editDescription.trim();
-      }
-      if (editStatus !== editingIncident.status) {
-        updates.status = editStatus;
-      }
+      const data = await getArchivedIncidents(teamId);
+      setArchivedIncidents(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load archived incidents");
+    }
+  }
 
-      // Handle assignment change
-      const currentAssigned = editingIncident.assigned_to_user_id?.toString() || "unassigned";
-      if (editAssignedTo !== currentAssigned && canAssign) {
-        updates.assigned_to_user_id =
-          editAssignedTo === "unassigned" ? null : parseInt(editAssignedTo);
-      }
+  async function handleArchive(incident: Incident) {
+    if (!selectedTeamId) return;
+    if (!confirm(`Archive incident #${incident.id}? Team admins can restore it later.`)) return;
 
-      if (Object.keys(updates).length > 0) {
-        await updateIncident(selectedTeamId, editingIncident.id, updates);
-      }
+    try {
+      await archiveIncident(selectedTeamId, incident.id);
+      reloadIncidents();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to archive incident");
+    }
+  }
 
-      setEditingIncident(null);
-      loadTeamData(selectedTeamId);
+  async function handleRestore(incident: Incident) {
+    if (!selectedTeamId) return;
+
+    try {
+      await restoreIncident(selectedTeamId, incident.id);
+      loadArchived(selectedTeamId);
+      reloadIncidents();
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to update incident");
-    } finally {
-      setIsUpdating(false);
+      setError(err instanceof Error ? err.message : "Failed to restore incident");
+    }
+  }
+
+  // Linked incidents may belong to another team, opened the same way as search results
+  function handleOpenLinkedIncident(teamId: number, incidentId: number) {
+    setEditingIncident(null);
+    setSearchParams({ team: teamId.toString(), incident: incidentId.toString() });
+  }
+
+  function applyCustomFieldFilter(fieldId: number, value: string) {
+    const next = { ...customFieldFilter };
+    if (value === "all") {
+      delete next[fieldId];
+    } else {
+      next[fieldId] = value;
     }
+    setCustomFieldFilter(next);
+    resetPage();
+  }
+
+  function getUserName(userId: number | null): string {
+    if (!userId) return "Unassigned";
+    const user = teamMembers.find((m) => m.id === userId);
+    return user ? user.name : `User #${userId}`;
   }
 
   function openEditDialog(incident: Incident) {
     setEditingIncident(incident);
-    setEditTitle(incident.title);
-    setEditDescription(incident.description || "");
-    setEditStatus(incident.status);
-    setEditAssignedTo(incident.assigned_to_user_id?.toString() || "unassigned");
+    setEditConflict(null);
   }
 
   return (
@@ -211,7 +489,15 @@ export function IncidentsPage() {
             <Label htmlFor="team-select">Team:</Label>
             <Select
               value={selectedTeamId?.toString() || ""}
-              onValueChange={(value) => setSelectedTeamId(parseInt(value))}
+              onValueChange={(value) => {
+                setSelectedTeamId(parseInt(value));
+                setAssigneeFilter("all");
+                setReporterFilter("all");
+                setLabelFilter("all");
+                setCustomFieldFilter({});
+                setSelectedIds(new Set());
+                resetPage();
+              }}
             >
               <SelectTrigger className="w-[200px]">
                 <SelectValue placeholder="Select team" />
@@ -231,59 +517,174 @@ export function IncidentsPage() {
             )}
           </div>
 
-          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
-            <DialogTrigger asChild>
-              <Button disabled={!selectedTeamId}>
-                <Plus className="h-4 w-4 mr-2" />
-                New Incident
+          <div className="flex items-center gap-2">
+            {canDelete && (
+              <Button
+                variant={showArchived ? "secondary" : "outline"}
+                onClick={() => setShowArchived((prev) => !prev)}
+              >
+                <Archive className="h-4 w-4 mr-2" />
+                {showArchived ? "Back to Incidents" : "Archived"}
               </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Create New Incident</DialogTitle>
-                <DialogDescription>
-                  Report a new incident for your team to track.
-                </DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4 py-4">
-                <div className="space-y-2">
-                  <Label htmlFor="title">Title</Label>
-                  <Input
-                    id="title"
-                    placeholder="Brief summary of the incident..."
-                    value={newTitle}
-                    onChange={(e) => setNewTitle(e.target.value)}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="description">Description</Label>
-                  <Textarea
-                    id="description"
-                    placeholder="Detailed description of the incident..."
-                    value={newDescription}
-                    onChange={(e) => setNewDescription(e.target.value)}
-                    rows={4}
-                  />
-                </div>
-              </div>
-              <DialogFooter>
-                <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
-                  Cancel
-                </Button>
-                <Button onClick={handleCreate} disabled={isCreating || !newTitle.trim()}>
-                  {isCreating ? "Creating..." : "Create"}
-                </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+            )}
+
+            <IncidentCreateDialog
+              teamId={selectedTeamId}
+              members={teamMembers}
+              labels={teamLabels}
+              templates={teamTemplates}
+              fields={teamFields}
+              canAssign={canAssign}
+              onCreated={reloadIncidents}
+            />
+          </div>
         </div>
 
+        {/* Filters */}
+        {!showArchived && (
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search incidents..."
+                className="w-[220px] pl-8"
+              />
+            </div>
+            <Select
+              value={statusFilter}
+              onValueChange={(v) => applyFilter(setStatusFilter)(v as IncidentStatus | "all")}
+            >
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {(Object.keys(statusLabels) as IncidentStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {statusLabels[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          <Select
+            value={severityFilter}
+            onValueChange={(v) => applyFilter(setSeverityFilter)(v as IncidentSeverity | "all")}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All severities</SelectItem>
+              {(Object.keys(severityLabels) as IncidentSeverity[]).map((sev) => (
+                <SelectItem key={sev} value={sev}>
+                  {severityLabels[sev]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={priorityFilter}
+            onValueChange={(v) => applyFilter(setPriorityFilter)(v as IncidentPriority | "all")}
+          >
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All priorities</SelectItem>
+              {(Object.keys(priorityColors) as IncidentPriority[]).map((priority) => (
+                <SelectItem key={priority} value={priority}>
+                  {priority.toUpperCase()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+            <Select value={assigneeFilter} onValueChange={applyFilter(setAssigneeFilter)}>
+              <SelectTrigger className="w-[170px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any assignee</SelectItem>
+                <SelectItem value="me">Assigned to me</SelectItem>
+                <SelectItem value="unassigned">Unassigned</SelectItem>
+                {teamMembers.map((member) => (
+                  <SelectItem key={member.id} value={member.id.toString()}>
+                    {member.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={reporterFilter} onValueChange={applyFilter(setReporterFilter)}>
+              <SelectTrigger className="w-[170px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any reporter</SelectItem>
+                <SelectItem value="me">Reported by me</SelectItem>
+                {teamMembers.map((member) => (
+                  <SelectItem key={member.id} value={member.id.toString()}>
+                    {member.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {teamLabels.length > 0 && (
+              <Select value={labelFilter} onValueChange={applyFilter(setLabelFilter)}>
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any label</SelectItem>
+                  {teamLabels.map((label) => (
+                    <SelectItem key={label.id} value={label.id.toString()}>
+                      {label.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {selectFields.map((field) => (
+              <Select
+                key={field.id}
+                value={customFieldFilter[field.id] ?? "all"}
+                onValueChange={(v) => applyCustomFieldFilter(field.id, v)}
+              >
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any {field.name}</SelectItem>
+                  {field.options.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+          </div>
+        )}
+
         {error && (
           <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
             {error}
           </div>
         )}
 
+        {selectedTeamId && selectedVisibleIds.length > 0 && (
+          <IncidentBulkBar
+            teamId={selectedTeamId}
+            incidentIds={selectedVisibleIds}
+            members={teamMembers}
+            labels={teamLabels}
+            canAssign={canAssign}
+            canDelete={canDelete}
+            onDone={handleBulkDone}
+            onClear={() => setSelectedIds(new Set())}
+          />
+        )}
+
         {/* Incidents table */}
         {teams.length === 0 && !isLoading ? (
           <div className="text-center py-12 text-muted-foreground">
@@ -295,38 +696,76 @@ export function IncidentsPage() {
             <Table>
               <TableHeader>
                 <TableRow>
+                  {!showArchived && (
+                    <TableHead className="w-[40px]">
+                      <input
+                        type="checkbox"
+                        checked={allVisibleSelected}
+                        onChange={toggleAllSelected}
+                        aria-label="Select all incidents on this page"
+                      />
+                    </TableHead>
+                  )}
                   <TableHead>ID</TableHead>
-                  <TableHead>Title</TableHead>
-                  <TableHead>Status</TableHead>
+                  <TableHead>{renderSortableHead("Title", "title")}</TableHead>
+                  <TableHead>{renderSortableHead("Status", "status")}</TableHead>
                   <TableHead>Reported By</TableHead>
                   <TableHead>Assigned To</TableHead>
+                  <TableHead>{renderSortableHead("Created", "created_at")}</TableHead>
+                  <TableHead>{renderSortableHead("Updated", "updated_at")}</TableHead>
                   <TableHead className="w-[120px]">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {isLoading ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    <TableCell colSpan={columnCount} className="text-center py-8 text-muted-foreground">
                       Loading...
                     </TableCell>
                   </TableRow>
-                ) : incidents.length === 0 ? (
+                ) : visibleIncidents.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
-                      No incidents found
+                    <TableCell colSpan={columnCount} className="text-center py-8 text-muted-foreground">
+                      {showArchived ? "No archived incidents" : "No incidents found"}
                     </TableCell>
                   </TableRow>
                 ) : (
-                  incidents.map((incident) => (
+                  visibleIncidents.map((incident) => (
                     <TableRow key={incident.id}>
+                      {!showArchived && (
+                        <TableCell>
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(incident.id)}
+                            onChange={() => toggleSelected(incident.id)}
+                            aria-label={`Select incident #${incident.id}`}
+                          />
+                        </TableCell>
+                      )}
                       <TableCell className="font-mono">#{incident.id}</TableCell>
-                      <TableCell className="font-medium max-w-[200px] truncate">
-                        {incident.title}
+                      <TableCell className="font-medium max-w-[200px]">
+                        <div className="truncate">{incident.title}</div>
+                        {incident.labels.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {incident.labels.map((label) => (
+                              <LabelBadge key={label.id} label={label} />
+                            ))}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
-                        <Badge className={statusColors[incident.status]}>
-                          {statusLabels[incident.status]}
-                        </Badge>
+                        <div className="flex items-center gap-1">
+                          <Badge className={statusColors[incident.status]}>
+                            {statusLabels[incident.status]}
+                          </Badge>
+                          <Badge className={severityColors[incident.severity]}>
+                            {incident.severity.toUpperCase()}
+                          </Badge>
+                          <Badge className={priorityColors[incident.priority]}>
+                            {incident.priority.toUpperCase()}
+                          </Badge>
+                          <SlaBadge sla={incident.sla} />
+                        </div>
                       </TableCell>
                       <TableCell>{getUserName(incident.reported_by_user_id)}</TableCell>
                       <TableCell>
@@ -334,23 +773,66 @@ export function IncidentsPage() {
                           ? getUserName(incident.assigned_to_user_id)
                           : <span className="text-muted-foreground">Unassigned</span>}
                       </TableCell>
+                      <TableCell
+                        className="text-sm text-muted-foreground whitespace-nowrap"
+                        title={new Date(incident.created_at).toLocaleString()}
+                      >
+                        {formatRelativeTime(incident.created_at)}
+                      </TableCell>
+                      <TableCell
+                        className="text-sm text-muted-foreground whitespace-nowrap"
+                        title={new Date(incident.updated_at).toLocaleString()}
+                      >
+                        {formatRelativeTime(incident.updated_at)}
+                      </TableCell>
                       <TableCell>
-                        <div className="flex gap-1">
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => setViewingIncident(incident)}
-                          >
-                            <Eye className="h-4 w-4" />
-                          </Button>
+                        {showArchived ? (
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => openEditDialog(incident)}
+                            onClick={() => handleRestore(incident)}
                           >
-                            Edit
+                            <ArchiveRestore className="h-4 w-4 mr-1" />
+                            Restore
                           </Button>
-                        </div>
+                        ) : (
+                          <div className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setViewingIncident(incident)}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openEditDialog(incident)}
+                            >
+                              Edit
+                            </Button>
+                            {canAssign && teams.length > 1 && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setTransferringIncident(incident)}
+                                title="Transfer to another team"
+                              >
+                                <ArrowRightLeft className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {canDelete && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="text-destructive"
+                                onClick={() => handleArchive(incident)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
@@ -360,132 +842,88 @@ export function IncidentsPage() {
           </div>
         )}
 
+        {!showArchived && totalIncidents > 0 && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground whitespace-nowrap">
+              {totalIncidents} incident{totalIncidents === 1 ? "" : "s"} • Page {pageNumber} of {pageCount}
+            </p>
+            <Pagination className="mx-0 w-auto">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    aria-disabled={pageNumber === 1}
+                    className={pageNumber === 1 ? "pointer-events-none opacity-50" : ""}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setCursorStack((stack) => (stack.length > 1 ? stack.slice(0, -1) : stack));
+                    }}
+                  />
+                </PaginationItem>
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    aria-disabled={!nextCursor}
+                    className={!nextCursor ? "pointer-events-none opacity-50" : ""}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      if (nextCursor) {
+                        setCursorStack((stack) => [...stack, nextCursor]);
+                      }
+                    }}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          </div>
+        )}
+
         {/* View incident dialog */}
-        <Dialog open={!!viewingIncident} onOpenChange={(open) => !open && setViewingIncident(null)}>
-          <DialogContent className="max-w-lg">
-            <DialogHeader>
-              <DialogTitle className="flex items-center gap-2">
-                <span className="font-mono text-muted-foreground">#{viewingIncident?.id}</span>
-                {viewingIncident?.title}
-              </DialogTitle>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div className="flex items-center gap-2">
-                <span className="text-sm text-muted-foreground">Status:</span>
-                {viewingIncident && (
-                  <Badge className={statusColors[viewingIncident.status]}>
-                    {statusLabels[viewingIncident.status]}
-                  </Badge>
-                )}
-              </div>
-              <div>
-                <span className="text-sm font-medium">Description</span>
-                <Card className="mt-2">
-                  <CardContent className="pt-4 max-h-[200px] overflow-y-auto">
-                    {viewingIncident?.description ? (
-                      <p className="text-sm whitespace-pre-wrap">{viewingIncident.description}</p>
-                    ) : (
-                      <p className="text-sm text-muted-foreground italic">No description provided</p>
-                    )}
-                  </CardContent>
-                </Card>
-              </div>
-              <div className="flex gap-4 text-sm text-muted-foreground">
-                <span>Reported by: {viewingIncident && getUserName(viewingIncident.reported_by_user_id)}</span>
-                <span>
-                  Assigned to:{" "}
-                  {viewingIncident?.assigned_to_user_id
-                    ? getUserName(viewingIncident.assigned_to_user_id)
-                    : "Unassigned"}
-                </span>
-              </div>
-            </div>
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setViewingIncident(null)}>
-                Close
-              </Button>
-              <Button
-                onClick={() => {
-                  if (viewingIncident) {
-                    openEditDialog(viewingIncident);
-                    setViewingIncident(null);
-                  }
-                }}
-              >
-                Edit
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+        {selectedTeamId && (
+          <IncidentViewDialog
+            teamId={selectedTeamId}
+            incident={viewingIncident}
+            fields={teamFields}
+            myRole={myRole}
+            getUserName={getUserName}
+            onClose={() => setViewingIncident(null)}
+            onEdit={(incident) => {
+              openEditDialog(incident);
+              setViewingIncident(null);
+            }}
+            onOpenIncident={handleOpenLinkedIncident}
+          />
+        )}
+
+        {/* Transfer incident dialog */}
+        {selectedTeamId && (
+          <IncidentTransferDialog
+            teamId={selectedTeamId}
+            incident={transferringIncident}
+            teams={teams}
+            onClose={() => setTransferringIncident(null)}
+            onTransferred={reloadIncidents}
+          />
+        )}
 
         {/* Edit incident dialog */}
-        <Dialog open={!!editingIncident} onOpenChange={(open) => !open && setEditingIncident(null)}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Edit Incident #{editingIncident?.id}</DialogTitle>
-              <DialogDescription>Update the incident details</DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4 py-4">
-              <div className="space-y-2">
-                <Label>Title</Label>
-                <Input
-                  value={editTitle}
-                  onChange={(e) => setEditTitle(e.target.value)}
-                  placeholder="Incident title..."
-                />
-              </div>
-              <div className="space-y-2">
-                <Label>Description</Label>
-                <Textarea
-                  value={editDescription}
-                  onChange={(e) => setEditDescription(e.target.value)}
-                  placeholder="Detailed description..."
-                  rows={4}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label>Status</Label>
-                <Select value={editStatus} onValueChange={(v) => setEditStatus(v as IncidentStatus)}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="under_review">Under Review</SelectItem>
-                    <SelectItem value="escalated">Escalated</SelectItem>
-                    <SelectItem value="resolved">Resolved</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              {canAssign && (
-                <div className="space-y-2">
-                  <Label>Assigned To</Label>
-                  <Select value={editAssignedTo} onValueChange={setEditAssignedTo}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="unassigned">Unassigned</SelectItem>
-                      {teamMembers.map((member) => (
-                        <SelectItem key={member.id} value={member.id.toString()}>
-                          {member.name} ({member.role})
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              )}
-            </div>
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setEditingIncident(null)}>
-                Cancel
-              </Button>
-              <Button onClick={handleUpdate} disabled={isUpdating || !editTitle.trim()}>
-                {isUpdating ? "Updating..." : "Save Changes"}
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+        {selectedTeamId && (
+          <IncidentEditDialog
+            teamId={selectedTeamId}
+            incident={editingIncident}
+            conflict={editConflict}
+            members={teamMembers}
+            labels={teamLabels}
+            fields={teamFields}
+            workflow={workflow}
+            myRole={myRole}
+            getUserName={getUserName}
+            onClose={() => setEditingIncident(null)}
+            onLoadLatest={openEditDialog}
+            onSaved={reloadIncidents}
+            onOpenIncident={handleOpenLinkedIncident}
+          />
+        )}
       </div>
     </AppLayout>
   );
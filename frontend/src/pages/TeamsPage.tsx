@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { AppLayout } from "@/components";
+import { AppLayout, TeamWorkflowEditor, TeamLabelsEditor, TeamWebhooksEditor, TeamAlertIntegration, TeamSlaEditor, TeamAssignmentEditor, TeamOnCallEditor, TeamEscalationEditor, TeamTemplatesEditor, TeamCustomFieldsEditor } from "@/components";
 import {
   Table,
   TableBody,
@@ -234,7 +234,7 @@ export function TeamsPage() {
             </div>
 
             {/* Team members */}
-            <div className="md:col-span-2">
+            <div className="md:col-span-2 space-y-6">
               {selectedTeam && (
                 <Card>
                   <CardHeader>
@@ -390,6 +390,84 @@ export function TeamsPage() {
                   </CardContent>
                 </Card>
               )}
+
+              {selectedTeam && (
+                <TeamWorkflowEditor
+                  teamId={selectedTeam.id}
+                  canEdit={isTeamAdmin}
+                  onSaved={showSuccess}
+                />
+              )}
+
+              {selectedTeam && (
+                <TeamOnCallEditor
+                  teamId={selectedTeam.id}
+                  members={teamUsers}
+                  canEditSchedules={isTeamAdmin}
+                  canEditOverrides={myRoleInTeam === "admin" || myRoleInTeam === "manager"}
+                  onSaved={showSuccess}
+                />
+              )}
+
+              {selectedTeam && (
+                <TeamEscalationEditor
+                  teamId={selectedTeam.id}
+                  users={allUsers}
+                  teams={teams}
+                  canEdit={isTeamAdmin}
+                  onSaved={showSuccess}
+                />
+              )}
+
+              {selectedTeam && (
+                <TeamAssignmentEditor
+                  teamId={selectedTeam.id}
+                  members={teamUsers}
+                  canEdit={isTeamAdmin}
+                  canViewLog={myRoleInTeam === "admin" || myRoleInTeam === "manager"}
+                  onSaved={showSuccess}
+                />
+              )}
+
+              {selectedTeam && (
+                <TeamSlaEditor
+                  teamId={selectedTeam.id}
+                  canEdit={isTeamAdmin}
+                  onSaved={showSuccess}
+                />
+              )}
+
+              {selectedTeam && (
+                <TeamLabelsEditor
+                  teamId={selectedTeam.id}
+                  canEdit={myRoleInTeam === "admin" || myRoleInTeam === "manager"}
+                  onSaved={showSuccess}
+                />
+              )}
+
+              {selectedTeam && (
+                <TeamCustomFieldsEditor
+                  teamId={selectedTeam.id}
+                  canEdit={isTeamAdmin}
+                  onSaved={showSuccess}
+                />
+              )}
+
+              {selectedTeam && (
+                <TeamTemplatesEditor
+                  teamId={selectedTeam.id}
+                  canEdit={myRoleInTeam === "admin" || myRoleInTeam === "manager"}
+                  onSaved={showSuccess}
+                />
+              )}
+
+              {selectedTeam && isTeamAdmin && (
+                <TeamWebhooksEditor teamId={selectedTeam.id} onSaved={showSuccess} />
+              )}
+
+              {selectedTeam && isTeamAdmin && (
+                <TeamAlertIntegration teamId={selectedTeam.id} onSaved={showSuccess} />
+              )}
             </div>
           </div>
         )}